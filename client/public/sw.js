@@ -0,0 +1,35 @@
+// Service worker showing the reminders pushed by the server. Payloads are
+// JSON: { title, body, url?, tag? }.
+
+self.addEventListener("push", (event) => {
+  let notification = { title: "MindJourney", body: "" };
+  try {
+    notification = { ...notification, ...event.data.json() };
+  } catch {
+    if (event.data) notification.body = event.data.text();
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(notification.title, {
+      body: notification.body,
+      tag: notification.tag,
+      data: { url: notification.url || "/" },
+    }),
+  );
+});
+
+// Focus an open tab of the app when there is one, otherwise open one
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || "/", self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((client) => client.url.startsWith(self.location.origin));
+      if (open) {
+        return open.focus().then((client) => client.navigate(url));
+      }
+      return self.clients.openWindow(url);
+    }),
+  );
+});
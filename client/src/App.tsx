@@ -1,26 +1,20 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, Redirect } from "wouter";
 import Home from "@/pages/Home";
 import Journal from "@/pages/Journal";
 import Meditate from "@/pages/Meditate";
 import Profile from "@/pages/Profile";
+import Login from "@/pages/Login";
 import NotFound from "@/pages/not-found";
 import Header from "@/components/Header";
 import Navigation from "@/components/BottomNavigation";
 import Onboarding from "@/components/Onboarding";
 import { useState, useEffect } from "react";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useAuth } from "@/hooks/use-auth";
 import { Toaster } from "@/components/ui/toaster";
 
-// Mock user data (in a real app, this would come from authentication)
-const defaultUser = {
-  id: 1,
-  username: "alex",
-  name: "Alex",
-};
-
 function App() {
-  // In a real app, this would be retrieved from an authentication context
-  const [user] = useState(defaultUser);
+  const { user, isLoading } = useAuth();
   const isMobile = useIsMobile();
   const [showOnboarding, setShowOnboarding] = useState(false);
   const [isFirstVisit, setIsFirstVisit] = useState(true);
@@ -47,6 +41,29 @@ function App() {
     setIsFirstVisit(false);
   };
   
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <i className="ri-loader-4-line animate-spin text-3xl text-primary-500"></i>
+      </div>
+    );
+  }
+  
+  // Visiteurs non connectés : seule la page de connexion est accessible
+  if (!user) {
+    return (
+      <>
+        <Switch>
+          <Route path="/login" component={Login} />
+          <Route>
+            <Redirect to="/login" />
+          </Route>
+        </Switch>
+        <Toaster />
+      </>
+    );
+  }
+  
   return (
     <div className="min-h-screen flex flex-col bg-background font-sans text-foreground">
       {isMobile && <Header user={user} />}
@@ -61,6 +78,9 @@ function App() {
               <Route path="/journal" component={() => <Journal user={user} />} />
               <Route path="/meditate" component={() => <Meditate user={user} />} />
               <Route path="/profile" component={() => <Profile user={user} />} />
+              <Route path="/login">
+                <Redirect to="/" />
+              </Route>
               <Route component={NotFound} />
             </Switch>
           </div>
@@ -1,20 +1,41 @@
 import { useState, useRef, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { User } from "@/types";
+import {
+  User,
+  SafetyResult,
+  JournalEntry,
+  WithSafety,
+  Conversation,
+  ConversationWithMessages,
+  CopilotCBTSession,
+  CopilotAction,
+  CopilotChatResponse,
+  CBTAnalysisResponse
+} from "@/types";
 import { apiRequest } from "@/lib/queryClient";
 import { getCBTAnalysis } from "@/lib/openai";
+import { draftStep } from "@/lib/journal";
+import { postEventStream } from "@/lib/sse";
+import CrisisResources from "@/components/CrisisResources";
 
 interface Message {
   id: string;
   sender: "user" | "ai";
   text: string;
+  actions?: CopilotAction[] | null;
+  // Reply still being streamed from the server
+  streaming?: boolean;
   timestamp: Date;
 }
 
 interface AICopilotProps {
   user: User;
+  // Actions that open something outside the chat (breathing, journal, meditation)
+  onAction?: (action: CopilotAction) => void;
 }
 
 // CBT structured flow steps
@@ -28,32 +49,91 @@ enum CBTStep {
   COMPLETE = "complete"
 }
 
-// CBT session data
-interface CBTSession {
-  active: boolean;
-  currentStep: CBTStep;
-  situation: string;
-  emotion: string;
-  emotionIntensity?: number;
-  thought: string;
-  challenge?: string;
-  reframe?: string;
+// CBT session data, saved on the server conversation after every turn
+type CBTSession = CopilotCBTSession;
+
+const initialCBTSession: CBTSession = {
+  active: false,
+  currentStep: CBTStep.INITIAL,
+  situation: "",
+  emotion: "",
+  thought: "",
+};
+
+interface CBTReply {
+  text: string;
+  session: CBTSession;
 }
 
-export default function AICopilot({ user }: AICopilotProps) {
+// Parts of the journal draft, shared with the journal wizard, filled in by the exercise
+type DraftAnswer = Partial<Pick<JournalEntry, "situation" | "emotion" | "thought" | "challenge" | "reframe" | "thoughtPatternIds" | "analysis">>;
+
+// Question asked while waiting for the answer of each step
+const cbtQuestions = {
+  [CBTStep.SITUATION]: "Décrivez d'abord brièvement la situation qui vous préoccupe.",
+  [CBTStep.EMOTION]: "Quelles émotions ressentez-vous face à cette situation? (Par exemple: anxiété, tristesse, colère, frustration...)",
+  [CBTStep.THOUGHT]: "Quelles pensées ou croyances vous traversent l'esprit dans cette situation?",
+  [CBTStep.CHALLENGE]: "Essayons maintenant de remettre en question cette pensée. Quelles preuves avez-vous que cette pensée est vraie ou fausse? Y a-t-il d'autres façons de voir la situation?",
+  [CBTStep.REFRAME]: "Maintenant, essayons de reformuler votre pensée initiale de manière plus équilibrée et réaliste. Quelle serait une perspective alternative plus aidante?",
+};
+
+// Draft steps of the journal wizard, as exercise steps waiting for an answer
+const draftCBTSteps = {
+  situation: CBTStep.SITUATION,
+  emotion: CBTStep.EMOTION,
+  thought: CBTStep.THOUGHT,
+  challenge: CBTStep.CHALLENGE,
+} as const;
+
+// Reply to a thought once the AI has matched it to a pattern
+const analysisQuestion = (analysis: CBTAnalysisResponse) =>
+  `J'ai analysé votre pensée et elle semble correspondre au schéma de "${analysis.thoughtPattern}". ${analysis.patternExplanation}\n\nVoici comment nous pourrions la remettre en question: ${analysis.challenge}\n\nQu'en pensez-vous? Pouvez-vous ajouter votre propre remise en question de cette pensée?`;
+
+const actionLabels: Record<CopilotAction["type"], { label: string; icon: string }> = {
+  breathing: { label: "Exercice de respiration", icon: "ri-windy-line" },
+  journal: { label: "Ouvrir le journal", icon: "ri-book-open-line" },
+  cbt_exercise: { label: "Restructurer une pensée", icon: "ri-psychology-line" },
+  meditation: { label: "Lancer la méditation", icon: "ri-mental-health-line" },
+};
+
+export default function AICopilot({ user, onAction }: AICopilotProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [isTyping, setIsTyping] = useState(false);
+  const [safety, setSafety] = useState<SafetyResult | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [conversationId, setConversationId] = useState<number | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Pending or settled id of the server conversation, created on the first message
+  const conversationRef = useRef<Promise<number> | null>(null);
+  const hasRestoredRef = useRef(false);
+  // Cancels the reply being streamed, e.g. when the panel is closed
+  const streamRef = useRef<AbortController | null>(null);
+  const queryClient = useQueryClient();
   
   // CBT session state
-  const [cbtSession, setCbtSession] = useState<CBTSession>({
-    active: false,
-    currentStep: CBTStep.INITIAL,
-    situation: "",
-    emotion: "",
-    thought: "",
+  const [cbtSession, setCbtSession] = useState<CBTSession>(initialCBTSession);
+  
+  const { data: conversations } = useQuery({
+    queryKey: ["/api/conversations", { userId: user.id }],
+    queryFn: async () => {
+      const response = await fetch("/api/conversations", {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to fetch conversations");
+      }
+      return response.json() as Promise<Conversation[]>;
+    },
+    enabled: isOpen,
+  });
+  
+  const welcomeMessage = (): Message => ({
+    id: "welcome",
+    sender: "ai",
+    text: `Bonjour ${user.name || "there"}! Je suis votre assistant de bien-être mental. Comment puis-je vous aider aujourd'hui?`,
+    timestamp: new Date()
   });
   
   // Scroll to bottom of messages when new messages are added
@@ -61,155 +141,376 @@ export default function AICopilot({ user }: AICopilotProps) {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
   
+  // Stop generating a reply nobody will read
+  useEffect(() => () => streamRef.current?.abort(), []);
+  
   // Initial greeting message
   useEffect(() => {
     if (messages.length === 0) {
+      setMessages([welcomeMessage()]);
+    }
+  }, [user.name, messages.length]);
+  
+  // The first time the panel opens, pick up an exercise left unfinished,
+  // possibly on another device
+  useEffect(() => {
+    if (!conversations || hasRestoredRef.current) return;
+    hasRestoredRef.current = true;
+    
+    const unfinished = conversations.find((conversation) => conversation.cbtSession?.active);
+    if (unfinished && conversationRef.current === null) {
+      resumeConversation(unfinished.id);
+    }
+  }, [conversations]);
+  
+  const resumeConversation = async (id: number) => {
+    try {
+      const response = await apiRequest("GET", `/api/conversations/${id}`);
+      const conversation: ConversationWithMessages = await response.json();
+      
+      conversationRef.current = Promise.resolve(conversation.id);
+      setConversationId(conversation.id);
+      setCbtSession(conversation.cbtSession ?? initialCBTSession);
       setMessages([
-        {
-          id: "welcome",
-          sender: "ai",
-          text: `Bonjour ${user.name || "there"}! Je suis votre assistant de bien-être mental. Comment puis-je vous aider aujourd'hui?`,
-          timestamp: new Date()
-        }
+        welcomeMessage(),
+        ...conversation.messages.map((message) => ({
+          id: `${message.sender}-${message.id}`,
+          sender: message.sender,
+          text: message.text,
+          actions: message.actions,
+          timestamp: new Date(message.createdAt)
+        }))
       ]);
+      setShowHistory(false);
+    } catch (error) {
+      console.error("Error loading conversation:", error);
     }
-  }, [user.name, messages.length]);
+  };
+  
+  const closePanel = () => {
+    streamRef.current?.abort();
+    setIsOpen(false);
+  };
+  
+  const startNewConversation = () => {
+    streamRef.current?.abort();
+    conversationRef.current = null;
+    setConversationId(null);
+    setCbtSession(initialCBTSession);
+    setMessages([]);
+    setShowHistory(false);
+  };
+  
+  const deleteConversationMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/conversations/${id}`);
+    },
+    onSuccess: (_data, id) => {
+      if (id === conversationId) startNewConversation();
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations", { userId: user.id }] });
+    }
+  });
+  
+  const getConversationId = () => {
+    if (!conversationRef.current) {
+      const created = apiRequest("POST", "/api/conversations", {})
+        .then((response) => response.json() as Promise<Conversation>)
+        .then((conversation) => {
+          setConversationId(conversation.id);
+          return conversation.id;
+        });
+      // A failed creation is retried on the next turn
+      created.catch(() => {
+        if (conversationRef.current === created) conversationRef.current = null;
+      });
+      conversationRef.current = created;
+    }
+    return conversationRef.current;
+  };
+  
+  // Saves a user message, the reply and the resulting exercise state together
+  const persistTurn = async (turn: Message[], session: CBTSession) => {
+    try {
+      const id = await getConversationId();
+      await apiRequest("POST", `/api/conversations/${id}/messages`, {
+        messages: turn.map(({ sender, text }) => ({ sender, text })),
+        cbtSession: session
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations", { userId: user.id }] });
+    } catch (error) {
+      console.error("Error saving conversation:", error);
+    }
+  };
   
   const handleSendMessage = () => {
-    if (!input.trim()) return;
+    if (!input.trim() || isTyping) return;
+    
+    const text = input;
     
     // Add user message
     const userMessage: Message = {
       id: `user-${Date.now()}`,
       sender: "user",
-      text: input,
+      text,
       timestamp: new Date()
     };
     
     setMessages(prev => [...prev, userMessage]);
+    setInput("");
+    setIsTyping(true);
     
-    // Save user input based on current CBT step if in active session
-    if (cbtSession.active) {
-      processCBTResponse(input);
+    if (!cbtSession.active) {
+      askCopilot(text).finally(() => setIsTyping(false));
+      return;
     }
     
-    setInput("");
+    answerCBTStep(userMessage).finally(() => setIsTyping(false));
+  };
+  
+  // The scripted CBT steps reply as soon as the answer is saved, and the
+  // thought step once it is analysed
+  const answerCBTStep = async (userMessage: Message) => {
+    const reply = await continueCBTSession(cbtSession, userMessage.text);
     
-    // Simulate AI thinking
-    setIsTyping(true);
+    const aiMessage: Message = {
+      id: `ai-${Date.now()}`,
+      sender: "ai",
+      text: reply.text,
+      timestamp: new Date()
+    };
     
-    // Generate response based on session state
-    setTimeout(() => {
-      if (cbtSession.active) {
-        generateNextCBTPrompt();
-      } else {
-        respondToMessage(input);
-      }
-      setIsTyping(false);
-    }, 1500);
+    setMessages(prev => [...prev, aiMessage]);
+    setCbtSession(reply.session);
+    
+    persistTurn([userMessage, aiMessage], reply.session);
   };
   
-  // Process user's response in CBT flow
-  const processCBTResponse = (userInput: string) => {
-    switch (cbtSession.currentStep) {
-      case CBTStep.SITUATION:
-        setCbtSession(prev => ({ ...prev, situation: userInput, currentStep: CBTStep.EMOTION }));
-        break;
-      case CBTStep.EMOTION:
-        setCbtSession(prev => ({ ...prev, emotion: userInput, currentStep: CBTStep.THOUGHT }));
-        break;
-      case CBTStep.THOUGHT:
-        setCbtSession(prev => ({ ...prev, thought: userInput, currentStep: CBTStep.CHALLENGE }));
-        break;
-      case CBTStep.CHALLENGE:
-        setCbtSession(prev => ({ ...prev, challenge: userInput, currentStep: CBTStep.REFRAME }));
-        break;
-      case CBTStep.REFRAME:
-        setCbtSession(prev => ({ ...prev, reframe: userInput, currentStep: CBTStep.COMPLETE }));
-        // Here we would save the complete CBT entry
-        saveCBTJournalEntry();
-        break;
+  // Free conversation goes to the AI backend, which also saves both messages.
+  // The reply is streamed into a placeholder message as it is generated.
+  const askCopilot = async (text: string) => {
+    const streamId = `ai-stream-${Date.now()}`;
+    const controller = new AbortController();
+    streamRef.current = controller;
+    
+    const updateStream = (update: (message: Message) => Message | null) => {
+      setMessages(prev => prev.flatMap((message) => {
+        if (message.id !== streamId) return [message];
+        const updated = update(message);
+        return updated ? [updated] : [];
+      }));
+    };
+    
+    try {
+      const id = await getConversationId();
+      let result: CopilotChatResponse | null = null;
+      let failure: string | null = null;
+      
+      await postEventStream("/api/copilot/chat/stream", { conversationId: id, message: text }, ({ event, data }) => {
+        const payload = JSON.parse(data);
+        if (event === "delta") {
+          setMessages(prev => prev.some((message) => message.id === streamId)
+            ? prev.map((message) => message.id === streamId ? { ...message, text: message.text + payload.text } : message)
+            : [...prev, { id: streamId, sender: "ai", text: payload.text, streaming: true, timestamp: new Date() }]);
+        } else if (event === "done") {
+          result = payload;
+        } else if (event === "error") {
+          failure = payload.message;
+        }
+      }, controller.signal);
+      
+      if (!result) throw new Error(failure ?? "The reply stream ended early");
+      const { messages: saved, safety: replySafety }: CopilotChatResponse = result;
+      const reply = saved[saved.length - 1];
+      
+      setMessages(prev => [...prev.filter((message) => message.id !== streamId), {
+        id: `ai-${reply.id}`,
+        sender: "ai",
+        text: reply.text,
+        actions: reply.actions,
+        timestamp: new Date(reply.createdAt)
+      }]);
+      if (replySafety.flagged) setSafety(replySafety);
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations", { userId: user.id }] });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        // The server keeps what was generated so far, keep it on screen too
+        updateStream((message) => message.text.trim() ? { ...message, streaming: false } : null);
+        return;
+      }
+      
+      console.error("Error getting copilot reply:", error);
+      updateStream(() => null);
+      setMessages(prev => [...prev, {
+        id: `ai-error-${Date.now()}`,
+        sender: "ai",
+        text: "Désolé, je n'arrive pas à répondre pour le moment. Vous pouvez réessayer dans un instant, ou essayer un exercice de respiration ou de restructuration des pensées.",
+        actions: [{ type: "breathing" }, { type: "cbt_exercise" }],
+        timestamp: new Date()
+      }]);
+    } finally {
+      if (streamRef.current === controller) streamRef.current = null;
     }
   };
   
-  // Generate the next prompt in the CBT flow
-  const generateNextCBTPrompt = async () => {
-    let response = "";
+  const handleAction = async (action: CopilotAction) => {
+    if (action.type !== "cbt_exercise") {
+      onAction?.(action);
+      return;
+    }
+    if (cbtSession.active) return;
+    
+    // Ask the first question right away and save the exercise as started
+    const draft = await fetchJournalDraft();
+    const reply = draft
+      ? resumeDraft(draft)
+      : await continueCBTSession({ ...initialCBTSession, active: true }, "");
+    const aiMessage: Message = {
+      id: `ai-${Date.now()}`,
+      sender: "ai",
+      text: reply.text,
+      timestamp: new Date()
+    };
     
-    switch (cbtSession.currentStep) {
+    setMessages(prev => [...prev, aiMessage]);
+    setCbtSession(reply.session);
+    persistTurn([aiMessage], reply.session);
+  };
+  
+  const fetchJournalDraft = async () => {
+    try {
+      const response = await apiRequest("GET", "/api/journal/draft");
+      return await response.json() as JournalEntry | null;
+    } catch (error) {
+      console.error("Error loading journal draft:", error);
+      return null;
+    }
+  };
+  
+  // Saves an answer in the journal draft as soon as it is given, so the
+  // entry can also be finished in the journal
+  const saveDraftAnswer = async (answer: DraftAnswer) => {
+    try {
+      await apiRequest("PUT", "/api/journal/draft", answer);
+      queryClient.invalidateQueries({ queryKey: ["/api/journal/draft", { userId: user.id }] });
+    } catch (error) {
+      console.error("Error saving journal draft:", error);
+    }
+  };
+  
+  // Continue an entry started earlier, here or in the journal, at the first
+  // step it is missing
+  const resumeDraft = (draft: JournalEntry): CBTReply => {
+    const currentStep = draftCBTSteps[draftStep(draft)];
+    return {
+      text: `Reprenons l'exercice que vous aviez commencé. ${
+        currentStep === CBTStep.CHALLENGE && draft.analysis ? analysisQuestion(draft.analysis) : cbtQuestions[currentStep]
+      }`,
+      session: {
+        active: true,
+        currentStep,
+        situation: draft.situation,
+        emotion: draft.emotion,
+        thought: draft.thought,
+        thoughtPatternId: draft.thoughtPatternIds[0] ?? null
+      }
+    };
+  };
+  
+  // Record the user's answer for the current CBT step and ask the next question
+  const continueCBTSession = async (session: CBTSession, userInput: string): Promise<CBTReply> => {
+    switch (session.currentStep) {
       case CBTStep.INITIAL:
-        response = "D'accord, commençons notre exercice de restructuration des pensées. Décrivez d'abord brièvement la situation qui vous préoccupe.";
-        setCbtSession(prev => ({ ...prev, currentStep: CBTStep.SITUATION }));
-        break;
+        return {
+          text: `D'accord, commençons notre exercice de restructuration des pensées. ${cbtQuestions[CBTStep.SITUATION]}`,
+          session: { ...session, currentStep: CBTStep.SITUATION }
+        };
       
       case CBTStep.SITUATION:
-        response = "Quelles émotions ressentez-vous face à cette situation? (Par exemple: anxiété, tristesse, colère, frustration...)";
-        break;
+        await saveDraftAnswer({ situation: userInput });
+        return {
+          text: cbtQuestions[CBTStep.EMOTION],
+          session: { ...session, situation: userInput, currentStep: CBTStep.EMOTION }
+        };
       
       case CBTStep.EMOTION:
-        response = "Quelles pensées ou croyances vous traversent l'esprit dans cette situation?";
-        break;
+        await saveDraftAnswer({ emotion: userInput });
+        return {
+          text: cbtQuestions[CBTStep.THOUGHT],
+          session: { ...session, emotion: userInput, currentStep: CBTStep.THOUGHT }
+        };
       
-      case CBTStep.THOUGHT:
+      case CBTStep.THOUGHT: {
+        const next: CBTSession = { ...session, thought: userInput, currentStep: CBTStep.CHALLENGE };
+        await saveDraftAnswer({ thought: userInput });
+        
         // Analyse AI pour identifier le modèle de pensée et suggérer des défis
         try {
-          setIsTyping(true);
+          const aiAnalysis = await getCBTAnalysis(next.situation, next.emotion, next.thought);
           
-          const aiAnalysis = await getCBTAnalysis(
-            cbtSession.situation,
-            cbtSession.emotion,
-            cbtSession.thought
-          );
+          if (!("thoughtPattern" in aiAnalysis)) {
+            // A crisis: no challenge of the thought, offer support instead
+            setSafety(aiAnalysis.safety);
+            return {
+              text: "Merci de m'avoir confié cela. Ce que vous traversez semble très douloureux, et vous méritez d'être soutenu·e dès maintenant. Je vous ai affiché des contacts d'aide joignables à tout moment. Voulez-vous en parler à quelqu'un de confiance?",
+              session: initialCBTSession
+            };
+          }
           
-          response = `J'ai analysé votre pensée et elle semble correspondre au schéma de "${aiAnalysis.thoughtPattern}". ${aiAnalysis.patternExplanation}\n\nVoici comment nous pourrions la remettre en question: ${aiAnalysis.challenge}\n\nQu'en pensez-vous? Pouvez-vous ajouter votre propre remise en question de cette pensée?`;
+          const { safety: analysisSafety, resources: _resources, ...analysis } = aiAnalysis;
+          if (analysisSafety.flagged) setSafety(analysisSafety);
+          await saveDraftAnswer({
+            thoughtPatternIds: analysis.thoughtPatternId ? [analysis.thoughtPatternId] : [],
+            analysis
+          });
+          return {
+            text: analysisQuestion(analysis),
+            session: { ...next, thoughtPatternId: analysis.thoughtPatternId }
+          };
         } catch (error) {
           console.error("Error analyzing thoughts:", error);
-          response = "Essayons maintenant de remettre en question cette pensée. Quelles preuves avez-vous que cette pensée est vraie ou fausse? Y a-t-il d'autres façons de voir la situation?";
+          return {
+            text: cbtQuestions[CBTStep.CHALLENGE],
+            session: next
+          };
         }
-        break;
+      }
       
       case CBTStep.CHALLENGE:
-        response = "Maintenant, essayons de reformuler votre pensée initiale de manière plus équilibrée et réaliste. Quelle serait une perspective alternative plus aidante?";
-        break;
+        await saveDraftAnswer({ challenge: userInput });
+        return {
+          text: cbtQuestions[CBTStep.REFRAME],
+          session: { ...session, challenge: userInput, currentStep: CBTStep.REFRAME }
+        };
       
-      case CBTStep.REFRAME:
-        response = "Excellent travail! Vous avez complété l'exercice de restructuration des pensées. Comment vous sentez-vous maintenant par rapport à cette situation?";
-        break;
+      case CBTStep.REFRAME: {
+        const next: CBTSession = { ...session, reframe: userInput, currentStep: CBTStep.COMPLETE };
+        await saveDraftAnswer({ reframe: userInput });
+        await saveCBTJournalEntry();
+        return {
+          text: "Excellent travail! Vous avez complété l'exercice de restructuration des pensées. Comment vous sentez-vous maintenant par rapport à cette situation?",
+          session: next
+        };
+      }
       
       case CBTStep.COMPLETE:
-        response = "Votre exercice de restructuration des pensées a été enregistré dans votre journal. Vous pouvez le consulter à tout moment. Souhaitez-vous explorer autre chose?";
+      default:
         // Reset CBT session
-        setCbtSession({
-          active: false,
-          currentStep: CBTStep.INITIAL,
-          situation: "",
-          emotion: "",
-          thought: ""
-        });
-        break;
+        return {
+          text: "Votre exercice de restructuration des pensées a été enregistré dans votre journal. Vous pouvez le consulter à tout moment. Souhaitez-vous explorer autre chose?",
+          session: initialCBTSession
+        };
     }
-    
-    const aiMessage: Message = {
-      id: `ai-${Date.now()}`,
-      sender: "ai",
-      text: response,
-      timestamp: new Date()
-    };
-    
-    setMessages(prev => [...prev, aiMessage]);
   };
   
-  // Save the complete CBT journal entry
+  // Turn the journal draft, now complete, into a journal entry
   const saveCBTJournalEntry = async () => {
     try {
-      await apiRequest("POST", "/api/journal", {
-        userId: user.id,
-        situation: cbtSession.situation,
-        emotion: cbtSession.emotion,
-        thought: cbtSession.thought,
-        challenge: cbtSession.challenge,
-        reframe: cbtSession.reframe
-      });
+      const response = await apiRequest("POST", "/api/journal/draft/complete");
+      const entry: WithSafety<JournalEntry> = await response.json();
+      if (entry.safety.flagged) setSafety(entry.safety);
+      queryClient.invalidateQueries({ queryKey: ["/api/journal", { userId: user.id }] });
+      queryClient.invalidateQueries({ queryKey: ["/api/journal/draft", { userId: user.id }] });
+      queryClient.invalidateQueries({ queryKey: ["/api/insights/thought-patterns", { userId: user.id }] });
       
       // Success message is handled in the COMPLETE step
     } catch (error) {
@@ -226,62 +527,6 @@ export default function AICopilot({ user }: AICopilotProps) {
     }
   };
   
-  const respondToMessage = (userInput: string) => {
-    // Détection des intentions et génération de réponses
-    let response = "";
-    
-    const lowerInput = userInput.toLowerCase();
-    
-    // Check if user wants to start CBT exercise
-    if (lowerInput.includes("pensée") || lowerInput.includes("restructur") || 
-        lowerInput.includes("cbt") || lowerInput.includes("tcc") || 
-        lowerInput.includes("pensees négatives") || lowerInput.includes("exercice")) {
-      
-      setCbtSession(prev => ({ ...prev, active: true, currentStep: CBTStep.INITIAL }));
-      response = "Je serais ravi de vous guider à travers un exercice de restructuration des pensées. Cela vous aidera à identifier et transformer vos pensées négatives. Êtes-vous prêt à commencer?";
-      
-    } else if (lowerInput.includes("anxieux") || lowerInput.includes("anxiété") || lowerInput.includes("stress")) {
-      response = "Je comprends à quel point l'anxiété peut être accablante. Souhaitez-vous essayer un exercice rapide de respiration pour vous aider à calmer vos nerfs, ou préférez-vous parler davantage de ce qui cause votre anxiété?";
-      
-    } else if (lowerInput.includes("triste") || lowerInput.includes("déprimé")) {
-      response = "Je suis désolé d'apprendre que vous vous sentez mal. Rappelez-vous que les émotions sont temporaires et qu'il est normal de se sentir triste parfois. Voulez-vous parler de ce qui contribue à ces sentiments?";
-      
-    } else if (lowerInput.includes("stressé") || lowerInput.includes("débordé")) {
-      response = "Quand vous vous sentez stressé, il peut être utile de décomposer les choses en tâches plus petites et gérables. Souhaitez-vous des techniques pour gérer le stress, ou préférez-vous explorer ce qui cause ce sentiment?";
-      
-    } else if (lowerInput.includes("respiration") || lowerInput.includes("respirer")) {
-      response = "Les exercices de respiration peuvent vraiment aider! Essayez la technique 4-7-8: Inspirez pendant 4 secondes, retenez pendant 7 secondes, puis expirez pendant 8 secondes. Répétez cela 4 fois et remarquez comment votre corps se sent.";
-      
-    } else if (lowerInput.includes("méditation") || lowerInput.includes("méditer")) {
-      response = "La méditation est une excellente pratique pour le bien-être mental. L'application propose plusieurs méditations guidées. Voulez-vous que je vous en recommande une en fonction de ce que vous ressentez?";
-      
-    } else if (lowerInput.includes("bonjour") || lowerInput.includes("salut")) {
-      response = `Bonjour ${user.name || "there"}! Comment vous sentez-vous aujourd'hui? Je suis là pour soutenir votre parcours de bien-être mental.`;
-      
-    } else if (lowerInput.includes("obiectif") || lowerInput.includes("but")) {
-      response = "Fixer des objectifs est une excellente façon de progresser. Voulez-vous que je vous aide à définir un objectif de bien-être et à élaborer un plan pour l'atteindre?";
-      
-    } else {
-      response = "Merci de partager. Voulez-vous explorer cela plus en détail, ou peut-être essayer l'un de nos exercices comme la respiration, la méditation ou la restructuration des pensées?";
-    }
-    
-    const aiMessage: Message = {
-      id: `ai-${Date.now()}`,
-      sender: "ai",
-      text: response,
-      timestamp: new Date()
-    };
-    
-    setMessages(prev => [...prev, aiMessage]);
-    
-    // If starting CBT flow, proceed to first prompt
-    if (cbtSession.active && cbtSession.currentStep === CBTStep.INITIAL) {
-      setTimeout(() => {
-        generateNextCBTPrompt();
-      }, 1500);
-    }
-  };
-  
   return (
     <>
       {/* Floating button to open chat */}
@@ -310,56 +555,140 @@ export default function AICopilot({ user }: AICopilotProps) {
                   <i className="ri-robot-line text-accent-500 mr-2"></i>
                   Coach Mental IA
                 </h2>
-                <Button 
-                  variant="ghost" 
-                  size="icon" 
-                  className="text-gray-500 hover:text-gray-700"
-                  onClick={() => setIsOpen(false)}
-                >
-                  <i className="ri-close-line text-xl"></i>
-                </Button>
+                <div className="flex items-center">
+                  <Button 
+                    variant="ghost" 
+                    size="icon" 
+                    className="text-gray-500 hover:text-gray-700"
+                    title="Nouvelle conversation"
+                    onClick={startNewConversation}
+                  >
+                    <i className="ri-add-line text-xl"></i>
+                  </Button>
+                  <Button 
+                    variant="ghost" 
+                    size="icon" 
+                    className={showHistory ? "text-accent-500" : "text-gray-500 hover:text-gray-700"}
+                    title="Historique"
+                    onClick={() => setShowHistory(prev => !prev)}
+                  >
+                    <i className="ri-history-line text-xl"></i>
+                  </Button>
+                  <Button 
+                    variant="ghost" 
+                    size="icon" 
+                    className="text-gray-500 hover:text-gray-700"
+                    onClick={closePanel}
+                  >
+                    <i className="ri-close-line text-xl"></i>
+                  </Button>
+                </div>
               </div>
               
-              <div className="h-64 overflow-y-auto bg-gray-50 rounded-lg p-3 mb-4">
-                {messages.map((message) => (
-                  <div 
-                    key={message.id} 
-                    className={`flex ${message.sender === "user" ? "justify-end mb-3" : "mb-3"}`}
-                  >
-                    {message.sender === "ai" && (
-                      <div className="w-8 h-8 rounded-full bg-accent-100 flex-shrink-0 flex items-center justify-center mr-2">
-                        <i className="ri-robot-line text-accent-500"></i>
-                      </div>
-                    )}
+              {showHistory ? (
+                <div className="h-64 overflow-y-auto bg-gray-50 rounded-lg p-3 mb-4">
+                  {!conversations || conversations.length === 0 ? (
+                    <p className="text-sm text-gray-500 text-center mt-8">Aucune conversation enregistrée.</p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {conversations.map((conversation) => (
+                        <li 
+                          key={conversation.id}
+                          className={`flex items-center bg-white rounded-lg p-3 shadow-soft ${
+                            conversation.id === conversationId ? "ring-1 ring-accent-500" : ""
+                          }`}
+                        >
+                          <button 
+                            className="flex-1 text-left min-w-0"
+                            onClick={() => resumeConversation(conversation.id)}
+                          >
+                            <p className="text-sm font-medium truncate">
+                              {conversation.title || "Conversation sans titre"}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              {format(new Date(conversation.updatedAt), "d MMM, HH:mm")}
+                              {conversation.cbtSession?.active && " · Exercice en cours"}
+                            </p>
+                          </button>
+                          <Button 
+                            variant="ghost" 
+                            size="icon" 
+                            className="text-gray-400 hover:text-red-500 flex-shrink-0"
+                            title="Supprimer"
+                            onClick={() => deleteConversationMutation.mutate(conversation.id)}
+                            disabled={deleteConversationMutation.isPending}
+                          >
+                            <i className="ri-delete-bin-line"></i>
+                          </Button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ) : (
+                <div className="h-64 overflow-y-auto bg-gray-50 rounded-lg p-3 mb-4">
+                  {messages.map((message) => (
                     <div 
-                      className={`rounded-lg p-3 max-w-[80%] ${
-                        message.sender === "user" 
-                          ? "bg-primary-100" 
-                          : "bg-white shadow-soft"
-                      }`}
+                      key={message.id} 
+                      className={`flex ${message.sender === "user" ? "justify-end mb-3" : "mb-3"}`}
                     >
-                      <p className="text-sm">{message.text}</p>
+                      {message.sender === "ai" && (
+                        <div className="w-8 h-8 rounded-full bg-accent-100 flex-shrink-0 flex items-center justify-center mr-2">
+                          <i className="ri-robot-line text-accent-500"></i>
+                        </div>
+                      )}
+                      <div 
+                        className={`rounded-lg p-3 max-w-[80%] ${
+                          message.sender === "user" 
+                            ? "bg-primary-100" 
+                            : "bg-white shadow-soft"
+                        }`}
+                      >
+                        <p className="text-sm whitespace-pre-wrap">
+                          {message.text}
+                          {message.streaming && (
+                            <span className="inline-block w-1.5 h-4 ml-0.5 -mb-0.5 bg-accent-500 animate-pulse"></span>
+                          )}
+                        </p>
+                        {message.actions && message.actions.length > 0 && (
+                          <div className="flex flex-wrap gap-2 mt-2">
+                            {message.actions.map((action) => (
+                              <Button
+                                key={action.type}
+                                size="sm"
+                                variant="outline"
+                                className="h-7 text-xs border-accent-300 text-accent-700 hover:bg-accent-50"
+                                onClick={() => handleAction(action)}
+                              >
+                                <i className={`${actionLabels[action.type].icon} mr-1`}></i>
+                                {actionLabels[action.type].label}
+                              </Button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
                     </div>
-                  </div>
-                ))}
+                  ))}
                 
-                {isTyping && (
-                  <div className="flex mb-3">
-                    <div className="w-8 h-8 rounded-full bg-accent-100 flex-shrink-0 flex items-center justify-center mr-2">
-                      <i className="ri-robot-line text-accent-500"></i>
-                    </div>
-                    <div className="bg-white rounded-lg p-3 shadow-soft flex items-center">
-                      <span className="flex space-x-1">
-                        <span className="h-2 w-2 bg-accent-500 rounded-full animate-bounce" style={{ animationDelay: "0ms" }}></span>
-                        <span className="h-2 w-2 bg-accent-500 rounded-full animate-bounce" style={{ animationDelay: "150ms" }}></span>
-                        <span className="h-2 w-2 bg-accent-500 rounded-full animate-bounce" style={{ animationDelay: "300ms" }}></span>
-                      </span>
+                  {/* Dots until the first words of the reply arrive */}
+                  {isTyping && !messages.some((message) => message.streaming) && (
+                    <div className="flex mb-3">
+                      <div className="w-8 h-8 rounded-full bg-accent-100 flex-shrink-0 flex items-center justify-center mr-2">
+                        <i className="ri-robot-line text-accent-500"></i>
+                      </div>
+                      <div className="bg-white rounded-lg p-3 shadow-soft flex items-center">
+                        <span className="flex space-x-1">
+                          <span className="h-2 w-2 bg-accent-500 rounded-full animate-bounce" style={{ animationDelay: "0ms" }}></span>
+                          <span className="h-2 w-2 bg-accent-500 rounded-full animate-bounce" style={{ animationDelay: "150ms" }}></span>
+                          <span className="h-2 w-2 bg-accent-500 rounded-full animate-bounce" style={{ animationDelay: "300ms" }}></span>
+                        </span>
+                      </div>
                     </div>
-                  </div>
-                )}
+                  )}
                 
-                <div ref={messagesEndRef} />
-              </div>
+                  <div ref={messagesEndRef} />
+                </div>
+              )}
               
               <div className="flex">
                 <Input
@@ -381,6 +710,8 @@ export default function AICopilot({ user }: AICopilotProps) {
           </motion.div>
         )}
       </AnimatePresence>
+      
+      <CrisisResources safety={safety} onClose={() => setSafety(null)} />
     </>
   );
 }
@@ -1,9 +1,11 @@
 import { Link, useLocation } from "wouter";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useAuth } from "@/hooks/use-auth";
 
 export default function Navigation() {
   const [location] = useLocation();
   const isMobile = useIsMobile();
+  const { user, logoutMutation } = useAuth();
   
   const isActive = (path: string) => location === path;
   
@@ -64,10 +66,18 @@ export default function Navigation() {
               <div className="w-8 h-8 rounded-full bg-primary-100 flex items-center justify-center">
                 <i className="ri-user-line text-primary-500"></i>
               </div>
-              <div>
-                <p className="text-sm font-medium text-gray-700">Alex</p>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-700 truncate">{user?.name || user?.username}</p>
                 <p className="text-xs text-gray-500">Membre</p>
               </div>
+              <button
+                className="p-2 rounded-full hover:bg-gray-100"
+                title="Se déconnecter"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+              >
+                <i className="ri-logout-box-r-line text-gray-600"></i>
+              </button>
             </div>
           </div>
         </div>
@@ -1,12 +1,14 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { User, CBTAnalysisResponse } from "@/types";
+import { User, CBTAnalysisResponse, JournalEntry, SafetyResult, WithSafety } from "@/types";
 import { getCBTAnalysis } from "@/lib/openai";
+import { draftStep, draftSteps, parseTags } from "@/lib/journal";
+import { useJournalDraft } from "@/hooks/use-journal-draft";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogClose, DialogFooter } from "@/components/ui/dialog";
@@ -15,9 +17,15 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
+import { Slider } from "@/components/ui/slider";
+import CrisisResources from "@/components/CrisisResources";
+import ThoughtPatternPicker from "@/components/ThoughtPatternPicker";
 
 interface CBTJournalProps {
   user: User;
+  // Lets a parent open the journal, e.g. from a copilot suggestion
+  isOpen?: boolean;
+  onOpenChange?: (open: boolean) => void;
 }
 
 const cbtFormSchema = z.object({
@@ -26,44 +34,105 @@ const cbtFormSchema = z.object({
   thought: z.string().min(5, "Please describe your thoughts in at least 5 characters"),
   challenge: z.string().optional(),
   reframe: z.string().optional(),
+  thoughtPatternIds: z.array(z.number()),
+  // How strongly the thought is believed and how intense the emotion is, from
+  // 0 to 100, rated again after the reframe
+  beliefBefore: z.number().min(0).max(100),
+  emotionBefore: z.number().min(0).max(100),
+  beliefAfter: z.number().min(0).max(100).nullable(),
+  emotionAfter: z.number().min(0).max(100).nullable(),
+  // Comma separated
+  tags: z.string(),
 });
 
 type CBTFormValues = z.infer<typeof cbtFormSchema>;
+type RatingName = "beliefBefore" | "emotionBefore" | "beliefAfter" | "emotionAfter";
 
-export default function CBTJournal({ user }: CBTJournalProps) {
-  const [isJournalOpen, setIsJournalOpen] = useState(false);
+const emptyValues: CBTFormValues = {
+  situation: "",
+  emotion: "",
+  thought: "",
+  challenge: "",
+  reframe: "",
+  thoughtPatternIds: [],
+  beliefBefore: 50,
+  emotionBefore: 50,
+  beliefAfter: null,
+  emotionAfter: null,
+  tags: "",
+};
+
+// Pause in typing before the draft is saved
+const AUTOSAVE_DELAY_MS = 1000;
+
+export default function CBTJournal({ user, isOpen, onOpenChange }: CBTJournalProps) {
+  const [internalOpen, setInternalOpen] = useState(false);
+  const isJournalOpen = isOpen ?? internalOpen;
+  const setIsJournalOpen = (open: boolean) => {
+    setInternalOpen(open);
+    onOpenChange?.(open);
+  };
   const [currentStep, setCurrentStep] = useState(0);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [aiAnalysis, setAiAnalysis] = useState<CBTAnalysisResponse | null>(null);
+  const [safety, setSafety] = useState<SafetyResult | null>(null);
+  // The entry is kept as a draft on the server while it is written
+  const [isDraftLoaded, setIsDraftLoaded] = useState(false);
+  const [draftState, setDraftState] = useState<"idle" | "saving" | "saved" | "failed">("idle");
+  // Saves run one after the other so an older one never lands last
+  const saveQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+  const hasUnsavedRef = useRef(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { data: draft, refetch: refetchDraft } = useJournalDraft(user);
   
   const form = useForm<CBTFormValues>({
     resolver: zodResolver(cbtFormSchema),
-    defaultValues: {
-      situation: "",
-      emotion: "",
-      thought: "",
-      challenge: "",
-      reframe: "",
-    },
+    defaultValues: emptyValues,
   });
   
-  // Create journal entry mutation
+  const saveDraft = (values: CBTFormValues = form.getValues()) => {
+    hasUnsavedRef.current = false;
+    setDraftState("saving");
+    const save = saveQueueRef.current.then(() =>
+      apiRequest("PUT", "/api/journal/draft", { ...values, tags: parseTags(values.tags), analysis: aiAnalysis })
+    );
+    saveQueueRef.current = save.then(() => setDraftState("saved"), () => setDraftState("failed"));
+    return save;
+  };
+  
+  // Pick up the entry in progress when opening, it may have been started in
+  // the copilot
+  useEffect(() => {
+    if (!isJournalOpen) return;
+    
+    let isClosed = false;
+    refetchDraft().then(({ data }) => {
+      if (isClosed) return;
+      if (data) restoreDraft(data);
+      setIsDraftLoaded(true);
+    });
+    return () => {
+      isClosed = true;
+    };
+  }, [isJournalOpen]);
+  
+  // The last changes go in the draft, which then becomes the entry
   const createJournalMutation = useMutation({
     mutationFn: async (values: CBTFormValues) => {
-      const response = await apiRequest("POST", "/api/journal", {
-        ...values,
-        userId: user.id,
-      });
-      return response.json();
+      await saveDraft(values);
+      const response = await apiRequest("POST", "/api/journal/draft/complete");
+      return response.json() as Promise<WithSafety<JournalEntry>>;
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
+      if (data.safety.flagged) setSafety(data.safety);
       toast({
         title: "Journal entry saved",
         description: "Your thoughts have been recorded successfully.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/journal", { userId: user.id }] });
+      queryClient.invalidateQueries({ queryKey: ["/api/journal/draft", { userId: user.id }] });
+      queryClient.invalidateQueries({ queryKey: ["/api/insights/thought-patterns", { userId: user.id }] });
       resetForm();
     },
     onError: () => {
@@ -75,6 +144,16 @@ export default function CBTJournal({ user }: CBTJournalProps) {
     }
   });
   
+  // Autosave once the user pauses
+  const watchedValues = JSON.stringify(form.watch());
+  useEffect(() => {
+    if (!isDraftLoaded || createJournalMutation.isPending) return;
+    
+    hasUnsavedRef.current = true;
+    const timeout = setTimeout(() => saveDraft(), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [watchedValues, aiAnalysis, createJournalMutation.isPending]);
+  
   const handleNextStep = async () => {
     const currentStepFields: Record<number, (keyof CBTFormValues)[]> = {
       0: ["situation"],
@@ -89,6 +168,10 @@ export default function CBTJournal({ user }: CBTJournalProps) {
     if (!isValid) return;
     
     if (currentStep === 2) {
+      // The ratings after the reframe start from the ones just given
+      if (form.getValues("beliefAfter") === null) form.setValue("beliefAfter", form.getValues("beliefBefore"));
+      if (form.getValues("emotionAfter") === null) form.setValue("emotionAfter", form.getValues("emotionBefore"));
+      
       // Before moving to challenge/reframe step, get AI analysis
       try {
         setIsAnalyzing(true);
@@ -98,11 +181,20 @@ export default function CBTJournal({ user }: CBTJournalProps) {
           formValues.emotion,
           formValues.thought
         );
-        setAiAnalysis(analysis);
         
-        // Pre-fill the challenge and reframe fields with AI suggestions
-        form.setValue("challenge", analysis.challenge);
-        form.setValue("reframe", analysis.reframe);
+        if ("thoughtPattern" in analysis) {
+          setAiAnalysis(analysis);
+          if (analysis.safety.flagged) setSafety(analysis.safety);
+          
+          // Pre-fill the challenge and reframe fields with AI suggestions
+          form.setValue("challenge", analysis.challenge);
+          form.setValue("reframe", analysis.reframe);
+          form.setValue("thoughtPatternIds", analysis.thoughtPatternId ? [analysis.thoughtPatternId] : []);
+        } else {
+          // A crisis: no reframing suggestions, point to crisis resources instead
+          setAiAnalysis(null);
+          setSafety(analysis.safety);
+        }
       } catch (error) {
         toast({
           title: "Analysis failed",
@@ -130,13 +222,67 @@ export default function CBTJournal({ user }: CBTJournalProps) {
     createJournalMutation.mutate(values);
   };
   
+  const ratingField = (name: RatingName, label: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <div className="flex justify-between items-center">
+            <FormLabel className="text-sm">{label}</FormLabel>
+            <span className="text-sm font-medium text-primary">{field.value ?? 50}%</span>
+          </div>
+          <FormControl>
+            <Slider
+              min={0}
+              max={100}
+              step={5}
+              value={[field.value ?? 50]}
+              onValueChange={([value]) => field.onChange(value)}
+              aria-label={label}
+            />
+          </FormControl>
+        </FormItem>
+      )}
+    />
+  );
+  
+  const restoreDraft = (draft: JournalEntry) => {
+    form.reset({
+      situation: draft.situation,
+      emotion: draft.emotion,
+      thought: draft.thought,
+      challenge: draft.challenge ?? "",
+      reframe: draft.reframe ?? "",
+      thoughtPatternIds: draft.thoughtPatternIds,
+      beliefBefore: draft.beliefBefore ?? 50,
+      emotionBefore: draft.emotionBefore ?? 50,
+      beliefAfter: draft.beliefAfter,
+      emotionAfter: draft.emotionAfter,
+      tags: draft.tags.join(", "),
+    });
+    setAiAnalysis(draft.analysis);
+    setCurrentStep(draftSteps.indexOf(draftStep(draft)));
+  };
+  
   const resetForm = () => {
-    form.reset();
+    form.reset(emptyValues);
     setCurrentStep(0);
     setAiAnalysis(null);
+    setIsDraftLoaded(false);
+    setDraftState("idle");
     setIsJournalOpen(false);
   };
   
+  // Closing keeps the entry as a draft, to finish later here or in the copilot
+  const closeJournal = () => {
+    if (hasUnsavedRef.current) saveDraft();
+    saveQueueRef.current.then(() => {
+      queryClient.invalidateQueries({ queryKey: ["/api/journal/draft", { userId: user.id }] });
+    });
+    resetForm();
+  };
+  
   // Steps content
   const stepContent = [
     {
@@ -199,130 +345,200 @@ export default function CBTJournal({ user }: CBTJournalProps) {
             </div>
             
             <Button className="btn-glow">
-              Commencer <i className="ri-arrow-right-line ml-1"></i>
+              {draft ? "Reprendre" : "Commencer"} <i className="ri-arrow-right-line ml-1"></i>
             </Button>
           </div>
         </CardContent>
       </Card>
       
-      <Dialog open={isJournalOpen} onOpenChange={(open) => !open && resetForm()}>
+      <Dialog open={isJournalOpen} onOpenChange={(open) => !open && closeJournal()}>
         <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto bg-background">
           <DialogHeader className="pb-2">
             <DialogTitle className="text-xl">Restructuration des pensées</DialogTitle>
             <p className="text-muted-foreground text-sm mt-1">Une approche guidée pour transformer vos pensées négatives</p>
+            {draftState !== "idle" && (
+              <p className={`text-xs mt-1 ${draftState === "failed" ? "text-destructive" : "text-muted-foreground"}`}>
+                {draftState === "saving"
+                  ? "Enregistrement du brouillon..."
+                  : draftState === "saved"
+                    ? "Brouillon enregistré"
+                    : "Le brouillon n'a pas pu être enregistré"}
+              </p>
+            )}
             <DialogClose className="absolute right-4 top-4" />
           </DialogHeader>
           
-          <div className="py-2">
-            <div className="flex justify-between items-center mb-6 mt-2">
-              <div className="flex-1 relative">
-                <div className="absolute h-1 bg-muted rounded-full w-full top-1/2 transform -translate-y-1/2"></div>
-                <div className="flex justify-between relative z-10">
-                  {stepContent.map((step, index) => (
-                    <div key={index} className="flex flex-col items-center">
-                      <div 
-                        className={`w-8 h-8 rounded-full flex items-center justify-center transition-all duration-300 ${
-                          index === currentStep 
-                            ? "bg-primary text-primary-foreground shadow-md scale-110" 
-                            : index < currentStep 
-                              ? "bg-primary/60 text-primary-foreground" 
-                              : "bg-muted text-muted-foreground"
-                        }`}
-                      >
-                        {index < currentStep ? <i className="ri-check-line"></i> : (index + 1)}
+          {!isDraftLoaded ? (
+            <div className="text-center py-8">
+              <i className="ri-loader-4-line animate-spin text-3xl text-primary"></i>
+            </div>
+          ) : (
+            <div className="py-2">
+              <div className="flex justify-between items-center mb-6 mt-2">
+                <div className="flex-1 relative">
+                  <div className="absolute h-1 bg-muted rounded-full w-full top-1/2 transform -translate-y-1/2"></div>
+                  <div className="flex justify-between relative z-10">
+                    {stepContent.map((step, index) => (
+                      <div key={index} className="flex flex-col items-center">
+                        <div 
+                          className={`w-8 h-8 rounded-full flex items-center justify-center transition-all duration-300 ${
+                            index === currentStep 
+                              ? "bg-primary text-primary-foreground shadow-md scale-110" 
+                              : index < currentStep 
+                                ? "bg-primary/60 text-primary-foreground" 
+                                : "bg-muted text-muted-foreground"
+                          }`}
+                        >
+                          {index < currentStep ? <i className="ri-check-line"></i> : (index + 1)}
+                        </div>
+                        <span className={`text-xs mt-2 transition-all ${index === currentStep ? "text-primary font-medium" : "text-muted-foreground"}`}>
+                          {step.title.split(' ')[0]}
+                        </span>
                       </div>
-                      <span className={`text-xs mt-2 transition-all ${index === currentStep ? "text-primary font-medium" : "text-muted-foreground"}`}>
-                        {step.title.split(' ')[0]}
-                      </span>
-                    </div>
-                  ))}
+                    ))}
+                  </div>
                 </div>
               </div>
-            </div>
-            
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                {currentStep === 0 && (
-                  <div className="space-y-4">
-                    <div className="flex items-center">
-                      <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center mr-3">
-                        <i className="ri-map-pin-line text-primary"></i>
+              
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  {currentStep === 0 && (
+                    <div className="space-y-4">
+                      <div className="flex items-center">
+                        <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center mr-3">
+                          <i className="ri-map-pin-line text-primary"></i>
+                        </div>
+                        <div>
+                          <h3 className="font-medium text-lg text-foreground">{stepContent[0].title}</h3>
+                          <p className="text-sm text-muted-foreground">{stepContent[0].description}</p>
+                        </div>
                       </div>
-                      <div>
-                        <h3 className="font-medium text-lg text-foreground">{stepContent[0].title}</h3>
-                        <p className="text-sm text-muted-foreground">{stepContent[0].description}</p>
+                      
+                      <FormField
+                        control={form.control}
+                        name="situation"
+                        render={({ field }) => (
+                          <FormItem className="mt-4 bg-card rounded-xl p-4 border border-border shadow-sm">
+                            <FormControl>
+                              <Textarea
+                                placeholder={stepContent[0].placeholder}
+                                rows={5}
+                                className="border-none shadow-none focus-visible:ring-0 bg-transparent resize-none"
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      
+                      <FormField
+                        control={form.control}
+                        name="tags"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-sm">Étiquettes</FormLabel>
+                            <FormControl>
+                              <Input placeholder="travail, sommeil, famille" {...field} />
+                            </FormControl>
+                            <p className="text-xs text-muted-foreground">Séparées par des virgules, pour retrouver l'entrée plus tard.</p>
+                          </FormItem>
+                        )}
+                      />
+                      
+                      <div className="bg-muted/50 rounded-lg p-3 mt-2">
+                        <div className="flex items-start text-sm">
+                          <i className="ri-lightbulb-line text-amber-500 mt-0.5 mr-2"></i>
+                          <p className="text-muted-foreground">
+                            Décrivez brièvement ce qui s'est passé, où vous étiez et ce que vous faisiez quand vous avez ressenti une émotion ou une pensée négative.
+                          </p>
+                        </div>
                       </div>
                     </div>
-                    
-                    <FormField
-                      control={form.control}
-                      name="situation"
-                      render={({ field }) => (
-                        <FormItem className="mt-4 bg-card rounded-xl p-4 border border-border shadow-sm">
-                          <FormControl>
-                            <Textarea
-                              placeholder={stepContent[0].placeholder}
-                              rows={5}
-                              className="border-none shadow-none focus-visible:ring-0 bg-transparent resize-none"
-                              {...field}
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    
-                    <div className="bg-muted/50 rounded-lg p-3 mt-2">
-                      <div className="flex items-start text-sm">
-                        <i className="ri-lightbulb-line text-amber-500 mt-0.5 mr-2"></i>
-                        <p className="text-muted-foreground">
-                          Décrivez brièvement ce qui s'est passé, où vous étiez et ce que vous faisiez quand vous avez ressenti une émotion ou une pensée négative.
-                        </p>
+                  )}
+                  
+                  {currentStep === 1 && (
+                    <div className="space-y-4">
+                      <div className="flex items-center">
+                        <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center mr-3">
+                          <i className="ri-emotion-line text-primary"></i>
+                        </div>
+                        <div>
+                          <h3 className="font-medium text-lg text-foreground">{stepContent[1].title}</h3>
+                          <p className="text-sm text-muted-foreground">{stepContent[1].description}</p>
+                        </div>
                       </div>
-                    </div>
-                  </div>
-                )}
-                
-                {currentStep === 1 && (
-                  <div className="space-y-4">
-                    <div className="flex items-center">
-                      <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center mr-3">
-                        <i className="ri-emotion-line text-primary"></i>
+                      
+                      <div className="mt-4 bg-card rounded-xl p-5 border border-border shadow-sm">
+                        <p className="mb-3 text-sm font-medium">Émotions fréquentes :</p>
+                        <div className="flex flex-wrap gap-2 mb-4">
+                          {["Anxiété", "Tristesse", "Colère", "Frustration", "Honte", "Culpabilité", "Inquiétude"].map(emotion => (
+                            <button
+                              key={emotion}
+                              type="button"
+                              className="px-3 py-1.5 rounded-full border border-border bg-background hover:bg-primary/5 transition-colors"
+                              onClick={() => {
+                                const currentValue = form.getValues("emotion");
+                                const newValue = currentValue ? `${currentValue}, ${emotion}` : emotion;
+                                form.setValue("emotion", newValue);
+                              }}
+                            >
+                              {emotion}
+                            </button>
+                          ))}
+                        </div>
+                        
+                        <FormField
+                          control={form.control}
+                          name="emotion"
+                          render={({ field }) => (
+                            <FormItem className="mt-2">
+                              <FormControl>
+                                <Input
+                                  placeholder={stepContent[1].placeholder}
+                                  className="border-primary/20 focus-visible:ring-primary/30"
+                                  {...field}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
                       </div>
-                      <div>
-                        <h3 className="font-medium text-lg text-foreground">{stepContent[1].title}</h3>
-                        <p className="text-sm text-muted-foreground">{stepContent[1].description}</p>
+                      
+                      <div className="bg-muted/50 rounded-lg p-3 mt-2">
+                        <div className="flex items-start text-sm">
+                          <i className="ri-information-line text-primary mt-0.5 mr-2"></i>
+                          <p className="text-muted-foreground">
+                            Nommer vos émotions précisément vous aide à mieux comprendre vos réactions et à gagner en clarté sur votre situation.
+                          </p>
+                        </div>
                       </div>
                     </div>
-                    
-                    <div className="mt-4 bg-card rounded-xl p-5 border border-border shadow-sm">
-                      <p className="mb-3 text-sm font-medium">Émotions fréquentes :</p>
-                      <div className="flex flex-wrap gap-2 mb-4">
-                        {["Anxiété", "Tristesse", "Colère", "Frustration", "Honte", "Culpabilité", "Inquiétude"].map(emotion => (
-                          <button
-                            key={emotion}
-                            type="button"
-                            className="px-3 py-1.5 rounded-full border border-border bg-background hover:bg-primary/5 transition-colors"
-                            onClick={() => {
-                              const currentValue = form.getValues("emotion");
-                              const newValue = currentValue ? `${currentValue}, ${emotion}` : emotion;
-                              form.setValue("emotion", newValue);
-                            }}
-                          >
-                            {emotion}
-                          </button>
-                        ))}
+                  )}
+                  
+                  {currentStep === 2 && (
+                    <div className="space-y-4">
+                      <div className="flex items-center">
+                        <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center mr-3">
+                          <i className="ri-brain-line text-primary"></i>
+                        </div>
+                        <div>
+                          <h3 className="font-medium text-lg text-foreground">{stepContent[2].title}</h3>
+                          <p className="text-sm text-muted-foreground">{stepContent[2].description}</p>
+                        </div>
                       </div>
                       
                       <FormField
                         control={form.control}
-                        name="emotion"
+                        name="thought"
                         render={({ field }) => (
-                          <FormItem className="mt-2">
+                          <FormItem className="mt-4 bg-card rounded-xl p-4 border border-border shadow-sm">
                             <FormControl>
-                              <Input
-                                placeholder={stepContent[1].placeholder}
-                                className="border-primary/20 focus-visible:ring-primary/30"
+                              <Textarea
+                                placeholder={stepContent[2].placeholder}
+                                rows={5}
+                                className="border-none shadow-none focus-visible:ring-0 bg-transparent resize-none"
                                 {...field}
                               />
                             </FormControl>
@@ -330,245 +546,236 @@ export default function CBTJournal({ user }: CBTJournalProps) {
                           </FormItem>
                         )}
                       />
-                    </div>
-                    
-                    <div className="bg-muted/50 rounded-lg p-3 mt-2">
-                      <div className="flex items-start text-sm">
-                        <i className="ri-information-line text-primary mt-0.5 mr-2"></i>
-                        <p className="text-muted-foreground">
-                          Nommer vos émotions précisément vous aide à mieux comprendre vos réactions et à gagner en clarté sur votre situation.
-                        </p>
-                      </div>
-                    </div>
-                  </div>
-                )}
-                
-                {currentStep === 2 && (
-                  <div className="space-y-4">
-                    <div className="flex items-center">
-                      <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center mr-3">
-                        <i className="ri-brain-line text-primary"></i>
-                      </div>
-                      <div>
-                        <h3 className="font-medium text-lg text-foreground">{stepContent[2].title}</h3>
-                        <p className="text-sm text-muted-foreground">{stepContent[2].description}</p>
-                      </div>
-                    </div>
-                    
-                    <FormField
-                      control={form.control}
-                      name="thought"
-                      render={({ field }) => (
-                        <FormItem className="mt-4 bg-card rounded-xl p-4 border border-border shadow-sm">
-                          <FormControl>
-                            <Textarea
-                              placeholder={stepContent[2].placeholder}
-                              rows={5}
-                              className="border-none shadow-none focus-visible:ring-0 bg-transparent resize-none"
-                              {...field}
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    
-                    <div className="bg-muted/50 rounded-lg p-3 mt-2">
-                      <div className="flex items-start text-sm">
-                        <i className="ri-lightbulb-line text-amber-500 mt-0.5 mr-2"></i>
-                        <p className="text-muted-foreground">
-                          Essayez de capturer vos pensées telles qu'elles vous sont venues, sans les juger. Notre IA analysera les schémas de pensée pour vous aider à les transformer.
-                        </p>
+                      
+                      <div className="bg-card rounded-xl p-4 border border-border space-y-4">
+                        {ratingField("beliefBefore", "À quel point croyez-vous cette pensée ?")}
+                        {ratingField("emotionBefore", "Intensité de l'émotion")}
                       </div>
-                    </div>
-                  </div>
-                )}
-                
-                {currentStep === 3 && (
-                  <div className="space-y-6">
-                    {isAnalyzing ? (
-                      <div className="text-center py-10 px-4">
-                        <div className="w-20 h-20 rounded-full mx-auto bg-primary/10 flex items-center justify-center mb-4 animate-breath">
-                          <i className="ri-psychology-line text-primary text-3xl"></i>
-                        </div>
-                        <h3 className="text-xl font-medium mb-3">Analyse en cours...</h3>
-                        <p className="text-muted-foreground">
-                          Notre IA examine vos schémas de pensée et prépare des suggestions personnalisées.
-                        </p>
-                        <div className="mt-8 h-1.5 bg-muted rounded-full w-3/4 mx-auto overflow-hidden">
-                          <div className="h-full bg-primary animate-[progress_2s_ease-in-out_infinite]" style={{width: '60%'}}></div>
+                      
+                      <div className="bg-muted/50 rounded-lg p-3 mt-2">
+                        <div className="flex items-start text-sm">
+                          <i className="ri-lightbulb-line text-amber-500 mt-0.5 mr-2"></i>
+                          <p className="text-muted-foreground">
+                            Essayez de capturer vos pensées telles qu'elles vous sont venues, sans les juger. Notre IA analysera les schémas de pensée pour vous aider à les transformer.
+                          </p>
                         </div>
                       </div>
-                    ) : (
-                      <div className="space-y-6">
-                        <div className="flex items-center">
-                          <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center mr-3">
-                            <i className="ri-refresh-line text-primary"></i>
+                    </div>
+                  )}
+                  
+                  {currentStep === 3 && (
+                    <div className="space-y-6">
+                      {isAnalyzing ? (
+                        <div className="text-center py-10 px-4">
+                          <div className="w-20 h-20 rounded-full mx-auto bg-primary/10 flex items-center justify-center mb-4 animate-breath">
+                            <i className="ri-psychology-line text-primary text-3xl"></i>
                           </div>
-                          <div>
-                            <h3 className="font-medium text-lg text-foreground">{stepContent[3].title}</h3>
-                            <p className="text-sm text-muted-foreground">{stepContent[3].description}</p>
+                          <h3 className="text-xl font-medium mb-3">Analyse en cours...</h3>
+                          <p className="text-muted-foreground">
+                            Notre IA examine vos schémas de pensée et prépare des suggestions personnalisées.
+                          </p>
+                          <div className="mt-8 h-1.5 bg-muted rounded-full w-3/4 mx-auto overflow-hidden">
+                            <div className="h-full bg-primary animate-[progress_2s_ease-in-out_infinite]" style={{width: '60%'}}></div>
                           </div>
                         </div>
-                        
-                        {aiAnalysis && (
-                          <div className="bg-gradient-to-br from-primary/5 to-primary/10 p-6 rounded-xl mb-4 border border-primary/10 shadow-sm">
-                            <div className="flex items-start">
-                              <div className="w-8 h-8 rounded-full bg-primary/20 flex items-center justify-center mr-3 mt-0.5">
-                                <i className="ri-robot-line text-primary"></i>
+                      ) : (
+                        <div className="space-y-6">
+                          <div className="flex items-center">
+                            <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center mr-3">
+                              <i className="ri-refresh-line text-primary"></i>
+                            </div>
+                            <div>
+                              <h3 className="font-medium text-lg text-foreground">{stepContent[3].title}</h3>
+                              <p className="text-sm text-muted-foreground">{stepContent[3].description}</p>
+                            </div>
+                          </div>
+                          
+                          {aiAnalysis && (
+                            <div className="bg-gradient-to-br from-primary/5 to-primary/10 p-6 rounded-xl mb-4 border border-primary/10 shadow-sm">
+                              <div className="flex items-start">
+                                <div className="w-8 h-8 rounded-full bg-primary/20 flex items-center justify-center mr-3 mt-0.5">
+                                  <i className="ri-robot-line text-primary"></i>
+                                </div>
+                                <div>
+                                  <h4 className="font-medium text-foreground">Analyse IA</h4>
+                                  <p className="text-sm text-muted-foreground mt-1">
+                                    Voici ce que j'ai détecté dans votre pensée.
+                                  </p>
+                                </div>
                               </div>
-                              <div>
-                                <h4 className="font-medium text-foreground">Analyse IA</h4>
-                                <p className="text-sm text-muted-foreground mt-1">
-                                  Voici ce que j'ai détecté dans votre pensée.
+                              
+                              <div className="mt-4 ml-11">
+                                <div className="bg-card rounded-lg p-3 border border-border mb-3">
+                                  <p className="text-sm font-medium">Schéma de pensée détecté:</p>
+                                  <p className="text-primary mt-1 font-medium">{aiAnalysis.thoughtPattern}</p>
+                                </div>
+                                
+                                <p className="text-sm mb-4">
+                                  {aiAnalysis.patternExplanation}
                                 </p>
                               </div>
                             </div>
+                          )}
+                          
+                          <FormField
+                            control={form.control}
+                            name="thoughtPatternIds"
+                            render={({ field }) => (
+                              <FormItem className="bg-card rounded-xl p-4 border border-border">
+                                <FormLabel className="text-base">Schémas de pensée</FormLabel>
+                                <p className="text-sm text-muted-foreground mb-2">
+                                  Sélectionnez les schémas que vous reconnaissez dans cette pensée.
+                                </p>
+                                <FormControl>
+                                  <ThoughtPatternPicker value={field.value} onChange={field.onChange} />
+                                </FormControl>
+                              </FormItem>
+                            )}
+                          />
+                          
+                          <Tabs defaultValue="challenge" className="bg-card rounded-xl p-1 border border-border">
+                            <TabsList className="w-full bg-muted/50 p-1 rounded-lg mb-4">
+                              <TabsTrigger value="challenge" className="w-1/2 rounded-md py-2 data-[state=active]:bg-card">
+                                <i className="ri-question-line mr-1.5"></i> Remise en question
+                              </TabsTrigger>
+                              <TabsTrigger value="reframe" className="w-1/2 rounded-md py-2 data-[state=active]:bg-card">
+                                <i className="ri-refresh-line mr-1.5"></i> Reformulation
+                              </TabsTrigger>
+                            </TabsList>
                             
-                            <div className="mt-4 ml-11">
-                              <div className="bg-card rounded-lg p-3 border border-border mb-3">
-                                <p className="text-sm font-medium">Schéma de pensée détecté:</p>
-                                <p className="text-primary mt-1 font-medium">{aiAnalysis.thoughtPattern}</p>
-                              </div>
+                            <div className="px-4 pb-4">
+                              <TabsContent value="challenge" className="mt-0">
+                                <FormField
+                                  control={form.control}
+                                  name="challenge"
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <div className="flex justify-between items-center mb-2">
+                                        <FormLabel className="text-base">Remettez en question vos pensées</FormLabel>
+                                        {aiAnalysis && (
+                                          <button 
+                                            type="button"
+                                            className="text-xs text-primary hover:underline"
+                                            onClick={() => field.onChange(aiAnalysis.challenge)}
+                                          >
+                                            Utiliser la suggestion
+                                          </button>
+                                        )}
+                                      </div>
+                                      <p className="text-sm text-muted-foreground mb-2">
+                                        Questionnez les preuves qui soutiennent vos pensées. Y a-t-il une autre façon de voir la situation?
+                                      </p>
+                                      <FormControl>
+                                        <Textarea
+                                          placeholder={stepContent[3]?.placeholders?.[0] || "Quelles preuves contredisent cette pensée? Est-ce que je me concentre uniquement sur le négatif?"}
+                                          rows={4}
+                                          className="bg-muted/30 border-muted focus-visible:border-primary/30 resize-none"
+                                          {...field}
+                                        />
+                                      </FormControl>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+                              </TabsContent>
                               
-                              <p className="text-sm mb-4">
-                                {aiAnalysis.patternExplanation}
-                              </p>
+                              <TabsContent value="reframe" className="mt-0">
+                                <FormField
+                                  control={form.control}
+                                  name="reframe"
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <div className="flex justify-between items-center mb-2">
+                                        <FormLabel className="text-base">Reformulez votre perspective</FormLabel>
+                                        {aiAnalysis && (
+                                          <button 
+                                            type="button"
+                                            className="text-xs text-primary hover:underline"
+                                            onClick={() => field.onChange(aiAnalysis.reframe)}
+                                          >
+                                            Utiliser la suggestion
+                                          </button>
+                                        )}
+                                      </div>
+                                      <p className="text-sm text-muted-foreground mb-2">
+                                        Quelle serait une façon plus équilibrée ou utile de penser à cette situation?
+                                      </p>
+                                      <FormControl>
+                                        <Textarea
+                                          placeholder={stepContent[3]?.placeholders?.[1] || "Une pensée plus équilibrée pourrait être..."}
+                                          rows={4}
+                                          className="bg-muted/30 border-muted focus-visible:border-primary/30 resize-none"
+                                          {...field}
+                                        />
+                                      </FormControl>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+                              </TabsContent>
                             </div>
-                          </div>
-                        )}
-                        
-                        <Tabs defaultValue="challenge" className="bg-card rounded-xl p-1 border border-border">
-                          <TabsList className="w-full bg-muted/50 p-1 rounded-lg mb-4">
-                            <TabsTrigger value="challenge" className="w-1/2 rounded-md py-2 data-[state=active]:bg-card">
-                              <i className="ri-question-line mr-1.5"></i> Remise en question
-                            </TabsTrigger>
-                            <TabsTrigger value="reframe" className="w-1/2 rounded-md py-2 data-[state=active]:bg-card">
-                              <i className="ri-refresh-line mr-1.5"></i> Reformulation
-                            </TabsTrigger>
-                          </TabsList>
+                          </Tabs>
                           
-                          <div className="px-4 pb-4">
-                            <TabsContent value="challenge" className="mt-0">
-                              <FormField
-                                control={form.control}
-                                name="challenge"
-                                render={({ field }) => (
-                                  <FormItem>
-                                    <div className="flex justify-between items-center mb-2">
-                                      <FormLabel className="text-base">Remettez en question vos pensées</FormLabel>
-                                      {aiAnalysis && (
-                                        <button 
-                                          type="button"
-                                          className="text-xs text-primary hover:underline"
-                                          onClick={() => field.onChange(aiAnalysis.challenge)}
-                                        >
-                                          Utiliser la suggestion
-                                        </button>
-                                      )}
-                                    </div>
-                                    <p className="text-sm text-muted-foreground mb-2">
-                                      Questionnez les preuves qui soutiennent vos pensées. Y a-t-il une autre façon de voir la situation?
-                                    </p>
-                                    <FormControl>
-                                      <Textarea
-                                        placeholder={stepContent[3]?.placeholders?.[0] || "Quelles preuves contredisent cette pensée? Est-ce que je me concentre uniquement sur le négatif?"}
-                                        rows={4}
-                                        className="bg-muted/30 border-muted focus-visible:border-primary/30 resize-none"
-                                        {...field}
-                                      />
-                                    </FormControl>
-                                    <FormMessage />
-                                  </FormItem>
-                                )}
-                              />
-                            </TabsContent>
-                            
-                            <TabsContent value="reframe" className="mt-0">
-                              <FormField
-                                control={form.control}
-                                name="reframe"
-                                render={({ field }) => (
-                                  <FormItem>
-                                    <div className="flex justify-between items-center mb-2">
-                                      <FormLabel className="text-base">Reformulez votre perspective</FormLabel>
-                                      {aiAnalysis && (
-                                        <button 
-                                          type="button"
-                                          className="text-xs text-primary hover:underline"
-                                          onClick={() => field.onChange(aiAnalysis.reframe)}
-                                        >
-                                          Utiliser la suggestion
-                                        </button>
-                                      )}
-                                    </div>
-                                    <p className="text-sm text-muted-foreground mb-2">
-                                      Quelle serait une façon plus équilibrée ou utile de penser à cette situation?
-                                    </p>
-                                    <FormControl>
-                                      <Textarea
-                                        placeholder={stepContent[3]?.placeholders?.[1] || "Une pensée plus équilibrée pourrait être..."}
-                                        rows={4}
-                                        className="bg-muted/30 border-muted focus-visible:border-primary/30 resize-none"
-                                        {...field}
-                                      />
-                                    </FormControl>
-                                    <FormMessage />
-                                  </FormItem>
-                                )}
-                              />
-                            </TabsContent>
+                          <div className="bg-card rounded-xl p-4 border border-border space-y-4">
+                            <div>
+                              <h4 className="font-medium text-foreground">Après la reformulation</h4>
+                              <p className="text-sm text-muted-foreground">Évaluez de nouveau votre pensée initiale et votre émotion.</p>
+                            </div>
+                            {ratingField("beliefAfter", "À quel point croyez-vous encore la pensée initiale ?")}
+                            {ratingField("emotionAfter", "Intensité de l'émotion maintenant")}
                           </div>
-                        </Tabs>
-                        
-                        <div className="bg-muted/50 rounded-lg p-3 mt-2">
-                          <div className="flex items-start text-sm">
-                            <i className="ri-information-line text-primary mt-0.5 mr-2"></i>
-                            <p className="text-muted-foreground">
-                              La reformulation n'est pas simplement positive, elle est <span className="font-medium">réaliste</span>. Elle reconnaît les difficultés tout en intégrant les perspectives plus équilibrées.
-                            </p>
+                          
+                          <div className="bg-muted/50 rounded-lg p-3 mt-2">
+                            <div className="flex items-start text-sm">
+                              <i className="ri-information-line text-primary mt-0.5 mr-2"></i>
+                              <p className="text-muted-foreground">
+                                La reformulation n'est pas simplement positive, elle est <span className="font-medium">réaliste</span>. Elle reconnaît les difficultés tout en intégrant les perspectives plus équilibrées.
+                              </p>
+                            </div>
                           </div>
                         </div>
-                      </div>
-                    )}
+                      )}
+                    </div>
+                  )}
+                  
+                  <div className="flex justify-between pt-6">
+                    <Button 
+                      type="button" 
+                      variant="outline" 
+                      onClick={handlePreviousStep}
+                      disabled={currentStep === 0 || isAnalyzing}
+                      className="px-5"
+                    >
+                      <i className="ri-arrow-left-line mr-1.5"></i>
+                      Précédent
+                    </Button>
+                    <Button 
+                      type="button" 
+                      onClick={handleNextStep}
+                      disabled={isAnalyzing || createJournalMutation.isPending}
+                      className="px-5"
+                    >
+                      {createJournalMutation.isPending ? (
+                        <>
+                          <i className="ri-loader-4-line animate-spin mr-1.5"></i>
+                          Enregistrement...
+                        </>
+                      ) : currentStep === stepContent.length - 1 ? (
+                        <>Enregistrer l'entrée <i className="ri-check-line ml-1"></i></>
+                      
+                      ) : (
+                        <>Continuer <i className="ri-arrow-right-line ml-1.5"></i></>
+                      )}
+                    </Button>
                   </div>
-                )}
-                
-                <div className="flex justify-between pt-6">
-                  <Button 
-                    type="button" 
-                    variant="outline" 
-                    onClick={handlePreviousStep}
-                    disabled={currentStep === 0 || isAnalyzing}
-                    className="px-5"
-                  >
-                    <i className="ri-arrow-left-line mr-1.5"></i>
-                    Précédent
-                  </Button>
-                  <Button 
-                    type="button" 
-                    onClick={handleNextStep}
-                    disabled={isAnalyzing || createJournalMutation.isPending}
-                    className="px-5"
-                  >
-                    {createJournalMutation.isPending ? (
-                      <>
-                        <i className="ri-loader-4-line animate-spin mr-1.5"></i>
-                        Enregistrement...
-                      </>
-                    ) : currentStep === stepContent.length - 1 ? (
-                      <>Enregistrer l'entrée <i className="ri-check-line ml-1"></i></>
-                    
-                    ) : (
-                      <>Continuer <i className="ri-arrow-right-line ml-1.5"></i></>
-                    )}
-                  </Button>
-                </div>
-              </form>
-            </Form>
-          </div>
+                </form>
+              </Form>
+            </div>
+          )}
         </DialogContent>
       </Dialog>
+      
+      <CrisisResources safety={safety} onClose={() => setSafety(null)} />
     </>
   );
 }
@@ -0,0 +1,84 @@
+import { useQuery } from "@tanstack/react-query";
+import { CrisisResource, SafetyResult } from "@/types";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogClose } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+
+interface CrisisResourcesProps {
+  safety: SafetyResult | null;
+  onClose: () => void;
+}
+
+// Shown whenever the server flags something the user wrote. The resources
+// come from the server so they can be configured per deployment.
+export default function CrisisResources({ safety, onClose }: CrisisResourcesProps) {
+  const language = safety?.language ?? navigator.language.slice(0, 2);
+
+  const { data: resources, isLoading } = useQuery<CrisisResource[]>({
+    queryKey: ["/api/safety/resources", { lang: language }],
+    queryFn: async () => {
+      const response = await fetch(`/api/safety/resources?lang=${encodeURIComponent(language)}`, {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to fetch crisis resources");
+      return response.json();
+    },
+    enabled: !!safety?.flagged,
+  });
+
+  return (
+    <Dialog open={!!safety?.flagged} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <div className="w-12 h-12 rounded-full bg-red-100 flex items-center justify-center mb-2">
+            <i className="ri-heart-pulse-line text-2xl text-red-500"></i>
+          </div>
+          <DialogTitle>Vous n'êtes pas seul·e</DialogTitle>
+          <DialogDescription>
+            {safety?.level === "crisis"
+              ? "Ce que vous avez écrit nous inquiète. Si vous pensez à vous faire du mal, parlez-en maintenant à quelqu'un qui peut vous aider."
+              : "Vous traversez un moment difficile. En parler à quelqu'un peut vraiment aider."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <i className="ri-loader-4-line animate-spin text-xl text-muted-foreground"></i>
+            </div>
+          ) : (
+            resources?.map((resource) => (
+              <div key={resource.name} className="rounded-lg border border-border p-3">
+                <p className="font-medium text-sm">{resource.name}</p>
+                {resource.description && (
+                  <p className="text-xs text-muted-foreground mt-0.5">{resource.description}</p>
+                )}
+                <div className="flex gap-2 mt-2">
+                  {resource.phone && (
+                    <Button asChild size="sm" variant="destructive">
+                      <a href={`tel:${resource.phone}`}>
+                        <i className="ri-phone-line mr-1"></i> {resource.phone}
+                      </a>
+                    </Button>
+                  )}
+                  {resource.url && (
+                    <Button asChild size="sm" variant="outline">
+                      <a href={resource.url} target="_blank" rel="noopener noreferrer">
+                        <i className="ri-external-link-line mr-1"></i> Site web
+                      </a>
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button variant="ghost">Fermer</Button>
+          </DialogClose>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,13 +2,18 @@ import { useState } from "react";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { format, addDays } from "date-fns";
 import { fr } from "date-fns/locale";
 import { Calendar as CalendarIcon } from "lucide-react";
-import { User } from "@/types";
+import { Goal, GoalPlanResponse, GoalStep, Habit, User } from "@/types";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
 import {
   Form,
   FormControl,
@@ -26,7 +31,6 @@ import {
 import { Calendar } from "@/components/ui/calendar";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
-import { getCBTAnalysis } from "@/lib/openai";
 
 interface GoalSettingProps {
   user: User;
@@ -42,38 +46,25 @@ const goalFormSchema = z.object({
   deadline: z.date({
     required_error: "Veuillez sélectionner une date limite",
   }),
+  habits: z.array(z.object({
+    habitId: z.number(),
+    targetCompletions: z.coerce.number().int().min(1, {
+      message: "L'objectif doit être d'au moins 1 fois",
+    }),
+  })),
 });
 
 type GoalFormValues = z.infer<typeof goalFormSchema>;
 
-interface Goal {
-  id: string;
-  title: string;
-  description: string;
-  deadline: Date;
-  plan?: GoalPlan;
-  completed: boolean;
-  createdAt: Date;
-}
-
-interface GoalPlan {
-  steps: GoalStep[];
-  tips: string[];
-  estimatedCompletion: string;
-}
-
-interface GoalStep {
-  id: string;
-  description: string;
-  completed: boolean;
-  targetDate?: Date;
-}
+type PlanMode = "replace" | "refine";
 
 export default function GoalSetting({ user }: GoalSettingProps) {
-  const [goals, setGoals] = useState<Goal[]>([]);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
-  const [selectedGoal, setSelectedGoal] = useState<Goal | null>(null);
-  const [isGeneratingPlan, setIsGeneratingPlan] = useState(false);
+  const [selectedGoalId, setSelectedGoalId] = useState<number | null>(null);
+  const [planFeedback, setPlanFeedback] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const goalsQueryKey = ["/api/goals", { userId: user.id }];
   
   const form = useForm<GoalFormValues>({
     resolver: zodResolver(goalFormSchema),
@@ -81,138 +72,132 @@ export default function GoalSetting({ user }: GoalSettingProps) {
       title: "",
       description: "",
       deadline: addDays(new Date(), 30), // 30 jours par défaut
+      habits: [],
     },
   });
   
-  const onSubmit = async (values: GoalFormValues) => {
-    // Simuler l'ajout d'un nouvel objectif
-    const newGoal: Goal = {
-      id: Date.now().toString(),
-      title: values.title,
-      description: values.description,
-      deadline: values.deadline,
-      completed: false,
-      createdAt: new Date(),
-    };
-    
-    setGoals(prev => [...prev, newGoal]);
-    form.reset();
-    
-    // Générer un plan d'action pour l'objectif
-    await generateGoalPlan(newGoal);
-  };
+  // Fetch all goals for user, with their steps
+  const { data: goals } = useQuery({
+    queryKey: goalsQueryKey,
+    queryFn: async () => {
+      const response = await fetch("/api/goals", {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to fetch goals");
+      }
+      return response.json() as Promise<Goal[]>;
+    }
+  });
   
-  const generateGoalPlan = async (goal: Goal) => {
-    setSelectedGoal(goal);
-    setIsGeneratingPlan(true);
-    setIsDialogOpen(true);
-    
-    try {
-      // Dans une véritable implémentation, ceci appellerait l'API OpenAI
-      // Pour cet exemple, nous simulons une génération de plan d'action
-      
-      // Simule un délai d'appel API
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      
-      const daysUntilDeadline = Math.ceil((goal.deadline.getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24));
-      
-      // Plan d'action simulé
-      const plan: GoalPlan = {
-        steps: [
-          {
-            id: "1",
-            description: `Étape 1: Définir clairement les métriques de succès pour "${goal.title}"`,
-            completed: false,
-            targetDate: addDays(new Date(), Math.ceil(daysUntilDeadline * 0.1))
-          },
-          {
-            id: "2",
-            description: "Étape 2: Identifier les ressources nécessaires et les obstacles potentiels",
-            completed: false,
-            targetDate: addDays(new Date(), Math.ceil(daysUntilDeadline * 0.2))
-          },
-          {
-            id: "3",
-            description: "Étape 3: Créer un calendrier hebdomadaire avec des actions spécifiques",
-            completed: false,
-            targetDate: addDays(new Date(), Math.ceil(daysUntilDeadline * 0.3))
-          },
-          {
-            id: "4",
-            description: "Étape 4: Mettre en place un système de suivi des progrès",
-            completed: false,
-            targetDate: addDays(new Date(), Math.ceil(daysUntilDeadline * 0.4))
-          },
-          {
-            id: "5",
-            description: "Étape 5: Évaluation à mi-parcours et ajustement du plan si nécessaire",
-            completed: false,
-            targetDate: addDays(new Date(), Math.ceil(daysUntilDeadline * 0.5))
-          }
-        ],
-        tips: [
-          "Fixez des moments réguliers dans la semaine pour travailler sur cet objectif",
-          "Célébrez les petites victoires pour maintenir votre motivation",
-          "Trouvez un partenaire de responsabilité pour vous aider à rester engagé",
-          "Adaptez votre plan en fonction des réalités rencontrées"
-        ],
-        estimatedCompletion: `Plan estimé pour une réalisation d'ici le ${format(goal.deadline, "dd MMMM yyyy", { locale: fr })}`
-      };
-      
-      // Mise à jour de l'objectif avec le plan généré
-      setGoals(prev => prev.map(g => 
-        g.id === goal.id ? { ...g, plan } : g
-      ));
-      
-      // Mise à jour de l'objectif sélectionné avec le plan
-      setSelectedGoal({ ...goal, plan });
-    } catch (error) {
-      console.error("Erreur lors de la génération du plan:", error);
-    } finally {
-      setIsGeneratingPlan(false);
+  // Habits the goal can be tracked by
+  const { data: habits } = useQuery({
+    queryKey: ["/api/habits", { userId: user.id }],
+    queryFn: async () => {
+      const response = await fetch("/api/habits", {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to fetch habits");
+      }
+      return response.json() as Promise<Habit[]>;
     }
+  });
+  
+  const selectedGoal = goals?.find(goal => goal.id === selectedGoalId) ?? null;
+  
+  const showError = (title: string) => {
+    toast({
+      title,
+      description: "Un problème est survenu. Veuillez réessayer.",
+      variant: "destructive",
+    });
   };
   
-  const toggleStepCompletion = (goalId: string, stepId: string) => {
-    setGoals(prev => prev.map(goal => {
-      if (goal.id === goalId && goal.plan) {
-        const updatedSteps = goal.plan.steps.map(step => 
-          step.id === stepId ? { ...step, completed: !step.completed } : step
-        );
-        
-        return {
-          ...goal,
-          plan: {
-            ...goal.plan,
-            steps: updatedSteps
-          }
-        };
+  // Le serveur génère le plan d'action avec l'IA et l'enregistre avec l'objectif.
+  // "refine" garde les étapes terminées et tient compte des remarques.
+  const generatePlanMutation = useMutation({
+    mutationFn: async ({ goal, mode, feedback }: { goal: Goal; mode: PlanMode; feedback?: string }) => {
+      const response = await apiRequest("POST", `/api/goals/${goal.id}/plan`, { mode, feedback });
+      return response.json() as Promise<GoalPlanResponse>;
+    },
+    onSuccess: (goal) => {
+      queryClient.invalidateQueries({ queryKey: goalsQueryKey });
+      setPlanFeedback("");
+      if (goal.fallback) {
+        toast({
+          title: "Plan type proposé",
+          description: "L'assistant IA n'est pas disponible pour le moment, voici un plan générique à adapter.",
+        });
       }
-      return goal;
-    }));
-    
-    // Mise à jour de l'objectif sélectionné si nécessaire
-    if (selectedGoal && selectedGoal.id === goalId) {
-      const updatedSteps = selectedGoal.plan?.steps.map(step => 
-        step.id === stepId ? { ...step, completed: !step.completed } : step
-      ) || [];
-      
-      setSelectedGoal({
-        ...selectedGoal,
-        plan: selectedGoal.plan ? {
-          ...selectedGoal.plan,
-          steps: updatedSteps
-        } : undefined
-      });
+    },
+    onError: (error) => {
+      console.error("Erreur lors de la génération du plan:", error);
+      showError("Impossible de générer le plan");
     }
+  });
+  
+  const createGoalMutation = useMutation({
+    mutationFn: async (values: GoalFormValues) => {
+      const response = await apiRequest("POST", "/api/goals", values);
+      return response.json() as Promise<Goal>;
+    },
+    onSuccess: (goal) => {
+      queryClient.invalidateQueries({ queryKey: goalsQueryKey });
+      form.reset();
+      generateGoalPlan(goal);
+    },
+    onError: () => showError("Impossible d'enregistrer l'objectif")
+  });
+  
+  const toggleStepMutation = useMutation({
+    mutationFn: async ({ goalId, stepId }: { goalId: number; stepId: number }) => {
+      const response = await apiRequest("POST", `/api/goals/${goalId}/steps/${stepId}/toggle`, {});
+      return response.json() as Promise<GoalStep>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: goalsQueryKey });
+    },
+    onError: () => showError("Impossible de mettre à jour l'étape")
+  });
+  
+  const toggleGoalMutation = useMutation({
+    mutationFn: async (goal: Goal) => {
+      const response = await apiRequest(goal.completed ? "DELETE" : "POST", `/api/goals/${goal.id}/complete`);
+      return response.json() as Promise<Goal>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: goalsQueryKey });
+    },
+    onError: () => showError("Impossible de mettre à jour l'objectif")
+  });
+  
+  const deleteGoalMutation = useMutation({
+    mutationFn: async (goalId: number) => {
+      await apiRequest("DELETE", `/api/goals/${goalId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: goalsQueryKey });
+      toast({
+        title: "Objectif supprimé",
+        description: "L'objectif et son plan d'action ont été supprimés.",
+      });
+    },
+    onError: () => showError("Impossible de supprimer l'objectif")
+  });
+  
+  const onSubmit = (values: GoalFormValues) => {
+    createGoalMutation.mutate(values);
   };
   
-  const toggleGoalCompletion = (goalId: string) => {
-    setGoals(prev => prev.map(goal => 
-      goal.id === goalId ? { ...goal, completed: !goal.completed } : goal
-    ));
+  const generateGoalPlan = (goal: Goal, mode: PlanMode = "replace") => {
+    setSelectedGoalId(goal.id);
+    setIsDialogOpen(true);
+    generatePlanMutation.mutate({ goal, mode, feedback: mode === "refine" ? planFeedback : undefined });
   };
   
+  const isGeneratingPlan = generatePlanMutation.isPending;
+  
   return (
     <Card className="mb-8">
       <CardHeader>
@@ -298,13 +283,58 @@ export default function GoalSetting({ user }: GoalSettingProps) {
                 </FormItem>
               )}
             />
-            <Button type="submit" className="w-full">
+            {habits && habits.length > 0 && (
+              <FormField
+                control={form.control}
+                name="habits"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Habitudes liées</FormLabel>
+                    <div className="space-y-2">
+                      {habits.map(habit => {
+                        const link = field.value.find(l => l.habitId === habit.id);
+                        return (
+                          <div key={habit.id} className="flex items-center gap-3">
+                            <Checkbox
+                              checked={!!link}
+                              onCheckedChange={(checked) => field.onChange(checked
+                                ? [...field.value, { habitId: habit.id, targetCompletions: 20 }]
+                                : field.value.filter(l => l.habitId !== habit.id))}
+                            />
+                            <span className="flex-1 text-sm">{habit.name}</span>
+                            {link && (
+                              <>
+                                <Input
+                                  type="number"
+                                  min={1}
+                                  className="w-20 h-8"
+                                  value={link.targetCompletions}
+                                  onChange={(e) => field.onChange(field.value.map(l =>
+                                    l.habitId === habit.id ? { ...l, targetCompletions: Number(e.target.value) } : l
+                                  ))}
+                                />
+                                <span className="text-xs text-gray-500">jours</span>
+                              </>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                    <FormDescription>
+                      La progression sera calculée à partir des validations de ces habitudes d'ici la date limite.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <Button type="submit" className="w-full" disabled={createGoalMutation.isPending}>
               Définir l'objectif et générer un plan d'action
             </Button>
           </form>
         </Form>
         
-        {goals.length > 0 && (
+        {goals && goals.length > 0 && (
           <div className="mt-8 space-y-4">
             <h3 className="text-md font-medium">Objectifs en cours ({goals.length})</h3>
             
@@ -317,7 +347,8 @@ export default function GoalSetting({ user }: GoalSettingProps) {
                         <input
                           type="checkbox"
                           checked={goal.completed}
-                          onChange={() => toggleGoalCompletion(goal.id)}
+                          onChange={() => toggleGoalMutation.mutate(goal)}
+                          disabled={toggleGoalMutation.isPending}
                           className="mr-2 h-4 w-4 rounded border-gray-300"
                         />
                         <span className={goal.completed ? "line-through text-gray-500" : ""}>
@@ -325,94 +356,158 @@ export default function GoalSetting({ user }: GoalSettingProps) {
                         </span>
                       </CardTitle>
                       <CardDescription className="mt-1">
-                        Échéance: {format(goal.deadline, "dd MMMM yyyy", { locale: fr })}
+                        Échéance: {format(new Date(goal.deadline), "dd MMMM yyyy", { locale: fr })}
                       </CardDescription>
                     </div>
                     
-                    <Dialog open={isDialogOpen && selectedGoal?.id === goal.id} onOpenChange={setIsDialogOpen}>
-                      <DialogTrigger asChild>
-                        <Button 
-                          variant="outline" 
-                          size="sm" 
-                          onClick={() => {
-                            setSelectedGoal(goal);
-                            if (!goal.plan) {
-                              generateGoalPlan(goal);
-                            } else {
-                              setIsDialogOpen(true);
-                            }
-                          }}
-                        >
-                          {goal.plan ? "Voir le plan" : "Générer un plan"}
-                        </Button>
-                      </DialogTrigger>
-                      <DialogContent className="max-w-lg max-h-[80vh] overflow-y-auto">
-                        <DialogHeader>
-                          <DialogTitle>Plan d'action: {goal.title}</DialogTitle>
-                          <DialogDescription>
-                            Plan personnalisé pour atteindre votre objectif d'ici le {format(goal.deadline, "dd MMMM yyyy", { locale: fr })}
-                          </DialogDescription>
-                        </DialogHeader>
+                    <div className="flex items-center gap-1">
+                      <Dialog open={isDialogOpen && selectedGoal?.id === goal.id} onOpenChange={setIsDialogOpen}>
+                        <DialogTrigger asChild>
+                          <Button 
+                            variant="outline" 
+                            size="sm" 
+                            onClick={() => {
+                              setSelectedGoalId(goal.id);
+                              if (goal.steps.length === 0) {
+                                generateGoalPlan(goal);
+                              } else {
+                                setIsDialogOpen(true);
+                              }
+                            }}
+                          >
+                            {goal.steps.length > 0 ? "Voir le plan" : "Générer un plan"}
+                          </Button>
+                        </DialogTrigger>
+                        <DialogContent className="max-w-lg max-h-[80vh] overflow-y-auto">
+                          <DialogHeader>
+                            <DialogTitle>Plan d'action: {goal.title}</DialogTitle>
+                            <DialogDescription>
+                              Plan personnalisé pour atteindre votre objectif d'ici le {format(new Date(goal.deadline), "dd MMMM yyyy", { locale: fr })}
+                            </DialogDescription>
+                          </DialogHeader>
                         
-                        {isGeneratingPlan ? (
-                          <div className="my-8 text-center">
-                            <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-500 mx-auto"></div>
-                            <p className="mt-4 text-sm text-gray-600">Génération de votre plan d'action personnalisé...</p>
-                          </div>
-                        ) : (
-                          selectedGoal?.plan && (
-                            <div className="space-y-6 py-4">
-                              <div>
-                                <h4 className="text-sm font-medium mb-2 flex items-center">
-                                  <i className="ri-list-check-2 mr-2 text-primary-500"></i>
-                                  Étapes à suivre
-                                </h4>
-                                <ul className="space-y-3">
-                                  {selectedGoal.plan.steps.map(step => (
-                                    <li key={step.id} className="flex items-start gap-2">
-                                      <input
-                                        type="checkbox"
-                                        checked={step.completed}
-                                        onChange={() => toggleStepCompletion(selectedGoal.id, step.id)}
-                                        className="mt-1 h-4 w-4 rounded border-gray-300"
-                                      />
-                                      <div>
-                                        <p className={step.completed ? "line-through text-gray-500" : ""}>
-                                          {step.description}
-                                        </p>
-                                        {step.targetDate && (
-                                          <p className="text-xs text-gray-500 mt-1">
-                                            Cible: {format(step.targetDate, "dd MMM yyyy", { locale: fr })}
+                          {isGeneratingPlan ? (
+                            <div className="my-8 text-center">
+                              <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-500 mx-auto"></div>
+                              <p className="mt-4 text-sm text-gray-600">Génération de votre plan d'action personnalisé...</p>
+                            </div>
+                          ) : (
+                            selectedGoal && selectedGoal.steps.length > 0 && (
+                              <div className="space-y-6 py-4">
+                                <div>
+                                  <h4 className="text-sm font-medium mb-2 flex items-center">
+                                    <i className="ri-list-check-2 mr-2 text-primary-500"></i>
+                                    Étapes à suivre
+                                  </h4>
+                                  <ul className="space-y-3">
+                                    {selectedGoal.steps.map(step => (
+                                      <li key={step.id} className="flex items-start gap-2">
+                                        <input
+                                          type="checkbox"
+                                          checked={step.completed}
+                                          onChange={() => toggleStepMutation.mutate({ goalId: selectedGoal.id, stepId: step.id })}
+                                          className="mt-1 h-4 w-4 rounded border-gray-300"
+                                        />
+                                        <div>
+                                          <p className={step.completed ? "line-through text-gray-500" : ""}>
+                                            {step.description}
                                           </p>
-                                        )}
-                                      </div>
-                                    </li>
-                                  ))}
-                                </ul>
-                              </div>
+                                          {step.targetDate && (
+                                            <p className="text-xs text-gray-500 mt-1">
+                                              Cible: {format(new Date(step.targetDate), "dd MMM yyyy", { locale: fr })}
+                                            </p>
+                                          )}
+                                        </div>
+                                      </li>
+                                    ))}
+                                  </ul>
+                                </div>
                               
-                              <div>
-                                <h4 className="text-sm font-medium mb-2 flex items-center">
-                                  <i className="ri-lightbulb-line mr-2 text-amber-500"></i>
-                                  Conseils pour réussir
-                                </h4>
-                                <ul className="list-disc list-inside space-y-2 text-sm text-gray-700">
-                                  {selectedGoal.plan.tips.map((tip, index) => (
-                                    <li key={index}>{tip}</li>
-                                  ))}
-                                </ul>
-                              </div>
+                                <div>
+                                  <h4 className="text-sm font-medium mb-2 flex items-center">
+                                    <i className="ri-lightbulb-line mr-2 text-amber-500"></i>
+                                    Conseils pour réussir
+                                  </h4>
+                                  <ul className="list-disc list-inside space-y-2 text-sm text-gray-700">
+                                    {(selectedGoal.tips ?? []).map((tip, index) => (
+                                      <li key={index}>{tip}</li>
+                                    ))}
+                                  </ul>
+                                </div>
                               
-                              <p className="text-sm text-center italic text-gray-600">
-                                {selectedGoal.plan.estimatedCompletion}
-                              </p>
-                            </div>
-                          )
-                        )}
-                      </DialogContent>
-                    </Dialog>
+                                <p className="text-sm text-center italic text-gray-600">
+                                  {selectedGoal.estimatedCompletion}
+                                </p>
+                                
+                                <div className="space-y-2 border-t pt-4">
+                                  <Textarea 
+                                    placeholder="Que souhaitez-vous changer dans ce plan ? (facultatif)" 
+                                    value={planFeedback}
+                                    onChange={(e) => setPlanFeedback(e.target.value)}
+                                    className="min-h-[60px] text-sm"
+                                  />
+                                  <div className="flex gap-2">
+                                    <Button 
+                                      variant="outline" 
+                                      size="sm" 
+                                      className="flex-1"
+                                      onClick={() => generateGoalPlan(selectedGoal, "refine")}
+                                    >
+                                      <i className="ri-magic-line mr-1"></i>
+                                      Ajuster le plan
+                                    </Button>
+                                    <Button 
+                                      variant="ghost" 
+                                      size="sm" 
+                                      className="flex-1"
+                                      onClick={() => generateGoalPlan(selectedGoal, "replace")}
+                                    >
+                                      <i className="ri-refresh-line mr-1"></i>
+                                      Tout régénérer
+                                    </Button>
+                                  </div>
+                                  <p className="text-xs text-gray-500">
+                                    Ajuster conserve les étapes déjà terminées.
+                                  </p>
+                                </div>
+                              </div>
+                            )
+                          )}
+                        </DialogContent>
+                      </Dialog>
+                      <Button 
+                        variant="ghost" 
+                        size="icon" 
+                        className="text-gray-400 hover:text-red-500"
+                        title="Supprimer"
+                        onClick={() => deleteGoalMutation.mutate(goal.id)}
+                        disabled={deleteGoalMutation.isPending}
+                      >
+                        <i className="ri-delete-bin-line"></i>
+                      </Button>
+                    </div>
                   </div>
                 </CardHeader>
+                {goal.progress && (
+                  <CardContent className="pt-0 pb-4 px-5 space-y-2">
+                    <div className="flex items-center justify-between text-xs text-gray-600">
+                      <span>Progression : {goal.progress.percent}%</span>
+                      <span className={goal.progress.onTrack === false ? "text-amber-600" : ""}>
+                        {goal.progress.projectedCompletion
+                          ? `Fin estimée : ${format(new Date(goal.progress.projectedCompletion), "dd MMM yyyy", { locale: fr })}`
+                          : "Pas encore assez de données"}
+                      </span>
+                    </div>
+                    <Progress value={goal.progress.percent} className="h-2" />
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500">
+                      {goal.habits.map(habit => (
+                        <span key={habit.habitId}>
+                          {habit.name} : {habit.completions}/{habit.targetCompletions}
+                        </span>
+                      ))}
+                    </div>
+                  </CardContent>
+                )}
               </Card>
             ))}
           </div>
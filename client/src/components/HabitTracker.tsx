@@ -1,12 +1,21 @@
-import { useState } from "react";
+import { ReactNode, useEffect, useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { Habit, User } from "@/types";
+import { Habit, HabitSchedule, HabitStats, User } from "@/types";
 import { apiRequest } from "@/lib/queryClient";
+import { describeAmount, describeSchedule, describeStreak, weekdayOptions } from "@/lib/habits";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogClose } from "@/components/ui/dialog";
-import { FormField, FormItem, FormLabel, FormControl, Form } from "@/components/ui/form";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { FormField, FormItem, FormLabel, FormControl, FormMessage, Form } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
-import { format, differenceInDays, isSameDay } from "date-fns";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
@@ -33,6 +42,7 @@ const habitIcons = [
 
 export default function HabitTracker({ user }: HabitTrackerProps) {
   const [isAddHabitOpen, setIsAddHabitOpen] = useState(false);
+  const [editingHabit, setEditingHabit] = useState<Habit | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
   
@@ -40,7 +50,7 @@ export default function HabitTracker({ user }: HabitTrackerProps) {
   const { data: habits, isLoading } = useQuery({
     queryKey: ["/api/habits", { userId: user.id }],
     queryFn: async ({ queryKey }) => {
-      const response = await fetch(`/api/habits?userId=${user.id}`, {
+      const response = await fetch("/api/habits", {
         credentials: "include",
       });
       if (!response.ok) {
@@ -50,17 +60,44 @@ export default function HabitTracker({ user }: HabitTrackerProps) {
     }
   });
   
-  // Complete habit mutation
+  // Streaks and due days are computed by the server from each habit's
+  // schedule, in the user's timezone
+  const { data: habitStats } = useQuery({
+    queryKey: ["/api/habits/stats", { userId: user.id }],
+    queryFn: async () => {
+      const response = await fetch("/api/habits/stats", {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to fetch habit stats");
+      }
+      return response.json() as Promise<HabitStats[]>;
+    }
+  });
+  
+  const invalidateHabits = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/habits", { userId: user.id }] });
+    queryClient.invalidateQueries({ queryKey: ["/api/habits/stats", { userId: user.id }] });
+    // Mood insights correlate moods with the days habits were done
+    queryClient.invalidateQueries({ queryKey: ["/api/insights/mood", { userId: user.id }] });
+  };
+  
+  // Complete habit mutation, a check-in of `quantity` for habits tracked as an amount
   const completeHabitMutation = useMutation({
-    mutationFn: async (habitId: number) => {
-      const response = await apiRequest("POST", `/api/habits/${habitId}/complete`, {});
+    mutationFn: async ({ habitId, quantity }: { habitId: number; quantity?: number }) => {
+      const response = await apiRequest("POST", `/api/habits/${habitId}/complete`, { quantity });
       return response.json();
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/habits", { userId: user.id }] });
-      toast({
+    onSuccess: (_completion, { quantity }) => {
+      invalidateHabits();
+      // Goals linked to the habit track its completions
+      queryClient.invalidateQueries({ queryKey: ["/api/goals", { userId: user.id }] });
+      toast(quantity === undefined ? {
         title: "Habit completed",
         description: "Great job! You've made progress on your habit.",
+      } : {
+        title: "Check-in saved",
+        description: "Every bit counts towards today's target.",
       });
     },
     onError: () => {
@@ -72,40 +109,130 @@ export default function HabitTracker({ user }: HabitTrackerProps) {
     }
   });
   
-  // Function to check if a habit was completed today
-  const isCompletedToday = (habit: Habit) => {
-    if (!habit.completions || !habit.completions.length) return false;
-    
-    // Get the latest completion
-    const latestCompletion = new Date(habit.completions[0].completedAt);
-    return isSameDay(latestCompletion, new Date());
+  // Undo today's completion mutation
+  const uncompleteHabitMutation = useMutation({
+    mutationFn: async (habitId: number) => {
+      const response = await apiRequest("DELETE", `/api/habits/${habitId}/completions/today`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateHabits();
+      queryClient.invalidateQueries({ queryKey: ["/api/goals", { userId: user.id }] });
+      toast({
+        title: "Completion undone",
+        description: "Today's check-in has been removed.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Failed to undo completion",
+        description: "There was a problem updating your habit. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+  
+  // Undo a single check-in, the latest one of the day
+  const undoCheckInMutation = useMutation({
+    mutationFn: async ({ habitId, completionId }: { habitId: number; completionId: number }) => {
+      await apiRequest("DELETE", `/api/habits/${habitId}/completions/${completionId}`);
+    },
+    onSuccess: () => {
+      invalidateHabits();
+      queryClient.invalidateQueries({ queryKey: ["/api/goals", { userId: user.id }] });
+    },
+    onError: () => {
+      toast({
+        title: "Failed to undo check-in",
+        description: "There was a problem updating your habit. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+  
+  // Archive habit mutation
+  const archiveHabitMutation = useMutation({
+    mutationFn: async (habitId: number) => {
+      const response = await apiRequest("PATCH", `/api/habits/${habitId}`, { archived: true });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateHabits();
+      toast({
+        title: "Habit archived",
+        description: "The habit is hidden from your daily list. Its history is kept.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Failed to archive habit",
+        description: "There was a problem updating your habit. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+  
+  // Delete habit mutation
+  const deleteHabitMutation = useMutation({
+    mutationFn: async (habitId: number) => {
+      await apiRequest("DELETE", `/api/habits/${habitId}`);
+    },
+    onSuccess: () => {
+      invalidateHabits();
+      queryClient.invalidateQueries({ queryKey: ["/api/goals", { userId: user.id }] });
+      toast({
+        title: "Habit deleted",
+        description: "The habit and its history have been removed.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Failed to delete habit",
+        description: "There was a problem deleting your habit. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+  
+  const toggleToday = (habit: Habit) => {
+    if (isCompletedToday(habit)) {
+      uncompleteHabitMutation.mutate(habit.id);
+    } else {
+      completeHabitMutation.mutate({ habitId: habit.id });
+    }
   };
   
-  // Calculate streak for a habit
-  const calculateStreak = (habit: Habit) => {
-    if (!habit.completions || habit.completions.length === 0) return 0;
-    
-    // Sort completions by date, most recent first
-    const sortedCompletions = [...habit.completions].sort(
+  const undoLastCheckIn = (habit: Habit) => {
+    const latest = [...(habit.completions ?? [])].sort(
       (a, b) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime()
-    );
-    
-    let streak = 1;
-    let currentDate = new Date(sortedCompletions[0].completedAt);
-    
-    for (let i = 1; i < sortedCompletions.length; i++) {
-      const previousDate = new Date(sortedCompletions[i].completedAt);
-      const dayDifference = differenceInDays(currentDate, previousDate);
-      
-      if (dayDifference === 1) {
-        streak++;
-        currentDate = previousDate;
-      } else if (dayDifference > 1) {
-        break;
-      }
+    )[0];
+    if (latest) {
+      undoCheckInMutation.mutate({ habitId: habit.id, completionId: latest.id });
     }
-    
-    return streak;
+  };
+  
+  const isUpdating = completeHabitMutation.isPending || uncompleteHabitMutation.isPending || undoCheckInMutation.isPending;
+  
+  const statsFor = (habit: Habit) => habitStats?.find((stats) => stats.habitId === habit.id);
+  
+  const isCompletedToday = (habit: Habit) => statsFor(habit)?.completedToday ?? false;
+  
+  // Habits not due today (e.g. a weekday habit on Sunday) are shown dimmed
+  const isRestDay = (habit: Habit) => {
+    const stats = statsFor(habit);
+    return !!stats && !stats.dueToday && !stats.completedToday;
+  };
+  
+  // Subtitle with the schedule, this week's or month's count and the streak
+  const describeProgress = (habit: Habit) => {
+    const stats = statsFor(habit);
+    return [
+      describeSchedule(habit.schedule),
+      stats?.dailyTarget != null && `${describeAmount(stats.todayAmount, stats.dailyTarget, habit.unit)} today`,
+      stats?.periodTarget != null && `${stats.periodCompletions}/${stats.periodTarget} so far`,
+      stats && stats.streak > 0 && describeStreak(stats),
+      isRestDay(habit) && "Not due today",
+    ].filter(Boolean).join(" · ");
   };
   
   return (
@@ -124,44 +251,80 @@ export default function HabitTracker({ user }: HabitTrackerProps) {
           </div>
         ) : habits && habits.length > 0 ? (
           habits.map((habit) => (
-            <div key={habit.id} className="flex justify-between items-center">
+            <div key={habit.id} className={`flex justify-between items-center ${isRestDay(habit) ? "opacity-60" : ""}`}>
               <div className="flex items-center">
                 <div className={`w-10 h-10 bg-${habit.icon?.includes("heart") ? "accent" : "secondary"}-100 rounded-full flex items-center justify-center`}>
                   <i className={`${habit.icon || "ri-calendar-check-line"} text-${habit.icon?.includes("heart") ? "accent" : "secondary"}-600`}></i>
                 </div>
                 <div className="ml-3">
                   <h3 className="text-sm font-medium">{habit.name}</h3>
+                  <p className="text-xs text-gray-500">{describeProgress(habit)}</p>
                   <div className="flex mt-1">
-                    {/* Show last 5 days' status */}
-                    {Array.from({ length: 5 }).map((_, index) => {
-                      const date = new Date();
-                      date.setDate(date.getDate() - index);
-                      
-                      // Check if there's a completion for this date
-                      const isCompleted = habit.completions?.some(completion => 
-                        isSameDay(new Date(completion.completedAt), date)
-                      );
-                      
-                      return (
-                        <div key={index} className={`w-5 h-5 rounded-full bg-${habit.icon?.includes("heart") ? "accent" : "secondary"}-100 mr-1 flex items-center justify-center`}>
-                          <div className={`w-3 h-3 rounded-full ${isCompleted ? `bg-${habit.icon?.includes("heart") ? "accent" : "secondary"}-500` : "bg-transparent"}`}></div>
-                        </div>
-                      );
-                    })}
+                    {/* Show last 5 days' progress, days off the schedule are outlined */}
+                    {statsFor(habit)?.calendar.slice(-5).reverse().map((day) => (
+                      <ProgressRing
+                        key={day.date}
+                        title={day.date}
+                        progress={dayProgress(day.completed, day.amount, habit.dailyTarget)}
+                        className={`w-5 h-5 mr-1 text-${habit.icon?.includes("heart") ? "accent" : "secondary"}-500 ${
+                          day.scheduled ? "" : "rounded-full border border-dashed border-gray-300"
+                        }`}
+                      />
+                    ))}
                   </div>
                 </div>
               </div>
-              <Button
-                variant="ghost"
-                size="icon"
-                className={`h-8 w-8 rounded-full ${isCompletedToday(habit) 
-                  ? `bg-${habit.icon?.includes("heart") ? "accent" : "secondary"}-200 text-${habit.icon?.includes("heart") ? "accent" : "secondary"}-700`
-                  : `bg-${habit.icon?.includes("heart") ? "accent" : "secondary"}-100 text-${habit.icon?.includes("heart") ? "accent" : "secondary"}-700 hover:bg-${habit.icon?.includes("heart") ? "accent" : "secondary"}-200`}`}
-                onClick={() => !isCompletedToday(habit) && completeHabitMutation.mutate(habit.id)}
-                disabled={isCompletedToday(habit) || completeHabitMutation.isPending}
-              >
-                <i className="ri-check-line"></i>
-              </Button>
+              <div className="flex items-center gap-1">
+                {habit.dailyTarget ? (
+                  <CheckInPopover
+                    habit={habit}
+                    todayAmount={statsFor(habit)?.todayAmount ?? 0}
+                    disabled={isUpdating}
+                    onCheckIn={(quantity) => completeHabitMutation.mutate({ habitId: habit.id, quantity })}
+                    onUndo={() => undoLastCheckIn(habit)}
+                  />
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title={isCompletedToday(habit) ? "Undo today's check-in" : "Mark as done today"}
+                    className={`h-8 w-8 rounded-full p-0 text-${habit.icon?.includes("heart") ? "accent" : "secondary"}-600`}
+                    onClick={() => toggleToday(habit)}
+                    disabled={isUpdating}
+                  >
+                    <ProgressRing progress={isCompletedToday(habit) ? 1 : 0} className="w-8 h-8">
+                      <i className={isCompletedToday(habit) ? "ri-check-double-line" : "ri-check-line"}></i>
+                    </ProgressRing>
+                  </Button>
+                )}
+                
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon" className="h-8 w-8 text-gray-500">
+                      <i className="ri-more-2-fill"></i>
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => setEditingHabit(habit)}>
+                      <i className="ri-pencil-line mr-2"></i> Edit
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => archiveHabitMutation.mutate(habit.id)}>
+                      <i className="ri-archive-line mr-2"></i> Archive
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem 
+                      className="text-red-600 focus:text-red-700"
+                      onClick={() => {
+                        if (window.confirm(`Delete "${habit.name}" and all of its history?`)) {
+                          deleteHabitMutation.mutate(habit.id);
+                        }
+                      }}
+                    >
+                      <i className="ri-delete-bin-line mr-2"></i> Delete
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
             </div>
           ))
         ) : (
@@ -185,42 +348,264 @@ export default function HabitTracker({ user }: HabitTrackerProps) {
         onClose={() => setIsAddHabitOpen(false)}
         userId={user.id}
       />
+      
+      <AddHabitDialog
+        isOpen={editingHabit !== null}
+        onClose={() => setEditingHabit(null)}
+        userId={user.id}
+        habit={editingHabit ?? undefined}
+      />
     </div>
   );
 }
 
-// Form validation schema
+// Form validation schema. The schedule is edited as flat fields and turned
+// into a HabitSchedule on submit.
 const habitFormSchema = z.object({
   name: z.string().min(2, "Habit name must be at least 2 characters").max(50, "Habit name must be less than 50 characters"),
   description: z.string().optional(),
   icon: z.string(),
+  scheduleType: z.enum(["daily", "weekdays", "times_per_week", "times_per_month", "interval"]),
+  weekdays: z.array(z.number()),
+  times: z.coerce.number().int().min(1, "At least once"),
+  intervalDays: z.coerce.number().int().min(2, "At least every 2 days").max(365, "At most every 365 days"),
+  // Left empty for habits that are simply checked off
+  dailyTarget: z.string().refine((value) => value === "" || Number(value) > 0, "Must be a positive number"),
+  unit: z.string().max(20, "Unit must be less than 20 characters"),
+}).superRefine((values, ctx) => {
+  if (values.scheduleType === "weekdays" && values.weekdays.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["weekdays"], message: "Pick at least one day" });
+  }
+  const maxTimes = values.scheduleType === "times_per_week" ? 7 : 31;
+  if (values.times > maxTimes) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["times"], message: `At most ${maxTimes} times` });
+  }
 });
 
+type HabitFormValues = z.infer<typeof habitFormSchema>;
+
+const defaultScheduleFields = { scheduleType: "daily" as const, weekdays: [1, 2, 3, 4, 5], times: 3, intervalDays: 2 };
+
+function toSchedule(values: HabitFormValues): HabitSchedule {
+  switch (values.scheduleType) {
+    case "daily":
+      return { type: "daily" };
+    case "weekdays":
+      return { type: "weekdays", days: values.weekdays };
+    case "times_per_week":
+    case "times_per_month":
+      return { type: values.scheduleType, times: values.times };
+    case "interval":
+      return { type: "interval", days: values.intervalDays };
+  }
+}
+
+function scheduleFields(schedule: HabitSchedule): Pick<HabitFormValues, "scheduleType" | "weekdays" | "times" | "intervalDays"> {
+  return {
+    ...defaultScheduleFields,
+    scheduleType: schedule.type,
+    ...(schedule.type === "weekdays" && { weekdays: schedule.days }),
+    ...((schedule.type === "times_per_week" || schedule.type === "times_per_month") && { times: schedule.times }),
+    ...(schedule.type === "interval" && { intervalDays: schedule.days }),
+  };
+}
+
+// Share of the day's target reached, days without a target are all or nothing
+function dayProgress(completed: boolean, amount: number, dailyTarget?: number | null): number {
+  if (completed) return 1;
+  return dailyTarget ? Math.min(1, amount / dailyTarget) : 0;
+}
+
+interface ProgressRingProps {
+  progress: number;
+  className?: string;
+  title?: string;
+  children?: ReactNode;
+}
+
+// Circle filled clockwise from the top in the current text color, with
+// optional content in the middle
+function ProgressRing({ progress, className = "", title, children }: ProgressRingProps) {
+  const circumference = 2 * Math.PI * 15;
+  
+  return (
+    <div className={`relative flex items-center justify-center shrink-0 ${className}`} title={title}>
+      <svg viewBox="0 0 36 36" className="absolute inset-0 w-full h-full -rotate-90">
+        <circle cx="18" cy="18" r="15" fill="none" stroke="currentColor" strokeOpacity={0.15} strokeWidth="5" />
+        {progress > 0 && (
+          <circle
+            cx="18"
+            cy="18"
+            r="15"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="5"
+            strokeLinecap="round"
+            strokeDasharray={`${circumference * Math.min(1, progress)} ${circumference}`}
+          />
+        )}
+      </svg>
+      {children && <span className="relative text-xs">{children}</span>}
+    </div>
+  );
+}
+
+interface CheckInPopoverProps {
+  habit: Habit;
+  todayAmount: number;
+  disabled: boolean;
+  onCheckIn: (quantity: number) => void;
+  onUndo: () => void;
+}
+
+// Ring showing today's progress towards the target, opening a small form to
+// add a check-in of any amount
+function CheckInPopover({ habit, todayAmount, disabled, onCheckIn, onUndo }: CheckInPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const [quantity, setQuantity] = useState("1");
+  const target = habit.dailyTarget ?? 1;
+  const tone = habit.icon?.includes("heart") ? "accent" : "secondary";
+  
+  const submit = () => {
+    const value = Number(quantity);
+    if (!(value > 0)) return;
+    onCheckIn(value);
+    setOpen(false);
+  };
+  
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          title={`${describeAmount(todayAmount, target, habit.unit)} today`}
+          className={`h-8 w-8 rounded-full p-0 text-${tone}-600`}
+          disabled={disabled}
+        >
+          <ProgressRing progress={todayAmount / target} className="w-8 h-8">
+            {todayAmount >= target ? <i className="ri-check-double-line"></i> : <i className="ri-add-line"></i>}
+          </ProgressRing>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-60">
+        <p className="text-sm font-medium">{habit.name}</p>
+        <p className="text-xs text-gray-500">{describeAmount(todayAmount, target, habit.unit)} today</p>
+        <form
+          className="mt-3 flex items-center gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            submit();
+          }}
+        >
+          <Input
+            type="number"
+            min={0}
+            step="any"
+            value={quantity}
+            onChange={(event) => setQuantity(event.target.value)}
+            className="h-8 w-20"
+            aria-label="Amount"
+          />
+          {habit.unit && <span className="text-sm text-gray-600">{habit.unit}</span>}
+          <Button type="submit" size="sm" className="ml-auto" disabled={disabled || !(Number(quantity) > 0)}>
+            Add
+          </Button>
+        </form>
+        {todayAmount > 0 && (
+          <Button
+            variant="link"
+            size="sm"
+            className="mt-1 h-auto p-0 text-xs text-gray-500"
+            onClick={() => {
+              onUndo();
+              setOpen(false);
+            }}
+            disabled={disabled}
+          >
+            Undo last check-in
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+interface HabitPayload {
+  name: string;
+  description?: string;
+  icon: string;
+  schedule: HabitSchedule;
+  dailyTarget: number | null;
+  unit: string | null;
+}
+
 interface AddHabitDialogProps {
   isOpen: boolean;
   onClose: () => void;
   userId: number;
+  // When set, the dialog edits this habit instead of creating a new one
+  habit?: Habit;
 }
 
-function AddHabitDialog({ isOpen, onClose, userId }: AddHabitDialogProps) {
+function AddHabitDialog({ isOpen, onClose, userId, habit }: AddHabitDialogProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const isEditing = habit !== undefined;
   
-  const form = useForm<z.infer<typeof habitFormSchema>>({
+  const form = useForm<HabitFormValues>({
     resolver: zodResolver(habitFormSchema),
     defaultValues: {
       name: "",
       description: "",
       icon: "ri-walk-line",
+      ...defaultScheduleFields,
+      dailyTarget: "",
+      unit: "",
     },
   });
+  const scheduleType = form.watch("scheduleType");
   
-  const createHabitMutation = useMutation({
-    mutationFn: async (values: z.infer<typeof habitFormSchema>) => {
-      const response = await apiRequest("POST", "/api/habits", {
-        ...values,
-        userId
+  // Load the habit being edited into the form
+  useEffect(() => {
+    if (habit) {
+      form.reset({
+        name: habit.name,
+        description: habit.description ?? "",
+        icon: habit.icon ?? "ri-walk-line",
+        ...scheduleFields(habit.schedule ?? { type: "daily" }),
+        dailyTarget: habit.dailyTarget ? String(habit.dailyTarget) : "",
+        unit: habit.unit ?? "",
+      });
+    }
+  }, [habit, form]);
+  
+  const updateHabitMutation = useMutation({
+    mutationFn: async (values: HabitPayload) => {
+      const response = await apiRequest("PATCH", `/api/habits/${habit!.id}`, values);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Habit updated",
+        description: "Your habit has been updated successfully.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/habits", { userId }] });
+      queryClient.invalidateQueries({ queryKey: ["/api/habits/stats", { userId }] });
+      onClose();
+    },
+    onError: () => {
+      toast({
+        title: "Failed to update habit",
+        description: "There was a problem updating your habit. Please try again.",
+        variant: "destructive",
       });
+    }
+  });
+  
+  const createHabitMutation = useMutation({
+    mutationFn: async (values: HabitPayload) => {
+      const response = await apiRequest("POST", "/api/habits", values);
       return response.json();
     },
     onSuccess: () => {
@@ -229,6 +614,7 @@ function AddHabitDialog({ isOpen, onClose, userId }: AddHabitDialogProps) {
         description: "Your new habit has been added successfully.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/habits", { userId }] });
+      queryClient.invalidateQueries({ queryKey: ["/api/habits/stats", { userId }] });
       form.reset();
       onClose();
     },
@@ -241,15 +627,29 @@ function AddHabitDialog({ isOpen, onClose, userId }: AddHabitDialogProps) {
     }
   });
   
-  const onSubmit = (values: z.infer<typeof habitFormSchema>) => {
-    createHabitMutation.mutate(values);
+  const isSaving = createHabitMutation.isPending || updateHabitMutation.isPending;
+  
+  const onSubmit = (values: HabitFormValues) => {
+    const payload: HabitPayload = {
+      name: values.name,
+      description: values.description,
+      icon: values.icon,
+      schedule: toSchedule(values),
+      dailyTarget: values.dailyTarget ? Number(values.dailyTarget) : null,
+      unit: values.unit.trim() || null,
+    };
+    if (isEditing) {
+      updateHabitMutation.mutate(payload);
+    } else {
+      createHabitMutation.mutate(payload);
+    }
   };
   
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
       <DialogContent className="sm:max-w-[425px]">
         <DialogHeader>
-          <DialogTitle>Add New Habit</DialogTitle>
+          <DialogTitle>{isEditing ? "Edit Habit" : "Add New Habit"}</DialogTitle>
           <DialogClose className="absolute right-4 top-4" />
         </DialogHeader>
         
@@ -281,6 +681,127 @@ function AddHabitDialog({ isOpen, onClose, userId }: AddHabitDialogProps) {
               )}
             />
             
+            <FormField
+              control={form.control}
+              name="scheduleType"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Schedule</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="daily">Every day</SelectItem>
+                      <SelectItem value="weekdays">On specific days</SelectItem>
+                      <SelectItem value="times_per_week">A number of times per week</SelectItem>
+                      <SelectItem value="times_per_month">A number of times per month</SelectItem>
+                      <SelectItem value="interval">Every few days</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+            
+            {scheduleType === "weekdays" && (
+              <FormField
+                control={form.control}
+                name="weekdays"
+                render={({ field }) => (
+                  <FormItem>
+                    <div className="flex gap-1">
+                      {weekdayOptions.map(({ day, label }) => (
+                        <button
+                          key={day}
+                          type="button"
+                          className={`flex-1 rounded-md py-1.5 text-xs font-medium ${
+                            field.value.includes(day) ? "bg-primary-500 text-white" : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                          }`}
+                          onClick={() => field.onChange(field.value.includes(day)
+                            ? field.value.filter((selected) => selected !== day)
+                            : [...field.value, day])}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            
+            {(scheduleType === "times_per_week" || scheduleType === "times_per_month") && (
+              <FormField
+                control={form.control}
+                name="times"
+                render={({ field }) => (
+                  <FormItem>
+                    <div className="flex items-center gap-2">
+                      <FormControl>
+                        <Input type="number" min={1} className="w-20" {...field} />
+                      </FormControl>
+                      <span className="text-sm text-gray-600">
+                        times per {scheduleType === "times_per_week" ? "week" : "month"}
+                      </span>
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            
+            {scheduleType === "interval" && (
+              <FormField
+                control={form.control}
+                name="intervalDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-gray-600">Every</span>
+                      <FormControl>
+                        <Input type="number" min={2} className="w-20" {...field} />
+                      </FormControl>
+                      <span className="text-sm text-gray-600">days</span>
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="dailyTarget"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Daily target (optional)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} step="any" placeholder="e.g. 8" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              <FormField
+                control={form.control}
+                name="unit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Unit</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. glasses" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            
             <FormField
               control={form.control}
               name="icon"
@@ -306,14 +827,14 @@ function AddHabitDialog({ isOpen, onClose, userId }: AddHabitDialogProps) {
             
             <div className="flex justify-end gap-2 pt-4">
               <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
-              <Button type="submit" disabled={createHabitMutation.isPending}>
-                {createHabitMutation.isPending ? (
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? (
                   <>
                     <i className="ri-loader-4-line animate-spin mr-2"></i>
-                    Creating...
+                    {isEditing ? "Saving..." : "Creating..."}
                   </>
                 ) : (
-                  "Create Habit"
+                  isEditing ? "Save Changes" : "Create Habit"
                 )}
               </Button>
             </div>
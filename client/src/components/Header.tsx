@@ -1,10 +1,13 @@
 import { User } from "@/types";
+import { useAuth } from "@/hooks/use-auth";
 
 interface HeaderProps {
   user?: User;
 }
 
 export default function Header({ user }: HeaderProps) {
+  const { logoutMutation } = useAuth();
+  
   return (
     <header className="sticky top-0 z-10 bg-white shadow-sm">
       <div className="container mx-auto px-4 py-3 flex justify-between items-center">
@@ -18,6 +21,16 @@ export default function Header({ user }: HeaderProps) {
           <button className="p-2 rounded-full hover:bg-gray-100">
             <i className="ri-settings-3-line text-gray-600"></i>
           </button>
+          {user && (
+            <button
+              className="p-2 rounded-full hover:bg-gray-100"
+              title="Se déconnecter"
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+            >
+              <i className="ri-logout-box-r-line text-gray-600"></i>
+            </button>
+          )}
         </div>
       </div>
     </header>
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Meditation as MeditationType, User } from "@/types";
 import { apiRequest } from "@/lib/queryClient";
@@ -10,9 +10,12 @@ import { formatDuration } from "date-fns";
 
 interface MeditationProps {
   user: User;
+  // Starts this meditation once the list has loaded, e.g. from a copilot suggestion
+  requestedMeditationId?: number | null;
+  onRequestHandled?: () => void;
 }
 
-export default function Meditation({ user }: MeditationProps) {
+export default function Meditation({ user, requestedMeditationId, onRequestHandled }: MeditationProps) {
   const [activeMeditation, setActiveMeditation] = useState<MeditationType | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [timeRemaining, setTimeRemaining] = useState(0);
@@ -37,13 +40,12 @@ export default function Meditation({ user }: MeditationProps) {
   // Complete meditation mutation
   const completeMeditationMutation = useMutation({
     mutationFn: async (meditationId: number) => {
-      const response = await apiRequest("POST", `/api/meditations/${meditationId}/complete`, {
-        userId: user.id
-      });
+      const response = await apiRequest("POST", `/api/meditations/${meditationId}/complete`, {});
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/meditations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/insights/mood", { userId: user.id }] });
       toast({
         title: "Meditation completed",
         description: "Great job! Your meditation session has been recorded.",
@@ -58,6 +60,14 @@ export default function Meditation({ user }: MeditationProps) {
     }
   });
   
+  useEffect(() => {
+    if (!requestedMeditationId || !meditations) return;
+    
+    const meditation = meditations.find((candidate) => candidate.id === requestedMeditationId);
+    if (meditation && !activeMeditation) startMeditation(meditation);
+    onRequestHandled?.();
+  }, [requestedMeditationId, meditations]);
+  
   const startMeditation = (meditation: MeditationType) => {
     setActiveMeditation(meditation);
     setTimeRemaining(meditation.duration);
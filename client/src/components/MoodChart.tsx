@@ -1,10 +1,12 @@
 import { useState, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
 import { format, subDays } from "date-fns";
 import { Mood, User } from "@/types";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
+import { useMoodScale } from "@/hooks/use-mood-scale";
+import { levelLabel, moodColor, scaledIntensity } from "@/lib/moods";
 
 interface MoodChartProps {
   user: User;
@@ -16,16 +18,41 @@ interface ChartData {
   originalDate: Date;
   intensity: number;
   emoji: string;
+  color?: string;
+  // Strongest emotions of the day, and the day's average energy and
+  // anxiety (0 to 10), null when none was logged
+  emotions: string[];
+  energy: number | null;
+  anxiety: number | null;
+}
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length * 10) / 10 : null;
+
+// Energy, anxiety and emotion totals of a day's moods
+function summarizeDay(moods: Mood[]): Pick<ChartData, "emotions" | "energy" | "anxiety"> {
+  const totals = new Map<string, number>();
+  moods.forEach(mood => mood.emotions.forEach(emotion => {
+    totals.set(emotion.name, (totals.get(emotion.name) ?? 0) + emotion.intensity);
+  }));
+  
+  return {
+    emotions: Array.from(totals.keys()).sort((a, b) => totals.get(b)! - totals.get(a)!).slice(0, 3),
+    energy: average(moods.flatMap(mood => mood.energy === null ? [] : [mood.energy])),
+    anxiety: average(moods.flatMap(mood => mood.anxiety === null ? [] : [mood.anxiety])),
+  };
 }
 
 export default function MoodChart({ user }: MoodChartProps) {
   const [chartData, setChartData] = useState<ChartData[]>([]);
+  const { data: scale, isLoading: scaleLoading } = useMoodScale(user);
+  const levels = scale?.levels.length ?? 5;
   
   // Fetch moods data
   const { data: moods, isLoading } = useQuery({
     queryKey: ["/api/moods", { userId: user.id }],
     queryFn: async ({ queryKey }) => {
-      const response = await fetch(`/api/moods?userId=${user.id}`, {
+      const response = await fetch("/api/moods", {
         credentials: "include",
       });
       if (!response.ok) {
@@ -37,7 +64,7 @@ export default function MoodChart({ user }: MoodChartProps) {
   
   // Process moods data for chart
   useEffect(() => {
-    if (moods && moods.length > 0) {
+    if (moods && moods.length > 0 && scale) {
       // Get the last 14 days
       const endDate = new Date();
       const startDate = subDays(endDate, 13); // 14 days including today
@@ -52,11 +79,15 @@ export default function MoodChart({ user }: MoodChartProps) {
           formattedDate: format(date, "dd MMM"),
           originalDate: date,
           intensity: 0,
-          emoji: ""
+          emoji: "",
+          emotions: [],
+          energy: null,
+          anxiety: null
         };
       }
       
       // Fill in with actual mood data
+      const moodsByDay: Record<string, Mood[]> = {};
       moods.forEach(mood => {
         const moodDate = new Date(mood.createdAt);
         const dateStr = format(moodDate, "yyyy-MM-dd");
@@ -64,11 +95,16 @@ export default function MoodChart({ user }: MoodChartProps) {
         // Only include data for the last 14 days
         if (moodDate >= startDate && days[dateStr]) {
           if (!days[dateStr].intensity) { // Use first mood of the day if multiple exist
-            days[dateStr].intensity = mood.intensity;
+            days[dateStr].intensity = scaledIntensity(mood, scale);
             days[dateStr].emoji = mood.emoji;
+            days[dateStr].color = moodColor(mood, scale);
           }
+          (moodsByDay[dateStr] ??= []).push(mood);
         }
       });
+      Object.entries(moodsByDay).forEach(([dateStr, dayMoods]) => {
+        Object.assign(days[dateStr], summarizeDay(dayMoods));
+      });
       
       // Convert to array and sort by date
       const dataArray = Object.values(days).sort((a, b) => 
@@ -88,23 +124,26 @@ export default function MoodChart({ user }: MoodChartProps) {
           formattedDate: format(date, "dd MMM"),
           originalDate: date,
           intensity: 0,
-          emoji: ""
+          emoji: "",
+          emotions: [],
+          energy: null,
+          anxiety: null
         });
       }
       
       setChartData(emptyData);
     }
-  }, [moods]);
+  }, [moods, scale]);
   
+  // Labels come from the user's scale
   const getMoodLabel = (intensity: number): string => {
     if (intensity === 0) return "Aucune donnée";
-    if (intensity === 1) return "Très bas";
-    if (intensity === 2) return "Bas";
-    if (intensity === 3) return "Neutre";
-    if (intensity === 4) return "Bon";
-    return "Excellent";
+    return scale ? levelLabel(scale, intensity) : "";
   };
   
+  // Energy and anxiety get their own axis once some were logged
+  const showLevels = chartData.some(d => d.energy !== null || d.anxiety !== null);
+  
   // Custom tooltip for the chart
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
@@ -116,6 +155,11 @@ export default function MoodChart({ user }: MoodChartProps) {
             <span className="text-lg">{data.emoji || "😶"}</span>
             <span className="text-sm text-gray-700">{getMoodLabel(data.intensity)}</span>
           </div>
+          {data.emotions.length > 0 && (
+            <p className="text-xs text-gray-600 mt-1">Émotions : {data.emotions.join(", ")}</p>
+          )}
+          {data.energy !== null && <p className="text-xs text-gray-600">Énergie : {data.energy}/10</p>}
+          {data.anxiety !== null && <p className="text-xs text-gray-600">Anxiété : {data.anxiety}/10</p>}
         </div>
       );
     }
@@ -135,7 +179,7 @@ export default function MoodChart({ user }: MoodChartProps) {
         </CardDescription>
       </CardHeader>
       <CardContent>
-        {isLoading ? (
+        {isLoading || scaleLoading ? (
           <div className="space-y-3">
             <Skeleton className="h-[200px] w-full" />
           </div>
@@ -144,7 +188,7 @@ export default function MoodChart({ user }: MoodChartProps) {
             <ResponsiveContainer width="100%" height="100%">
               <LineChart
                 data={chartData}
-                margin={{ top: 10, right: 10, left: 0, bottom: 20 }}
+                margin={{ top: 10, right: showLevels ? 0 : 10, left: 0, bottom: 20 }}
               >
                 <CartesianGrid strokeDasharray="3 3" vertical={false} opacity={0.3} />
                 <XAxis 
@@ -155,18 +199,59 @@ export default function MoodChart({ user }: MoodChartProps) {
                   tickMargin={10}
                 />
                 <YAxis 
-                  domain={[0, 5]} 
-                  ticks={[0, 1, 2, 3, 4, 5]} 
+                  yAxisId="mood"
+                  domain={[0, levels]} 
+                  ticks={Array.from({ length: levels + 1 }, (_, level) => level)} 
                   tickFormatter={getMoodLabel}
                   axisLine={false}
                   tickLine={false}
                   tick={{ fontSize: 12 }}
                   width={80}
                 />
+                {showLevels && (
+                  <YAxis
+                    yAxisId="levels"
+                    orientation="right"
+                    domain={[0, 10]}
+                    ticks={[0, 5, 10]}
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fontSize: 12 }}
+                    width={30}
+                  />
+                )}
                 <Tooltip content={<CustomTooltip />} />
+                {showLevels && <Legend verticalAlign="top" height={24} iconSize={10} wrapperStyle={{ fontSize: 12 }} />}
+                {showLevels && (
+                  <Line
+                    yAxisId="levels"
+                    type="monotone"
+                    dataKey="energy"
+                    name="Énergie"
+                    stroke="#f59e0b"
+                    strokeWidth={1.5}
+                    dot={false}
+                    connectNulls
+                  />
+                )}
+                {showLevels && (
+                  <Line
+                    yAxisId="levels"
+                    type="monotone"
+                    dataKey="anxiety"
+                    name="Anxiété"
+                    stroke="#8b5cf6"
+                    strokeWidth={1.5}
+                    strokeDasharray="4 3"
+                    dot={false}
+                    connectNulls
+                  />
+                )}
                 <Line
+                  yAxisId="mood"
                   type="monotone"
                   dataKey="intensity"
+                  name="Humeur"
                   stroke="hsl(var(--primary))"
                   strokeWidth={2}
                   dot={(props: any) => {
@@ -175,7 +260,7 @@ export default function MoodChart({ user }: MoodChartProps) {
                     
                     return (
                       <g key={`dot-${payload.date}`}>
-                        <circle cx={cx} cy={cy} r={4} fill="hsl(var(--primary))" />
+                        <circle cx={cx} cy={cy} r={4} fill={payload.color ?? "hsl(var(--primary))"} />
                         {payload.emoji && (
                           <text
                             x={cx}
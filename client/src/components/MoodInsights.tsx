@@ -0,0 +1,213 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { format, parseISO } from "date-fns";
+import { MoodCorrelation, MoodInsights as MoodInsightsData, User } from "@/types";
+import { useMoodScale } from "@/hooks/use-mood-scale";
+import { levelLabel } from "@/lib/moods";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface MoodInsightsProps {
+  user: User;
+}
+
+const RANGES = [7, 30, 90, 365];
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const trendConfig = {
+  average: { label: "Daily average", color: "hsl(var(--primary))" },
+  rollingAverage: { label: "7-day average", color: "#f59e0b" },
+} satisfies ChartConfig;
+
+const patternConfig = {
+  average: { label: "Average mood", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+interface Factor extends MoodCorrelation {
+  key: string;
+  label: string;
+  icon: string;
+}
+
+export default function MoodInsights({ user }: MoodInsightsProps) {
+  const [days, setDays] = useState(30);
+  const { data: scale } = useMoodScale(user);
+  
+  const { data: insights, isLoading } = useQuery({
+    queryKey: ["/api/insights/mood", { userId: user.id, days }],
+    queryFn: async () => {
+      const response = await fetch(`/api/insights/mood?days=${days}`, {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to fetch mood insights");
+      }
+      return response.json() as Promise<MoodInsightsData>;
+    }
+  });
+  
+  const moodTick = (value: number) => scale ? levelLabel(scale, value) : String(value);
+  const moodAxis = insights && (
+    <YAxis
+      domain={[1, insights.scaleSize]}
+      ticks={Array.from({ length: insights.scaleSize }, (_, level) => level + 1)}
+      tickFormatter={moodTick}
+      axisLine={false}
+      tickLine={false}
+      width={80}
+    />
+  );
+  
+  // Habits, meditation and tags that go with a noticeably different mood,
+  // strongest first
+  const factors: Factor[] = insights ? [
+    ...insights.habits.map((habit) => ({ ...habit, key: `habit-${habit.habitId}`, label: habit.name, icon: "ri-calendar-check-line" })),
+    { ...insights.meditation, key: "meditation", label: "Meditation", icon: "ri-mental-health-line" },
+    ...insights.tags.map((tag) => ({ ...tag, key: `tag-${tag.tag}`, label: `#${tag.tag}`, icon: "ri-price-tag-3-line" })),
+  ].filter((factor) => factor.correlation !== null && Math.abs(factor.correlation) >= 0.1)
+    .sort((a, b) => Math.abs(b.correlation!) - Math.abs(a.correlation!)) : [];
+  
+  const trendLabel = (trend: number | null) => {
+    if (trend === null) return "—";
+    if (Math.abs(trend) < 0.05) return "Steady";
+    return `${trend > 0 ? "+" : ""}${trend.toFixed(2)} / week`;
+  };
+  
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle>Your Progress</CardTitle>
+          <CardDescription>How your mood moves and what goes with better days</CardDescription>
+        </div>
+        <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+          <SelectTrigger className="w-36" aria-label="Range">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RANGES.map((range) => (
+              <SelectItem key={range} value={String(range)}>Last {range} days</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !insights ? (
+          <div className="space-y-3">
+            <Skeleton className="h-20 w-full" />
+            <Skeleton className="h-[240px] w-full" />
+          </div>
+        ) : insights.count === 0 ? (
+          <div className="text-center py-12">
+            <i className="ri-line-chart-line text-5xl text-gray-300"></i>
+            <h3 className="text-lg font-medium text-gray-700 mt-4">No moods in this period</h3>
+            <p className="text-gray-500 mt-2 max-w-md mx-auto">
+              Log your mood for a few days to see trends and patterns here.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <Stat label="Average mood" value={`${insights.average!.toFixed(1)} / ${insights.scaleSize}`} />
+              <Stat label="Ups and downs" value={`± ${insights.variability!.toFixed(1)}`} />
+              <Stat label="Trend" value={trendLabel(insights.weeklyTrend)} />
+              <Stat label="Moods logged" value={String(insights.count)} />
+            </div>
+            
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Mood over time</h3>
+              <ChartContainer config={trendConfig} className="h-64 w-full aspect-auto">
+                <LineChart data={insights.daily} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="date"
+                    tickFormatter={(date: string) => format(parseISO(date), "MMM d")}
+                    axisLine={false}
+                    tickLine={false}
+                    minTickGap={24}
+                  />
+                  {moodAxis}
+                  <ChartTooltip
+                    content={<ChartTooltipContent labelFormatter={(_label, payload) => format(parseISO(payload[0].payload.date), "EEE, MMM d")} />}
+                  />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line dataKey="average" stroke="var(--color-average)" strokeWidth={2} dot={{ r: 2 }} connectNulls />
+                  <Line dataKey="rollingAverage" stroke="var(--color-rollingAverage)" strokeWidth={2} strokeDasharray="4 3" dot={false} connectNulls />
+                </LineChart>
+              </ChartContainer>
+            </div>
+            
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">By day of the week</h3>
+                <ChartContainer config={patternConfig} className="h-48 w-full aspect-auto">
+                  <BarChart data={[...insights.weekdays.slice(1), insights.weekdays[0]]}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="weekday" tickFormatter={(weekday: number) => WEEKDAY_NAMES[weekday]} axisLine={false} tickLine={false} />
+                    {moodAxis}
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={(_label, payload) => WEEKDAY_NAMES[payload[0].payload.weekday]} />} />
+                    <Bar dataKey="average" fill="var(--color-average)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </div>
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">By time of day</h3>
+                <ChartContainer config={patternConfig} className="h-48 w-full aspect-auto">
+                  <BarChart data={insights.hours}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="hour" tickFormatter={(hour: number) => `${hour}h`} axisLine={false} tickLine={false} interval={2} />
+                    {moodAxis}
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={(_label, payload) => `${payload[0].payload.hour}:00 – ${payload[0].payload.hour + 1}:00`} />} />
+                    <Bar dataKey="average" fill="var(--color-average)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </div>
+            </div>
+            
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-1">What goes with your mood</h3>
+              <p className="text-xs text-gray-500 mb-3">
+                Compares days with and without each habit or meditation, and moods with and without each tag. It shows what tends to happen together, not what causes what.
+              </p>
+              {factors.length === 0 ? (
+                <p className="text-sm text-gray-500">Not enough data yet. Keep logging your mood, habits and meditations.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {factors.map((factor) => (
+                    <li key={factor.key} className="flex items-center justify-between rounded-lg bg-gray-50 px-3 py-2">
+                      <div className="flex items-center min-w-0">
+                        <i className={`${factor.icon} text-gray-500 mr-2`}></i>
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium truncate">{factor.label}</p>
+                          <p className="text-xs text-gray-500">
+                            {factor.withAverage!.toFixed(1)} with vs {factor.withoutAverage!.toFixed(1)} without
+                          </p>
+                        </div>
+                      </div>
+                      <span className={`text-sm font-medium ${factor.correlation! > 0 ? "text-green-600" : "text-red-600"}`}>
+                        <i className={factor.correlation! > 0 ? "ri-arrow-up-line" : "ri-arrow-down-line"}></i>
+                        {Math.abs(factor.correlation!).toFixed(2)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-lg bg-gray-50 p-3">
+      <p className="text-xs text-gray-500">{label}</p>
+      <p className="text-lg font-semibold mt-1">{value}</p>
+    </div>
+  );
+}
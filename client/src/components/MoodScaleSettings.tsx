@@ -0,0 +1,217 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { MoodScale, MoodScaleEmotion, User } from "@/types";
+import { apiRequest } from "@/lib/queryClient";
+import { useMoodScale } from "@/hooks/use-mood-scale";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+
+interface MoodScaleSettingsProps {
+  user: User;
+}
+
+// Same bounds as the server
+const MIN_LEVELS = 3;
+const MAX_LEVELS = 10;
+const MAX_EMOTIONS = 30;
+
+const valenceOptions = [
+  { value: 2, label: "Very pleasant" },
+  { value: 1, label: "Pleasant" },
+  { value: 0, label: "Neutral" },
+  { value: -1, label: "Unpleasant" },
+  { value: -2, label: "Very unpleasant" },
+];
+
+// Edits a copy of the scale, saved all at once
+export default function MoodScaleSettings({ user }: MoodScaleSettingsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: scale } = useMoodScale(user);
+  const [levels, setLevels] = useState<string[]>([]);
+  const [emotions, setEmotions] = useState<MoodScaleEmotion[]>([]);
+  
+  useEffect(() => {
+    if (scale) {
+      setLevels(scale.levels);
+      setEmotions(scale.emotions);
+    }
+  }, [scale?.updatedAt]);
+  
+  const onSaved = (saved: MoodScale) => {
+    queryClient.setQueryData(["/api/mood-scale", { userId: user.id }], saved);
+    setLevels(saved.levels);
+    setEmotions(saved.emotions);
+  };
+  
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/mood-scale", {
+        levels: levels.map((level) => level.trim()),
+        emotions: emotions.map((emotion) => ({ ...emotion, name: emotion.name.trim(), emoji: emotion.emoji.trim() })),
+      });
+      return response.json() as Promise<MoodScale>;
+    },
+    onSuccess: (saved) => {
+      onSaved(saved);
+      toast({
+        title: "Mood scale saved",
+        description: "New check-ins will use your levels and emotions.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Failed to save mood scale",
+        description: "Check that every level and emotion has a name and that emotion names are unique.",
+        variant: "destructive",
+      });
+    }
+  });
+  
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/mood-scale/reset");
+      return response.json() as Promise<MoodScale>;
+    },
+    onSuccess: onSaved,
+    onError: () => {
+      toast({
+        title: "Failed to reset mood scale",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+  
+  const updateEmotion = (index: number, changes: Partial<MoodScaleEmotion>) => {
+    setEmotions((current) => current.map((emotion, i) => i === index ? { ...emotion, ...changes } : emotion));
+  };
+  
+  const isSaving = saveMutation.isPending || resetMutation.isPending;
+  
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Mood Scale</CardTitle>
+        <CardDescription>Choose the levels and emotions you log your mood with</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-6">
+          <div>
+            <h3 className="text-sm font-medium">Levels</h3>
+            <p className="text-xs text-gray-500 mb-3">From lowest to highest. Older moods are stretched to fit when the number changes.</p>
+            <div className="space-y-2">
+              {levels.map((level, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="w-6 text-right text-xs text-gray-500">{index + 1}</span>
+                  <Input
+                    value={level}
+                    maxLength={30}
+                    className="h-8"
+                    aria-label={`Level ${index + 1}`}
+                    onChange={(event) => setLevels((current) => current.map((l, i) => i === index ? event.target.value : l))}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0 text-gray-500"
+                    title="Remove level"
+                    onClick={() => setLevels((current) => current.filter((_l, i) => i !== index))}
+                    disabled={levels.length <= MIN_LEVELS}
+                  >
+                    <i className="ri-close-line"></i>
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-2"
+              onClick={() => setLevels((current) => [...current, ""])}
+              disabled={levels.length >= MAX_LEVELS}
+            >
+              <i className="ri-add-line mr-1"></i> Add level
+            </Button>
+          </div>
+          
+          <div className="border-t pt-4">
+            <h3 className="text-sm font-medium">Emotions</h3>
+            <p className="text-xs text-gray-500 mb-3">How pleasant an emotion is sets the overall mood of check-ins logging it.</p>
+            <div className="space-y-2">
+              {emotions.map((emotion, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    value={emotion.emoji}
+                    maxLength={16}
+                    className="h-8 w-12 shrink-0 px-1 text-center"
+                    aria-label="Emoji"
+                    onChange={(event) => updateEmotion(index, { emoji: event.target.value })}
+                  />
+                  <Input
+                    value={emotion.name}
+                    maxLength={40}
+                    className="h-8"
+                    aria-label="Name"
+                    onChange={(event) => updateEmotion(index, { name: event.target.value })}
+                  />
+                  <Select
+                    value={String(emotion.valence)}
+                    onValueChange={(value) => updateEmotion(index, { valence: Number(value) })}
+                  >
+                    <SelectTrigger className="h-8 w-40 shrink-0" aria-label="How pleasant">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {valenceOptions.map((option) => (
+                        <SelectItem key={option.value} value={String(option.value)}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <input
+                    type="color"
+                    value={emotion.color}
+                    className="h-8 w-8 shrink-0 cursor-pointer rounded border border-gray-200 bg-transparent"
+                    aria-label="Color"
+                    onChange={(event) => updateEmotion(index, { color: event.target.value })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0 text-gray-500"
+                    title="Remove emotion"
+                    onClick={() => setEmotions((current) => current.filter((_e, i) => i !== index))}
+                    disabled={emotions.length <= 1}
+                  >
+                    <i className="ri-close-line"></i>
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-2"
+              onClick={() => setEmotions((current) => [...current, { name: "", emoji: "🙂", valence: 0, color: "#64748b" }])}
+              disabled={emotions.length >= MAX_EMOTIONS}
+            >
+              <i className="ri-add-line mr-1"></i> Add emotion
+            </Button>
+          </div>
+          
+          <div className="flex gap-2 border-t pt-4">
+            <Button variant="outline" onClick={() => resetMutation.mutate()} disabled={!scale || isSaving}>
+              Reset to defaults
+            </Button>
+            <Button className="flex-1" onClick={() => saveMutation.mutate()} disabled={!scale || isSaving}>
+              {saveMutation.isPending ? "Saving..." : "Save Scale"}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,34 +1,53 @@
 import { useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import { Mood, MoodOption, User } from "@/types";
+import { Mood, MoodEmotion, User, SafetyResult, WithSafety } from "@/types";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
+import { useMoodScale } from "@/hooks/use-mood-scale";
+import CrisisResources from "@/components/CrisisResources";
+import { format, isToday } from "date-fns";
 
 interface MoodTrackerProps {
   user: User;
 }
 
+interface MoodPayload {
+  emotions: MoodEmotion[];
+  tags: string[];
+  energy: number | null;
+  anxiety: number | null;
+  note?: string | null;
+}
+
+// Energy and anxiety sliders start in the middle
+const DEFAULT_LEVEL = 5;
+
 export default function MoodTracker({ user }: MoodTrackerProps) {
-  const [selectedMood, setSelectedMood] = useState<MoodOption | null>(null);
+  const [emotions, setEmotions] = useState<MoodEmotion[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [trackLevels, setTrackLevels] = useState(false);
+  const [energy, setEnergy] = useState(DEFAULT_LEVEL);
+  const [anxiety, setAnxiety] = useState(DEFAULT_LEVEL);
   const [note, setNote] = useState("");
+  const [editingMood, setEditingMood] = useState<Mood | null>(null);
+  const [safety, setSafety] = useState<SafetyResult | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
   
-  const moodOptions: MoodOption[] = [
-    { emoji: "😊", label: "Happy" },
-    { emoji: "😌", label: "Calm" },
-    { emoji: "😐", label: "Neutral" },
-    { emoji: "😔", label: "Sad" },
-    { emoji: "😢", label: "Upset" }
-  ];
+  // The user's own emotions, levels and tags
+  const { data: scale } = useMoodScale(user);
+  const levels = scale?.levels.length ?? 5;
   
   // Fetch existing moods
   const { data: moods } = useQuery({
     queryKey: ["/api/moods", { userId: user.id }],
     queryFn: async ({ queryKey }) => {
-      const response = await fetch(`/api/moods?userId=${user.id}`, {
+      const response = await fetch("/api/moods", {
         credentials: "include",
       });
       if (!response.ok) {
@@ -40,14 +59,13 @@ export default function MoodTracker({ user }: MoodTrackerProps) {
   
   // Create mood mutation
   const createMoodMutation = useMutation({
-    mutationFn: async (newMood: { userId: number; emoji: string; label: string; intensity: number; note?: string }) => {
+    mutationFn: async (newMood: MoodPayload) => {
       const response = await apiRequest("POST", "/api/moods", newMood);
-      return response.json();
+      return response.json() as Promise<WithSafety<Mood>>;
     },
-    onSuccess: () => {
-      // Reset form
-      setSelectedMood(null);
-      setNote("");
+    onSuccess: (data) => {
+      resetForm();
+      if (data.safety.flagged) setSafety(data.safety);
       
       // Show success toast
       toast({
@@ -57,6 +75,7 @@ export default function MoodTracker({ user }: MoodTrackerProps) {
       
       // Invalidate moods query to refetch
       queryClient.invalidateQueries({ queryKey: ["/api/moods", { userId: user.id }] });
+      queryClient.invalidateQueries({ queryKey: ["/api/insights/mood", { userId: user.id }] });
     },
     onError: () => {
       toast({
@@ -67,43 +86,203 @@ export default function MoodTracker({ user }: MoodTrackerProps) {
     }
   });
   
+  // Update mood mutation
+  const updateMoodMutation = useMutation({
+    mutationFn: async ({ id, ...changes }: MoodPayload & { id: number }) => {
+      const response = await apiRequest("PATCH", `/api/moods/${id}`, changes);
+      return response.json() as Promise<WithSafety<Mood>>;
+    },
+    onSuccess: (data) => {
+      resetForm();
+      if (data.safety.flagged) setSafety(data.safety);
+      toast({
+        title: "Mood updated",
+        description: "Your mood entry has been updated.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/moods", { userId: user.id }] });
+      queryClient.invalidateQueries({ queryKey: ["/api/insights/mood", { userId: user.id }] });
+    },
+    onError: () => {
+      toast({
+        title: "Failed to update mood",
+        description: "There was a problem updating your mood. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+  
+  // Delete mood mutation
+  const deleteMoodMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/moods/${id}`);
+    },
+    onSuccess: (_data, id) => {
+      if (editingMood?.id === id) resetForm();
+      toast({
+        title: "Mood deleted",
+        description: "The mood entry has been removed.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/moods", { userId: user.id }] });
+      queryClient.invalidateQueries({ queryKey: ["/api/insights/mood", { userId: user.id }] });
+    },
+    onError: () => {
+      toast({
+        title: "Failed to delete mood",
+        description: "There was a problem deleting your mood. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+  
+  const resetForm = () => {
+    setEmotions([]);
+    setTags([]);
+    setTrackLevels(false);
+    setEnergy(DEFAULT_LEVEL);
+    setAnxiety(DEFAULT_LEVEL);
+    setNote("");
+    setEditingMood(null);
+  };
+  
+  const startEditing = (mood: Mood) => {
+    setEditingMood(mood);
+    setEmotions(mood.emotions);
+    setTags(mood.tags);
+    setTrackLevels(mood.energy !== null || mood.anxiety !== null);
+    setEnergy(mood.energy ?? DEFAULT_LEVEL);
+    setAnxiety(mood.anxiety ?? DEFAULT_LEVEL);
+    setNote(mood.note ?? "");
+  };
+  
+  // Newly picked emotions start in the middle of the scale
+  const toggleEmotion = (name: string) => {
+    setEmotions(current => current.some(emotion => emotion.name === name)
+      ? current.filter(emotion => emotion.name !== name)
+      : [...current, { name, intensity: Math.ceil(levels / 2) }]);
+  };
+  
+  const setEmotionIntensity = (name: string, intensity: number) => {
+    setEmotions(current => current.map(emotion => emotion.name === name ? { ...emotion, intensity } : emotion));
+  };
+  
+  const toggleTag = (tag: string) => {
+    setTags(current => current.includes(tag) ? current.filter(t => t !== tag) : [...current, tag]);
+  };
+  
+  const emojiFor = (name: string) => scale?.emotions.find(option => option.name === name)?.emoji ?? "";
+  
+  const todaysMoods = moods?.filter(mood => isToday(new Date(mood.createdAt))) ?? [];
+  const isSaving = createMoodMutation.isPending || updateMoodMutation.isPending;
+  
   const handleSaveMood = () => {
-    if (!selectedMood) {
+    // Moods logged before emotions existed can still be edited without any
+    if (emotions.length === 0 && !(editingMood && editingMood.emotions.length === 0)) {
       toast({
-        title: "Please select a mood",
+        title: "Please select an emotion",
         description: "Select how you're feeling before saving.",
         variant: "destructive",
       });
       return;
     }
     
-    createMoodMutation.mutate({
-      userId: user.id,
-      emoji: selectedMood.emoji,
-      label: selectedMood.label,
-      intensity: moodOptions.findIndex(m => m.label === selectedMood.label) + 1,
-      note: note.trim() || undefined
-    });
+    const moodData = {
+      emotions,
+      tags,
+      energy: trackLevels ? energy : null,
+      anxiety: trackLevels ? anxiety : null,
+    };
+    
+    if (editingMood) {
+      updateMoodMutation.mutate({ id: editingMood.id, ...moodData, note: note.trim() || null });
+    } else {
+      createMoodMutation.mutate({ ...moodData, note: note.trim() || undefined });
+    }
   };
   
   return (
     <div className="mt-6 bg-white rounded-xl shadow-card p-5">
       <h2 className="text-lg font-medium mb-4">Today's Mood</h2>
-      <div className="grid grid-cols-5 gap-3">
-        {moodOptions.map((option) => (
-          <button
-            key={option.label}
-            className={`flex flex-col items-center justify-center py-3 rounded-lg transition ${
-              selectedMood?.label === option.label 
-                ? "bg-primary-100 ring-2 ring-primary-500" 
-                : "hover:bg-gray-50"
-            }`}
-            onClick={() => setSelectedMood(option)}
-          >
-            <span className="text-2xl mb-1">{option.emoji}</span>
-            <span className="text-xs">{option.label}</span>
-          </button>
-        ))}
+      <div className="grid grid-cols-4 gap-2">
+        {scale?.emotions.map((option) => {
+          const selected = emotions.some(emotion => emotion.name === option.name);
+          return (
+            <button
+              key={option.name}
+              className="flex flex-col items-center justify-center py-2 rounded-lg transition hover:bg-gray-50"
+              style={selected ? { backgroundColor: `${option.color}33`, boxShadow: `0 0 0 2px ${option.color}` } : undefined}
+              onClick={() => toggleEmotion(option.name)}
+            >
+              <span className="text-2xl mb-1">{option.emoji}</span>
+              <span className="text-xs">{option.name}</span>
+            </button>
+          );
+        })}
+      </div>
+      
+      {emotions.length > 0 && (
+        <div className="mt-4 space-y-3">
+          {emotions.map(emotion => (
+            <div key={emotion.name} className="flex items-center gap-3">
+              <span className="w-28 shrink-0 text-sm">{emojiFor(emotion.name)} {emotion.name}</span>
+              <Slider
+                min={1}
+                max={levels}
+                step={1}
+                value={[emotion.intensity]}
+                onValueChange={([value]) => setEmotionIntensity(emotion.name, value)}
+                aria-label={`${emotion.name} intensity`}
+              />
+              <span className="w-8 text-right text-xs text-gray-500">{emotion.intensity}/{levels}</span>
+            </div>
+          ))}
+        </div>
+      )}
+      
+      {scale && scale.tags.length > 0 && (
+        <div className="mt-4">
+          <p className="text-sm font-medium text-gray-500 mb-2">What is it about?</p>
+          <div className="flex flex-wrap gap-2">
+            {scale.tags.map(tag => (
+              <button
+                key={tag}
+                className={`rounded-full px-3 py-1 text-xs capitalize transition ${
+                  tags.includes(tag) ? "bg-primary-500 text-white" : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                }`}
+                onClick={() => toggleTag(tag)}
+              >
+                {tag}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+      
+      <div className="mt-4">
+        <div className="flex items-center gap-2">
+          <Switch id="track-levels" checked={trackLevels} onCheckedChange={setTrackLevels} />
+          <Label htmlFor="track-levels" className="text-sm font-normal">Track energy and anxiety</Label>
+        </div>
+        {trackLevels && (
+          <div className="mt-3 space-y-3">
+            {[
+              { label: "Energy", value: energy, onChange: setEnergy },
+              { label: "Anxiety", value: anxiety, onChange: setAnxiety },
+            ].map(level => (
+              <div key={level.label} className="flex items-center gap-3">
+                <span className="w-28 shrink-0 text-sm">{level.label}</span>
+                <Slider
+                  min={0}
+                  max={10}
+                  step={1}
+                  value={[level.value]}
+                  onValueChange={([value]) => level.onChange(value)}
+                  aria-label={level.label}
+                />
+                <span className="w-8 text-right text-xs text-gray-500">{level.value}/10</span>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
       
       <div className="mt-4">
@@ -116,21 +295,85 @@ export default function MoodTracker({ user }: MoodTrackerProps) {
         />
       </div>
       
-      <Button 
-        className="mt-3 w-full"
-        onClick={handleSaveMood}
-        disabled={createMoodMutation.isPending}
-      >
-        {createMoodMutation.isPending ? (
-          <>
-            <i className="ri-loader-4-line animate-spin mr-2"></i> Saving...
-          </>
-        ) : (
-          <>
-            <i className="ri-check-line mr-2"></i> Save Mood
-          </>
+      <div className="mt-3 flex gap-2">
+        {editingMood && (
+          <Button variant="outline" onClick={resetForm} disabled={isSaving}>
+            Cancel
+          </Button>
         )}
-      </Button>
+        <Button 
+          className="flex-1"
+          onClick={handleSaveMood}
+          disabled={isSaving}
+        >
+          {isSaving ? (
+            <>
+              <i className="ri-loader-4-line animate-spin mr-2"></i> Saving...
+            </>
+          ) : (
+            <>
+              <i className="ri-check-line mr-2"></i> {editingMood ? "Update Mood" : "Save Mood"}
+            </>
+          )}
+        </Button>
+      </div>
+      
+      {todaysMoods.length > 0 && (
+        <div className="mt-5 pt-4 border-t border-gray-100">
+          <h3 className="text-sm font-medium text-gray-500 mb-2">Today's entries</h3>
+          <ul className="space-y-2">
+            {todaysMoods.map(mood => (
+              <li 
+                key={mood.id} 
+                className={`flex items-center justify-between rounded-lg px-3 py-2 ${
+                  editingMood?.id === mood.id ? "bg-primary-50" : "bg-gray-50"
+                }`}
+              >
+                <div className="flex items-center min-w-0">
+                  <span className="text-xl mr-2">{mood.emoji}</span>
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">
+                      {mood.label} <span className="text-xs text-gray-500 font-normal">{format(new Date(mood.createdAt), "HH:mm")}</span>
+                    </p>
+                    {mood.emotions.length > 0 && (
+                      <p className="text-xs text-gray-600 truncate">
+                        {mood.emotions.map(emotion => `${emotion.name} ${emotion.intensity}/${mood.scaleSize}`).join(" · ")}
+                      </p>
+                    )}
+                    {mood.tags.length > 0 && (
+                      <p className="text-xs text-gray-500 truncate">{mood.tags.map(tag => `#${tag}`).join(" ")}</p>
+                    )}
+                    {mood.note && <p className="text-xs text-gray-600 truncate">{mood.note}</p>}
+                  </div>
+                </div>
+                <div className="flex shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-gray-500"
+                    title="Edit"
+                    onClick={() => startEditing(mood)}
+                  >
+                    <i className="ri-pencil-line"></i>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-gray-500 hover:text-red-600"
+                    title="Delete"
+                    onClick={() => deleteMoodMutation.mutate(mood.id)}
+                    disabled={deleteMoodMutation.isPending}
+                  >
+                    <i className="ri-delete-bin-line"></i>
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      
+      <CrisisResources safety={safety} onClose={() => setSafety(null)} />
     </div>
   );
 }
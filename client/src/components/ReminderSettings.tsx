@@ -0,0 +1,248 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Habit, Reminder, User } from "@/types";
+import { apiRequest } from "@/lib/queryClient";
+import { disablePush, enablePush, fetchPushPublicKey, getPushSubscription, isPushSupported } from "@/lib/push";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+
+interface ReminderSettingsProps {
+  user: User;
+}
+
+interface ReminderChange {
+  reminder?: Reminder;
+  type: Reminder["type"];
+  habitId?: number;
+  time: string;
+  enabled: boolean;
+}
+
+export default function ReminderSettings({ user }: ReminderSettingsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const supported = isPushSupported();
+  // Whether this browser is subscribed, null until known
+  const [subscribed, setSubscribed] = useState<boolean | null>(null);
+  
+  useEffect(() => {
+    getPushSubscription()
+      .then((subscription) => setSubscribed(subscription !== null))
+      .catch(() => setSubscribed(false));
+  }, []);
+  
+  const { data: publicKey } = useQuery({
+    queryKey: ["/api/push/public-key"],
+    queryFn: fetchPushPublicKey,
+    enabled: supported,
+  });
+  
+  const { data: reminders } = useQuery({
+    queryKey: ["/api/reminders", { userId: user.id }],
+    queryFn: async () => {
+      const response = await fetch("/api/reminders", {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to fetch reminders");
+      }
+      return response.json() as Promise<Reminder[]>;
+    }
+  });
+  
+  const { data: habits } = useQuery({
+    queryKey: ["/api/habits", { userId: user.id }],
+    queryFn: async () => {
+      const response = await fetch("/api/habits", {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to fetch habits");
+      }
+      return response.json() as Promise<Habit[]>;
+    }
+  });
+  
+  const pushMutation = useMutation({
+    mutationFn: async (enable: boolean) => {
+      if (enable) {
+        await enablePush(publicKey!);
+      } else {
+        await disablePush();
+      }
+      return enable;
+    },
+    onSuccess: (enabled) => {
+      setSubscribed(enabled);
+    },
+    onError: () => {
+      toast({
+        title: "Couldn't change notifications",
+        description: "Check that notifications are allowed for this site in your browser settings.",
+        variant: "destructive",
+      });
+    }
+  });
+  
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/push/test");
+      return response.json() as Promise<{ delivered: number }>;
+    },
+    onSuccess: ({ delivered }) => {
+      if (delivered === 0) {
+        toast({
+          title: "No notification sent",
+          description: "None of your devices could be reached. Try turning notifications off and on again.",
+          variant: "destructive",
+        });
+      }
+    },
+    onError: () => {
+      toast({
+        title: "Failed to send test notification",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+  
+  const saveReminderMutation = useMutation({
+    mutationFn: async ({ reminder, type, habitId, time, enabled }: ReminderChange) => {
+      const response = reminder
+        ? await apiRequest("PATCH", `/api/reminders/${reminder.id}`, { time, enabled })
+        : await apiRequest("POST", "/api/reminders", { type, habitId, time, enabled });
+      return response.json() as Promise<Reminder>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders", { userId: user.id }] });
+    },
+    onError: () => {
+      toast({
+        title: "Failed to save reminder",
+        description: "There was a problem updating your reminder. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+  
+  const moodReminder = reminders?.find((reminder) => reminder.type === "mood");
+  const habitReminder = (habit: Habit) => reminders?.find((reminder) => reminder.habitId === habit.id);
+  
+  const pushNote = !supported
+    ? "This browser doesn't support notifications."
+    : publicKey === null
+      ? "Notifications aren't available on this server yet."
+      : subscribed
+        ? "Reminders will be sent to this device."
+        : "Turn on notifications to receive the reminders below on this device.";
+  
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Reminders</CardTitle>
+        <CardDescription>Get a nudge to log your mood and keep up with your habits</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h3 className="text-sm font-medium">Notifications on this device</h3>
+              <p className="text-xs text-gray-500">{pushNote}</p>
+            </div>
+            <Switch
+              checked={!!subscribed}
+              onCheckedChange={(checked) => pushMutation.mutate(checked)}
+              disabled={!supported || !publicKey || subscribed === null || pushMutation.isPending}
+            />
+          </div>
+          
+          {subscribed && (
+            <Button variant="outline" size="sm" onClick={() => testMutation.mutate()} disabled={testMutation.isPending}>
+              <i className="ri-notification-3-line mr-2"></i> Send a test notification
+            </Button>
+          )}
+          
+          <div className="border-t pt-4 space-y-3">
+            <ReminderRow
+              icon="ri-emotion-line"
+              label="Daily mood check-in"
+              reminder={moodReminder}
+              defaultTime="20:00"
+              disabled={saveReminderMutation.isPending}
+              onChange={(time, enabled) => saveReminderMutation.mutate({ reminder: moodReminder, type: "mood", time, enabled })}
+            />
+            
+            {habits?.map((habit) => (
+              <ReminderRow
+                key={habit.id}
+                icon={habit.icon || "ri-calendar-check-line"}
+                label={habit.name}
+                reminder={habitReminder(habit)}
+                defaultTime="09:00"
+                disabled={saveReminderMutation.isPending}
+                onChange={(time, enabled) => saveReminderMutation.mutate({
+                  reminder: habitReminder(habit),
+                  type: "habit",
+                  habitId: habit.id,
+                  time,
+                  enabled,
+                })}
+              />
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface ReminderRowProps {
+  icon: string;
+  label: string;
+  reminder?: Reminder;
+  defaultTime: string;
+  disabled: boolean;
+  onChange: (time: string, enabled: boolean) => void;
+}
+
+// A reminder's time and on/off switch. Picking a time for a reminder that
+// doesn't exist yet only saves it once switched on.
+function ReminderRow({ icon, label, reminder, defaultTime, disabled, onChange }: ReminderRowProps) {
+  const [time, setTime] = useState(reminder?.time ?? defaultTime);
+  const enabled = reminder?.enabled ?? false;
+  
+  useEffect(() => {
+    if (reminder) setTime(reminder.time);
+  }, [reminder?.time]);
+  
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <div className="flex items-center min-w-0">
+        <i className={`${icon} text-gray-500 mr-2`}></i>
+        <span className="text-sm truncate">{label}</span>
+      </div>
+      <div className="flex items-center gap-3 shrink-0">
+        <Input
+          type="time"
+          value={time}
+          className="h-8 w-28"
+          aria-label={`Reminder time for ${label}`}
+          onChange={(event) => {
+            setTime(event.target.value);
+            if (reminder && event.target.value) onChange(event.target.value, enabled);
+          }}
+        />
+        <Switch
+          checked={enabled}
+          aria-label={`Reminder for ${label}`}
+          onCheckedChange={(checked) => onChange(time, checked)}
+          disabled={disabled || !time}
+        />
+      </div>
+    </div>
+  );
+}
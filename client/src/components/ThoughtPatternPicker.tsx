@@ -0,0 +1,43 @@
+import { useThoughtPatterns } from "@/hooks/use-thought-patterns";
+
+interface ThoughtPatternPickerProps {
+  value: number[];
+  onChange: (ids: number[]) => void;
+}
+
+// Same bound as the server
+const MAX_PATTERNS = 5;
+
+// Chips toggling the thought patterns a journal entry falls into
+export default function ThoughtPatternPicker({ value, onChange }: ThoughtPatternPickerProps) {
+  const { data: patterns = [] } = useThoughtPatterns();
+  
+  const toggle = (id: number) => {
+    onChange(value.includes(id) ? value.filter((selected) => selected !== id) : [...value, id]);
+  };
+  
+  return (
+    <div className="flex flex-wrap gap-2">
+      {patterns.map((pattern) => {
+        const selected = value.includes(pattern.id);
+        return (
+          <button
+            key={pattern.id}
+            type="button"
+            title={pattern.description}
+            aria-pressed={selected}
+            disabled={!selected && value.length >= MAX_PATTERNS}
+            className={`px-3 py-1 rounded-full border text-xs transition-colors disabled:opacity-50 ${
+              selected
+                ? "border-primary bg-primary/10 text-primary font-medium"
+                : "border-border bg-background hover:bg-primary/5"
+            }`}
+            onClick={() => toggle(pattern.id)}
+          >
+            {pattern.name}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
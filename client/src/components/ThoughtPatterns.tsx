@@ -1,29 +1,57 @@
 import { useRef, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { ThoughtPattern } from "@/types";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { JournalPage, ThoughtPattern, ThoughtPatternInsights, User } from "@/types";
+import { useThoughtPatterns } from "@/hooks/use-thought-patterns";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogClose } from "@/components/ui/dialog";
 
-export default function ThoughtPatterns() {
+interface ThoughtPatternsProps {
+  user: User;
+}
+
+export default function ThoughtPatterns({ user }: ThoughtPatternsProps) {
   const [selectedPattern, setSelectedPattern] = useState<ThoughtPattern | null>(null);
   const [isPatternDialogOpen, setIsPatternDialogOpen] = useState(false);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   
   // Fetch all thought patterns
-  const { data: patterns, isLoading } = useQuery({
-    queryKey: ["/api/thought-patterns"],
+  const { data: patterns, isLoading } = useThoughtPatterns();
+  
+  // How often the user noticed each pattern in their journal
+  const { data: insights } = useQuery({
+    queryKey: ["/api/insights/thought-patterns", { userId: user.id }],
     queryFn: async () => {
-      const response = await fetch("/api/thought-patterns", {
+      const response = await fetch("/api/insights/thought-patterns", {
         credentials: "include",
       });
       if (!response.ok) {
-        throw new Error("Failed to fetch thought patterns");
+        throw new Error("Failed to fetch thought pattern insights");
       }
-      return response.json() as Promise<ThoughtPattern[]>;
+      return response.json() as Promise<ThoughtPatternInsights>;
     }
   });
   
+  const countFor = (pattern: ThoughtPattern) => insights?.patterns.find((count) => count.patternId === pattern.id);
+  const selectedCount = selectedPattern ? countFor(selectedPattern) : undefined;
+  
+  // The latest entries of the pattern shown
+  const { data: patternEntries } = useQuery({
+    queryKey: ["/api/journal", { userId: user.id, patternId: selectedPattern?.id }],
+    queryFn: async () => {
+      const response = await fetch(`/api/journal?patternId=${selectedPattern!.id}&limit=10`, {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to fetch journal entries");
+      }
+      return response.json() as Promise<JournalPage>;
+    },
+    enabled: !!selectedCount
+  });
+  
   const openPatternDetail = (pattern: ThoughtPattern) => {
     setSelectedPattern(pattern);
     setIsPatternDialogOpen(true);
@@ -56,7 +84,14 @@ export default function ThoughtPatterns() {
                   style={{ width: "220px" }}
                   onClick={() => openPatternDetail(pattern)}
                 >
-                  <h3 className="text-sm font-medium text-primary-900">{pattern.name}</h3>
+                  <div className="flex items-start justify-between gap-2">
+                    <h3 className="text-sm font-medium text-primary-900">{pattern.name}</h3>
+                    {countFor(pattern) && (
+                      <span className="shrink-0 bg-white px-1.5 py-0.5 rounded text-xs font-medium text-primary-700" title="Times noticed in your journal">
+                        {countFor(pattern)!.count}×
+                      </span>
+                    )}
+                  </div>
                   <p className="text-xs text-primary-700 mt-1">{pattern.description}</p>
                   <button className="mt-2 text-xs text-primary-600 hover:text-primary-800 font-medium">
                     Learn more
@@ -101,6 +136,38 @@ export default function ThoughtPatterns() {
                 </ul>
               </div>
               
+              <div>
+                <h3 className="text-sm font-medium text-gray-700">In your journal</h3>
+                {selectedCount ? (
+                  <>
+                    <p className="mt-1 text-sm text-gray-600">
+                      You've noticed this pattern {selectedCount.count === 1 ? "once" : `${selectedCount.count} times`}
+                      {selectedCount.recentCount > 0 && `, ${selectedCount.recentCount} in the last 30 days`}.
+                    </p>
+                    <ul className="mt-2 space-y-1">
+                      {patternEntries?.entries.map((entry) => (
+                        <li key={entry.id}>
+                          <Link href={`/journal?entry=${entry.id}`} className="flex items-center text-sm text-primary-600 hover:text-primary-800">
+                            <i className="ri-book-2-line mr-1.5"></i>
+                            <span className="truncate">{entry.situation}</span>
+                            <span className="ml-2 shrink-0 text-xs text-gray-400">{format(new Date(entry.createdAt), "MMM d")}</span>
+                          </Link>
+                        </li>
+                      ))}
+                    </ul>
+                    {patternEntries?.nextCursor && (
+                      <Link href={`/journal?patternId=${selectedCount.patternId}`} className="inline-block mt-2 text-xs font-medium text-primary-600 hover:text-primary-800">
+                        See all {selectedCount.count} entries
+                      </Link>
+                    )}
+                  </>
+                ) : (
+                  <p className="mt-1 text-sm text-gray-600">
+                    You haven't noticed this pattern in your journal yet.
+                  </p>
+                )}
+              </div>
+              
               <div className="pt-4 text-center">
                 <p className="text-xs text-gray-500 mb-2">
                   Next time you notice this pattern, try using one of these reframing strategies.
@@ -0,0 +1,100 @@
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { ThoughtPatternInsights, User } from "@/types";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface ThoughtRecordInsightsProps {
+  user: User;
+}
+
+const reductionConfig = {
+  beliefReduction: { label: "Belief in the thought", color: "hsl(var(--primary))" },
+  emotionReduction: { label: "Emotion intensity", color: "#f59e0b" },
+} satisfies ChartConfig;
+
+function formatDrop(drop: number | null) {
+  if (drop === null) return "—";
+  return `${drop > 0 ? "−" : "+"}${Math.abs(drop).toFixed(0)} pts`;
+}
+
+// How much reframing lowers belief in thoughts and emotion intensity, overall
+// and for each thought pattern
+export default function ThoughtRecordInsights({ user }: ThoughtRecordInsightsProps) {
+  const { data: insights, isLoading } = useQuery({
+    queryKey: ["/api/insights/thought-patterns", { userId: user.id }],
+    queryFn: async () => {
+      const response = await fetch("/api/insights/thought-patterns", {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to fetch thought pattern insights");
+      }
+      return response.json() as Promise<ThoughtPatternInsights>;
+    }
+  });
+  
+  const ratedPatterns = (insights?.patterns ?? [])
+    .filter((count) => count.ratedCount > 0)
+    .sort((a, b) => (b.beliefReduction ?? 0) - (a.beliefReduction ?? 0));
+  
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>What Works for You</CardTitle>
+        <CardDescription>How much reframing lowers your belief in a thought and the emotion that comes with it</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !insights ? (
+          <Skeleton className="h-[240px] w-full" />
+        ) : insights.ratings.ratedCount === 0 ? (
+          <div className="text-center py-12">
+            <i className="ri-bar-chart-2-line text-5xl text-gray-300"></i>
+            <h3 className="text-lg font-medium text-gray-700 mt-4">No rated entries yet</h3>
+            <p className="text-gray-500 mt-2 max-w-md mx-auto">
+              Rate your thought and emotion before and after reframing in new entries to see what helps most.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="rounded-lg bg-gray-50 p-3">
+                <p className="text-xs text-gray-500">Belief in the thought</p>
+                <p className="text-lg font-semibold mt-1">{formatDrop(insights.ratings.beliefReduction)}</p>
+              </div>
+              <div className="rounded-lg bg-gray-50 p-3">
+                <p className="text-xs text-gray-500">Emotion intensity</p>
+                <p className="text-lg font-semibold mt-1">{formatDrop(insights.ratings.emotionReduction)}</p>
+              </div>
+            </div>
+            
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-1">By thought pattern</h3>
+              <p className="text-xs text-gray-500 mb-3">
+                Average drop in points out of 100, from entries tagged with each pattern.
+              </p>
+              {ratedPatterns.length === 0 ? (
+                <p className="text-sm text-gray-500">Tag your rated entries with thought patterns to compare them.</p>
+              ) : (
+                <ChartContainer config={reductionConfig} className="w-full aspect-auto" style={{ height: 60 + ratedPatterns.length * 48 }}>
+                  <BarChart data={ratedPatterns} layout="vertical" margin={{ left: 0, right: 10 }}>
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" axisLine={false} tickLine={false} />
+                    <YAxis type="category" dataKey="name" width={140} axisLine={false} tickLine={false} />
+                    <ChartTooltip
+                      content={<ChartTooltipContent labelFormatter={(_label, payload) => `${payload[0].payload.name} (${payload[0].payload.ratedCount} rated)`} />}
+                    />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="beliefReduction" fill="var(--color-beliefReduction)" radius={4} />
+                    <Bar dataKey="emotionReduction" fill="var(--color-emotionReduction)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
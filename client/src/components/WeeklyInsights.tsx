@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { addDays, format, parseISO } from "date-fns";
+import { User, WeeklyDigest, WeeklyFinding } from "@/types";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface WeeklyInsightsProps {
+  user: User;
+}
+
+const findingIcons: Record<WeeklyFinding["kind"], string> = {
+  mood_average: "ri-emotion-line",
+  mood_best_day: "ri-sun-line",
+  mood_habit: "ri-calendar-check-line",
+  mood_meditation: "ri-mental-health-line",
+  mood_tag: "ri-price-tag-3-line",
+  habit_consistency: "ri-repeat-line",
+  meditation_count: "ri-leaf-line",
+  journal_emotion: "ri-book-2-line",
+  journal_thought_pattern: "ri-brain-line",
+};
+
+function weekLabel(weekStart: string) {
+  const monday = parseISO(weekStart);
+  return `${format(monday, "MMM d")} – ${format(addDays(monday, 6), "MMM d")}`;
+}
+
+export default function WeeklyInsights({ user }: WeeklyInsightsProps) {
+  // Monday of the week shown, the last complete week until one is picked
+  const [week, setWeek] = useState<string | null>(null);
+  
+  const { data: digest, isLoading } = useQuery({
+    queryKey: ["/api/insights/weekly", { userId: user.id, week }],
+    queryFn: async () => {
+      const response = await fetch(week ? `/api/insights/weekly?week=${week}` : "/api/insights/weekly", {
+        credentials: "include",
+      });
+      // No week has ended since the user joined
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error("Failed to fetch weekly insights");
+      }
+      return response.json() as Promise<WeeklyDigest>;
+    }
+  });
+  
+  // Fetched once the latest digest exists, so it's part of the list
+  const { data: history = [] } = useQuery({
+    queryKey: ["/api/insights/weekly/history", { userId: user.id }],
+    queryFn: async () => {
+      const response = await fetch("/api/insights/weekly/history", {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to fetch past weekly insights");
+      }
+      return response.json() as Promise<WeeklyDigest[]>;
+    },
+    enabled: !!digest
+  });
+  
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle>Your Week in Review</CardTitle>
+          <CardDescription>
+            {digest ? weekLabel(digest.weekStart) : "What stood out in your last week"}
+          </CardDescription>
+        </div>
+        {history.length > 1 && digest && (
+          <Select value={digest.weekStart} onValueChange={setWeek}>
+            <SelectTrigger className="w-40" aria-label="Week">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {history.map((past) => (
+                <SelectItem key={past.weekStart} value={past.weekStart}>{weekLabel(past.weekStart)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </CardHeader>
+      <CardContent>
+        {digest === null ? (
+          <div className="text-center py-8">
+            <i className="ri-calendar-line text-4xl text-gray-300"></i>
+            <p className="text-gray-500 mt-2 max-w-md mx-auto">
+              Your first review will be ready once your first week is over.
+            </p>
+          </div>
+        ) : isLoading || !digest ? (
+          <div className="space-y-2">
+            <Skeleton className="h-5 w-full" />
+            <Skeleton className="h-5 w-3/4" />
+            <Skeleton className="h-5 w-2/3" />
+          </div>
+        ) : digest.findings.length === 0 ? (
+          <div className="text-center py-8">
+            <i className="ri-lightbulb-line text-4xl text-gray-300"></i>
+            <p className="text-gray-500 mt-2 max-w-md mx-auto">
+              Nothing stood out this week. Log your mood, habits and journal entries to get findings here.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {digest.summary && (
+              <p className="text-sm text-gray-700 rounded-lg bg-primary/5 p-3">{digest.summary}</p>
+            )}
+            <ul className="space-y-2">
+              {digest.findings.map((finding, index) => (
+                <li key={index} className="flex items-start text-sm">
+                  <i className={`${findingIcons[finding.kind]} text-primary mr-2 mt-0.5`}></i>
+                  <span className="text-gray-700">{finding.text}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
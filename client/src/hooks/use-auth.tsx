@@ -0,0 +1,126 @@
+import { createContext, ReactNode, useContext, useEffect } from "react";
+import { useMutation, UseMutationResult, useQuery } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { User } from "@/types";
+import { useToast } from "@/hooks/use-toast";
+
+export type LoginData = {
+  username: string;
+  password: string;
+};
+
+export type RegisterData = LoginData & {
+  name?: string;
+  email?: string;
+};
+
+type AuthContextType = {
+  user: User | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<User, Error, LoginData>;
+  registerMutation: UseMutationResult<User, Error, RegisterData>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data: user, isLoading } = useQuery<User | null>({
+    queryKey: ["/api/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  // Habit days and streaks are counted in the timezone stored on the user,
+  // keep it in line with the browser's
+  const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  useEffect(() => {
+    if (!user || !browserTimeZone || user.timezone === browserTimeZone) return;
+
+    apiRequest("PATCH", "/api/me", { timezone: browserTimeZone })
+      .then((response) => response.json() as Promise<User>)
+      .then((updatedUser) => {
+        queryClient.setQueryData(["/api/me"], updatedUser);
+        queryClient.invalidateQueries({ queryKey: ["/api/habits/stats"] });
+      })
+      // Not worth bothering the user, stats stay in the previous timezone
+      .catch(() => {});
+  }, [user?.id, user?.timezone, browserTimeZone]);
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginData) => {
+      const response = await apiRequest("POST", "/api/login", credentials);
+      return response.json() as Promise<User>;
+    },
+    onSuccess: (loggedInUser) => {
+      queryClient.setQueryData(["/api/me"], loggedInUser);
+    },
+    onError: () => {
+      toast({
+        title: "Échec de la connexion",
+        description: "Nom d'utilisateur ou mot de passe incorrect.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (data: RegisterData) => {
+      const response = await apiRequest("POST", "/api/register", data);
+      return response.json() as Promise<User>;
+    },
+    onSuccess: (newUser) => {
+      queryClient.setQueryData(["/api/me"], newUser);
+    },
+    onError: (error) => {
+      toast({
+        title: "Échec de l'inscription",
+        description: error.message.startsWith("409")
+          ? "Ce nom d'utilisateur est déjà pris."
+          : "Impossible de créer votre compte. Veuillez réessayer.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      // Drop every cached query so the next user never sees stale data
+      queryClient.clear();
+      queryClient.setQueryData(["/api/me"], null);
+    },
+    onError: () => {
+      toast({
+        title: "Échec de la déconnexion",
+        description: "Veuillez réessayer.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        loginMutation,
+        registerMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import { JournalEntry, User } from "@/types";
+
+// The journal entry the user is writing, in the wizard or with the copilot,
+// null when there's none
+export function useJournalDraft(user: User) {
+  return useQuery({
+    queryKey: ["/api/journal/draft", { userId: user.id }],
+    queryFn: async () => {
+      const response = await fetch("/api/journal/draft", {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to fetch journal draft");
+      }
+      return response.json() as Promise<JournalEntry | null>;
+    },
+  });
+}
@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query";
+import { MoodScale, User } from "@/types";
+
+// The user's mood levels, emotions and context tags
+export function useMoodScale(user: User) {
+  return useQuery({
+    queryKey: ["/api/mood-scale", { userId: user.id }],
+    queryFn: async () => {
+      const response = await fetch("/api/mood-scale", {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to fetch mood scale");
+      }
+      return response.json() as Promise<MoodScale>;
+    },
+  });
+}
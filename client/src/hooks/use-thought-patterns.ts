@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query";
+import { ThoughtPattern } from "@/types";
+
+// The library of thought patterns, the same for every user
+export function useThoughtPatterns() {
+  return useQuery({
+    queryKey: ["/api/thought-patterns"],
+    queryFn: async () => {
+      const response = await fetch("/api/thought-patterns", {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to fetch thought patterns");
+      }
+      return response.json() as Promise<ThoughtPattern[]>;
+    },
+  });
+}
@@ -0,0 +1,44 @@
+import { HabitSchedule, HabitStats, StreakUnit } from "@/types";
+
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Weekdays listed from Monday
+export const weekdayOptions = [1, 2, 3, 4, 5, 6, 0].map((day) => ({ day, label: WEEKDAY_NAMES[day] }));
+
+export function describeSchedule(schedule: HabitSchedule): string {
+  switch (schedule.type) {
+    case "daily":
+      return "Every day";
+    case "weekdays":
+      if (schedule.days.length === 5 && !schedule.days.includes(0) && !schedule.days.includes(6)) return "Weekdays";
+      return weekdayOptions
+        .filter(({ day }) => schedule.days.includes(day))
+        .map(({ label }) => label)
+        .join(", ");
+    case "times_per_week":
+      return `${schedule.times}× a week`;
+    case "times_per_month":
+      return `${schedule.times}× a month`;
+    case "interval":
+      return `Every ${schedule.days} days`;
+  }
+}
+
+// Caption for a streak count, e.g. "week streak"
+export function streakLabel(unit: StreakUnit): string {
+  return unit === "completion" ? "in a row" : `${unit} streak`;
+}
+
+export function describeStreak({ streak, streakUnit }: HabitStats): string {
+  return streakUnit === "completion" ? `${streak} in a row` : `${streak}-${streakUnit} streak`;
+}
+
+function formatAmount(amount: number): string {
+  return Number.isInteger(amount) ? String(amount) : amount.toFixed(1);
+}
+
+// e.g. "3/8 glasses", or "3 glasses" without a target
+export function describeAmount(amount: number, target: number | null, unit?: string | null): string {
+  const value = target !== null ? `${formatAmount(amount)}/${formatAmount(target)}` : formatAmount(amount);
+  return unit ? `${value} ${unit}` : value;
+}
@@ -0,0 +1,35 @@
+import { JournalEntry, JournalFilters } from "@/types";
+
+// Tags typed as a comma separated list, lowercase like the server stores them
+export function parseTags(text: string): string[] {
+  return Array.from(new Set(text.split(",").map((tag) => tag.trim().toLowerCase()).filter(Boolean)));
+}
+
+export function hasFilters(filters: JournalFilters): boolean {
+  return Object.values(filters).some((value) => Array.isArray(value) ? value.length > 0 : value !== undefined);
+}
+
+// Query string of /api/journal for a page of results
+export function journalSearchParams(filters: JournalFilters, cursor: string | null): string {
+  const params = new URLSearchParams();
+  if (filters.q) params.set("q", filters.q);
+  if (filters.tags?.length) params.set("tags", filters.tags.join(","));
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  if (filters.emotion) params.set("emotion", filters.emotion);
+  if (filters.patternId !== undefined) params.set("patternId", String(filters.patternId));
+  if (cursor !== null) params.set("cursor", cursor);
+  return params.toString();
+}
+
+// Wizard steps in order, matching the copilot exercise steps
+export const draftSteps = ["situation", "emotion", "thought", "challenge"] as const;
+
+// Step to pick a draft up at: the first part left empty, or the challenge
+// once the thought has been analyzed or challenged
+export function draftStep(draft: JournalEntry): typeof draftSteps[number] {
+  if (!draft.situation.trim()) return "situation";
+  if (!draft.emotion.trim()) return "emotion";
+  if (!draft.thought.trim()) return "thought";
+  return draft.analysis || draft.challenge || draft.reframe ? "challenge" : "thought";
+}
@@ -0,0 +1,20 @@
+import { Mood, MoodScale } from "@/types";
+
+// A mood's overall intensity moved onto the scale's levels, so moods logged
+// before the scale changed size still line up
+export function scaledIntensity(mood: Mood, scale: MoodScale): number {
+  const levels = scale.levels.length;
+  if (mood.scaleSize === levels) return mood.intensity;
+  return 1 + (mood.intensity - 1) * (levels - 1) / (mood.scaleSize - 1);
+}
+
+// Label of the level closest to an intensity, empty for 0 (no data)
+export function levelLabel(scale: MoodScale, intensity: number): string {
+  if (intensity <= 0) return "";
+  return scale.levels[Math.min(scale.levels.length, Math.max(1, Math.round(intensity))) - 1];
+}
+
+// Color of the emotion the mood is labelled with, if it's on the scale
+export function moodColor(mood: Pick<Mood, "label">, scale: MoodScale): string | undefined {
+  return scale.emotions.find((emotion) => emotion.name === mood.label)?.color;
+}
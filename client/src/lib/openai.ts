@@ -1,11 +1,11 @@
-import { CBTAnalysisResponse } from "@/types";
+import { CBTAnalysisResult } from "@/types";
 import { apiRequest } from "./queryClient";
 
 export async function getCBTAnalysis(
   situation: string,
   emotion: string,
   thought: string
-): Promise<CBTAnalysisResponse> {
+): Promise<CBTAnalysisResult> {
   const response = await apiRequest(
     "POST",
     "/api/cbt/analyze",
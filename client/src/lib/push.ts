@@ -0,0 +1,57 @@
+import { apiRequest } from "@/lib/queryClient";
+
+const SERVICE_WORKER_URL = "/sw.js";
+
+export function isPushSupported(): boolean {
+  return "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+}
+
+// VAPID keys are base64url, PushManager wants the raw bytes
+function urlBase64ToUint8Array(base64: string): Uint8Array {
+  const padded = (base64 + "=".repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+}
+
+// The server's public key, null when it can't send notifications
+export async function fetchPushPublicKey(): Promise<string | null> {
+  const response = await fetch("/api/push/public-key", { credentials: "include" });
+  if (!response.ok) {
+    throw new Error("Failed to fetch push public key");
+  }
+  const { publicKey } = await response.json() as { publicKey: string | null };
+  return publicKey;
+}
+
+// This browser's current subscription, if notifications were enabled on it
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+// Asks for permission, subscribes this browser and registers it with the
+// server. Rejects when permission is refused.
+export async function enablePush(publicKey: string): Promise<PushSubscription> {
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") {
+    throw new Error("Notification permission was not granted");
+  }
+
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(publicKey),
+  });
+
+  await apiRequest("POST", "/api/push/subscriptions", subscription.toJSON());
+  return subscription;
+}
+
+export async function disablePush(): Promise<void> {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  await apiRequest("DELETE", "/api/push/subscriptions", { endpoint: subscription.endpoint });
+  await subscription.unsubscribe();
+}
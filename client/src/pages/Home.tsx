@@ -1,7 +1,8 @@
 import { useState, useRef } from "react";
-import { User } from "@/types";
+import { User, CopilotAction } from "@/types";
 import MoodTracker from "@/components/MoodTracker";
 import MoodChart from "@/components/MoodChart";
+import WeeklyInsights from "@/components/WeeklyInsights";
 import { BreathingCard } from "@/components/BreathingExercise";
 import BreathingExerciseModal from "@/components/BreathingExercise";
 import { HabitCard } from "@/components/HabitTracker";
@@ -22,12 +23,20 @@ interface HomeProps {
 export default function Home({ user, isFirstVisit = false }: HomeProps) {
   const { defaultExercise } = useBreathingExercises();
   const [isBreathingModalOpen, setIsBreathingModalOpen] = useState(false);
+  const [isJournalOpen, setIsJournalOpen] = useState(false);
+  const [requestedMeditationId, setRequestedMeditationId] = useState<number | null>(null);
   const habitsSectionRef = useRef<HTMLDivElement>(null);
 
   const scrollToHabits = () => {
     habitsSectionRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
+  const handleCopilotAction = (action: CopilotAction) => {
+    if (action.type === "breathing") setIsBreathingModalOpen(true);
+    if (action.type === "journal") setIsJournalOpen(true);
+    if (action.type === "meditation") setRequestedMeditationId(action.meditationId);
+  };
+
   return (
     <>
       <section className="mb-8">
@@ -44,6 +53,11 @@ export default function Home({ user, isFirstVisit = false }: HomeProps) {
         <MoodChart user={user} />
       </section>
       
+      {/* Bilan de la semaine */}
+      <section className="mb-8">
+        <WeeklyInsights user={user} />
+      </section>
+      
       {/* Nouvelle section des objectifs */}
       <section className="mb-8">
         <GoalSetting user={user} />
@@ -56,10 +70,14 @@ export default function Home({ user, isFirstVisit = false }: HomeProps) {
         </div>
         
         <div className="space-y-5">
-          <CBTJournal user={user} />
-          <Meditation user={user} />
+          <CBTJournal user={user} isOpen={isJournalOpen} onOpenChange={setIsJournalOpen} />
+          <Meditation 
+            user={user} 
+            requestedMeditationId={requestedMeditationId}
+            onRequestHandled={() => setRequestedMeditationId(null)}
+          />
           <GroundingExercise />
-          <ThoughtPatterns />
+          <ThoughtPatterns user={user} />
           
           <div ref={habitsSectionRef}>
             <HabitTracker user={user} />
@@ -67,7 +85,7 @@ export default function Home({ user, isFirstVisit = false }: HomeProps) {
         </div>
       </section>
       
-      <AICopilot user={user} />
+      <AICopilot user={user} onAction={handleCopilotAction} />
       
       <BreathingExerciseModal 
         isOpen={isBreathingModalOpen}
@@ -1,38 +1,259 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { User, JournalEntry } from "@/types";
+import { useEffect, useState } from "react";
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
+import { User, JournalEntry, JournalFilters, JournalPage, SafetyResult, WithSafety } from "@/types";
+import { apiRequest } from "@/lib/queryClient";
+import { hasFilters, journalSearchParams, parseTags } from "@/lib/journal";
+import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogClose } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import CBTJournal from "@/components/CBTJournal";
+import CrisisResources from "@/components/CrisisResources";
+import ThoughtPatternPicker from "@/components/ThoughtPatternPicker";
+import ThoughtRecordInsights from "@/components/ThoughtRecordInsights";
+import { useThoughtPatterns } from "@/hooks/use-thought-patterns";
+import { useJournalDraft } from "@/hooks/use-journal-draft";
 import { format } from "date-fns";
 
 interface JournalProps {
   user: User;
 }
 
+type EditableFields = Pick<JournalEntry, "situation" | "emotion" | "thought" | "challenge" | "reframe">;
+
+const editableFields: { key: keyof EditableFields; label: string; multiline: boolean }[] = [
+  { key: "situation", label: "Situation", multiline: true },
+  { key: "emotion", label: "Emotion", multiline: false },
+  { key: "thought", label: "Thought", multiline: true },
+  { key: "challenge", label: "Challenge", multiline: true },
+  { key: "reframe", label: "Reframe", multiline: true },
+];
+
 export default function Journal({ user }: JournalProps) {
   const [selectedEntry, setSelectedEntry] = useState<JournalEntry | null>(null);
   const [isEntryDialogOpen, setIsEntryDialogOpen] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editValues, setEditValues] = useState<EditableFields | null>(null);
+  const [editPatternIds, setEditPatternIds] = useState<number[]>([]);
+  const [editTags, setEditTags] = useState("");
+  const [searchText, setSearchText] = useState("");
+  const [emotionText, setEmotionText] = useState("");
+  const [filters, setFilters] = useState<JournalFilters>({});
+  const [showFilters, setShowFilters] = useState(false);
+  const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
+  const [isDiscardDraftOpen, setIsDiscardDraftOpen] = useState(false);
+  const [activeTab, setActiveTab] = useState("entries");
+  const [isWizardOpen, setIsWizardOpen] = useState(false);
+  const [safety, setSafety] = useState<SafetyResult | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const search = useSearch();
+  const [, navigate] = useLocation();
+  const { data: thoughtPatterns = [] } = useThoughtPatterns();
+  const { data: draft } = useJournalDraft(user);
   
-  const { data: journalEntries, isLoading } = useQuery({
-    queryKey: ["/api/journal", { userId: user.id }],
-    queryFn: async ({ queryKey }) => {
-      const response = await fetch(`/api/journal?userId=${user.id}`, {
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ["/api/journal", { userId: user.id }, filters],
+    queryFn: async ({ pageParam }) => {
+      const response = await fetch(`/api/journal?${journalSearchParams(filters, pageParam)}`, {
         credentials: "include",
       });
       if (!response.ok) {
         throw new Error("Failed to fetch journal entries");
       }
-      return response.json() as Promise<JournalEntry[]>;
+      return response.json() as Promise<JournalPage>;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+  const journalEntries = data?.pages.flatMap((page) => page.entries);
+  
+  const { data: journalTags = [] } = useQuery({
+    queryKey: ["/api/journal", { userId: user.id }, "tags"],
+    queryFn: async () => {
+      const response = await fetch("/api/journal/tags", {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to fetch journal tags");
+      }
+      return response.json() as Promise<string[]>;
     }
   });
+  
+  // Typed filters only apply once the user pauses
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setFilters((current) => ({
+        ...current,
+        q: searchText.trim() || undefined,
+        emotion: emotionText.trim() || undefined,
+      }));
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchText, emotionText]);
+  
+  // Links open an entry (/journal?entry=12) or show a pattern's entries
+  // (/journal?patternId=3)
+  useEffect(() => {
+    const params = new URLSearchParams(search);
+    const entryId = Number(params.get("entry"));
+    const patternId = Number(params.get("patternId"));
+    if (!entryId && !patternId) return;
+    
+    if (patternId) {
+      setFilters({ patternId });
+      setShowFilters(true);
+    }
+    if (entryId) {
+      fetch(`/api/journal/${entryId}`, { credentials: "include" })
+        .then((response) => response.ok ? response.json() as Promise<JournalEntry> : null)
+        .then((entry) => entry && openEntryDetail(entry));
+    }
+    navigate("/journal", { replace: true });
+  }, [search]);
+  
+  const updateFilters = (changes: JournalFilters) => setFilters((current) => ({ ...current, ...changes }));
+  
+  const toggleTagFilter = (tag: string) => {
+    const tags = filters.tags ?? [];
+    updateFilters({ tags: tags.includes(tag) ? tags.filter((selected) => selected !== tag) : [...tags, tag] });
+  };
+  
+  const clearFilters = () => {
+    setSearchText("");
+    setEmotionText("");
+    setFilters({});
+  };
+  
+  const patternNames = (entry: JournalEntry) =>
+    entry.thoughtPatternIds
+      .map((id) => thoughtPatterns.find((pattern) => pattern.id === id)?.name)
+      .filter((name): name is string => !!name);
+
+  const updateEntryMutation = useMutation({
+    mutationFn: async ({ id, values }: { id: number; values: EditableFields & Pick<JournalEntry, "thoughtPatternIds" | "tags"> }) => {
+      const response = await apiRequest("PATCH", `/api/journal/${id}`, values);
+      return response.json() as Promise<WithSafety<JournalEntry>>;
+    },
+    onSuccess: ({ safety, ...updatedEntry }) => {
+      setSelectedEntry(updatedEntry);
+      if (safety.flagged) setSafety(safety);
+      setIsEditing(false);
+      toast({
+        title: "Journal entry updated",
+        description: "Your changes have been saved.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/journal", { userId: user.id }] });
+      queryClient.invalidateQueries({ queryKey: ["/api/insights/thought-patterns", { userId: user.id }] });
+    },
+    onError: () => {
+      toast({
+        title: "Failed to update journal entry",
+        description: "There was a problem saving your changes. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+  
+  const deleteEntryMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/journal/${id}`);
+    },
+    onSuccess: () => {
+      setIsDeleteConfirmOpen(false);
+      setIsEntryDialogOpen(false);
+      setSelectedEntry(null);
+      toast({
+        title: "Journal entry deleted",
+        description: "The entry has been removed from your journal.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/journal", { userId: user.id }] });
+      queryClient.invalidateQueries({ queryKey: ["/api/insights/thought-patterns", { userId: user.id }] });
+    },
+    onError: () => {
+      toast({
+        title: "Failed to delete journal entry",
+        description: "There was a problem deleting your entry. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const discardDraftMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/journal/draft");
+    },
+    onSuccess: () => {
+      setIsDiscardDraftOpen(false);
+      toast({
+        title: "Draft discarded",
+        description: "The entry in progress has been removed.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/journal/draft", { userId: user.id }] });
+    },
+    onError: () => {
+      toast({
+        title: "Failed to discard draft",
+        description: "There was a problem removing your draft. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+  
+  // Opens the wizard, which picks the draft up where it was left
+  const continueDraft = () => {
+    setActiveTab("create");
+    setIsWizardOpen(true);
+  };
 
   const openEntryDetail = (entry: JournalEntry) => {
     setSelectedEntry(entry);
+    setIsEditing(false);
     setIsEntryDialogOpen(true);
   };
+  
+  const startEditing = (entry: JournalEntry) => {
+    setEditValues({
+      situation: entry.situation,
+      emotion: entry.emotion,
+      thought: entry.thought,
+      challenge: entry.challenge ?? "",
+      reframe: entry.reframe ?? "",
+    });
+    setEditPatternIds(entry.thoughtPatternIds);
+    setEditTags(entry.tags.join(", "));
+    setIsEditing(true);
+  };
+  
+  const saveEdits = () => {
+    if (!selectedEntry || !editValues) return;
+    
+    if (!editValues.situation.trim() || !editValues.emotion.trim() || !editValues.thought.trim()) {
+      toast({
+        title: "Missing information",
+        description: "Situation, emotion and thought can't be empty.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    updateEntryMutation.mutate({ id: selectedEntry.id, values: { ...editValues, thoughtPatternIds: editPatternIds, tags: parseTags(editTags) } });
+  };
 
   return (
     <>
@@ -41,18 +262,122 @@ export default function Journal({ user }: JournalProps) {
         <p className="text-gray-600 mt-1">Track and restructure your thoughts with CBT techniques</p>
       </header>
       
-      <Tabs defaultValue="entries">
-        <TabsList className="grid grid-cols-2 mb-6">
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
+        <TabsList className="grid grid-cols-3 mb-6">
           <TabsTrigger value="entries">Journal Entries</TabsTrigger>
           <TabsTrigger value="create">Create New Entry</TabsTrigger>
+          <TabsTrigger value="insights">Insights</TabsTrigger>
         </TabsList>
         
         <TabsContent value="entries">
+          {draft && (
+            <Card className="mb-4 border-primary/30 bg-primary/5">
+              <CardContent className="p-4 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-800">
+                    <i className="ri-draft-line mr-1.5 text-primary"></i>
+                    Entry in progress
+                  </p>
+                  <p className="text-sm text-gray-600 truncate mt-1">{draft.situation || "No situation written yet"}</p>
+                  <p className="text-xs text-gray-400 mt-1">
+                    Started on {format(new Date(draft.createdAt), "MMM d, yyyy 'at' h:mm a")}
+                  </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <Button variant="ghost" size="sm" onClick={() => setIsDiscardDraftOpen(true)}>
+                    Discard
+                  </Button>
+                  <Button size="sm" onClick={continueDraft}>
+                    Continue Draft <i className="ri-arrow-right-line ml-1"></i>
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+          
+          <div className="flex gap-2 mb-3">
+            <div className="relative flex-1">
+              <i className="ri-search-line absolute left-3 top-1/2 -translate-y-1/2 text-gray-400"></i>
+              <Input
+                className="pl-9"
+                placeholder="Search situations, thoughts and reframes"
+                value={searchText}
+                onChange={(e) => setSearchText(e.target.value)}
+              />
+            </div>
+            <Button variant={showFilters ? "secondary" : "outline"} onClick={() => setShowFilters(!showFilters)}>
+              <i className="ri-filter-3-line mr-1.5"></i> Filters
+            </Button>
+          </div>
+          
+          {showFilters && (
+            <Card className="mb-4">
+              <CardContent className="p-4 space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  <div>
+                    <h3 className="text-xs font-medium text-gray-500 mb-1">From</h3>
+                    <Input type="date" value={filters.from ?? ""} max={filters.to} onChange={(e) => updateFilters({ from: e.target.value || undefined })} />
+                  </div>
+                  <div>
+                    <h3 className="text-xs font-medium text-gray-500 mb-1">To</h3>
+                    <Input type="date" value={filters.to ?? ""} min={filters.from} onChange={(e) => updateFilters({ to: e.target.value || undefined })} />
+                  </div>
+                  <div>
+                    <h3 className="text-xs font-medium text-gray-500 mb-1">Emotion</h3>
+                    <Input placeholder="e.g. anxious" value={emotionText} onChange={(e) => setEmotionText(e.target.value)} />
+                  </div>
+                </div>
+                
+                <div>
+                  <h3 className="text-xs font-medium text-gray-500 mb-1">Thought pattern</h3>
+                  <div className="flex flex-wrap gap-2">
+                    {thoughtPatterns.map((pattern) => (
+                      <FilterChip
+                        key={pattern.id}
+                        label={pattern.name}
+                        selected={filters.patternId === pattern.id}
+                        onClick={() => updateFilters({ patternId: filters.patternId === pattern.id ? undefined : pattern.id })}
+                      />
+                    ))}
+                  </div>
+                </div>
+                
+                {journalTags.length > 0 && (
+                  <div>
+                    <h3 className="text-xs font-medium text-gray-500 mb-1">Tags</h3>
+                    <div className="flex flex-wrap gap-2">
+                      {journalTags.map((tag) => (
+                        <FilterChip key={tag} label={`#${tag}`} selected={!!filters.tags?.includes(tag)} onClick={() => toggleTagFilter(tag)} />
+                      ))}
+                    </div>
+                  </div>
+                )}
+                
+                {hasFilters(filters) && (
+                  <Button variant="ghost" size="sm" onClick={clearFilters}>
+                    <i className="ri-close-line mr-1"></i> Clear filters
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          )}
+          
           {isLoading ? (
             <div className="text-center py-8">
               <i className="ri-loader-4-line animate-spin text-3xl text-primary-500"></i>
               <p className="text-gray-500 mt-4">Loading your journal entries...</p>
             </div>
+          ) : journalEntries?.length === 0 && hasFilters(filters) ? (
+            <div className="text-center py-12 bg-white rounded-lg shadow-sm">
+              <i className="ri-search-line text-4xl text-gray-300"></i>
+              <h3 className="text-xl font-medium text-gray-700 mt-4">No matching entries</h3>
+              <p className="text-gray-500 mt-2 max-w-md mx-auto">
+                Try other words or fewer filters.
+              </p>
+              <Button variant="outline" className="mt-6" onClick={clearFilters}>
+                Clear Filters
+              </Button>
+            </div>
           ) : !journalEntries || journalEntries.length === 0 ? (
             <div className="text-center py-12 bg-white rounded-lg shadow-sm">
               <i className="ri-book-2-line text-4xl text-gray-300"></i>
@@ -66,6 +391,11 @@ export default function Journal({ user }: JournalProps) {
             </div>
           ) : (
             <div className="space-y-4">
+              {hasFilters(filters) && (
+                <p className="text-sm text-gray-500">
+                  {data!.pages[0].total} {data!.pages[0].total === 1 ? "entry matches" : "entries match"}
+                </p>
+              )}
               {journalEntries.map(entry => (
                 <Card 
                   key={entry.id} 
@@ -86,6 +416,19 @@ export default function Journal({ user }: JournalProps) {
                     </div>
                     <p className="text-sm text-gray-600 line-clamp-2 mt-2">{entry.thought}</p>
                     
+                    {(patternNames(entry).length > 0 || entry.tags.length > 0) && (
+                      <div className="flex flex-wrap gap-1.5 mt-2">
+                        {patternNames(entry).map((name) => (
+                          <span key={name} className="bg-gray-100 px-2 py-0.5 rounded text-xs text-gray-600">
+                            <i className="ri-brain-line mr-1"></i>{name}
+                          </span>
+                        ))}
+                        {entry.tags.map((tag) => (
+                          <span key={tag} className="px-2 py-0.5 text-xs text-primary-700">#{tag}</span>
+                        ))}
+                      </div>
+                    )}
+                    
                     {entry.reframe && (
                       <div className="mt-3 pt-3 border-t border-gray-100">
                         <p className="text-sm text-gray-600 line-clamp-2 italic">
@@ -96,12 +439,28 @@ export default function Journal({ user }: JournalProps) {
                   </CardContent>
                 </Card>
               ))}
+              
+              {hasNextPage && (
+                <Button variant="outline" className="w-full" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                  {isFetchingNextPage ? (
+                    <>
+                      <i className="ri-loader-4-line animate-spin mr-2"></i> Loading...
+                    </>
+                  ) : (
+                    "Load More"
+                  )}
+                </Button>
+              )}
             </div>
           )}
         </TabsContent>
         
         <TabsContent value="create" id="create-tab">
-          <CBTJournal user={user} />
+          <CBTJournal user={user} isOpen={isWizardOpen} onOpenChange={setIsWizardOpen} />
+        </TabsContent>
+        
+        <TabsContent value="insights">
+          <ThoughtRecordInsights user={user} />
         </TabsContent>
       </Tabs>
       
@@ -113,7 +472,54 @@ export default function Journal({ user }: JournalProps) {
             <DialogClose className="absolute right-4 top-4" />
           </DialogHeader>
           
-          {selectedEntry && (
+          {selectedEntry && isEditing && editValues && (
+            <div className="space-y-4 py-4">
+              {editableFields.map(({ key, label, multiline }) => (
+                <div key={key}>
+                  <h3 className="text-sm font-medium text-gray-500 mb-1">{label}</h3>
+                  {multiline ? (
+                    <Textarea
+                      rows={3}
+                      value={editValues[key] ?? ""}
+                      onChange={(e) => setEditValues({ ...editValues, [key]: e.target.value })}
+                    />
+                  ) : (
+                    <Input
+                      value={editValues[key] ?? ""}
+                      onChange={(e) => setEditValues({ ...editValues, [key]: e.target.value })}
+                    />
+                  )}
+                </div>
+              ))}
+              
+              <div>
+                <h3 className="text-sm font-medium text-gray-500 mb-1">Thought Patterns</h3>
+                <ThoughtPatternPicker value={editPatternIds} onChange={setEditPatternIds} />
+              </div>
+              
+              <div>
+                <h3 className="text-sm font-medium text-gray-500 mb-1">Tags</h3>
+                <Input placeholder="work, sleep, family" value={editTags} onChange={(e) => setEditTags(e.target.value)} />
+              </div>
+              
+              <div className="flex justify-end gap-2 pt-2">
+                <Button variant="outline" onClick={() => setIsEditing(false)} disabled={updateEntryMutation.isPending}>
+                  Cancel
+                </Button>
+                <Button onClick={saveEdits} disabled={updateEntryMutation.isPending}>
+                  {updateEntryMutation.isPending ? (
+                    <>
+                      <i className="ri-loader-4-line animate-spin mr-2"></i> Saving...
+                    </>
+                  ) : (
+                    "Save Changes"
+                  )}
+                </Button>
+              </div>
+            </div>
+          )}
+          
+          {selectedEntry && !isEditing && (
             <div className="space-y-6 py-4">
               <div>
                 <h3 className="text-sm font-medium text-gray-500">Situation</h3>
@@ -132,6 +538,44 @@ export default function Journal({ user }: JournalProps) {
                 <p className="mt-1">{selectedEntry.thought}</p>
               </div>
               
+              {patternNames(selectedEntry).length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-500">Thought Patterns</h3>
+                  <div className="flex flex-wrap gap-2 mt-1">
+                    {patternNames(selectedEntry).map((name) => (
+                      <span key={name} className="bg-gray-100 text-gray-700 px-3 py-1 rounded-full text-sm">{name}</span>
+                    ))}
+                  </div>
+                </div>
+              )}
+              
+              {selectedEntry.tags.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-500">Tags</h3>
+                  <p className="mt-1 text-sm text-primary-700">{selectedEntry.tags.map((tag) => `#${tag}`).join(" ")}</p>
+                </div>
+              )}
+              
+              {(selectedEntry.beliefBefore !== null || selectedEntry.emotionBefore !== null) && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-500">Ratings</h3>
+                  <div className="grid grid-cols-2 gap-3 mt-1 text-sm">
+                    {[
+                      { label: "Belief in the thought", before: selectedEntry.beliefBefore, after: selectedEntry.beliefAfter },
+                      { label: "Emotion intensity", before: selectedEntry.emotionBefore, after: selectedEntry.emotionAfter },
+                    ].map((rating) => (
+                      <div key={rating.label} className="rounded-lg bg-gray-50 p-2">
+                        <p className="text-xs text-gray-500">{rating.label}</p>
+                        <p className="font-medium">
+                          {rating.before ?? "—"}%
+                          {rating.after !== null && <> <i className="ri-arrow-right-line text-gray-400"></i> {rating.after}%</>}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              
               {selectedEntry.challenge && (
                 <div>
                   <h3 className="text-sm font-medium text-gray-500">Challenge</h3>
@@ -146,7 +590,20 @@ export default function Journal({ user }: JournalProps) {
                 </div>
               )}
               
-              <div className="text-right">
+              <div className="flex justify-between items-center">
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => startEditing(selectedEntry)}>
+                    <i className="ri-pencil-line mr-1.5"></i> Edit
+                  </Button>
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    className="text-red-600 hover:text-red-700"
+                    onClick={() => setIsDeleteConfirmOpen(true)}
+                  >
+                    <i className="ri-delete-bin-line mr-1.5"></i> Delete
+                  </Button>
+                </div>
                 <p className="text-xs text-gray-400">
                   Created on {format(new Date(selectedEntry.createdAt), "MMMM d, yyyy 'at' h:mm a")}
                 </p>
@@ -155,6 +612,71 @@ export default function Journal({ user }: JournalProps) {
           )}
         </DialogContent>
       </Dialog>
+      
+      <AlertDialog open={isDeleteConfirmOpen} onOpenChange={setIsDeleteConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this journal entry?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently removes the entry and can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteEntryMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              disabled={deleteEntryMutation.isPending}
+              onClick={(e) => {
+                e.preventDefault();
+                if (selectedEntry) deleteEntryMutation.mutate(selectedEntry.id);
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      
+      <AlertDialog open={isDiscardDraftOpen} onOpenChange={setIsDiscardDraftOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Discard the entry in progress?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Everything written so far, in the journal or with the copilot, will be lost.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={discardDraftMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              disabled={discardDraftMutation.isPending}
+              onClick={(e) => {
+                e.preventDefault();
+                discardDraftMutation.mutate();
+              }}
+            >
+              Discard
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      
+      <CrisisResources safety={safety} onClose={() => setSafety(null)} />
     </>
   );
 }
+
+function FilterChip({ label, selected, onClick }: { label: string; selected: boolean; onClick: () => void }) {
+  return (
+    <button
+      type="button"
+      aria-pressed={selected}
+      className={`px-3 py-1 rounded-full border text-xs transition-colors ${
+        selected ? "border-primary bg-primary/10 text-primary font-medium" : "border-gray-200 bg-white hover:bg-gray-50"
+      }`}
+      onClick={onClick}
+    >
+      {label}
+    </button>
+  );
+}
@@ -1,11 +1,17 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { User, Mood, JournalEntry, Habit } from "@/types";
+import { User, Mood, JournalPage, Habit, HabitStats } from "@/types";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
 import { format, subDays, eachDayOfInterval } from "date-fns";
+import { describeSchedule, streakLabel } from "@/lib/habits";
+import { levelLabel, scaledIntensity } from "@/lib/moods";
+import { useMoodScale } from "@/hooks/use-mood-scale";
+import ReminderSettings from "@/components/ReminderSettings";
+import MoodScaleSettings from "@/components/MoodScaleSettings";
+import MoodInsights from "@/components/MoodInsights";
 
 interface ProfileProps {
   user: User;
@@ -18,7 +24,7 @@ export default function Profile({ user }: ProfileProps) {
   const { data: moods, isLoading: moodsLoading } = useQuery({
     queryKey: ["/api/moods", { userId: user.id }],
     queryFn: async ({ queryKey }) => {
-      const response = await fetch(`/api/moods?userId=${user.id}`, {
+      const response = await fetch("/api/moods", {
         credentials: "include",
       });
       if (!response.ok) {
@@ -29,16 +35,16 @@ export default function Profile({ user }: ProfileProps) {
   });
   
   // Fetch user's journal entries
-  const { data: journalEntries, isLoading: journalLoading } = useQuery({
-    queryKey: ["/api/journal", { userId: user.id }],
+  const { data: journalPage, isLoading: journalLoading } = useQuery({
+    queryKey: ["/api/journal", { userId: user.id, limit: 1 }],
     queryFn: async ({ queryKey }) => {
-      const response = await fetch(`/api/journal?userId=${user.id}`, {
+      const response = await fetch("/api/journal?limit=1", {
         credentials: "include",
       });
       if (!response.ok) {
         throw new Error("Failed to fetch journal entries");
       }
-      return response.json() as Promise<JournalEntry[]>;
+      return response.json() as Promise<JournalPage>;
     }
   });
   
@@ -46,7 +52,7 @@ export default function Profile({ user }: ProfileProps) {
   const { data: habits, isLoading: habitsLoading } = useQuery({
     queryKey: ["/api/habits", { userId: user.id }],
     queryFn: async ({ queryKey }) => {
-      const response = await fetch(`/api/habits?userId=${user.id}`, {
+      const response = await fetch("/api/habits", {
         credentials: "include",
       });
       if (!response.ok) {
@@ -56,9 +62,38 @@ export default function Profile({ user }: ProfileProps) {
     }
   });
   
+  // Fetch streaks and completion rates, computed in the user's timezone
+  const { data: habitStats } = useQuery({
+    queryKey: ["/api/habits/stats", { userId: user.id }],
+    queryFn: async () => {
+      const response = await fetch("/api/habits/stats", {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to fetch habit stats");
+      }
+      return response.json() as Promise<HabitStats[]>;
+    }
+  });
+  
+  const statsFor = (habit: Habit) => habitStats?.find((stats) => stats.habitId === habit.id);
+  
+  // "Best 12 · 80% over 30 days"
+  const describeConsistency = (habit: Habit) => {
+    const stats = statsFor(habit);
+    if (!stats) return "";
+    return [
+      `Best ${stats.longestStreak}`,
+      stats.completionRate.last30Days !== null && `${stats.completionRate.last30Days}% over 30 days`,
+    ].filter(Boolean).join(" · ");
+  };
+  
+  const { data: moodScale, isLoading: moodScaleLoading } = useMoodScale(user);
+  const moodLevels = moodScale?.levels.length ?? 5;
+  
   // Prepare data for mood chart
   const getMoodChartData = () => {
-    if (!moods || moods.length === 0) return [];
+    if (!moods || moods.length === 0 || !moodScale) return [];
     
     // Get the last 7 days
     const endDate = new Date();
@@ -76,7 +111,7 @@ export default function Profile({ user }: ProfileProps) {
       
       // Calculate average mood intensity for the day (or 0 if no moods)
       const avgIntensity = dayMoods.length 
-        ? dayMoods.reduce((sum, mood) => sum + mood.intensity, 0) / dayMoods.length
+        ? dayMoods.reduce((sum, mood) => sum + scaledIntensity(mood, moodScale), 0) / dayMoods.length
         : 0;
       
       return {
@@ -88,53 +123,8 @@ export default function Profile({ user }: ProfileProps) {
     });
   };
   
-  // Calculate habit streak data
-  const getHabitStreaks = () => {
-    if (!habits) return [];
-    
-    return habits.map(habit => {
-      // Count consecutive days with completions
-      let streak = 0;
-      let maxStreak = 0;
-      
-      if (habit.completions && habit.completions.length > 0) {
-        // Sort completions by date, most recent first
-        const sortedCompletions = [...habit.completions].sort(
-          (a, b) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime()
-        );
-        
-        // Count current streak
-        let currentDate = new Date();
-        let prevDate = new Date(currentDate);
-        
-        for (const completion of sortedCompletions) {
-          const completionDate = new Date(completion.completedAt);
-          
-          // Check if this completion is on the expected date
-          if (format(completionDate, "yyyy-MM-dd") === format(prevDate, "yyyy-MM-dd") ||
-              format(completionDate, "yyyy-MM-dd") === format(subDays(prevDate, 1), "yyyy-MM-dd")) {
-            streak++;
-            prevDate = completionDate;
-          } else {
-            break;
-          }
-        }
-        
-        // Set max streak
-        maxStreak = streak;
-      }
-      
-      return {
-        ...habit,
-        streak,
-        maxStreak
-      };
-    });
-  };
-  
   const moodChartData = getMoodChartData();
-  const habitStreaks = getHabitStreaks();
-  const isLoading = moodsLoading || journalLoading || habitsLoading;
+  const isLoading = moodsLoading || journalLoading || habitsLoading || moodScaleLoading;
   
   return (
     <>
@@ -178,9 +168,19 @@ export default function Profile({ user }: ProfileProps) {
                         <AreaChart data={moodChartData}>
                           <CartesianGrid strokeDasharray="3 3" />
                           <XAxis dataKey="date" />
-                          <YAxis />
+                          <YAxis
+                            domain={[0, moodLevels]}
+                            ticks={Array.from({ length: moodLevels }, (_, level) => level + 1)}
+                            tickFormatter={(level: number) => moodScale ? levelLabel(moodScale, level) : String(level)}
+                            width={80}
+                          />
                           <Tooltip 
-                            formatter={(value, name) => [`Intensity: ${value}`, "Mood"]}
+                            formatter={(value: number) => [
+                              value === 0 || !moodScale
+                                ? "No mood logged"
+                                : `${levelLabel(moodScale, value)} (${value.toFixed(1)}/${moodLevels})`,
+                              "Mood",
+                            ]}
                             labelFormatter={(label) => `Date: ${label}`}
                           />
                           <Area 
@@ -220,7 +220,7 @@ export default function Profile({ user }: ProfileProps) {
                       <div className="bg-primary-100 p-3 rounded-full mb-3">
                         <i className="ri-psychology-line text-primary-700 text-xl"></i>
                       </div>
-                      <h3 className="text-3xl font-bold text-primary-800">{journalEntries?.length || 0}</h3>
+                      <h3 className="text-3xl font-bold text-primary-800">{journalPage?.total || 0}</h3>
                       <p className="text-gray-600">Journal Entries</p>
                     </div>
                   </CardContent>
@@ -259,11 +259,11 @@ export default function Profile({ user }: ProfileProps) {
                 <Card>
                   <CardHeader>
                     <CardTitle className="text-lg">Habit Streaks</CardTitle>
-                    <CardDescription>Your consistency with daily habits</CardDescription>
+                    <CardDescription>Your consistency with your habits</CardDescription>
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-4">
-                      {habitStreaks.map(habit => (
+                      {habits.map(habit => (
                         <div key={habit.id} className="flex items-center justify-between">
                           <div className="flex items-center">
                             <div className={`w-10 h-10 bg-${habit.icon?.includes("heart") ? "accent" : "secondary"}-100 rounded-full flex items-center justify-center mr-3`}>
@@ -271,12 +271,13 @@ export default function Profile({ user }: ProfileProps) {
                             </div>
                             <div>
                               <h4 className="font-medium">{habit.name}</h4>
-                              <p className="text-xs text-gray-500">{habit.description || "Daily habit"}</p>
+                              <p className="text-xs text-gray-500">{habit.description || describeSchedule(habit.schedule)}</p>
+                              <p className="text-xs text-gray-400">{describeConsistency(habit)}</p>
                             </div>
                           </div>
                           <div className="text-center">
-                            <div className="text-2xl font-bold text-secondary-800">{habit.streak}</div>
-                            <p className="text-xs text-gray-500">day streak</p>
+                            <div className="text-2xl font-bold text-secondary-800">{statsFor(habit)?.streak ?? 0}</div>
+                            <p className="text-xs text-gray-500">{streakLabel(statsFor(habit)?.streakUnit ?? "day")}</p>
                           </div>
                         </div>
                       ))}
@@ -290,19 +291,7 @@ export default function Profile({ user }: ProfileProps) {
         
         <TabsContent value="progress">
           <div className="space-y-6">
-            <Card>
-              <CardHeader>
-                <CardTitle>Your Progress</CardTitle>
-                <CardDescription>Track your mental wellness journey over time</CardDescription>
-              </CardHeader>
-              <CardContent className="text-center py-16">
-                <i className="ri-line-chart-line text-5xl text-gray-300"></i>
-                <h3 className="text-lg font-medium text-gray-700 mt-4">Progress tracking coming soon</h3>
-                <p className="text-gray-500 mt-2 max-w-md mx-auto">
-                  We're building advanced analytics to help you see patterns in your mood and habits over time.
-                </p>
-              </CardContent>
-            </Card>
+            <MoodInsights user={user} />
           </div>
         </TabsContent>
         
@@ -332,6 +321,10 @@ export default function Profile({ user }: ProfileProps) {
               </CardContent>
             </Card>
             
+            <ReminderSettings user={user} />
+            
+            <MoodScaleSettings user={user} />
+            
             <Card>
               <CardHeader>
                 <CardTitle>Privacy Settings</CardTitle>
@@ -2,25 +2,100 @@
 export interface User {
   id: number;
   username: string;
-  name?: string;
-  email?: string;
+  name?: string | null;
+  email?: string | null;
+  timezone: string;
+  createdAt: string;
 }
 
 // Mood types
+export interface MoodEmotion {
+  name: string;
+  intensity: number; // 1 to the scale's number of levels
+}
+
+// Emoji, label and intensity (1 to scaleSize, the number of levels of the
+// user's scale when it was logged) are the overall mood, derived by the
+// server from the emotions
 export interface Mood {
   id: number;
   userId: number;
   emoji: string;
   label: string;
   intensity: number;
+  scaleSize: number;
+  emotions: MoodEmotion[];
+  tags: string[];
+  energy: number | null; // 0 to 10
+  anxiety: number | null; // 0 to 10
   note?: string;
   createdAt: string | Date;
 }
 
-export type MoodOption = {
+export interface MoodScaleEmotion {
+  name: string;
   emoji: string;
-  label: string;
-};
+  valence: number; // -2 to 2
+  color: string; // #rrggbb
+}
+
+// The user's mood vocabulary: labels of the overall mood levels, lowest
+// first, the emotions they log, and the context tags moods can have
+export interface MoodScale {
+  id: number;
+  userId: number;
+  levels: string[];
+  emotions: MoodScaleEmotion[];
+  tags: string[];
+  updatedAt: string | Date;
+}
+
+export interface MoodBucket {
+  average: number | null; // on the user's current scale
+  count: number;
+}
+
+// Average mood with and without a habit, meditation or tag, and their
+// correlation (-1 to 1), null while there are too few samples
+export interface MoodCorrelation {
+  withAverage: number | null;
+  withoutAverage: number | null;
+  withCount: number;
+  withoutCount: number;
+  correlation: number | null;
+}
+
+export interface MoodInsights {
+  from: string;
+  to: string;
+  days: number;
+  scaleSize: number;
+  count: number;
+  average: number | null;
+  variability: number | null;
+  weeklyTrend: number | null;
+  daily: (MoodBucket & { date: string; rollingAverage: number | null })[];
+  weekdays: (MoodBucket & { weekday: number })[]; // 0 is Sunday
+  hours: (MoodBucket & { hour: number })[];
+  habits: (MoodCorrelation & { habitId: number; name: string })[];
+  meditation: MoodCorrelation;
+  tags: (MoodCorrelation & { tag: string })[];
+}
+
+export interface WeeklyFinding {
+  kind: "mood_average" | "mood_best_day" | "mood_habit" | "mood_meditation" | "mood_tag" | "habit_consistency" | "meditation_count" | "journal_emotion" | "journal_thought_pattern";
+  text: string;
+  weight: number;
+}
+
+export interface WeeklyDigest {
+  id: number;
+  userId: number;
+  weekStart: string; // YYYY-MM-DD, a Monday
+  findings: WeeklyFinding[]; // most telling first
+  summary: string | null;
+  createdAt: string;
+}
 
 // Journal types
 export interface JournalEntry {
@@ -31,16 +106,84 @@ export interface JournalEntry {
   thought: string;
   challenge?: string;
   reframe?: string;
+  thoughtPatternIds: number[];
+  // 0-100, when writing the thought down and after reframing it
+  beliefBefore: number | null;
+  beliefAfter: number | null;
+  emotionBefore: number | null;
+  emotionAfter: number | null;
+  tags: string[];
+  analysis: CBTAnalysisResponse | null;
+  // A user has at most one draft, the entry being written
+  status: "draft" | "complete";
   createdAt: string | Date;
 }
 
+// A page of journal search results, newest first
+export interface JournalPage {
+  entries: JournalEntry[];
+  nextCursor: string | null; // null on the last page
+  total: number; // entries matching the filters
+}
+
+// Search filters of the journal, dates are YYYY-MM-DD
+export interface JournalFilters {
+  q?: string;
+  tags?: string[];
+  from?: string;
+  to?: string;
+  emotion?: string;
+  patternId?: number;
+}
+
 // Habit types
+// Weekdays are 0 (Sunday) to 6 (Saturday)
+export type HabitSchedule =
+  | { type: "daily" }
+  | { type: "weekdays"; days: number[] }
+  | { type: "times_per_week"; times: number }
+  | { type: "times_per_month"; times: number }
+  | { type: "interval"; days: number };
+
+export interface HabitDay {
+  date: string;
+  scheduled: boolean;
+  completed: boolean;
+  amount: number;
+}
+
+// Computed by the server from the habit's schedule, with days counted in the
+// user's timezone
+export type StreakUnit = "day" | "week" | "month" | "completion";
+
+export interface HabitStats {
+  habitId: number;
+  streak: number;
+  longestStreak: number;
+  streakUnit: StreakUnit;
+  dueToday: boolean;
+  completedToday: boolean;
+  // Check-ins add up towards the daily target, if the habit has one
+  todayAmount: number;
+  dailyTarget: number | null;
+  periodCompletions: number | null;
+  periodTarget: number | null;
+  // Percentages, null while the habit is too new
+  completionRate: { last7Days: number | null; last30Days: number | null; last90Days: number | null };
+  // The last 90 days, oldest first
+  calendar: HabitDay[];
+}
+
 export interface Habit {
   id: number;
   userId: number;
   name: string;
   description?: string;
   icon?: string;
+  schedule: HabitSchedule;
+  unit?: string | null;
+  dailyTarget?: number | null;
+  archived: boolean;
   createdAt: string | Date;
   completions?: HabitCompletion[];
 }
@@ -49,6 +192,55 @@ export interface HabitCompletion {
   id: number;
   habitId: number;
   completedAt: string | Date;
+  quantity?: number | null;
+  unit?: string | null;
+}
+
+// Goal types
+export interface GoalStep {
+  id: number;
+  goalId: number;
+  description: string;
+  targetDate?: string | Date | null;
+  position: number;
+  completed: boolean;
+}
+
+// Days a linked habit was done, counted towards a goal
+export interface GoalHabitProgress {
+  habitId: number;
+  name: string;
+  targetCompletions: number;
+  completions: number;
+}
+
+export interface GoalProgress {
+  percent: number;
+  projectedCompletion: string | Date | null;
+  onTrack: boolean | null;
+}
+
+export interface Goal {
+  id: number;
+  userId: number;
+  title: string;
+  description: string;
+  deadline: string | Date;
+  tips?: string[] | null;
+  estimatedCompletion?: string | null;
+  completed: boolean;
+  completedAt?: string | Date | null;
+  createdAt: string | Date;
+  steps: GoalStep[];
+  habits: GoalHabitProgress[];
+  // Null when no habit is linked to the goal
+  progress: GoalProgress | null;
+}
+
+// A goal with its newly generated plan
+export interface GoalPlanResponse extends Goal {
+  // The AI backend was unavailable and a template plan was used
+  fallback: boolean;
 }
 
 // Thought pattern types
@@ -60,6 +252,26 @@ export interface ThoughtPattern {
   reframeStrategies: string[];
 }
 
+// How often a pattern came up in the user's journal
+export interface ThoughtPatternCount {
+  patternId: number;
+  name: string;
+  count: number;
+  recentCount: number; // over the last 30 days
+  entryIds: number[]; // newest first
+  lastNoticedAt: string;
+  // Average drop of the ratings after reframing, null without rated entries
+  beliefReduction: number | null;
+  emotionReduction: number | null;
+  ratedCount: number;
+}
+
+export interface ThoughtPatternInsights {
+  // Over every entry, with or without a pattern
+  ratings: Pick<ThoughtPatternCount, "beliefReduction" | "emotionReduction" | "ratedCount">;
+  patterns: ThoughtPatternCount[]; // most frequent first
+}
+
 // Meditation types
 export interface Meditation {
   id: number;
@@ -91,7 +303,91 @@ export interface BreathingExercise {
 // CBT AI response
 export interface CBTAnalysisResponse {
   thoughtPattern: string;
+  thoughtPatternId: number | null;
   patternExplanation: string;
   challenge: string;
   reframe: string;
 }
+
+// Crises come back without an analysis. Flagged text carries the resources.
+export type CBTAnalysisResult =
+  | (CBTAnalysisResponse & { safety: SafetyResult; resources?: CrisisResource[] })
+  | { safety: SafetyResult; resources?: CrisisResource[] };
+
+// Safety types
+// Moods and journal entries come back from create/update with the verdict on their text
+export type WithSafety<T> = T & { safety: SafetyResult };
+
+export interface SafetyResult {
+  flagged: boolean;
+  level: "none" | "concern" | "crisis";
+  categories: string[];
+  language: string | null;
+  detectedBy: "keywords" | "ai" | null;
+}
+
+export interface CrisisResource {
+  name: string;
+  description?: string;
+  phone?: string;
+  url?: string;
+  language?: string;
+}
+
+// Copilot conversation types
+export type CBTStepName = "initial" | "situation" | "emotion" | "thought" | "challenge" | "reframe" | "complete";
+
+export interface CopilotCBTSession {
+  active: boolean;
+  currentStep: CBTStepName;
+  situation: string;
+  emotion: string;
+  emotionIntensity?: number;
+  thought: string;
+  challenge?: string;
+  reframe?: string;
+  thoughtPatternId?: number | null;
+}
+
+export type CopilotAction =
+  | { type: "breathing" }
+  | { type: "journal" }
+  | { type: "cbt_exercise" }
+  | { type: "meditation"; meditationId: number };
+
+export interface Conversation {
+  id: number;
+  userId: number;
+  title: string | null;
+  cbtSession: CopilotCBTSession | null;
+  createdAt: string | Date;
+  updatedAt: string | Date;
+}
+
+export interface ConversationMessage {
+  id: number;
+  conversationId: number;
+  sender: "user" | "ai";
+  text: string;
+  actions: CopilotAction[] | null;
+  createdAt: string | Date;
+}
+
+export interface ConversationWithMessages extends Conversation {
+  messages: ConversationMessage[];
+}
+
+// Flagged messages carry the resources. A crisis gets a support message as the reply.
+export type CopilotChatResponse = WithSafety<ConversationWithMessages> & { resources?: CrisisResource[] };
+
+// Reminder types. Sent as push notifications at `time` in the user's timezone.
+export interface Reminder {
+  id: number;
+  userId: number;
+  type: "habit" | "mood";
+  habitId: number | null;
+  time: string; // HH:MM
+  enabled: boolean;
+  lastSentOn: string | null;
+  createdAt: string | Date;
+}
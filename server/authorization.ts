@@ -0,0 +1,37 @@
+import type { Mood, JournalEntry, Habit, Goal, Conversation, Reminder } from "@shared/schema";
+import { storage } from "./storage";
+
+// Per-record lookups scoped to the requesting user. A record that belongs to
+// someone else is reported as missing so routes answer 404, never 403, and
+// don't reveal which ids exist.
+
+export async function findOwnedMood(userId: number, id: number): Promise<Mood | undefined> {
+  const mood = await storage.getMoodById(id);
+  return mood?.userId === userId ? mood : undefined;
+}
+
+// Drafts are only reached through /api/journal/draft, by id they're missing too
+export async function findOwnedJournalEntry(userId: number, id: number): Promise<JournalEntry | undefined> {
+  const entry = await storage.getJournalEntryById(id);
+  return entry?.userId === userId && entry.status === "complete" ? entry : undefined;
+}
+
+export async function findOwnedHabit(userId: number, id: number): Promise<Habit | undefined> {
+  const habit = await storage.getHabitById(id);
+  return habit?.userId === userId ? habit : undefined;
+}
+
+export async function findOwnedGoal(userId: number, id: number): Promise<Goal | undefined> {
+  const goal = await storage.getGoalById(id);
+  return goal?.userId === userId ? goal : undefined;
+}
+
+export async function findOwnedConversation(userId: number, id: number): Promise<Conversation | undefined> {
+  const conversation = await storage.getConversationById(id);
+  return conversation?.userId === userId ? conversation : undefined;
+}
+
+export async function findOwnedReminder(userId: number, id: number): Promise<Reminder | undefined> {
+  const reminder = await storage.getReminderById(id);
+  return reminder?.userId === userId ? reminder : undefined;
+}
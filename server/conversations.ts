@@ -0,0 +1,55 @@
+import type { Conversation, ConversationMessage, CopilotCBTSession, InsertConversationMessage, User } from "@shared/schema";
+import { storage } from "./storage";
+import type { CopilotChatInput } from "./lib/ai";
+import { buildUserContext } from "./lib/user-context";
+
+export type NewConversationMessage = Omit<InsertConversationMessage, "conversationId">;
+
+// Saves messages on a conversation, optionally with the CBT exercise state,
+// and marks it as recently active. Untitled conversations are named after the
+// first thing the user wrote.
+export async function appendToConversation(
+  conversation: Conversation,
+  messages: NewConversationMessage[],
+  cbtSession?: CopilotCBTSession | null,
+): Promise<Conversation & { messages: ConversationMessage[] }> {
+  const savedMessages = await storage.addConversationMessages(
+    messages.map((message) => ({ ...message, conversationId: conversation.id })),
+  );
+
+  const firstUserMessage = messages.find((message) => message.sender === "user");
+  const updatedConversation = await storage.updateConversation(conversation.id, {
+    ...(cbtSession !== undefined && { cbtSession }),
+    ...(!conversation.title && firstUserMessage && { title: firstUserMessage.text.slice(0, 60) }),
+  });
+
+  return { ...(updatedConversation ?? conversation), messages: savedMessages };
+}
+
+// What the copilot gets to answer `message`: the last turns of the
+// conversation, a digest of the user's recent activity and the meditations
+// it may suggest
+export async function buildCopilotChatInput(
+  conversation: Conversation,
+  user: User,
+  message: string,
+): Promise<CopilotChatInput> {
+  const [history, meditations, context] = await Promise.all([
+    storage.getConversationMessages(conversation.id),
+    storage.getMeditations(),
+    buildUserContext(user),
+  ]);
+
+  return {
+    messages: [
+      ...history.slice(-20).map((entry) => ({
+        role: entry.sender === "user" ? "user" as const : "assistant" as const,
+        content: entry.text,
+      })),
+      { role: "user", content: message },
+    ],
+    userName: user.name,
+    context,
+    meditations: meditations.map(({ id, title, category, duration }) => ({ id, title, category, duration })),
+  };
+}
@@ -0,0 +1,619 @@
+import type session from "express-session";
+import { and, count, desc, eq, gte, ilike, lt, sql, type SQL } from "drizzle-orm";
+import {
+  users,
+  moods,
+  moodScales,
+  journalEntries,
+  habits,
+  habitCompletions,
+  goals,
+  goalSteps,
+  goalHabits,
+  thoughtPatterns,
+  meditations,
+  meditationCompletions,
+  safetyFlags,
+  conversations,
+  conversationMessages,
+  reminders,
+  pushSubscriptions,
+  weeklyDigests,
+  type User,
+  type InsertUser,
+  type Mood,
+  type InsertMood,
+  type MoodScale,
+  type InsertMoodScale,
+  type JournalEntry,
+  type InsertJournalEntry,
+  type JournalDraft,
+  type Habit,
+  type InsertHabit,
+  type HabitCompletion,
+  type InsertHabitCompletion,
+  type Goal,
+  type InsertGoal,
+  type GoalStep,
+  type InsertGoalStep,
+  type GoalHabit,
+  type InsertGoalHabit,
+  type ThoughtPattern,
+  type InsertThoughtPattern,
+  type Meditation,
+  type InsertMeditation,
+  type MeditationCompletion,
+  type InsertMeditationCompletion,
+  type SafetyFlag,
+  type InsertSafetyFlag,
+  type Conversation,
+  type InsertConversation,
+  type ConversationMessage,
+  type InsertConversationMessage,
+  type Reminder,
+  type InsertReminder,
+  type PushSubscription,
+  type InsertPushSubscription,
+  type WeeklyDigest,
+  type InsertWeeklyDigest,
+} from "@shared/schema";
+import type { IStorage, JournalEntryFilters, JournalEntryQuery } from "./storage";
+import type { Database } from "./db";
+import { thoughtPatternSeeds, meditationSeeds } from "./seed-data";
+import { searchWords } from "./lib/journal-search";
+
+export class DrizzleStorage implements IStorage {
+  // Takes any drizzle Postgres database so tests can hand in a local
+  // Postgres or pglite instance instead of the neon pool
+  constructor(
+    private db: Database,
+    public sessionStore: session.Store,
+  ) {}
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUser(id: number, partialUser: Partial<InsertUser>): Promise<User | undefined> {
+    if (Object.keys(partialUser).length === 0) return this.getUser(id);
+
+    const [user] = await this.db.update(users)
+      .set(partialUser)
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  // Mood methods
+  async getMoods(userId: number): Promise<Mood[]> {
+    return this.db.select().from(moods)
+      .where(eq(moods.userId, userId))
+      .orderBy(desc(moods.createdAt));
+  }
+
+  async getMoodById(id: number): Promise<Mood | undefined> {
+    const [mood] = await this.db.select().from(moods).where(eq(moods.id, id));
+    return mood;
+  }
+
+  async createMood(insertMood: InsertMood): Promise<Mood> {
+    const [mood] = await this.db.insert(moods).values(insertMood).returning();
+    return mood;
+  }
+
+  async updateMood(id: number, partialMood: Partial<InsertMood>): Promise<Mood | undefined> {
+    if (Object.keys(partialMood).length === 0) return this.getMoodById(id);
+
+    const [mood] = await this.db.update(moods)
+      .set(partialMood)
+      .where(eq(moods.id, id))
+      .returning();
+    return mood;
+  }
+
+  async deleteMood(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(moods).where(eq(moods.id, id)).returning({ id: moods.id });
+    return deleted.length > 0;
+  }
+
+  // Mood scale methods
+  async getMoodScale(userId: number): Promise<MoodScale | undefined> {
+    const [scale] = await this.db.select().from(moodScales).where(eq(moodScales.userId, userId));
+    return scale;
+  }
+
+  async saveMoodScale(insertScale: InsertMoodScale): Promise<MoodScale> {
+    const [scale] = await this.db.insert(moodScales)
+      .values(insertScale)
+      .onConflictDoUpdate({
+        target: moodScales.userId,
+        set: { levels: insertScale.levels, emotions: insertScale.emotions, updatedAt: new Date() },
+      })
+      .returning();
+    return scale;
+  }
+
+  // Journal methods
+  async getJournalEntries(userId: number): Promise<JournalEntry[]> {
+    return this.db.select().from(journalEntries)
+      .where(and(eq(journalEntries.userId, userId), eq(journalEntries.status, "complete")))
+      .orderBy(desc(journalEntries.createdAt));
+  }
+
+  // WHERE conditions shared by journal searches and counts
+  private journalConditions(userId: number, query: JournalEntryFilters): SQL[] {
+    const words = query.text ? searchWords(query.text) : [];
+    const conditions = [eq(journalEntries.userId, userId), eq(journalEntries.status, "complete")];
+    if (words.length > 0) {
+      // Same expression as the search index; words only hold letters and
+      // digits so they can't break the tsquery syntax
+      const document = sql`to_tsvector('simple', ${journalEntries.situation} || ' ' || ${journalEntries.thought} || ' ' || coalesce(${journalEntries.reframe}, ''))`;
+      conditions.push(sql`${document} @@ to_tsquery('simple', ${words.map((word) => `${word}:*`).join(" & ")})`);
+    }
+    if (query.tags?.length) {
+      conditions.push(sql`${journalEntries.tags}::jsonb @> ${JSON.stringify(query.tags)}::jsonb`);
+    }
+    if (query.thoughtPatternId !== undefined) {
+      conditions.push(sql`${journalEntries.thoughtPatternIds}::jsonb @> ${JSON.stringify([query.thoughtPatternId])}::jsonb`);
+    }
+    if (query.emotion) {
+      conditions.push(ilike(journalEntries.emotion, `%${query.emotion.replace(/[\\%_]/g, "\\$&")}%`));
+    }
+    if (query.from) conditions.push(gte(journalEntries.createdAt, query.from));
+    if (query.to) conditions.push(lt(journalEntries.createdAt, query.to));
+    return conditions;
+  }
+
+  async searchJournalEntries(userId: number, query: JournalEntryQuery): Promise<JournalEntry[]> {
+    // Postgres keeps microseconds, cursors only carry what a Date holds
+    const createdAt = sql`date_trunc('milliseconds', ${journalEntries.createdAt})`;
+    const conditions = this.journalConditions(userId, query);
+    if (query.before) {
+      // Drivers send a raw Date in local time, and the column has no time zone
+      // to convert it back: pass the UTC time the column holds
+      conditions.push(sql`(${createdAt}, ${journalEntries.id}) < (${query.before.createdAt.toISOString()}::timestamp, ${query.before.id})`);
+    }
+
+    return this.db.select().from(journalEntries)
+      .where(and(...conditions))
+      .orderBy(desc(createdAt), desc(journalEntries.id))
+      .limit(query.limit);
+  }
+
+  async countJournalEntries(userId: number, filters: JournalEntryFilters): Promise<number> {
+    const [{ total }] = await this.db.select({ total: count() }).from(journalEntries)
+      .where(and(...this.journalConditions(userId, filters)));
+    return total;
+  }
+
+  async getJournalTags(userId: number): Promise<string[]> {
+    const rows = await this.db.selectDistinct({ tag: sql<string>`json_array_elements_text(${journalEntries.tags})` })
+      .from(journalEntries)
+      .where(and(eq(journalEntries.userId, userId), eq(journalEntries.status, "complete")));
+    return rows.map((row) => row.tag).sort();
+  }
+
+  async getJournalEntryById(id: number): Promise<JournalEntry | undefined> {
+    const [entry] = await this.db.select().from(journalEntries).where(eq(journalEntries.id, id));
+    return entry;
+  }
+
+  async createJournalEntry(insertEntry: InsertJournalEntry): Promise<JournalEntry> {
+    const [entry] = await this.db.insert(journalEntries).values(insertEntry).returning();
+    return entry;
+  }
+
+  async updateJournalEntry(id: number, partialEntry: Partial<InsertJournalEntry>): Promise<JournalEntry | undefined> {
+    // drizzle refuses an UPDATE without columns
+    if (Object.keys(partialEntry).length === 0) return this.getJournalEntryById(id);
+
+    const [entry] = await this.db.update(journalEntries)
+      .set(partialEntry)
+      .where(eq(journalEntries.id, id))
+      .returning();
+    return entry;
+  }
+
+  async deleteJournalEntry(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(journalEntries)
+      .where(eq(journalEntries.id, id))
+      .returning({ id: journalEntries.id });
+    return deleted.length > 0;
+  }
+
+  async getJournalDraft(userId: number): Promise<JournalEntry | undefined> {
+    const [draft] = await this.db.select().from(journalEntries)
+      .where(and(eq(journalEntries.userId, userId), eq(journalEntries.status, "draft")));
+    return draft;
+  }
+
+  // One statement on the one-draft index, so the wizard and the copilot
+  // autosaving at the same time update the same draft
+  async saveJournalDraft(userId: number, draft: JournalDraft): Promise<JournalEntry> {
+    const [entry] = await this.db.insert(journalEntries)
+      .values({ situation: "", emotion: "", thought: "", ...draft, userId, status: "draft" })
+      .onConflictDoUpdate({
+        target: journalEntries.userId,
+        targetWhere: sql`${journalEntries.status} = 'draft'`,
+        // Setting the status keeps the update valid for an empty draft
+        set: { ...draft, status: "draft" },
+      })
+      .returning();
+    return entry;
+  }
+
+  async completeJournalDraft(userId: number): Promise<JournalEntry | undefined> {
+    const [entry] = await this.db.update(journalEntries)
+      .set({ status: "complete", createdAt: new Date() })
+      .where(and(eq(journalEntries.userId, userId), eq(journalEntries.status, "draft")))
+      .returning();
+    return entry;
+  }
+
+  async deleteJournalDraft(userId: number): Promise<boolean> {
+    const deleted = await this.db.delete(journalEntries)
+      .where(and(eq(journalEntries.userId, userId), eq(journalEntries.status, "draft")))
+      .returning({ id: journalEntries.id });
+    return deleted.length > 0;
+  }
+
+  // Habit methods
+  async getHabits(userId: number): Promise<Habit[]> {
+    return this.db.select().from(habits)
+      .where(eq(habits.userId, userId))
+      .orderBy(habits.id);
+  }
+
+  async getHabitById(id: number): Promise<Habit | undefined> {
+    const [habit] = await this.db.select().from(habits).where(eq(habits.id, id));
+    return habit;
+  }
+
+  async createHabit(insertHabit: InsertHabit): Promise<Habit> {
+    const [habit] = await this.db.insert(habits).values(insertHabit).returning();
+    return habit;
+  }
+
+  async updateHabit(id: number, partialHabit: Partial<InsertHabit>): Promise<Habit | undefined> {
+    if (Object.keys(partialHabit).length === 0) return this.getHabitById(id);
+
+    const [habit] = await this.db.update(habits)
+      .set(partialHabit)
+      .where(eq(habits.id, id))
+      .returning();
+    return habit;
+  }
+
+  async deleteHabit(id: number): Promise<boolean> {
+    // The foreign key cascades too, but databases pushed before it existed don't
+    return this.db.transaction(async (tx) => {
+      await tx.delete(habitCompletions).where(eq(habitCompletions.habitId, id));
+      await tx.delete(goalHabits).where(eq(goalHabits.habitId, id));
+      await tx.delete(reminders).where(eq(reminders.habitId, id));
+      const deleted = await tx.delete(habits).where(eq(habits.id, id)).returning({ id: habits.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async completeHabit(insertCompletion: InsertHabitCompletion): Promise<HabitCompletion> {
+    const [completion] = await this.db.insert(habitCompletions).values(insertCompletion).returning();
+    return completion;
+  }
+
+  async getHabitCompletions(habitId: number): Promise<HabitCompletion[]> {
+    return this.db.select().from(habitCompletions)
+      .where(eq(habitCompletions.habitId, habitId))
+      .orderBy(desc(habitCompletions.completedAt));
+  }
+
+  async getHabitCompletionById(id: number): Promise<HabitCompletion | undefined> {
+    const [completion] = await this.db.select().from(habitCompletions).where(eq(habitCompletions.id, id));
+    return completion;
+  }
+
+  async deleteHabitCompletion(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(habitCompletions)
+      .where(eq(habitCompletions.id, id))
+      .returning({ id: habitCompletions.id });
+    return deleted.length > 0;
+  }
+
+  async deleteHabitCompletionsSince(habitId: number, since: Date): Promise<number> {
+    const deleted = await this.db.delete(habitCompletions)
+      .where(and(eq(habitCompletions.habitId, habitId), gte(habitCompletions.completedAt, since)))
+      .returning({ id: habitCompletions.id });
+    return deleted.length;
+  }
+
+  // Goal methods
+  async getGoals(userId: number): Promise<Goal[]> {
+    return this.db.select().from(goals)
+      .where(eq(goals.userId, userId))
+      .orderBy(goals.id);
+  }
+
+  async getGoalById(id: number): Promise<Goal | undefined> {
+    const [goal] = await this.db.select().from(goals).where(eq(goals.id, id));
+    return goal;
+  }
+
+  async createGoal(insertGoal: InsertGoal): Promise<Goal> {
+    const [goal] = await this.db.insert(goals).values(insertGoal).returning();
+    return goal;
+  }
+
+  async updateGoal(id: number, partialGoal: Partial<InsertGoal>): Promise<Goal | undefined> {
+    if (Object.keys(partialGoal).length === 0) return this.getGoalById(id);
+
+    const [goal] = await this.db.update(goals)
+      .set(partialGoal)
+      .where(eq(goals.id, id))
+      .returning();
+    return goal;
+  }
+
+  async deleteGoal(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(goalSteps).where(eq(goalSteps.goalId, id));
+      await tx.delete(goalHabits).where(eq(goalHabits.goalId, id));
+      const deleted = await tx.delete(goals).where(eq(goals.id, id)).returning({ id: goals.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async getGoalSteps(goalId: number): Promise<GoalStep[]> {
+    return this.db.select().from(goalSteps)
+      .where(eq(goalSteps.goalId, goalId))
+      .orderBy(goalSteps.position);
+  }
+
+  async getGoalStepById(id: number): Promise<GoalStep | undefined> {
+    const [step] = await this.db.select().from(goalSteps).where(eq(goalSteps.id, id));
+    return step;
+  }
+
+  async updateGoalStep(id: number, partialStep: Partial<InsertGoalStep>): Promise<GoalStep | undefined> {
+    if (Object.keys(partialStep).length === 0) return this.getGoalStepById(id);
+
+    const [step] = await this.db.update(goalSteps)
+      .set(partialStep)
+      .where(eq(goalSteps.id, id))
+      .returning();
+    return step;
+  }
+
+  async replaceGoalSteps(goalId: number, steps: InsertGoalStep[]): Promise<GoalStep[]> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(goalSteps).where(eq(goalSteps.goalId, goalId));
+      if (steps.length === 0) return [];
+      return tx.insert(goalSteps).values(steps.map((step) => ({ ...step, goalId }))).returning();
+    });
+  }
+
+  async getGoalHabits(goalId: number): Promise<GoalHabit[]> {
+    return this.db.select().from(goalHabits)
+      .where(eq(goalHabits.goalId, goalId))
+      .orderBy(goalHabits.id);
+  }
+
+  async replaceGoalHabits(goalId: number, links: InsertGoalHabit[]): Promise<GoalHabit[]> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(goalHabits).where(eq(goalHabits.goalId, goalId));
+      if (links.length === 0) return [];
+      return tx.insert(goalHabits).values(links.map((link) => ({ ...link, goalId }))).returning();
+    });
+  }
+
+  // Thought pattern methods
+  async getThoughtPatterns(): Promise<ThoughtPattern[]> {
+    return this.db.select().from(thoughtPatterns).orderBy(thoughtPatterns.id);
+  }
+
+  async getThoughtPatternById(id: number): Promise<ThoughtPattern | undefined> {
+    const [pattern] = await this.db.select().from(thoughtPatterns).where(eq(thoughtPatterns.id, id));
+    return pattern;
+  }
+
+  async createThoughtPattern(insertPattern: InsertThoughtPattern): Promise<ThoughtPattern> {
+    const [pattern] = await this.db.insert(thoughtPatterns).values(insertPattern).returning();
+    return pattern;
+  }
+
+  // Meditation methods
+  async getMeditations(): Promise<Meditation[]> {
+    return this.db.select().from(meditations).orderBy(meditations.id);
+  }
+
+  async getMeditationById(id: number): Promise<Meditation | undefined> {
+    const [meditation] = await this.db.select().from(meditations).where(eq(meditations.id, id));
+    return meditation;
+  }
+
+  async createMeditation(insertMeditation: InsertMeditation): Promise<Meditation> {
+    const [meditation] = await this.db.insert(meditations).values(insertMeditation).returning();
+    return meditation;
+  }
+
+  async completeMeditation(insertCompletion: InsertMeditationCompletion): Promise<MeditationCompletion> {
+    const [completion] = await this.db.insert(meditationCompletions).values(insertCompletion).returning();
+    return completion;
+  }
+
+  async getMeditationCompletions(userId: number): Promise<MeditationCompletion[]> {
+    return this.db.select().from(meditationCompletions)
+      .where(eq(meditationCompletions.userId, userId))
+      .orderBy(desc(meditationCompletions.completedAt));
+  }
+
+  // Safety flag methods
+  async createSafetyFlag(insertFlag: InsertSafetyFlag): Promise<SafetyFlag> {
+    const [flag] = await this.db.insert(safetyFlags).values(insertFlag).returning();
+    return flag;
+  }
+
+  async getSafetyFlags(userId: number): Promise<SafetyFlag[]> {
+    return this.db.select().from(safetyFlags)
+      .where(eq(safetyFlags.userId, userId))
+      .orderBy(desc(safetyFlags.createdAt));
+  }
+
+  // Conversation methods
+  async getConversations(userId: number): Promise<Conversation[]> {
+    return this.db.select().from(conversations)
+      .where(eq(conversations.userId, userId))
+      .orderBy(desc(conversations.updatedAt));
+  }
+
+  async getConversationById(id: number): Promise<Conversation | undefined> {
+    const [conversation] = await this.db.select().from(conversations).where(eq(conversations.id, id));
+    return conversation;
+  }
+
+  async createConversation(insertConversation: InsertConversation): Promise<Conversation> {
+    const [conversation] = await this.db.insert(conversations).values(insertConversation).returning();
+    return conversation;
+  }
+
+  async updateConversation(id: number, partialConversation: Partial<InsertConversation>): Promise<Conversation | undefined> {
+    const [conversation] = await this.db.update(conversations)
+      .set({ ...partialConversation, updatedAt: new Date() })
+      .where(eq(conversations.id, id))
+      .returning();
+    return conversation;
+  }
+
+  async deleteConversation(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(conversationMessages).where(eq(conversationMessages.conversationId, id));
+      const deleted = await tx.delete(conversations)
+        .where(eq(conversations.id, id))
+        .returning({ id: conversations.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async getConversationMessages(conversationId: number): Promise<ConversationMessage[]> {
+    return this.db.select().from(conversationMessages)
+      .where(eq(conversationMessages.conversationId, conversationId))
+      .orderBy(conversationMessages.id);
+  }
+
+  async addConversationMessages(messages: InsertConversationMessage[]): Promise<ConversationMessage[]> {
+    if (messages.length === 0) return [];
+    return this.db.insert(conversationMessages).values(messages).returning();
+  }
+
+  // Reminder methods
+  async getReminders(userId: number): Promise<Reminder[]> {
+    return this.db.select().from(reminders)
+      .where(eq(reminders.userId, userId))
+      .orderBy(reminders.id);
+  }
+
+  async getEnabledReminders(): Promise<Reminder[]> {
+    return this.db.select().from(reminders).where(eq(reminders.enabled, true));
+  }
+
+  async getReminderById(id: number): Promise<Reminder | undefined> {
+    const [reminder] = await this.db.select().from(reminders).where(eq(reminders.id, id));
+    return reminder;
+  }
+
+  async createReminder(insertReminder: InsertReminder): Promise<Reminder> {
+    const [reminder] = await this.db.insert(reminders).values(insertReminder).returning();
+    return reminder;
+  }
+
+  async updateReminder(id: number, partialReminder: Partial<InsertReminder>): Promise<Reminder | undefined> {
+    if (Object.keys(partialReminder).length === 0) return this.getReminderById(id);
+
+    const [reminder] = await this.db.update(reminders)
+      .set(partialReminder)
+      .where(eq(reminders.id, id))
+      .returning();
+    return reminder;
+  }
+
+  async markReminderSent(id: number, day: string): Promise<void> {
+    await this.db.update(reminders).set({ lastSentOn: day }).where(eq(reminders.id, id));
+  }
+
+  async deleteReminder(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(reminders)
+      .where(eq(reminders.id, id))
+      .returning({ id: reminders.id });
+    return deleted.length > 0;
+  }
+
+  // Push subscription methods
+  async getPushSubscriptions(userId: number): Promise<PushSubscription[]> {
+    return this.db.select().from(pushSubscriptions).where(eq(pushSubscriptions.userId, userId));
+  }
+
+  async savePushSubscription(insertSubscription: InsertPushSubscription): Promise<PushSubscription> {
+    const [subscription] = await this.db.insert(pushSubscriptions)
+      .values(insertSubscription)
+      .onConflictDoUpdate({
+        target: pushSubscriptions.endpoint,
+        set: { userId: insertSubscription.userId, p256dh: insertSubscription.p256dh, auth: insertSubscription.auth },
+      })
+      .returning();
+    return subscription;
+  }
+
+  async deletePushSubscription(endpoint: string): Promise<boolean> {
+    const deleted = await this.db.delete(pushSubscriptions)
+      .where(eq(pushSubscriptions.endpoint, endpoint))
+      .returning({ id: pushSubscriptions.id });
+    return deleted.length > 0;
+  }
+
+  // Weekly digest methods
+  async getWeeklyDigests(userId: number): Promise<WeeklyDigest[]> {
+    return this.db.select().from(weeklyDigests)
+      .where(eq(weeklyDigests.userId, userId))
+      .orderBy(desc(weeklyDigests.weekStart));
+  }
+
+  async getWeeklyDigest(userId: number, weekStart: string): Promise<WeeklyDigest | undefined> {
+    const [digest] = await this.db.select().from(weeklyDigests)
+      .where(and(eq(weeklyDigests.userId, userId), eq(weeklyDigests.weekStart, weekStart)));
+    return digest;
+  }
+
+  async saveWeeklyDigest(insertDigest: InsertWeeklyDigest): Promise<WeeklyDigest> {
+    const [digest] = await this.db.insert(weeklyDigests)
+      .values(insertDigest)
+      .onConflictDoUpdate({
+        target: [weeklyDigests.userId, weeklyDigests.weekStart],
+        set: { findings: insertDigest.findings, summary: insertDigest.summary ?? null, createdAt: new Date() },
+      })
+      .returning();
+    return digest;
+  }
+
+  // Seed data, only inserted into empty tables so restarts don't duplicate it
+  async seed(): Promise<void> {
+    const [existingPattern] = await this.db.select({ id: thoughtPatterns.id }).from(thoughtPatterns).limit(1);
+    if (!existingPattern) {
+      await this.db.insert(thoughtPatterns).values(thoughtPatternSeeds);
+    }
+
+    const [existingMeditation] = await this.db.select({ id: meditations.id }).from(meditations).limit(1);
+    if (!existingMeditation) {
+      await this.db.insert(meditations).values(meditationSeeds);
+    }
+  }
+}
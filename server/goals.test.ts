@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import type { Goal, GoalHabit, Habit, HabitCompletion } from "@shared/schema";
+import { computeGoalProgress } from "./goals";
+
+const goal = {
+  id: 1,
+  userId: 1,
+  // Monday 2 March, 09:00 in Paris
+  createdAt: new Date("2026-03-02T08:00:00Z"),
+  deadline: new Date("2026-03-31T22:00:00Z"),
+} as Goal;
+
+const water = { id: 1, dailyTarget: 8 } as Habit;
+const walk = { id: 2, dailyTarget: null } as Habit;
+
+let completionId = 0;
+function checkIns(habit: Habit, times: [string, number?][]): HabitCompletion[] {
+  return times.map(([completedAt, quantity]) => ({
+    id: ++completionId,
+    habitId: habit.id,
+    completedAt: new Date(completedAt),
+    quantity: quantity ?? null,
+    unit: null,
+  }));
+}
+
+function link(habit: Habit, targetCompletions: number): GoalHabit {
+  return { id: habit.id, goalId: goal.id, habitId: habit.id, targetCompletions };
+}
+
+describe("computeGoalProgress", () => {
+  it("is null without linked habits", () => {
+    expect(computeGoalProgress(goal, [], "Europe/Paris")).toBeNull();
+  });
+
+  it("counts the days the daily target was met, not the check-ins", () => {
+    const completions = checkIns(water, [
+      ["2026-03-02T09:00:00Z", 4],
+      ["2026-03-02T17:00:00Z", 4],
+      // Short of the target
+      ["2026-03-03T09:00:00Z", 5],
+      ["2026-03-04T09:00:00Z", 8],
+    ]);
+    const progress = computeGoalProgress(goal, [{ link: link(water, 4), habit: water, completions }], "Europe/Paris", new Date("2026-03-05T12:00:00Z"));
+    expect(progress?.percent).toBe(50);
+  });
+
+  it("buckets the days in the user's timezone", () => {
+    const completions = checkIns(walk, [
+      // 00:30 on the 2nd in Paris, the goal's first day, still the 1st in UTC
+      ["2026-03-01T23:30:00Z"],
+      // 23:30 on the 2nd and 00:30 on the 3rd in Paris, both the 2nd in UTC
+      ["2026-03-02T22:30:00Z"],
+      ["2026-03-02T23:30:00Z"],
+    ]);
+    const links = [{ link: link(walk, 4), habit: walk, completions }];
+    const now = new Date("2026-03-04T12:00:00Z");
+
+    expect(computeGoalProgress(goal, links, "Europe/Paris", now)?.percent).toBe(50);
+    expect(computeGoalProgress(goal, links, "UTC", now)?.percent).toBe(25);
+  });
+
+  it("projects the pace of the slowest habit", () => {
+    // Four days after the start of the goal's first day in Paris
+    const now = new Date("2026-03-05T23:00:00Z");
+    const waterDays = checkIns(water, [["2026-03-02T10:00:00Z", 8], ["2026-03-03T10:00:00Z", 8]]);
+    const walkDays = checkIns(walk, [["2026-03-02T10:00:00Z"], ["2026-03-03T10:00:00Z"], ["2026-03-04T10:00:00Z"], ["2026-03-05T10:00:00Z"]]);
+
+    // Two days in four, eight more days take sixteen
+    const slow = computeGoalProgress(goal, [
+      { link: link(water, 10), habit: water, completions: waterDays },
+      { link: link(walk, 2), habit: walk, completions: walkDays },
+    ], "Europe/Paris", now);
+    expect(slow).toEqual({
+      percent: 60,
+      projectedCompletion: new Date(now.getTime() + 16 * 86400000),
+      onTrack: true,
+    });
+
+    // Reached at the start of the day that hit the target
+    const reached = computeGoalProgress(goal, [{ link: link(walk, 2), habit: walk, completions: walkDays }], "Europe/Paris", now);
+    expect(reached?.projectedCompletion).toEqual(new Date("2026-03-02T23:00:00Z"));
+  });
+
+  it("has no projection until every habit has a day done", () => {
+    const progress = computeGoalProgress(goal, [{ link: link(water, 5), habit: water, completions: checkIns(water, [["2026-03-02T10:00:00Z", 3]]) }], "Europe/Paris");
+    expect(progress).toEqual({ percent: 0, projectedCompletion: null, onTrack: null });
+  });
+});
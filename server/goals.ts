@@ -0,0 +1,127 @@
+import type { Goal, GoalHabit, GoalPlan, GoalStep, Habit, HabitCompletion, InsertGoalHabit } from "@shared/schema";
+import { storage } from "./storage";
+import { completedDays, dayStart, toDay } from "./lib/habit-schedule";
+
+export interface GoalHabitProgress {
+  habitId: number;
+  name: string;
+  targetCompletions: number;
+  // Days the habit was done, daily target met, between the day the goal was
+  // created and its deadline
+  completions: number;
+}
+
+export interface GoalProgress {
+  percent: number;
+  // When every linked habit reaches its target at the pace so far, null
+  // while a habit has no completed day to extrapolate from
+  projectedCompletion: Date | null;
+  onTrack: boolean | null;
+}
+
+export type GoalDetails = Goal & {
+  steps: GoalStep[];
+  habits: GoalHabitProgress[];
+  // Null for goals without linked habits
+  progress: GoalProgress | null;
+};
+
+const DAY_MS = 86400000;
+
+// Days in the timezone the habit was done that count towards the goal: from
+// the day it was set until the day of its deadline, oldest first
+function countedDays(goal: Goal, habit: Habit, completions: HabitCompletion[], timeZone: string): number[] {
+  const first = toDay(new Date(goal.createdAt), timeZone);
+  const last = toDay(new Date(goal.deadline), timeZone);
+  return completedDays(habit, completions, timeZone).filter((day) => day >= first && day <= last);
+}
+
+// Progress towards the habit targets, from the days done since the day the
+// goal was set in the user's timezone
+export function computeGoalProgress(
+  goal: Goal,
+  links: { link: GoalHabit; habit: Habit; completions: HabitCompletion[] }[],
+  timeZone: string,
+  now: Date = new Date(),
+): GoalProgress | null {
+  if (links.length === 0) return null;
+
+  const start = dayStart(toDay(new Date(goal.createdAt), timeZone), timeZone);
+  const elapsedDays = Math.max(1, (now.getTime() - start.getTime()) / DAY_MS);
+
+  let ratioSum = 0;
+  let projected: number | null = 0;
+  for (const { link, habit, completions } of links) {
+    const counted = countedDays(goal, habit, completions, timeZone);
+    ratioSum += Math.min(1, counted.length / link.targetCompletions);
+
+    if (projected === null) continue;
+    if (counted.length >= link.targetCompletions) {
+      // Reached on the day that hit the target
+      projected = Math.max(projected, dayStart(counted[link.targetCompletions - 1], timeZone).getTime());
+    } else if (counted.length === 0) {
+      projected = null;
+    } else {
+      const perDay = counted.length / elapsedDays;
+      const remainingDays = Math.ceil((link.targetCompletions - counted.length) / perDay);
+      projected = Math.max(projected, now.getTime() + remainingDays * DAY_MS);
+    }
+  }
+
+  return {
+    percent: Math.round(ratioSum / links.length * 100),
+    projectedCompletion: projected === null ? null : new Date(projected),
+    onTrack: projected === null ? null : projected <= goal.deadline.getTime(),
+  };
+}
+
+// The goal with its steps and habit progress, days counted in `timeZone`,
+// the owner's
+export async function withDetails(goal: Goal, timeZone: string): Promise<GoalDetails> {
+  const [steps, links] = await Promise.all([
+    storage.getGoalSteps(goal.id),
+    storage.getGoalHabits(goal.id),
+  ]);
+
+  const tracked = (await Promise.all(links.map(async (link) => ({
+    link,
+    habit: await storage.getHabitById(link.habitId),
+    completions: await storage.getHabitCompletions(link.habitId),
+  })))).filter((entry): entry is typeof entry & { habit: Habit } => !!entry.habit);
+
+  return {
+    ...goal,
+    steps,
+    habits: tracked.map(({ link, habit, completions }) => ({
+      habitId: habit.id,
+      name: habit.name,
+      targetCompletions: link.targetCompletions,
+      completions: countedDays(goal, habit, completions, timeZone).length,
+    })),
+    progress: computeGoalProgress(goal, tracked, timeZone),
+  };
+}
+
+// Stores an action plan on the goal: tips and estimate on the goal itself,
+// steps replacing any previous ones in the order given
+export async function saveGoalPlan(goal: Goal, plan: GoalPlan, timeZone: string): Promise<GoalDetails> {
+  const updatedGoal = await storage.updateGoal(goal.id, {
+    tips: plan.tips,
+    estimatedCompletion: plan.estimatedCompletion ?? null,
+  });
+  await storage.replaceGoalSteps(goal.id, plan.steps.map((step, position) => ({
+    goalId: goal.id,
+    description: step.description,
+    targetDate: step.targetDate ?? null,
+    completed: step.completed ?? false,
+    position,
+  })));
+
+  return withDetails(updatedGoal ?? goal, timeZone);
+}
+
+// Habit ids the user doesn't own, checked before linking them to a goal
+export async function findForeignHabits(userId: number, links: Omit<InsertGoalHabit, "goalId">[]): Promise<number[]> {
+  const habits = await Promise.all(links.map((link) => storage.getHabitById(link.habitId)));
+  return links.filter((_link, index) => habits[index]?.userId !== userId).map((link) => link.habitId);
+}
@@ -1,6 +1,11 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { storage } from "./storage";
+import { DrizzleStorage } from "./db-storage";
+import { aiProvider } from "./lib/ai";
+import { pushTransport } from "./lib/push";
+import { startReminderScheduler } from "./reminders";
 
 const app = express();
 app.use(express.json());
@@ -37,7 +42,17 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  if (storage instanceof DrizzleStorage) {
+    await storage.seed();
+    log("using PostgreSQL storage");
+  } else {
+    log("DATABASE_URL not set, using in-memory storage");
+  }
+  log(`using ${aiProvider.name} AI provider`);
+  log(`using ${pushTransport.name} push transport`);
+  
   const server = await registerRoutes(app);
+  startReminderScheduler();
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
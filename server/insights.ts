@@ -0,0 +1,55 @@
+import type { User, WeeklyDigest } from "@shared/schema";
+import { storage } from "./storage";
+import { formatDay, toDay } from "./lib/habit-schedule";
+import { loadMoodScale } from "./lib/mood-options";
+import { findWeeklyInsights, mondayOf } from "./lib/weekly-findings";
+import { generateDigestSummary } from "./lib/openai";
+
+// Monday of the last week that has ended in the timezone
+export function lastCompleteWeek(timeZone: string, now: Date = new Date()): number {
+  return mondayOf(toDay(now, timeZone)) - 7;
+}
+
+// Monday of the week the user joined in, the first one with a digest
+export function firstDigestWeek(user: User): number {
+  return mondayOf(toDay(new Date(user.createdAt), user.timezone));
+}
+
+// The digest of the week starting on `weekStart` (a Monday, see toDay). Weeks
+// are only looked at once they're over, so a digest is built the first time
+// it's asked for and stored as is from then on.
+export async function getWeeklyDigest(user: User, weekStart: number): Promise<WeeklyDigest> {
+  const stored = await storage.getWeeklyDigest(user.id, formatDay(weekStart));
+  if (stored) return stored;
+
+  const [moods, scale, habits, meditationCompletions, journalEntries, thoughtPatterns] = await Promise.all([
+    storage.getMoods(user.id),
+    loadMoodScale(user.id),
+    storage.getHabits(user.id),
+    storage.getMeditationCompletions(user.id),
+    storage.getJournalEntries(user.id),
+    storage.getThoughtPatterns(),
+  ]);
+  const tracked = await Promise.all(habits.filter((habit) => !habit.archived).map(async (habit) => ({
+    habit,
+    completions: await storage.getHabitCompletions(habit.id),
+  })));
+
+  const findings = findWeeklyInsights({
+    weekStart,
+    moods,
+    habits: tracked,
+    meditationCompletions,
+    journalEntries,
+    thoughtPatterns,
+    scaleSize: scale.levels.length,
+    timeZone: user.timezone,
+  });
+  const summary = await generateDigestSummary({
+    userName: user.name,
+    weekStart: formatDay(weekStart),
+    findings: findings.map((finding) => finding.text),
+  });
+
+  return storage.saveWeeklyDigest({ userId: user.id, weekStart: formatDay(weekStart), findings, summary });
+}
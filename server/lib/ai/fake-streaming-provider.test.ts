@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { ACTIONS_MARKER, type AIProvider, type CopilotChatInput } from "./types";
+import { FakeStreamingProvider } from "./fake-streaming-provider";
+
+const input: CopilotChatInput = { messages: [{ role: "user", content: "Bonjour" }], userName: null, context: "", meditations: [] };
+
+function replying(content: string): AIProvider {
+  return {
+    name: "offline",
+    analyzeThought: async () => "{}",
+    chat: async () => content,
+    planGoal: async () => "{}",
+  };
+}
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+describe("FakeStreamingProvider", () => {
+  it("streams the reply a few words at a time, then the actions line", async () => {
+    const provider = new FakeStreamingProvider(
+      replying(JSON.stringify({ reply: "Take a slow breath with me now", actions: [{ type: "breathing" }] })),
+      { delayMs: 0, wordsPerChunk: 2 },
+    );
+
+    expect(await collect(provider.streamChat(input))).toEqual([
+      "Take a ",
+      "slow breath ",
+      "with me ",
+      "now",
+      `${ACTIONS_MARKER} [{"type":"breathing"}]`,
+    ]);
+  });
+
+  it("streams text that isn't JSON as it is, without actions", async () => {
+    const provider = new FakeStreamingProvider(replying("Plain text reply"), { delayMs: 0, wordsPerChunk: 1 });
+    expect(await collect(provider.streamChat(input))).toEqual(["Plain ", "text ", "reply", `${ACTIONS_MARKER} []`]);
+  });
+
+  it("stops waiting when the signal aborts", async () => {
+    const provider = new FakeStreamingProvider(replying("One two three four"), { delayMs: 50, wordsPerChunk: 1 });
+    const abort = new AbortController();
+    const chunks: string[] = [];
+
+    await expect((async () => {
+      for await (const chunk of provider.streamChat(input, abort.signal)) {
+        chunks.push(chunk);
+        abort.abort();
+      }
+    })()).rejects.toThrow("Aborted");
+    expect(chunks).toEqual(["One "]);
+  });
+
+  it("only exposes the optional tasks of the wrapped provider", () => {
+    expect(new FakeStreamingProvider(replying("")).assessSafety).toBeUndefined();
+    const inner = { ...replying(""), assessSafety: async () => JSON.stringify({ level: "none", categories: [] }) };
+    expect(new FakeStreamingProvider(inner).assessSafety).toBeTypeOf("function");
+  });
+});
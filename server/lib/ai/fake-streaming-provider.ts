@@ -0,0 +1,83 @@
+import { ACTIONS_MARKER, type AIProvider, type AIProviderName, type CopilotChatInput, type DigestInput, type GoalPlanInput, type ThoughtAnalysisInput } from "./types";
+
+export interface FakeStreamingOptions {
+  // Pause between chunks, 0 streams as fast as the consumer reads
+  delayMs?: number;
+  // Words per chunk
+  wordsPerChunk?: number;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new Error("Aborted"));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error("Aborted"));
+    };
+    // Drop the listener once the wait is over, a reply waits once per chunk
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Streams the complete reply of a provider that can't stream, a few words at
+// a time. Used for the offline provider, and lets the whole streaming path be
+// exercised without a network.
+export class FakeStreamingProvider implements AIProvider {
+  readonly name: AIProviderName;
+  readonly assessSafety?: (text: string) => Promise<string>;
+  readonly phraseDigest?: (input: DigestInput) => Promise<string>;
+  private delayMs: number;
+  private wordsPerChunk: number;
+
+  constructor(private inner: AIProvider, options: FakeStreamingOptions = {}) {
+    this.name = inner.name;
+    this.delayMs = options.delayMs ?? 40;
+    this.wordsPerChunk = options.wordsPerChunk ?? 2;
+    // Only expose the optional tasks the wrapped provider has
+    if (inner.assessSafety) {
+      this.assessSafety = (text) => inner.assessSafety!(text);
+    }
+    if (inner.phraseDigest) {
+      this.phraseDigest = (input) => inner.phraseDigest!(input);
+    }
+  }
+
+  analyzeThought(input: ThoughtAnalysisInput): Promise<string> {
+    return this.inner.analyzeThought(input);
+  }
+
+  chat(input: CopilotChatInput): Promise<string> {
+    return this.inner.chat(input);
+  }
+
+  planGoal(input: GoalPlanInput): Promise<string> {
+    return this.inner.planGoal(input);
+  }
+
+  async *streamChat(input: CopilotChatInput, signal?: AbortSignal): AsyncIterable<string> {
+    const content = await this.inner.chat(input);
+
+    let reply = content;
+    let actions: unknown = [];
+    try {
+      const parsed = JSON.parse(content);
+      reply = typeof parsed.reply === "string" ? parsed.reply : content;
+      actions = parsed.actions ?? [];
+    } catch {
+      // Not JSON, stream it as it is
+    }
+
+    // Keep the spaces attached so the chunks join back into the same text
+    const words = reply.split(/(?<=\s)/);
+    for (let i = 0; i < words.length; i += this.wordsPerChunk) {
+      if (this.delayMs > 0) await wait(this.delayMs, signal);
+      yield words.slice(i, i + this.wordsPerChunk).join("");
+    }
+
+    yield `${ACTIONS_MARKER} ${JSON.stringify(actions)}`;
+  }
+}
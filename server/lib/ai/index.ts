@@ -0,0 +1,72 @@
+import { storage } from "../../storage";
+import type { AIProvider, AIProviderName } from "./types";
+import { OpenAIProvider, LocalProvider } from "./openai-provider";
+import { OfflineProvider } from "./offline-provider";
+import { FakeStreamingProvider } from "./fake-streaming-provider";
+
+export type { AIProvider, AIProviderName, ThoughtAnalysisInput, CopilotChatInput, CopilotChatMessage, GoalPlanInput, DigestInput } from "./types";
+export { ACTIONS_MARKER } from "./types";
+export { OpenAIProvider, LocalProvider } from "./openai-provider";
+export { OfflineProvider, offlineGoalPlan } from "./offline-provider";
+export { FakeStreamingProvider } from "./fake-streaming-provider";
+
+export interface AIConfig {
+  provider: AIProviderName;
+  model: string;
+  baseURL: string;
+  apiKey?: string;
+}
+
+const PROVIDER_NAMES: AIProviderName[] = ["openai", "local", "offline"];
+
+const DEFAULT_MODELS: Record<AIProviderName, string> = {
+  // the newest OpenAI model is "gpt-4o" which was released May 13, 2024
+  openai: "gpt-4o",
+  local: "llama3.1",
+  offline: "rules",
+};
+
+// Reads AI_PROVIDER, AI_MODEL, AI_BASE_URL and OPENAI_API_KEY. Without an
+// explicit provider, OpenAI is used when a key is present and the offline
+// rules otherwise, so the server always boots.
+export function loadAIConfig(env: NodeJS.ProcessEnv = process.env): AIConfig {
+  const apiKey = env.OPENAI_API_KEY || undefined;
+  const requested = env.AI_PROVIDER?.trim().toLowerCase();
+
+  let provider: AIProviderName = apiKey ? "openai" : "offline";
+  if (requested) {
+    if (PROVIDER_NAMES.includes(requested as AIProviderName)) {
+      provider = requested as AIProviderName;
+    } else {
+      console.warn(`Unknown AI_PROVIDER "${requested}", using ${provider}`);
+    }
+  }
+
+  if (provider === "openai" && !apiKey) {
+    console.warn("AI_PROVIDER is openai but OPENAI_API_KEY is not set, using offline analysis");
+    provider = "offline";
+  }
+
+  return {
+    provider,
+    model: env.AI_MODEL || DEFAULT_MODELS[provider],
+    baseURL: env.AI_BASE_URL || "http://localhost:11434/v1",
+    apiKey,
+  };
+}
+
+export function createAIProvider(
+  config: AIConfig,
+  loadPatterns = () => storage.getThoughtPatterns(),
+): AIProvider {
+  switch (config.provider) {
+    case "openai":
+      return new OpenAIProvider({ apiKey: config.apiKey!, model: config.model });
+    case "local":
+      return new LocalProvider({ baseURL: config.baseURL, model: config.model, apiKey: config.apiKey });
+    case "offline":
+      return new FakeStreamingProvider(new OfflineProvider(loadPatterns));
+  }
+}
+
+export const aiProvider = createAIProvider(loadAIConfig());
@@ -0,0 +1,164 @@
+import type { ThoughtPattern } from "@shared/schema";
+import type { AIProvider, AIProviderName, ThoughtAnalysisInput, CopilotChatInput, GoalPlanInput } from "./types";
+
+// Phrases (English and French) that hint at each seeded thought pattern
+const PATTERN_CUES: Record<string, string[]> = {
+  "Catastrophizing": [
+    "ruined", "ruin", "disaster", "worst", "terrible", "catastroph", "never recover", "end of the world",
+    "going to die", "heart attack", "ruiné", "pire", "désastre", "catastrophe", "horrible", "fin du monde",
+  ],
+  "Mind Reading": [
+    "thinks i'm", "think i'm", "thinks i am", "they think", "she thinks", "he thinks", "mad at me",
+    "everyone thinks", "judging me", "pense que je", "pensent que je", "m'en veut", "m'en vouloir",
+    "me juge", "me jugent", "ils pensent", "elle pense", "il pense",
+  ],
+  "Black & White Thinking": [
+    "always", "never", "completely", "perfect", "total failure", "complete failure", "everything",
+    "nothing", "either", "toujours", "jamais", "parfait", "échec", "nul", "tout ou rien", "rien ne",
+  ],
+  "Emotional Reasoning": [
+    "i feel like", "i feel", "so i must", "must be", "feel stupid", "feel like a burden",
+    "je me sens", "j'ai l'impression", "donc je suis", "je ressens",
+  ],
+};
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[’`]/g, "'");
+}
+
+const NON_WORD = /[^a-z0-9à-öø-ÿœ']+/;
+
+function countCues(text: string, cues: string[]): number {
+  return cues.reduce((score, cue) => score + (text.includes(cue) ? 1 : 0), 0);
+}
+
+// Words shared with the pattern's examples, used to break ties
+function exampleOverlap(text: string, pattern: ThoughtPattern): number {
+  const words = new Set(text.split(NON_WORD).filter((word) => word.length > 3));
+  const examples = (pattern.examples as string[]).join(" ");
+  return normalize(examples).split(NON_WORD).filter((word) => words.has(word)).length;
+}
+
+const GOAL_PLAN_STEPS = [
+  (title: string) => `Définir clairement les métriques de succès pour "${title}"`,
+  () => "Identifier les ressources nécessaires et les obstacles potentiels",
+  () => "Créer un calendrier hebdomadaire avec des actions spécifiques",
+  () => "Mettre en place un système de suivi des progrès",
+  () => "Évaluation à mi-parcours et ajustement du plan si nécessaire",
+  () => "Faire le bilan et célébrer les progrès accomplis",
+];
+
+const GOAL_PLAN_TIPS = [
+  "Fixez des moments réguliers dans la semaine pour travailler sur cet objectif",
+  "Célébrez les petites victoires pour maintenir votre motivation",
+  "Trouvez un partenaire de responsabilité pour vous aider à rester engagé",
+  "Adaptez votre plan en fonction des réalités rencontrées",
+];
+
+function addDays(isoDate: string, days: number): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+// The template plan: the generic steps not done yet, spread evenly until the
+// deadline. Also what users get when the configured AI backend fails.
+export function offlineGoalPlan({ title, today, deadline, completedSteps }: GoalPlanInput): string {
+  const done = new Set(completedSteps.map(normalize));
+  const remaining = GOAL_PLAN_STEPS.map((step) => step(title)).filter((step) => !done.has(normalize(step)));
+  const steps = remaining.length > 0 ? remaining : ["Maintenir les nouvelles habitudes au quotidien"];
+  const span = Math.max(0, Math.round((Date.parse(deadline) - Date.parse(today)) / 86400000));
+
+  return JSON.stringify({
+    steps: steps.map((description, index) => ({
+      description,
+      targetDate: addDays(today, Math.ceil(span * (index + 1) / steps.length)),
+    })),
+    tips: GOAL_PLAN_TIPS,
+    estimatedCompletion: `Plan estimé pour une réalisation d'ici le ${new Date(`${deadline}T00:00:00Z`).toLocaleDateString("fr-FR", { day: "2-digit", month: "long", year: "numeric", timeZone: "UTC" })}`,
+  });
+}
+
+// Deterministic, network-free analysis that maps the text onto the seeded
+// thought patterns with keyword rules. Keeps /api/cbt/analyze usable offline.
+export class OfflineProvider implements AIProvider {
+  readonly name: AIProviderName = "offline";
+
+  constructor(private loadPatterns: () => Promise<ThoughtPattern[]>) {}
+
+  async analyzeThought({ situation, emotion, thought }: ThoughtAnalysisInput): Promise<string> {
+    const patterns = await this.loadPatterns();
+    if (patterns.length === 0) {
+      throw new Error("No thought patterns available for offline analysis");
+    }
+
+    const pattern = this.matchPattern(normalize(`${thought} ${situation}`), patterns);
+    const strategies = pattern.reframeStrategies as string[];
+
+    return JSON.stringify({
+      thoughtPattern: pattern.name,
+      patternExplanation: `${pattern.description}. The thought "${thought.trim()}" while feeling ${emotion.trim().toLowerCase()} shows signs of this pattern.`,
+      challenge: `${strategies[0] ?? "Look for evidence for and against this thought"}. What facts support this thought, and which ones don't?`,
+      reframe: `Feeling ${emotion.trim().toLowerCase()} is understandable here, but the feeling isn't proof. ${strategies[1] ?? strategies[0] ?? "A more balanced view takes every fact into account"}.`,
+    });
+  }
+
+  // The copilot's original intent matching, now answering with actions
+  async chat({ messages, userName, meditations }: CopilotChatInput): Promise<string> {
+    const lowerInput = normalize(messages[messages.length - 1]?.content ?? "");
+    const includesAny = (...words: string[]) => words.some((word) => lowerInput.includes(word));
+
+    let reply: string;
+    let actions: object[] = [];
+
+    if (includesAny("pensée", "pensee", "restructur", "cbt", "tcc", "exercice")) {
+      reply = "Je serais ravi de vous guider à travers un exercice de restructuration des pensées. Cela vous aidera à identifier et transformer vos pensées négatives. Êtes-vous prêt à commencer?";
+      actions = [{ type: "cbt_exercise" }];
+    } else if (includesAny("anxieux", "anxieuse", "anxiété", "stress", "débordé")) {
+      reply = "Je comprends à quel point l'anxiété peut être accablante. Souhaitez-vous essayer un exercice rapide de respiration pour vous aider à calmer vos nerfs, ou préférez-vous parler davantage de ce qui cause votre anxiété?";
+      actions = [{ type: "breathing" }];
+    } else if (includesAny("triste", "déprimé", "déprimée")) {
+      reply = "Je suis désolé d'apprendre que vous vous sentez mal. Rappelez-vous que les émotions sont temporaires et qu'il est normal de se sentir triste parfois. Écrire ce qui contribue à ces sentiments peut aider à y voir plus clair.";
+      actions = [{ type: "journal" }];
+    } else if (includesAny("respiration", "respirer")) {
+      reply = "Les exercices de respiration peuvent vraiment aider! Essayez la technique 4-7-8: Inspirez pendant 4 secondes, retenez pendant 7 secondes, puis expirez pendant 8 secondes. Répétez cela 4 fois et remarquez comment votre corps se sent.";
+      actions = [{ type: "breathing" }];
+    } else if (includesAny("méditation", "méditer", "meditation")) {
+      const meditation = meditations.find((candidate) => lowerInput.includes(candidate.category.toLowerCase())) ?? meditations[0];
+      reply = meditation
+        ? `La méditation est une excellente pratique pour le bien-être mental. Je vous propose « ${meditation.title} », une séance de ${Math.round(meditation.duration / 60)} minutes.`
+        : "La méditation est une excellente pratique pour le bien-être mental. Prenez quelques minutes au calme pour vous concentrer sur votre respiration.";
+      actions = meditation ? [{ type: "meditation", meditationId: meditation.id }] : [];
+    } else if (includesAny("bonjour", "salut")) {
+      reply = `Bonjour ${userName || "there"}! Comment vous sentez-vous aujourd'hui? Je suis là pour soutenir votre parcours de bien-être mental.`;
+    } else if (includesAny("objectif")) {
+      reply = "Fixer des objectifs est une excellente façon de progresser. Voulez-vous que je vous aide à définir un objectif de bien-être et à élaborer un plan pour l'atteindre?";
+    } else {
+      reply = "Merci de partager. Voulez-vous explorer cela plus en détail, ou peut-être essayer l'un de nos exercices comme la respiration, la méditation ou la restructuration des pensées?";
+      actions = [{ type: "breathing" }, { type: "cbt_exercise" }];
+    }
+
+    return JSON.stringify({ reply, actions });
+  }
+
+  async planGoal(input: GoalPlanInput): Promise<string> {
+    return offlineGoalPlan(input);
+  }
+
+  matchPattern(text: string, patterns: ThoughtPattern[]): ThoughtPattern {
+    let best = patterns[0];
+    let bestScore = -1;
+
+    for (const pattern of patterns) {
+      const cueScore = countCues(text, PATTERN_CUES[pattern.name] ?? []);
+      // Cues dominate, example overlap only separates equal cue counts
+      const score = cueScore * 100 + exampleOverlap(text, pattern);
+      if (score > bestScore) {
+        best = pattern;
+        bestScore = score;
+      }
+    }
+
+    return best;
+  }
+}
@@ -0,0 +1,179 @@
+import OpenAI from "openai";
+import { ACTIONS_MARKER, type AIProvider, type AIProviderName, type ThoughtAnalysisInput, type CopilotChatInput, type GoalPlanInput, type DigestInput } from "./types";
+
+export interface OpenAIProviderOptions {
+  apiKey: string;
+  model: string;
+  baseURL?: string;
+}
+
+const CBT_SYSTEM_PROMPT =
+  "You are a trained cognitive behavioral therapist. Your goal is to help the user identify distorted thought patterns, challenge them, and reframe them. Your responses should be empathetic, supportive, and educational. Analyze the situation, emotion, and thought provided by the user and respond with the following structure in JSON format: " +
+  "1. Thought Pattern: Identify the cognitive distortion pattern (e.g., catastrophizing, black-and-white thinking, mind reading) " +
+  "2. Pattern Explanation: A brief explanation of how this thought exemplifies the pattern " +
+  "3. Challenge: A gentle way to challenge this thought with evidence-based questioning " +
+  "4. Reframe: A more balanced alternative perspective";
+
+// "json" asks for a { reply, actions } object, "text" for a plain reply
+// followed by an ACTIONS line, which can be streamed to the user as it comes
+function copilotSystemPrompt({ userName, context, meditations }: CopilotChatInput, format: "json" | "text"): string {
+  const catalog = meditations
+    .map((meditation) => `${meditation.id}: ${meditation.title} (${meditation.category}, ${Math.round(meditation.duration / 60)} min)`)
+    .join("; ");
+  const outputFormat = format === "json"
+    ? "Respond in JSON format with \"reply\" (your message) and \"actions\" (a list, usually empty, at most 2) to offer as buttons. "
+    : `Write your reply as plain text. To offer buttons (usually none, at most 2), end with one last line starting with "${ACTIONS_MARKER.trim()}" followed by a JSON list of actions. `;
+
+  return "You are a warm, supportive mental wellness coach inside a CBT self-help app. Keep replies short (2 to 4 sentences), " +
+    "reply in the language the user writes in, and never diagnose. Use what you know about the user when it helps, without reciting it. " +
+    `The user's name is ${userName || "unknown"}. Recent activity: ${context} ` +
+    outputFormat + "Allowed actions: " +
+    "{\"type\": \"breathing\"} for a guided breathing exercise, {\"type\": \"journal\"} to write a CBT journal entry, " +
+    "{\"type\": \"cbt_exercise\"} to start a guided thought restructuring exercise in this chat, " +
+    `{"type": "meditation", "meditationId": <id>} to suggest one of these meditations: ${catalog || "none available"}.`;
+}
+
+const GOAL_PLAN_SYSTEM_PROMPT =
+  "You are a supportive wellbeing coach helping the user turn a personal goal into an action plan. Write in the language of the goal. " +
+  "Respond in JSON format with \"steps\" (3 to 7 concrete, small actions in the order to do them, each an object with \"description\" and \"targetDate\" as YYYY-MM-DD between today and the deadline), " +
+  "\"tips\" (2 to 4 short pieces of advice to stay on track) and \"estimatedCompletion\" (one sentence on when and how the goal can be reached). " +
+  "When the user already completed steps, plan only what remains after them and don't repeat them.";
+
+const SAFETY_SYSTEM_PROMPT =
+  "You screen messages written in a mental health journaling app for risk. Read the user's text and respond in JSON with " +
+  "\"level\": \"crisis\" if it mentions suicidal thoughts, self-harm or intent to harm someone, \"concern\" if it expresses hopelessness or feeling unsafe without such intent, otherwise \"none\"; " +
+  "and \"categories\": a list drawn from \"suicide\", \"self_harm\", \"harm_to_others\", \"hopelessness\". The text may be in any language.";
+
+const DIGEST_SYSTEM_PROMPT =
+  "You write the weekly summary of a mental wellness app. Turn the findings you are given into one warm, encouraging paragraph of 2 to 4 sentences addressed to the user. " +
+  "Keep every number as it is, don't add facts, advice about medication or diagnoses, and present links between habits and mood as things that tend to go together, not causes. " +
+  "Respond in JSON format with \"summary\".";
+
+// Talks to the OpenAI chat completions API
+export class OpenAIProvider implements AIProvider {
+  readonly name: AIProviderName = "openai";
+  protected client: OpenAI;
+  protected model: string;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+    this.model = options.model;
+  }
+
+  async analyzeThought({ situation, emotion, thought }: ThoughtAnalysisInput): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: "system", content: CBT_SYSTEM_PROMPT },
+        {
+          role: "user",
+          content: `
+            Situation: ${situation}
+            Emotion: ${emotion}
+            Thought: ${thought}
+          `
+        }
+      ],
+      response_format: { type: "json_object" },
+    });
+
+    return response.choices[0].message.content ?? "";
+  }
+
+  async chat(input: CopilotChatInput): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: "system", content: copilotSystemPrompt(input, "json") },
+        ...input.messages
+      ],
+      response_format: { type: "json_object" },
+    });
+
+    return response.choices[0].message.content ?? "";
+  }
+
+  async planGoal({ title, description, today, deadline, completedSteps, feedback }: GoalPlanInput): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: "system", content: GOAL_PLAN_SYSTEM_PROMPT },
+        {
+          role: "user",
+          content: [
+            `Goal: ${title}`,
+            `Description: ${description}`,
+            `Today: ${today}`,
+            `Deadline: ${deadline}`,
+            ...(completedSteps.length > 0 ? [`Completed steps: ${completedSteps.join("; ")}`] : []),
+            ...(feedback ? [`Requested changes: ${feedback}`] : []),
+          ].join("\n")
+        }
+      ],
+      response_format: { type: "json_object" },
+    });
+
+    return response.choices[0].message.content ?? "";
+  }
+
+  async *streamChat(input: CopilotChatInput, signal?: AbortSignal): AsyncIterable<string> {
+    const stream = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: "system", content: copilotSystemPrompt(input, "text") },
+        ...input.messages
+      ],
+      stream: true,
+    }, { signal });
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) yield delta;
+    }
+  }
+
+  async assessSafety(text: string): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: "system", content: SAFETY_SYSTEM_PROMPT },
+        { role: "user", content: text }
+      ],
+      response_format: { type: "json_object" },
+      temperature: 0,
+    });
+
+    return response.choices[0].message.content ?? "";
+  }
+
+  async phraseDigest({ userName, weekStart, findings }: DigestInput): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: "system", content: DIGEST_SYSTEM_PROMPT },
+        {
+          role: "user",
+          content: [
+            `Name: ${userName || "unknown"}`,
+            `Week starting: ${weekStart}`,
+            "Findings:",
+            ...findings.map((finding) => `- ${finding}`),
+          ].join("\n")
+        }
+      ],
+      response_format: { type: "json_object" },
+    });
+
+    return response.choices[0].message.content ?? "";
+  }
+}
+
+// Any server speaking the OpenAI protocol on a custom URL (Ollama, llama.cpp, vLLM...)
+export class LocalProvider extends OpenAIProvider {
+  readonly name: AIProviderName = "local";
+
+  constructor(options: { baseURL: string; model: string; apiKey?: string }) {
+    // Local servers ignore the key, but the SDK refuses to start without one
+    super({ apiKey: options.apiKey || "local", baseURL: options.baseURL, model: options.model });
+  }
+}
@@ -0,0 +1,68 @@
+export type AIProviderName = "openai" | "local" | "offline";
+
+export interface ThoughtAnalysisInput {
+  situation: string;
+  emotion: string;
+  thought: string;
+}
+
+export interface CopilotChatMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+// Streaming replies are plain text. Actions, if any, follow on a last line
+// starting with this marker, as a JSON array.
+export const ACTIONS_MARKER = "\nACTIONS:";
+
+export interface CopilotChatInput {
+  // Oldest first, ending with the message to answer
+  messages: CopilotChatMessage[];
+  userName: string | null;
+  // Short plain-text digest of the user's recent moods, habits and journal
+  context: string;
+  // Meditations the copilot may suggest by id
+  meditations: { id: number; title: string; category: string; duration: number }[];
+}
+
+export interface GoalPlanInput {
+  title: string;
+  description: string;
+  // Dates as YYYY-MM-DD, step target dates must fall between them
+  today: string;
+  deadline: string;
+  // Steps the user already did, when refining an existing plan
+  completedSteps: string[];
+  // What the user wants changed, when refining
+  feedback?: string;
+}
+
+export interface DigestInput {
+  userName: string | null;
+  // Monday of the week, YYYY-MM-DD
+  weekStart: string;
+  // The rule-based findings, most telling first
+  findings: string[];
+}
+
+// A backend able to run the app's AI tasks. Methods return the raw model
+// output; parsing and validation happen in server/lib/openai.ts so every
+// provider is held to the same contract.
+export interface AIProvider {
+  readonly name: AIProviderName;
+  // JSON object with thoughtPattern, patternExplanation, challenge and reframe
+  analyzeThought(input: ThoughtAnalysisInput): Promise<string>;
+  // JSON object with reply and actions (see copilotActionSchema)
+  chat(input: CopilotChatInput): Promise<string>;
+  // JSON object with steps ({ description, targetDate }), tips and estimatedCompletion
+  planGoal(input: GoalPlanInput): Promise<string>;
+  // The same reply as text deltas, ending with the ACTIONS_MARKER line.
+  // Optional: other providers are streamed through FakeStreamingProvider.
+  streamChat?(input: CopilotChatInput, signal?: AbortSignal): AsyncIterable<string>;
+  // JSON object with level ("none" | "concern" | "crisis") and categories.
+  // Optional: providers without it rely on the keyword lists alone.
+  assessSafety?(text: string): Promise<string>;
+  // JSON object with summary, a short paragraph rewording the findings.
+  // Optional: without it digests list the findings as they are.
+  phraseDigest?(input: DigestInput): Promise<string>;
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { computeHabitStats, dayStart, formatDay, minuteOfDay, startOfDay, toDay } from "./habit-schedule";
+
+const PARIS = "Europe/Paris";
+
+function day(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`) / 86400000;
+}
+
+describe("days in a timezone", () => {
+  it("puts 23:59 and 00:01 local time on different days", () => {
+    // 23:59 on the 10th and 00:01 on the 11th in Paris, both the 10th in UTC
+    const lateEvening = new Date("2026-03-10T22:59:00Z");
+    const earlyMorning = new Date("2026-03-10T23:01:00Z");
+
+    expect(formatDay(toDay(lateEvening, PARIS))).toBe("2026-03-10");
+    expect(formatDay(toDay(earlyMorning, PARIS))).toBe("2026-03-11");
+    expect(toDay(earlyMorning, "UTC")).toBe(toDay(lateEvening, "UTC"));
+    expect(minuteOfDay(lateEvening, PARIS)).toBe(23 * 60 + 59);
+    expect(minuteOfDay(earlyMorning, PARIS)).toBe(1);
+  });
+
+  it.each([
+    // Clocks go forward from 02:00 to 03:00 on 29 March 2026
+    ["2026-03-29", "2026-03-28T23:00:00Z", "2026-03-29T22:00:00Z"],
+    // and back from 03:00 to 02:00 on 25 October 2026
+    ["2026-10-25", "2026-10-24T22:00:00Z", "2026-10-25T23:00:00Z"],
+  ])("starts %s and the next day at local midnight across the change", (date, start, nextStart) => {
+    expect(dayStart(day(date), PARIS).toISOString()).toBe(new Date(start).toISOString());
+    expect(dayStart(day(date) + 1, PARIS).toISOString()).toBe(new Date(nextStart).toISOString());
+    // 23:59, the last minute of the day
+    expect(startOfDay(new Date(Date.parse(nextStart) - 60000), PARIS).toISOString()).toBe(new Date(start).toISOString());
+  });
+
+  it.each([
+    ["2026-03-29", 23],
+    ["2026-10-25", 25],
+  ])("gives %s its %i hours", (date, hours) => {
+    const length = dayStart(day(date) + 1, PARIS).getTime() - dayStart(day(date), PARIS).getTime();
+    expect(length).toBe(hours * 3600000);
+  });
+
+  it("finds the start of the day from any time in it", () => {
+    // 23:59 on the short and the long day
+    expect(startOfDay(new Date("2026-03-29T21:59:00Z"), PARIS).toISOString()).toBe("2026-03-28T23:00:00.000Z");
+    expect(startOfDay(new Date("2026-10-25T22:59:00Z"), PARIS).toISOString()).toBe("2026-10-24T22:00:00.000Z");
+    // 02:30 happens twice on the long day, it's the same day both times
+    expect(toDay(new Date("2026-10-25T00:30:00Z"), PARIS)).toBe(day("2026-10-25"));
+    expect(toDay(new Date("2026-10-25T01:30:00Z"), PARIS)).toBe(day("2026-10-25"));
+  });
+
+  it("starts the day after the gap where clocks skip midnight", () => {
+    // Santiago moved from 00:00 to 01:00 on 6 September 2026
+    expect(dayStart(day("2026-09-06"), "America/Santiago").toISOString()).toBe("2026-09-06T04:00:00.000Z");
+  });
+});
+
+describe("computeHabitStats", () => {
+  const habit = { schedule: { type: "daily" as const }, dailyTarget: null, createdAt: new Date("2026-03-20T08:00:00Z") };
+
+  // A check-in at that local time in Paris
+  function checkIn(date: string, time: string, quantity: number | null = null) {
+    return { completedAt: new Date(new Date(`${date}T${time}:00Z`).getTime() - parisOffset(date, time)), quantity };
+  }
+
+  function parisOffset(date: string, time: string): number {
+    // Summer time from 02:00 on 29 March to 03:00 on 25 October
+    const summer = `${date}T${time}` >= "2026-03-29T02:00" && `${date}T${time}` < "2026-10-25T03:00";
+    return (summer ? 2 : 1) * 3600000;
+  }
+
+  it("keeps a daily streak across the spring change", () => {
+    const completions = ["2026-03-27", "2026-03-28", "2026-03-29", "2026-03-30"].map((date) => checkIn(date, "23:59"));
+    const stats = computeHabitStats(habit, completions, PARIS, checkIn("2026-03-30", "23:59").completedAt);
+
+    expect(stats.streak).toBe(4);
+    expect(stats.completedToday).toBe(true);
+    expect(stats.calendar.slice(-4).map((entry) => [entry.date, entry.completed])).toEqual([
+      ["2026-03-27", true],
+      ["2026-03-28", true],
+      ["2026-03-29", true],
+      ["2026-03-30", true],
+    ]);
+  });
+
+  it("keeps a daily streak across the autumn change", () => {
+    const completions = ["2026-10-24", "2026-10-25", "2026-10-26"].map((date) => checkIn(date, "00:01"));
+    const stats = computeHabitStats({ ...habit, createdAt: new Date("2026-10-01T08:00:00Z") }, completions, PARIS, checkIn("2026-10-26", "12:00").completedAt);
+
+    expect(stats.streak).toBe(3);
+    expect(stats.calendar.slice(-3).every((entry) => entry.completed)).toBe(true);
+  });
+
+  it("counts a check-in at 23:59 for that day and one at 00:01 for the next", () => {
+    const stats = computeHabitStats(
+      { ...habit, dailyTarget: 2 },
+      [checkIn("2026-03-28", "23:59", 1), checkIn("2026-03-29", "00:01", 1), checkIn("2026-03-29", "23:59", 1)],
+      PARIS,
+      checkIn("2026-03-30", "00:01").completedAt,
+    );
+
+    expect(stats.calendar.slice(-3).map((entry) => [entry.date, entry.amount, entry.completed])).toEqual([
+      ["2026-03-28", 1, false],
+      ["2026-03-29", 2, true],
+      ["2026-03-30", 0, false],
+    ]);
+    // Today isn't over yet, it doesn't break yesterday's streak
+    expect(stats.streak).toBe(1);
+    expect(stats.dueToday).toBe(true);
+  });
+
+  it("keeps yesterday's streak until the end of today", () => {
+    const now = checkIn("2026-10-25", "23:59").completedAt;
+    const stats = computeHabitStats({ ...habit, createdAt: new Date("2026-10-01T08:00:00Z") }, [checkIn("2026-10-24", "12:00")], PARIS, now);
+
+    expect(stats.calendar[stats.calendar.length - 1].date).toBe("2026-10-25");
+    expect(stats.completedToday).toBe(false);
+    expect(stats.streak).toBe(1);
+  });
+});
@@ -0,0 +1,274 @@
+import type { Habit, HabitCompletion, HabitSchedule } from "@shared/schema";
+
+const DAY_MS = 86400000;
+
+// Days shown in the stats calendar, also the longest completion rate window
+const CALENDAR_DAYS = 90;
+
+export type StreakUnit = "day" | "week" | "month" | "completion";
+
+export interface HabitDay {
+  date: string; // YYYY-MM-DD
+  scheduled: boolean;
+  completed: boolean;
+  // Sum of the day's check-ins
+  amount: number;
+}
+
+export interface HabitStats {
+  // Scheduled days, weeks or months in a row where the habit was done. The
+  // current one only counts once done, it doesn't break the streak before.
+  streak: number;
+  longestStreak: number;
+  streakUnit: StreakUnit;
+  dueToday: boolean;
+  completedToday: boolean;
+  // Checked in so far today, out of the habit's daily target if it has one
+  todayAmount: number;
+  dailyTarget: number | null;
+  // Completions so far in the current week or month and how many are
+  // expected, for "N times per week/month" schedules
+  periodCompletions: number | null;
+  periodTarget: number | null;
+  // Percentage of the expected completions that were done over the last 7,
+  // 30 and 90 days, null while the habit is too new to expect any
+  completionRate: { last7Days: number | null; last30Days: number | null; last90Days: number | null };
+  // The last 90 days, oldest first
+  calendar: HabitDay[];
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// The wall clock time in the timezone at that instant, in milliseconds as if
+// it were UTC
+function wallClock(date: Date, timeZone: string): number {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  formatter.formatToParts(date).forEach(({ type, value }) => { parts[type] = Number(value); });
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+// Calendar days in the timezone as integers (days since 1970-01-01), so
+// schedules can do day arithmetic without daylight saving surprises
+export function toDay(date: Date, timeZone: string): number {
+  return Math.floor(wallClock(date, timeZone) / DAY_MS);
+}
+
+// The instant the day containing `date` started in the timezone
+export function startOfDay(date: Date, timeZone: string): Date {
+  const day = toDay(date, timeZone);
+  const midnight = day * DAY_MS;
+  // Step back by the zone's offset, looked up again at the first guess in
+  // case a daylight saving change falls in between
+  let time = midnight - (wallClock(new Date(midnight), timeZone) - midnight);
+  time = midnight - (wallClock(new Date(time), timeZone) - time);
+  // Where the clocks skip midnight the day starts at the end of the gap
+  while (toDay(new Date(time), timeZone) < day) time += 60 * 60000;
+  return new Date(time);
+}
+
+// The instant a day (see toDay) started in the timezone
+export function dayStart(day: number, timeZone: string): Date {
+  // Noon UTC falls on the same day everywhere but in the zones furthest
+  // east, where it's already the next day
+  const noon = new Date(day * DAY_MS + DAY_MS / 2);
+  return startOfDay(toDay(noon, timeZone) > day ? new Date(noon.getTime() - DAY_MS) : noon, timeZone);
+}
+
+// Minutes since midnight on the wall clock in the timezone
+export function minuteOfDay(date: Date, timeZone: string): number {
+  return Math.floor((wallClock(date, timeZone) % DAY_MS) / 60000);
+}
+
+// YYYY-MM-DD of a day number
+export function formatDay(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+// 0 is Sunday, 1970-01-01 was a Thursday
+export function weekday(day: number): number {
+  return (day + 4) % 7;
+}
+
+// Weeks starting on Monday
+function weekOf(day: number): number {
+  return Math.floor((day + 3) / 7);
+}
+
+function monthOf(day: number): number {
+  const date = new Date(day * DAY_MS);
+  return date.getUTCFullYear() * 12 + date.getUTCMonth();
+}
+
+// Whether the habit is expected on that day. Frequency and interval
+// schedules can be done on any day.
+export function isScheduledOn(schedule: HabitSchedule, day: number): boolean {
+  return schedule.type === "weekdays" ? schedule.days.includes(weekday(day)) : true;
+}
+
+// Lengths of the runs of consecutive "kept" units from `first` to `last`.
+// The last unit doesn't end a run when it isn't kept (yet), and skipped
+// units neither count nor break one.
+function runs(first: number, last: number, kept: (unit: number) => boolean, skipped = (_unit: number) => false) {
+  let current = 0;
+  let longest = 0;
+  for (let unit = first; unit <= last; unit++) {
+    if (skipped(unit)) continue;
+    if (kept(unit)) {
+      current++;
+      longest = Math.max(longest, current);
+    } else if (unit !== last) {
+      current = 0;
+    }
+  }
+  return { current, longest };
+}
+
+// How many completions the schedule expects over `length` days starting on `from`
+function expectedCompletions(schedule: HabitSchedule, from: number, length: number): number {
+  switch (schedule.type) {
+    case "daily":
+      return length;
+    case "weekdays":
+      return Array.from({ length }, (_, index) => from + index).filter((day) => isScheduledOn(schedule, day)).length;
+    case "times_per_week":
+      return schedule.times * length / 7;
+    case "times_per_month":
+      return schedule.times * length * 12 / 365.25;
+    case "interval":
+      return length / schedule.days;
+  }
+}
+
+// Sum of the check-ins on each day in the timezone
+function dailyAmounts(completions: Pick<HabitCompletion, "completedAt" | "quantity">[], timeZone: string): Map<number, number> {
+  const amounts = new Map<number, number>();
+  completions.forEach((completion) => {
+    const day = toDay(new Date(completion.completedAt), timeZone);
+    amounts.set(day, (amounts.get(day) ?? 0) + (completion.quantity ?? 1));
+  });
+  return amounts;
+}
+
+// Days whose check-ins add up to the daily target, or with any check-in for
+// habits without one, oldest first
+function doneDays(amounts: Map<number, number>, dailyTarget: number | null): number[] {
+  return Array.from(amounts.keys()).filter((day) => amounts.get(day)! >= (dailyTarget ?? 1)).sort((a, b) => a - b);
+}
+
+// The days (see toDay) the habit was done in the timezone, oldest first
+export function completedDays(
+  habit: Pick<Habit, "dailyTarget">,
+  completions: Pick<HabitCompletion, "completedAt" | "quantity">[],
+  timeZone: string,
+): number[] {
+  return doneDays(dailyAmounts(completions, timeZone), habit.dailyTarget);
+}
+
+export function computeHabitStats(
+  habit: Pick<Habit, "schedule" | "dailyTarget" | "createdAt">,
+  completions: Pick<HabitCompletion, "completedAt" | "quantity">[],
+  timeZone: string,
+  now: Date = new Date(),
+): HabitStats {
+  const { schedule, dailyTarget } = habit;
+  const today = toDay(now, timeZone);
+  const amounts = dailyAmounts(completions, timeZone);
+  const done = new Set(doneDays(amounts, dailyTarget));
+  // Completed days up to today, oldest first
+  const days = Array.from(done).filter((day) => day <= today);
+  const completedToday = done.has(today);
+  const firstDay = Math.min(toDay(new Date(habit.createdAt), timeZone), days[0] ?? today);
+
+  let streak = 0;
+  let longestStreak = 0;
+  let streakUnit: StreakUnit = "day";
+  let dueToday = !completedToday && isScheduledOn(schedule, today);
+  let periodCompletions: number | null = null;
+  let periodTarget: number | null = null;
+
+  switch (schedule.type) {
+    case "daily":
+    case "weekdays": {
+      const dayRuns = runs(firstDay, today, (day) => done.has(day), (day) => !isScheduledOn(schedule, day));
+      streak = dayRuns.current;
+      longestStreak = dayRuns.longest;
+      break;
+    }
+    case "times_per_week":
+    case "times_per_month": {
+      const periodOf = schedule.type === "times_per_week" ? weekOf : monthOf;
+      const counts = new Map<number, number>();
+      days.forEach((day) => counts.set(periodOf(day), (counts.get(periodOf(day)) ?? 0) + 1));
+
+      const periodRuns = runs(periodOf(firstDay), periodOf(today), (period) => (counts.get(period) ?? 0) >= schedule.times);
+      streakUnit = schedule.type === "times_per_week" ? "week" : "month";
+      periodCompletions = counts.get(periodOf(today)) ?? 0;
+      periodTarget = schedule.times;
+      streak = periodRuns.current;
+      longestStreak = periodRuns.longest;
+      dueToday = !completedToday && periodCompletions < schedule.times;
+      break;
+    }
+    case "interval": {
+      streakUnit = "completion";
+      const latest = days[days.length - 1];
+      dueToday = !completedToday && (latest === undefined || today - latest >= schedule.days);
+      // Completions no more than `days` apart, the current run only as long
+      // as the next one isn't overdue
+      let run = 0;
+      days.forEach((day, index) => {
+        run = index > 0 && day - days[index - 1] <= schedule.days ? run + 1 : 1;
+        longestStreak = Math.max(longestStreak, run);
+      });
+      streak = latest !== undefined && today - latest <= schedule.days ? run : 0;
+      break;
+    }
+  }
+
+  // Today only counts towards the rates once it's done, it isn't over yet
+  const lastCounted = completedToday ? today : today - 1;
+  const rate = (windowDays: number): number | null => {
+    const from = Math.max(today - windowDays + 1, firstDay);
+    const expected = expectedCompletions(schedule, from, lastCounted - from + 1);
+    if (expected <= 0) return null;
+    const completed = days.filter((day) => day >= from && isScheduledOn(schedule, day)).length;
+    return Math.round(Math.min(1, completed / expected) * 100);
+  };
+
+  return {
+    streak,
+    longestStreak,
+    streakUnit,
+    dueToday,
+    completedToday,
+    todayAmount: amounts.get(today) ?? 0,
+    dailyTarget,
+    periodCompletions,
+    periodTarget,
+    completionRate: { last7Days: rate(7), last30Days: rate(30), last90Days: rate(CALENDAR_DAYS) },
+    calendar: Array.from({ length: CALENDAR_DAYS }, (_, index) => {
+      const day = today - CALENDAR_DAYS + 1 + index;
+      return {
+        date: formatDay(day),
+        scheduled: isScheduledOn(schedule, day),
+        completed: done.has(day),
+        amount: amounts.get(day) ?? 0,
+      };
+    }),
+  };
+}
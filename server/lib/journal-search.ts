@@ -0,0 +1,8 @@
+// Letters and digits of any script
+const WORD = new RegExp("[\\p{L}\\p{N}]+", "gu");
+
+// Words of a journal search or entry, lowercase. Both storages split text
+// the same way so searches match alike in memory and in Postgres.
+export function searchWords(text: string): string[] {
+  return text.toLowerCase().match(WORD) ?? [];
+}
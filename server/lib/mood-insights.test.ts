@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import type { Habit, HabitCompletion, Mood } from "@shared/schema";
+import { computeMoodInsights, type MoodInsightsInput } from "./mood-insights";
+
+// Sunday 15 March 2026, the last day of the range
+const until = Date.parse("2026-03-15T00:00:00Z") / 86400000;
+
+function input(overrides: Partial<MoodInsightsInput>): MoodInsightsInput {
+  return {
+    moods: [],
+    habits: [],
+    meditationCompletions: [],
+    scaleSize: 5,
+    timeZone: "Europe/Paris",
+    days: 7,
+    until,
+    ...overrides,
+  };
+}
+
+function mood(createdAt: string, intensity: number): Mood {
+  return { createdAt: new Date(createdAt), intensity, scaleSize: 5, tags: [] } as unknown as Mood;
+}
+
+function checkIn(completedAt: string, quantity: number | null = null): HabitCompletion {
+  return { id: 0, habitId: 1, completedAt: new Date(completedAt), quantity, unit: null };
+}
+
+describe("computeMoodInsights", () => {
+  it("compares moods on the days a habit met its daily target with the others", () => {
+    const habit = { id: 1, name: "Water", dailyTarget: 8, createdAt: new Date("2026-03-01T08:00:00Z") } as Habit;
+    const days = ["09", "10", "11", "12", "13", "14"];
+    const moods = days.map((day, index) => mood(`2026-03-${day}T19:00:00Z`, index < 3 ? 5 : 2));
+    const completions = days.flatMap((day, index) => index < 3
+      // The target, over two check-ins
+      ? [checkIn(`2026-03-${day}T08:00:00Z`, 5), checkIn(`2026-03-${day}T17:00:00Z`, 3)]
+      // Checked in, but short of it
+      : [checkIn(`2026-03-${day}T08:00:00Z`, 4)]);
+
+    const [water] = computeMoodInsights(input({ moods, habits: [{ habit, completions }] })).habits;
+    expect(water).toEqual({
+      habitId: 1,
+      name: "Water",
+      withAverage: 5,
+      withoutAverage: 2,
+      withCount: 3,
+      withoutCount: 3,
+      correlation: 1,
+    });
+  });
+});
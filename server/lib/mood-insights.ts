@@ -0,0 +1,189 @@
+import type { Habit, HabitCompletion, MeditationCompletion, Mood } from "@shared/schema";
+import { completedDays, formatDay, minuteOfDay, toDay, weekday } from "./habit-schedule";
+import { rescaleIntensity } from "./mood-options";
+
+// Moods averaged by the rolling average, in days
+const ROLLING_DAYS = 7;
+
+// Fewest samples on each side before comparing mood with and without a
+// habit, meditation or tag
+const MIN_SAMPLES = 3;
+
+export interface MoodBucket {
+  // Average mood on the user's current scale, null without any mood
+  average: number | null;
+  count: number;
+}
+
+export interface MoodCorrelation {
+  // Average daily mood on days with and without it (tags compare single
+  // moods instead of days)
+  withAverage: number | null;
+  withoutAverage: number | null;
+  withCount: number;
+  withoutCount: number;
+  // Pearson correlation between it happening and the mood, from -1 to 1,
+  // null while either side has fewer than 3 samples
+  correlation: number | null;
+}
+
+export interface MoodInsights {
+  from: string; // YYYY-MM-DD
+  to: string;
+  days: number;
+  // Levels of the scale the moods are averaged on
+  scaleSize: number;
+  count: number;
+  average: number | null;
+  // Standard deviation of the moods
+  variability: number | null;
+  // Change of the daily average per week, from a least squares fit, null
+  // with fewer than two days logged
+  weeklyTrend: number | null;
+  // Every day of the range, oldest first, with the average of the moods of
+  // the 7 days up to it
+  daily: (MoodBucket & { date: string; rollingAverage: number | null })[];
+  // 0 is Sunday
+  weekdays: (MoodBucket & { weekday: number })[];
+  hours: (MoodBucket & { hour: number })[];
+  habits: (MoodCorrelation & { habitId: number; name: string })[];
+  meditation: MoodCorrelation;
+  tags: (MoodCorrelation & { tag: string })[];
+}
+
+export interface MoodInsightsInput {
+  moods: Mood[];
+  habits: { habit: Habit; completions: HabitCompletion[] }[];
+  meditationCompletions: MeditationCompletion[];
+  scaleSize: number;
+  timeZone: string;
+  days: number;
+  // Last day of the range (see toDay), today by default
+  until?: number;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+function bucket(values: number[]): MoodBucket {
+  const average = mean(values);
+  return { average: average === null ? null : round(average), count: values.length };
+}
+
+function pearson(xs: number[], ys: number[]): number | null {
+  const meanX = mean(xs)!;
+  const meanY = mean(ys)!;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  xs.forEach((x, index) => {
+    covariance += (x - meanX) * (ys[index] - meanY);
+    varianceX += (x - meanX) ** 2;
+    varianceY += (ys[index] - meanY) ** 2;
+  });
+  return varianceX === 0 || varianceY === 0 ? null : covariance / Math.sqrt(varianceX * varianceY);
+}
+
+// Compares moods where `present` holds against the others
+function correlate(samples: { present: boolean; mood: number }[]): MoodCorrelation {
+  const withMoods = samples.filter((sample) => sample.present).map((sample) => sample.mood);
+  const withoutMoods = samples.filter((sample) => !sample.present).map((sample) => sample.mood);
+  const enough = withMoods.length >= MIN_SAMPLES && withoutMoods.length >= MIN_SAMPLES;
+  const correlation = enough
+    ? pearson(samples.map((sample) => sample.present ? 1 : 0), samples.map((sample) => sample.mood))
+    : null;
+
+  return {
+    withAverage: bucket(withMoods).average,
+    withoutAverage: bucket(withoutMoods).average,
+    withCount: withMoods.length,
+    withoutCount: withoutMoods.length,
+    correlation: correlation === null ? null : round(correlation),
+  };
+}
+
+// Mood statistics over the last `days` days in the user's timezone, today
+// (or `until`) included. Moods logged on scales of another size are moved
+// onto the current one.
+export function computeMoodInsights(input: MoodInsightsInput, now: Date = new Date()): MoodInsights {
+  const { scaleSize, timeZone, days } = input;
+  const lastDay = input.until ?? toDay(now, timeZone);
+  const firstDay = lastDay - days + 1;
+
+  const entries = input.moods.map((mood) => ({
+    mood,
+    day: toDay(new Date(mood.createdAt), timeZone),
+    value: rescaleIntensity(mood.intensity, mood.scaleSize, scaleSize),
+  }));
+  const inRange = entries.filter((entry) => entry.day >= firstDay && entry.day <= lastDay);
+  const values = inRange.map((entry) => entry.value);
+
+  const valuesByDay = new Map<number, number[]>();
+  entries.forEach((entry) => valuesByDay.set(entry.day, [...valuesByDay.get(entry.day) ?? [], entry.value]));
+  const dayAverage = new Map(Array.from(valuesByDay, ([day, dayValues]) => [day, mean(dayValues)!]));
+  const loggedDays = Array.from(dayAverage.keys()).filter((day) => day >= firstDay && day <= lastDay);
+
+  const average = mean(values);
+  const variability = average === null
+    ? null
+    : Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / values.length);
+
+  let weeklyTrend: number | null = null;
+  if (loggedDays.length >= 2) {
+    const meanDay = mean(loggedDays)!;
+    const meanMood = mean(loggedDays.map((day) => dayAverage.get(day)!))!;
+    const numerator = loggedDays.reduce((sum, day) => sum + (day - meanDay) * (dayAverage.get(day)! - meanMood), 0);
+    const denominator = loggedDays.reduce((sum, day) => sum + (day - meanDay) ** 2, 0);
+    weeklyTrend = round(numerator / denominator * 7);
+  }
+
+  // Days with a mood compared against days with a completion
+  const byDay = (doneDays: Set<number>, since = firstDay) => correlate(
+    loggedDays.filter((day) => day >= since).map((day) => ({ present: doneDays.has(day), mood: dayAverage.get(day)! })),
+  );
+
+  const tags = Array.from(new Set(inRange.flatMap((entry) => entry.mood.tags))).sort();
+
+  return {
+    from: formatDay(firstDay),
+    to: formatDay(lastDay),
+    days,
+    scaleSize,
+    count: values.length,
+    average: average === null ? null : round(average),
+    variability: variability === null ? null : round(variability),
+    weeklyTrend,
+    daily: Array.from({ length: days }, (_, index) => {
+      const day = firstDay + index;
+      const rolling = Array.from({ length: ROLLING_DAYS }, (_, back) => valuesByDay.get(day - back) ?? []).flat();
+      return { date: formatDay(day), ...bucket(valuesByDay.get(day) ?? []), rollingAverage: bucket(rolling).average };
+    }),
+    weekdays: Array.from({ length: 7 }, (_, dayOfWeek) => ({
+      weekday: dayOfWeek,
+      ...bucket(inRange.filter((entry) => weekday(entry.day) === dayOfWeek).map((entry) => entry.value)),
+    })),
+    hours: Array.from({ length: 24 }, (_, hour) => ({
+      hour,
+      ...bucket(inRange
+        .filter((entry) => Math.floor(minuteOfDay(new Date(entry.mood.createdAt), timeZone) / 60) === hour)
+        .map((entry) => entry.value)),
+    })),
+    // Only from the day each habit was created, it couldn't be done before.
+    // A habit with a daily target counts on the days that met it.
+    habits: input.habits.map(({ habit, completions }) => ({
+      habitId: habit.id,
+      name: habit.name,
+      ...byDay(new Set(completedDays(habit, completions, timeZone)), toDay(new Date(habit.createdAt), timeZone)),
+    })),
+    meditation: byDay(new Set(input.meditationCompletions.map((completion) => toDay(new Date(completion.completedAt), timeZone)))),
+    tags: tags.map((tag) => ({
+      tag,
+      ...correlate(inRange.map((entry) => ({ present: entry.mood.tags.includes(tag), mood: entry.value }))),
+    })),
+  };
+}
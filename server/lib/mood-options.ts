@@ -0,0 +1,59 @@
+import type { InsertMood, MoodEmotion, MoodScale } from "@shared/schema";
+import { storage } from "../storage";
+import { moodScaleSeed } from "../seed-data";
+
+// What the mood was about
+export const contextTags = ["work", "sleep", "social", "exercise", "family", "health", "location"];
+
+// The user's mood scale. Accounts created before scales existed get the
+// default one the first time it's needed.
+export async function loadMoodScale(userId: number): Promise<MoodScale> {
+  return (await storage.getMoodScale(userId)) ?? storage.saveMoodScale({ userId, ...moodScaleSeed });
+}
+
+// Emotions missing from the user's scale, intensities beyond its levels and
+// unknown tags
+export function moodScaleErrors(
+  { intensity, emotions = [], tags = [] }: Partial<InsertMood>,
+  scale: MoodScale,
+): string[] {
+  const levels = scale.levels.length;
+  const errors: string[] = [];
+  if (intensity !== undefined && intensity > levels) {
+    errors.push(`Intensity must be between 1 and ${levels}`);
+  }
+  emotions.forEach((emotion) => {
+    if (!scale.emotions.some((option) => option.name === emotion.name)) {
+      errors.push(`Unknown emotion: ${emotion.name}`);
+    } else if (emotion.intensity > levels) {
+      errors.push(`${emotion.name} intensity must be between 1 and ${levels}`);
+    }
+  });
+  tags.filter((tag) => !contextTags.includes(tag)).forEach((tag) => errors.push(`Unknown tag: ${tag}`));
+  return errors;
+}
+
+// The overall mood of a check-in: the strongest emotion's emoji and label,
+// and a level of the scale from the emotions' valence weighted by intensity,
+// the middle level for a neutral mix
+export function summarizeEmotions(emotions: MoodEmotion[], scale: MoodScale): Pick<InsertMood, "emoji" | "label" | "intensity"> {
+  const levels = scale.levels.length;
+  const options = emotions.map((emotion) => ({
+    ...emotion,
+    option: scale.emotions.find((option) => option.name === emotion.name)!,
+  }));
+  const strongest = options.reduce((best, emotion) => emotion.intensity > best.intensity ? emotion : best);
+  const weight = options.reduce((sum, { intensity }) => sum + intensity, 0);
+  const valence = options.reduce((sum, { intensity, option }) => sum + intensity * option.valence, 0) / weight;
+
+  return {
+    emoji: strongest.option.emoji,
+    label: strongest.name,
+    intensity: Math.min(levels, Math.max(1, Math.round((levels + 1) / 2 + valence / 2 * (levels - 1) / 2))),
+  };
+}
+
+// An intensity logged on a scale of `from` levels, moved onto one of `to`
+export function rescaleIntensity(intensity: number, from: number, to: number): number {
+  return 1 + (intensity - 1) * (to - 1) / (from - 1);
+}
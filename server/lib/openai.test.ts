@@ -0,0 +1,215 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ThoughtPattern } from "@shared/schema";
+import { ACTIONS_MARKER, type AIProvider, type CopilotChatInput } from "./ai";
+import { AIResponseError, generateCBTResponse, parseCBTAnalysis, streamCopilotReply } from "./openai";
+
+const patterns = [
+  { id: 1, name: "Catastrophizing", description: "", example: "" },
+  { id: 2, name: "Black & White Thinking", description: "", example: "" },
+] as ThoughtPattern[];
+
+const analysis = {
+  thoughtPattern: "Catastrophizing",
+  patternExplanation: "Expecting the worst outcome.",
+  challenge: "What is the most likely outcome?",
+  reframe: "One presentation won't define my career.",
+};
+
+// A provider that answers the analyses it's given, in order
+function scriptedProvider(outputs: string[]): AIProvider & { analyzeThought: ReturnType<typeof vi.fn> } {
+  return {
+    name: "offline",
+    analyzeThought: vi.fn(async () => {
+      const output = outputs.shift();
+      if (output === undefined) throw new Error("No output left");
+      return output;
+    }),
+    chat: async () => "{}",
+    planGoal: async () => "{}",
+  };
+}
+
+function analyze(provider: AIProvider) {
+  return generateCBTResponse("Presentation", "Anxious", "I'll mess it up", provider, async () => patterns);
+}
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("parseCBTAnalysis", () => {
+  it("reads the expected keys", () => {
+    expect(parseCBTAnalysis(JSON.stringify(analysis))).toEqual(analysis);
+  });
+
+  it("maps the spellings models use onto our keys", () => {
+    const content = JSON.stringify({
+      "Thought Pattern": "Catastrophizing",
+      pattern_explanation: "Expecting the worst outcome.",
+      "3. Challenge": "What is the most likely outcome?",
+      "Reframed thought": "One presentation won't define my career.",
+    });
+    expect(parseCBTAnalysis(content)).toEqual(analysis);
+  });
+
+  it("unwraps an answer nested under a single key", () => {
+    const content = JSON.stringify({ analysis: { cognitive_distortion: "Catastrophizing", explanation: "x", challenge: "y", reframing: "z" } });
+    expect(parseCBTAnalysis(content)).toEqual({ thoughtPattern: "Catastrophizing", patternExplanation: "x", challenge: "y", reframe: "z" });
+  });
+
+  it("keeps the first of two keys aliasing the same field", () => {
+    const content = JSON.stringify({ ...analysis, distortion: "Labeling" });
+    expect(parseCBTAnalysis(content)?.thoughtPattern).toBe("Catastrophizing");
+  });
+
+  it.each([
+    ["text that isn't JSON", "Sure! Here is the analysis: ..."],
+    ["an array", JSON.stringify([analysis])],
+    ["a missing field", JSON.stringify({ ...analysis, reframe: undefined })],
+    ["a blank field", JSON.stringify({ ...analysis, challenge: "   " })],
+    ["a field that isn't text", JSON.stringify({ ...analysis, thoughtPattern: 3 })],
+  ])("rejects %s", (_name, content) => {
+    expect(parseCBTAnalysis(content)).toBeUndefined();
+  });
+});
+
+describe("generateCBTResponse", () => {
+  it("matches the pattern the model named against the seeded ones", async () => {
+    const provider = scriptedProvider([JSON.stringify({ ...analysis, thoughtPattern: "black-and-white thinking" })]);
+    expect(await analyze(provider)).toMatchObject({ thoughtPattern: "Black & White Thinking", thoughtPatternId: 2 });
+  });
+
+  it("keeps a pattern it doesn't know, without an id", async () => {
+    const provider = scriptedProvider([JSON.stringify({ ...analysis, thoughtPattern: "Fortune telling" })]);
+    expect(await analyze(provider)).toMatchObject({ thoughtPattern: "Fortune telling", thoughtPatternId: null });
+  });
+
+  it("retries once after a malformed answer", async () => {
+    const provider = scriptedProvider(["not json", JSON.stringify({ Pattern: "Catastrophizing", Explanation: "x", Challenge: "y", Reframe: "z" })]);
+    expect(await analyze(provider)).toEqual({
+      thoughtPattern: "Catastrophizing",
+      thoughtPatternId: 1,
+      patternExplanation: "x",
+      challenge: "y",
+      reframe: "z",
+    });
+    expect(provider.analyzeThought).toHaveBeenCalledTimes(2);
+  });
+
+  it("gives up after a second malformed answer", async () => {
+    const provider = scriptedProvider(["not json", JSON.stringify({ reframe: "Only a reframe" }), JSON.stringify(analysis)]);
+    const error = await analyze(provider).catch((error) => error);
+    expect(error).toBeInstanceOf(AIResponseError);
+    expect(error.code).toBe("invalid_output");
+    expect(provider.analyzeThought).toHaveBeenCalledTimes(2);
+  });
+
+  it("doesn't retry when the provider fails", async () => {
+    const provider = scriptedProvider([]);
+    const error = await analyze(provider).catch((error) => error);
+    expect(error).toBeInstanceOf(AIResponseError);
+    expect(error.code).toBe("provider_failed");
+    expect(provider.analyzeThought).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("streamCopilotReply", () => {
+  const input: CopilotChatInput = {
+    messages: [{ role: "user", content: "I can't sleep" }],
+    userName: null,
+    context: "",
+    meditations: [{ id: 7, title: "Body scan", category: "sleep", duration: 600 }],
+  };
+
+  // A provider streaming the given chunks, optionally failing after them
+  function streaming(chunks: string[], failure?: Error): AIProvider {
+    return {
+      name: "openai",
+      analyzeThought: async () => "{}",
+      chat: async () => "{}",
+      planGoal: async () => "{}",
+      async *streamChat(_input, signal) {
+        for (const chunk of chunks) {
+          if (signal?.aborted) throw new Error("Aborted");
+          yield chunk;
+        }
+        if (failure) throw failure;
+      },
+    };
+  }
+
+  it("forwards the reply in order and parses the actions line", async () => {
+    const deltas: string[] = [];
+    const actions = JSON.stringify([{ type: "meditation", meditationId: 7 }, { type: "meditation", meditationId: 99 }, { type: "nope" }]);
+    const reply = await streamCopilotReply(input, (text) => deltas.push(text), undefined, streaming([
+      "Try a ",
+      "body scan ",
+      "tonight.",
+      `${ACTIONS_MARKER} ${actions}`,
+    ]));
+
+    expect(deltas.join("")).toBe("Try a body scan tonight.");
+    expect(deltas[0]).toBe("Try a ");
+    expect(reply).toEqual({ reply: "Try a body scan tonight.", actions: [{ type: "meditation", meditationId: 7 }] });
+  });
+
+  it("holds back a marker split across chunks", async () => {
+    const deltas: string[] = [];
+    const reply = await streamCopilotReply(input, (text) => deltas.push(text), undefined, streaming([
+      "Rest well.\nACT",
+      "IONS: [{\"type\":\"breathing\"}]",
+    ]));
+
+    expect(deltas.join("")).toBe("Rest well.");
+    expect(deltas.some((delta) => delta.includes("ACT"))).toBe(false);
+    expect(reply.actions).toEqual([{ type: "breathing" }]);
+  });
+
+  it("keeps the reply when the actions line can't be read", async () => {
+    const reply = await streamCopilotReply(input, () => {}, undefined, streaming(["Rest well.", `${ACTIONS_MARKER} [{`]));
+    expect(reply).toEqual({ reply: "Rest well.", actions: [] });
+  });
+
+  it("replays providers that can't stream", async () => {
+    const provider: AIProvider = {
+      name: "offline",
+      analyzeThought: async () => "{}",
+      chat: async () => JSON.stringify({ reply: "Bonne nuit", actions: [{ type: "journal" }] }),
+      planGoal: async () => "{}",
+    };
+    const deltas: string[] = [];
+    const reply = await streamCopilotReply(input, (text) => deltas.push(text), undefined, provider);
+    expect(deltas.join("")).toBe("Bonne nuit");
+    expect(reply).toEqual({ reply: "Bonne nuit", actions: [{ type: "journal" }] });
+  });
+
+  it("rejects an empty reply", async () => {
+    const error = await streamCopilotReply(input, () => {}, undefined, streaming(["  ", `${ACTIONS_MARKER} []`])).catch((error) => error);
+    expect(error).toBeInstanceOf(AIResponseError);
+    expect(error.code).toBe("invalid_output");
+  });
+
+  it("reports a provider that fails mid-stream", async () => {
+    const error = await streamCopilotReply(input, () => {}, undefined, streaming(["Try a "], new Error("Connection reset"))).catch((error) => error);
+    expect(error).toBeInstanceOf(AIResponseError);
+    expect(error.code).toBe("provider_failed");
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it("stops on abort after forwarding the partial reply", async () => {
+    const abort = new AbortController();
+    const deltas: string[] = [];
+    const error = await streamCopilotReply(input, (text) => {
+      deltas.push(text);
+      abort.abort();
+    }, abort.signal, streaming(["Try a ", "body scan ", "tonight."])).catch((error) => error);
+
+    expect(error).toBeInstanceOf(AIResponseError);
+    expect(error.code).toBe("provider_failed");
+    expect(deltas).toEqual(["Try a "]);
+    // Cancelling isn't an error worth logging
+    expect(console.error).not.toHaveBeenCalled();
+  });
+});
@@ -1,55 +1,385 @@
-import OpenAI from "openai";
-
-if (!process.env.OPENAI_API_KEY) {
-  throw new Error("OPENAI_API_KEY environment variable is required. Please set it in the .replit file.");
-}
-
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY 
-});
+import { z } from "zod";
+import { copilotActionSchema, type ThoughtPattern, type CopilotAction, type GoalPlan } from "@shared/schema";
+import { storage } from "../storage";
+import { aiProvider, ACTIONS_MARKER, FakeStreamingProvider, offlineGoalPlan, type AIProvider, type CopilotChatInput, type DigestInput, type GoalPlanInput } from "./ai";
 
 export interface CBTAnalysisResponse {
   thoughtPattern: string;
+  // Id of the matching seeded thought pattern, null when the model named one we don't know
+  thoughtPatternId: number | null;
   patternExplanation: string;
   challenge: string;
   reframe: string;
 }
 
+export interface CopilotReply {
+  reply: string;
+  actions: CopilotAction[];
+}
+
+export type AIResponseErrorCode = "provider_failed" | "invalid_output";
+
+// The provider failed, or answered twice with output we couldn't use
+export class AIResponseError extends Error {
+  constructor(
+    public code: AIResponseErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "AIResponseError";
+  }
+}
+
+const cbtAnalysisSchema = z.object({
+  thoughtPattern: z.string().trim().min(1),
+  patternExplanation: z.string().trim().min(1),
+  challenge: z.string().trim().min(1),
+  reframe: z.string().trim().min(1),
+});
+
+// Spellings models use for our keys, compared after lowercasing and dropping
+// everything but letters ("Thought Pattern", "thought_pattern", "1. Reframe"...)
+const KEY_ALIASES: Record<string, keyof z.infer<typeof cbtAnalysisSchema>> = {
+  thoughtpattern: "thoughtPattern",
+  pattern: "thoughtPattern",
+  cognitivedistortion: "thoughtPattern",
+  distortion: "thoughtPattern",
+  patternexplanation: "patternExplanation",
+  explanation: "patternExplanation",
+  challenge: "challenge",
+  reframe: "reframe",
+  reframing: "reframe",
+  reframedthought: "reframe",
+  alternativeperspective: "reframe",
+};
+
+function compact(value: string): string {
+  return value.toLowerCase().replace(/&/g, "and").replace(/[^a-z]/g, "");
+}
+
+function normalizeKeys(raw: unknown): Record<string, unknown> {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return {};
+
+  const entries = Object.entries(raw as Record<string, unknown>);
+  // Some models wrap the answer, e.g. { "analysis": { ... } }
+  if (entries.length === 1 && entries[0][1] && typeof entries[0][1] === "object") {
+    return normalizeKeys(entries[0][1]);
+  }
+
+  const normalized: Record<string, unknown> = {};
+  for (const [key, value] of entries) {
+    const target = KEY_ALIASES[compact(key)];
+    if (target && !(target in normalized)) {
+      normalized[target] = value;
+    }
+  }
+  return normalized;
+}
+
+export function parseCBTAnalysis(content: string): z.infer<typeof cbtAnalysisSchema> | undefined {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch {
+    return undefined;
+  }
+
+  const result = cbtAnalysisSchema.safeParse(normalizeKeys(raw));
+  return result.success ? result.data : undefined;
+}
+
+export function matchThoughtPattern(name: string, patterns: ThoughtPattern[]): ThoughtPattern | undefined {
+  const target = compact(name);
+  if (!target) return undefined;
+
+  return patterns.find((pattern) => compact(pattern.name) === target)
+    ?? patterns.find((pattern) => target.includes(compact(pattern.name)))
+    // "Black-and-white thinking" against "Black & White Thinking" without the "and"
+    ?? patterns.find((pattern) => target.replace(/and/g, "") === compact(pattern.name).replace(/and/g, ""));
+}
+
 export async function generateCBTResponse(
   situation: string,
   emotion: string,
-  thought: string
+  thought: string,
+  provider: AIProvider = aiProvider,
+  loadPatterns: () => Promise<ThoughtPattern[]> = () => storage.getThoughtPatterns()
 ): Promise<CBTAnalysisResponse> {
+  // One retry: models usually get the format right on a second attempt
+  for (let attempt = 1; attempt <= 2; attempt++) {
+    let content: string;
+    try {
+      content = await provider.analyzeThought({ situation, emotion, thought });
+    } catch (error) {
+      console.error(`Error generating CBT response with ${provider.name} provider:`, error);
+      throw new AIResponseError("provider_failed", "Failed to generate CBT analysis");
+    }
+
+    const analysis = parseCBTAnalysis(content);
+    if (!analysis) {
+      console.warn(`Malformed CBT analysis from ${provider.name} provider (attempt ${attempt}):`, content.slice(0, 200));
+      continue;
+    }
+
+    const pattern = matchThoughtPattern(analysis.thoughtPattern, await loadPatterns());
+    return {
+      ...analysis,
+      thoughtPattern: pattern?.name ?? analysis.thoughtPattern,
+      thoughtPatternId: pattern?.id ?? null,
+    };
+  }
+
+  throw new AIResponseError("invalid_output", "The AI returned an analysis that could not be read");
+}
+
+const copilotReplySchema = z.object({
+  reply: z.string().trim().min(1),
+  actions: z.array(z.unknown()).optional().default([]),
+});
+
+// Keeps the well-formed actions, drops the rest rather than the whole reply.
+// Meditation suggestions must point at a meditation we actually have.
+function sanitizeActions(actions: unknown[], meditationIds: Set<number>): CopilotAction[] {
+  const valid: CopilotAction[] = [];
+  for (const raw of actions) {
+    const result = copilotActionSchema.safeParse(raw);
+    if (!result.success) continue;
+    if (result.data.type === "meditation" && !meditationIds.has(result.data.meditationId)) continue;
+    if (valid.some((action) => action.type === result.data.type)) continue;
+    valid.push(result.data);
+  }
+  return valid.slice(0, 3);
+}
+
+export function parseCopilotReply(content: string, meditationIds: Set<number>): CopilotReply | undefined {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch {
+    return undefined;
+  }
+
+  // Models sometimes name the text field "message" or "response"
+  if (raw && typeof raw === "object" && !("reply" in raw)) {
+    const { message, response, ...rest } = raw as Record<string, unknown>;
+    raw = { ...rest, reply: message ?? response };
+  }
+
+  const result = copilotReplySchema.safeParse(raw);
+  if (!result.success) return undefined;
+  return { reply: result.data.reply, actions: sanitizeActions(result.data.actions, meditationIds) };
+}
+
+export async function generateCopilotReply(
+  input: CopilotChatInput,
+  provider: AIProvider = aiProvider
+): Promise<CopilotReply> {
+  const meditationIds = new Set(input.meditations.map((meditation) => meditation.id));
+
+  for (let attempt = 1; attempt <= 2; attempt++) {
+    let content: string;
+    try {
+      content = await provider.chat(input);
+    } catch (error) {
+      console.error(`Error generating copilot reply with ${provider.name} provider:`, error);
+      throw new AIResponseError("provider_failed", "Failed to generate copilot reply");
+    }
+
+    const reply = parseCopilotReply(content, meditationIds);
+    if (reply) return reply;
+
+    console.warn(`Malformed copilot reply from ${provider.name} provider (attempt ${attempt}):`, content.slice(0, 200));
+  }
+
+  throw new AIResponseError("invalid_output", "The AI returned a reply that could not be read");
+}
+
+// Length of the end of `text` that could be the beginning of the actions
+// marker, held back until the next delta tells whether it is
+function pendingMarkerLength(text: string): number {
+  for (let length = Math.min(ACTIONS_MARKER.length - 1, text.length); length > 0; length--) {
+    if (ACTIONS_MARKER.startsWith(text.slice(-length))) return length;
+  }
+  return 0;
+}
+
+// Forwards the reply text to onDelta as the provider streams it, without the
+// trailing actions line, and resolves with the complete reply. Providers that
+// can't stream are replayed through FakeStreamingProvider.
+export async function streamCopilotReply(
+  input: CopilotChatInput,
+  onDelta: (text: string) => void,
+  signal?: AbortSignal,
+  provider: AIProvider = aiProvider
+): Promise<CopilotReply> {
+  const streaming = provider.streamChat ? provider : new FakeStreamingProvider(provider);
+  let content = "";
+  let sent = 0;
+  let markerIndex = -1;
+
+  try {
+    for await (const delta of streaming.streamChat!(input, signal)) {
+      content += delta;
+      if (markerIndex !== -1) continue;
+
+      markerIndex = content.indexOf(ACTIONS_MARKER);
+      const end = markerIndex !== -1 ? markerIndex : content.length - pendingMarkerLength(content);
+      if (end > sent) {
+        onDelta(content.slice(sent, end));
+        sent = end;
+      }
+    }
+  } catch (error) {
+    if (!signal?.aborted) {
+      console.error(`Error streaming copilot reply with ${provider.name} provider:`, error);
+    }
+    throw new AIResponseError("provider_failed", "Failed to generate copilot reply");
+  }
+
+  const replyEnd = markerIndex !== -1 ? markerIndex : content.length;
+  if (replyEnd > sent) onDelta(content.slice(sent, replyEnd));
+
+  const reply = content.slice(0, replyEnd).trim();
+  if (!reply) {
+    throw new AIResponseError("invalid_output", "The AI returned an empty reply");
+  }
+
+  let actions: unknown = [];
+  if (markerIndex !== -1) {
+    try {
+      actions = JSON.parse(content.slice(markerIndex + ACTIONS_MARKER.length).trim());
+    } catch {
+      console.warn(`Unreadable copilot actions from ${provider.name} provider:`, content.slice(markerIndex, markerIndex + 200));
+    }
+  }
+
+  const meditationIds = new Set(input.meditations.map((meditation) => meditation.id));
+  return { reply, actions: Array.isArray(actions) ? sanitizeActions(actions, meditationIds) : [] };
+}
+
+export interface GoalPlanResult {
+  plan: GoalPlan;
+  // True when the provider failed and the offline template was used instead
+  fallback: boolean;
+}
+
+const goalPlanOutputSchema = z.object({
+  steps: z.array(z.object({
+    description: z.string().trim().min(1),
+    targetDate: z.string().nullable().optional(),
+  })).min(1),
+  tips: z.array(z.string().trim().min(1)).optional().default([]),
+  estimatedCompletion: z.string().trim().nullable().optional(),
+});
+
+// Steps come back as plain strings or under other key names
+// ({ "step": ..., "date": ... }) often enough to be worth accepting
+function normalizeGoalStep(raw: unknown): unknown {
+  if (typeof raw === "string") return { description: raw };
+  if (!raw || typeof raw !== "object") return raw;
+
+  const { description, step, title, action, targetDate, target_date, date, dueDate, ...rest } = raw as Record<string, unknown>;
+  return {
+    ...rest,
+    description: description ?? step ?? title ?? action,
+    targetDate: targetDate ?? target_date ?? date ?? dueDate,
+  };
+}
+
+const DAY_MS = 86400000;
+
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+// Validates a plan and puts every step date between today and the deadline.
+// Missing or unreadable dates are spread evenly over the remaining time.
+export function parseGoalPlan(content: string, today: Date, deadline: Date): GoalPlan | undefined {
+  let raw: unknown;
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: 
-            "You are a trained cognitive behavioral therapist. Your goal is to help the user identify distorted thought patterns, challenge them, and reframe them. Your responses should be empathetic, supportive, and educational. Analyze the situation, emotion, and thought provided by the user and respond with the following structure in JSON format: " +
-            "1. Thought Pattern: Identify the cognitive distortion pattern (e.g., catastrophizing, black-and-white thinking, mind reading) " +
-            "2. Pattern Explanation: A brief explanation of how this thought exemplifies the pattern " +
-            "3. Challenge: A gentle way to challenge this thought with evidence-based questioning " +
-            "4. Reframe: A more balanced alternative perspective"
-        },
-        {
-          role: "user",
-          content: `
-            Situation: ${situation}
-            Emotion: ${emotion}
-            Thought: ${thought}
-          `
-        }
-      ],
-      response_format: { type: "json_object" },
-    });
-
-    const result = JSON.parse(response.choices[0].message.content) as CBTAnalysisResponse;
-    return result;
+    raw = JSON.parse(content);
+  } catch {
+    return undefined;
+  }
+
+  if (raw && typeof raw === "object" && Array.isArray((raw as Record<string, unknown>).steps)) {
+    raw = { ...raw, steps: ((raw as Record<string, unknown>).steps as unknown[]).map(normalizeGoalStep) };
+  }
+
+  const result = goalPlanOutputSchema.safeParse(raw);
+  if (!result.success) return undefined;
+
+  const start = startOfDay(today).getTime();
+  const end = Math.max(start, startOfDay(deadline).getTime());
+  const steps = result.data.steps.slice(0, 10);
+
+  return {
+    steps: steps.map((step, index) => {
+      const parsed = step.targetDate ? Date.parse(step.targetDate) : NaN;
+      const time = isNaN(parsed)
+        ? start + Math.ceil((end - start) / DAY_MS * (index + 1) / steps.length) * DAY_MS
+        : Math.min(end, Math.max(start, parsed));
+      return { description: step.description, targetDate: new Date(time) };
+    }),
+    tips: result.data.tips.slice(0, 5),
+    estimatedCompletion: result.data.estimatedCompletion || null,
+  };
+}
+
+// Asks the provider for a plan, retrying once on unreadable output. Unlike
+// the CBT analysis a plan is never blocking: when the provider keeps failing,
+// the offline template is returned instead.
+export async function generateGoalPlan(
+  goal: { title: string; description: string; deadline: Date },
+  options: { completedSteps?: string[]; feedback?: string; now?: Date } = {},
+  provider: AIProvider = aiProvider
+): Promise<GoalPlanResult> {
+  const now = options.now ?? new Date();
+  const input: GoalPlanInput = {
+    title: goal.title,
+    description: goal.description,
+    today: now.toISOString().slice(0, 10),
+    deadline: goal.deadline.toISOString().slice(0, 10),
+    completedSteps: options.completedSteps ?? [],
+    feedback: options.feedback,
+  };
+
+  for (let attempt = 1; attempt <= 2; attempt++) {
+    let content: string;
+    try {
+      content = await provider.planGoal(input);
+    } catch (error) {
+      console.error(`Error generating goal plan with ${provider.name} provider:`, error);
+      break;
+    }
+
+    const plan = parseGoalPlan(content, now, goal.deadline);
+    if (plan) return { plan, fallback: false };
+
+    console.warn(`Malformed goal plan from ${provider.name} provider (attempt ${attempt}):`, content.slice(0, 200));
+  }
+
+  return { plan: parseGoalPlan(offlineGoalPlan(input), now, goal.deadline)!, fallback: true };
+}
+
+const digestSummarySchema = z.object({
+  summary: z.string().trim().min(1),
+});
+
+// A paragraph rewording a weekly digest's findings, null when the provider
+// can't phrase digests or fails: the findings stand on their own
+export async function generateDigestSummary(
+  input: DigestInput,
+  provider: AIProvider = aiProvider
+): Promise<string | null> {
+  if (!provider.phraseDigest || input.findings.length === 0) return null;
+
+  try {
+    const result = digestSummarySchema.safeParse(JSON.parse(await provider.phraseDigest(input)));
+    if (result.success) return result.data.summary;
+    console.warn(`Malformed digest summary from ${provider.name} provider`);
   } catch (error) {
-    console.error("Error generating CBT response:", error);
-    throw new Error("Failed to generate CBT analysis");
+    console.error(`Error phrasing digest with ${provider.name} provider:`, error);
   }
-}
\ No newline at end of file
+  return null;
+}
@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { createPushTransport, NoopPushTransport, WebPushTransport } from "./push";
+
+describe("createPushTransport", () => {
+  it("drops notifications without VAPID keys", () => {
+    const transport = createPushTransport({ VAPID_PUBLIC_KEY: "public" });
+    expect(transport).toBeInstanceOf(NoopPushTransport);
+    expect(transport.publicKey).toBeNull();
+  });
+
+  it("sends through web push with VAPID keys", () => {
+    const transport = createPushTransport({ VAPID_PUBLIC_KEY: "public", VAPID_PRIVATE_KEY: "private" });
+    expect(transport).toBeInstanceOf(WebPushTransport);
+    expect(transport.publicKey).toBe("public");
+  });
+});
@@ -0,0 +1,100 @@
+import webpush from "web-push";
+import type { PushSubscription } from "@shared/schema";
+
+export interface PushNotification {
+  title: string;
+  body: string;
+  // Page opened when the notification is clicked
+  url?: string;
+  // Notifications with the same tag replace each other on the device
+  tag?: string;
+}
+
+// The push service no longer knows the subscription (expired or revoked by
+// the user), it should be deleted
+export class PushSubscriptionGoneError extends Error {
+  constructor(public endpoint: string) {
+    super(`Push subscription is gone: ${endpoint}`);
+    this.name = "PushSubscriptionGoneError";
+  }
+}
+
+export interface PushTransport {
+  readonly name: string;
+  // VAPID public key browsers subscribe with, null when notifications can't
+  // reach real devices
+  readonly publicKey: string | null;
+  send(subscription: PushSubscription, notification: PushNotification): Promise<void>;
+}
+
+export interface WebPushOptions {
+  publicKey: string;
+  privateKey: string;
+  subject: string;
+}
+
+export class WebPushTransport implements PushTransport {
+  readonly name = "web-push";
+  readonly publicKey: string;
+  private vapidDetails: WebPushOptions;
+
+  constructor(options: WebPushOptions) {
+    this.publicKey = options.publicKey;
+    this.vapidDetails = options;
+  }
+
+  async send(subscription: PushSubscription, notification: PushNotification): Promise<void> {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        JSON.stringify(notification),
+        { vapidDetails: this.vapidDetails, TTL: 60 * 60 },
+      );
+    } catch (error) {
+      if (error instanceof webpush.WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+        throw new PushSubscriptionGoneError(subscription.endpoint);
+      }
+      throw error;
+    }
+  }
+}
+
+// Drops notifications: without VAPID keys there is no device to reach
+export class NoopPushTransport implements PushTransport {
+  readonly name = "none";
+  readonly publicKey = null;
+
+  async send(): Promise<void> {}
+}
+
+// Keeps notifications in memory instead of sending them, so reminders can be
+// checked without a push service. Nothing is ever dropped, meant for tests.
+export class MemoryPushTransport implements PushTransport {
+  readonly name = "memory";
+  readonly sent: { subscription: PushSubscription; notification: PushNotification }[] = [];
+
+  constructor(readonly publicKey: string | null = null) {}
+
+  async send(subscription: PushSubscription, notification: PushNotification): Promise<void> {
+    this.sent.push({ subscription, notification });
+  }
+}
+
+// Reads VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT. Without keys
+// notifications are dropped, so the server still boots.
+// Generate keys with `npx web-push generate-vapid-keys`.
+export function createPushTransport(env: NodeJS.ProcessEnv = process.env): PushTransport {
+  const publicKey = env.VAPID_PUBLIC_KEY;
+  const privateKey = env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) {
+    return new NoopPushTransport();
+  }
+
+  return new WebPushTransport({
+    publicKey,
+    privateKey,
+    subject: env.VAPID_SUBJECT || "mailto:admin@example.com",
+  });
+}
+
+export const pushTransport = createPushTransport();
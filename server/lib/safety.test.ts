@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { classifyByKeywords } from "./safety";
+
+describe("classifyByKeywords", () => {
+  it.each([
+    ["Je veux en finir avec la vie", "fr"],
+    ["J'ai envie d'en finir avec ma vie", "fr"],
+    ["Parfois je pense à me tuer", "fr"],
+    ["J'ai envie de me tuer", "fr"],
+    ["I want to end my life", "en"],
+  ])("flags %j as a crisis", (text, language) => {
+    expect(classifyByKeywords(text)).toMatchObject({
+      flagged: true,
+      level: "crisis",
+      categories: ["suicide"],
+      language,
+      detectedBy: "keywords",
+    });
+  });
+
+  it.each([
+    ["Je veux me faire du mal", "fr"],
+    ["J'ai pensé à me couper les veines", "fr"],
+    ["Sometimes I want to hurt myself", "en"],
+  ])("flags %j as self-harm", (text, language) => {
+    expect(classifyByKeywords(text)).toMatchObject({ flagged: true, level: "crisis", categories: ["self_harm"], language });
+  });
+
+  it("ignores accents, case and punctuation", () => {
+    expect(classifyByKeywords("JE VEUX METTRE FIN A MES JOURS!!").level).toBe("crisis");
+  });
+
+  it.each([
+    "J'ai hâte d'en finir avec ce projet",
+    "On va enfin en finir avec ces réunions",
+    "Je dois me couper les cheveux",
+    "Ce boulot va me tuer",
+    "J'ai peur de me blesser en courant",
+    "I hurt myself at the gym yesterday",
+  ])("doesn't flag %j", (text) => {
+    expect(classifyByKeywords(text)).toMatchObject({ flagged: false, level: "none", categories: [], detectedBy: null });
+  });
+
+  it("only matches whole words", () => {
+    expect(classifyByKeywords("The skill myself improved").flagged).toBe(false);
+  });
+
+  it("treats hopelessness as a concern, not a crisis", () => {
+    expect(classifyByKeywords("I feel hopeless about passing this exam")).toMatchObject({
+      flagged: true,
+      level: "concern",
+      categories: ["hopelessness"],
+    });
+  });
+});
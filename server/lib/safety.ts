@@ -0,0 +1,247 @@
+import { z } from "zod";
+import { storage } from "../storage";
+import { aiProvider, type AIProvider } from "./ai";
+
+export type SafetyLevel = "none" | "concern" | "crisis";
+export type SafetyCategory = "suicide" | "self_harm" | "harm_to_others" | "hopelessness";
+export type SafetySource = "mood" | "journal" | "cbt" | "copilot";
+
+export interface SafetyResult {
+  flagged: boolean;
+  level: SafetyLevel;
+  categories: SafetyCategory[];
+  // Language of the phrase list that matched, when the keywords caught it
+  language: string | null;
+  detectedBy: "keywords" | "ai" | null;
+}
+
+export interface CrisisResource {
+  name: string;
+  description?: string;
+  phone?: string;
+  url?: string;
+  language?: string;
+}
+
+const CATEGORY_LEVELS: Record<SafetyCategory, SafetyLevel> = {
+  suicide: "crisis",
+  self_harm: "crisis",
+  harm_to_others: "crisis",
+  hopelessness: "concern",
+};
+
+// Phrases per language and category, matched on whole words after lowercasing
+// and stripping accents and punctuation
+const PHRASES: Record<string, Record<SafetyCategory, string[]>> = {
+  en: {
+    suicide: [
+      "kill myself", "killing myself", "suicide", "suicidal", "end my life", "ending my life",
+      "take my own life", "want to die", "wanna die", "better off dead", "don't want to be alive",
+      "dont want to be alive", "no reason to live", "not worth living",
+    ],
+    self_harm: [
+      "want to hurt myself", "wanna hurt myself", "going to hurt myself", "hurt myself on purpose",
+      "hurting myself on purpose", "harm myself", "harming myself", "self harm", "self-harm",
+      "cut myself on purpose", "cut my wrists", "slit my wrists", "overdose",
+    ],
+    harm_to_others: ["kill him", "kill her", "kill them", "hurt someone"],
+    hopelessness: [
+      "hopeless", "no way out", "can't go on", "cant go on", "give up on everything",
+      "nobody would miss me", "no one would miss me", "disappear forever",
+    ],
+  },
+  fr: {
+    suicide: [
+      "me suicider", "suicide", "suicidaire", "envie de me tuer", "veux me tuer", "pense à me tuer",
+      "penser à me tuer", "me donner la mort", "mettre fin à mes jours",
+      "en finir avec la vie", "en finir avec ma vie", "envie de mourir", "veux mourir", "plus envie de vivre", "mieux sans moi",
+    ],
+    self_harm: [
+      "je veux me faire du mal", "envie de me faire du mal", "me blesser exprès", "me blesser volontairement",
+      "me couper les veines", "me mutiler", "me scarifier", "automutilation", "automutiler", "overdose",
+    ],
+    harm_to_others: ["le tuer", "la tuer", "les tuer"],
+    hopelessness: [
+      "sans espoir", "désespéré", "désespérée", "aucune issue", "je n'en peux plus",
+      "personne ne me regretterait", "disparaître pour toujours",
+    ],
+  },
+};
+
+const DEFAULT_RESOURCES: CrisisResource[] = [
+  {
+    name: "3114 – Numéro national de prévention du suicide",
+    description: "Gratuit, 24h/24 et 7j/7, en France",
+    phone: "3114",
+    url: "https://3114.fr",
+    language: "fr",
+  },
+  {
+    name: "988 Suicide & Crisis Lifeline",
+    description: "Free and confidential, 24/7, in the US",
+    phone: "988",
+    url: "https://988lifeline.org",
+    language: "en",
+  },
+  {
+    name: "Find a Helpline",
+    description: "Free helplines in over 130 countries",
+    url: "https://findahelpline.com",
+  },
+  {
+    name: "Emergency services / Urgences",
+    description: "If you are in immediate danger, call your local emergency number",
+    phone: "112",
+  },
+];
+
+const crisisResourceSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  phone: z.string().optional(),
+  url: z.string().optional(),
+  language: z.string().optional(),
+});
+
+const aiAssessmentSchema = z.object({
+  level: z.enum(["none", "concern", "crisis"]),
+  categories: z.array(z.string()).default([]),
+});
+
+function normalize(text: string): string {
+  return ` ${text.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/[^a-z0-9]+/g, " ").trim()} `;
+}
+
+const NORMALIZED_PHRASES = Object.entries(PHRASES).map(([language, categories]) => ({
+  language,
+  categories: Object.entries(categories).map(([category, phrases]) => ({
+    category: category as SafetyCategory,
+    phrases: phrases.map(normalize),
+  })),
+}));
+
+const LEVEL_ORDER: SafetyLevel[] = ["none", "concern", "crisis"];
+
+function highestLevel(categories: SafetyCategory[]): SafetyLevel {
+  return categories.reduce<SafetyLevel>(
+    (level, category) => LEVEL_ORDER.indexOf(CATEGORY_LEVELS[category]) > LEVEL_ORDER.indexOf(level) ? CATEGORY_LEVELS[category] : level,
+    "none",
+  );
+}
+
+export function classifyByKeywords(text: string): SafetyResult {
+  const normalized = normalize(text);
+  const categories = new Set<SafetyCategory>();
+  let language: string | null = null;
+
+  for (const list of NORMALIZED_PHRASES) {
+    for (const { category, phrases } of list.categories) {
+      if (phrases.some((phrase) => normalized.includes(phrase))) {
+        categories.add(category);
+        language ??= list.language;
+      }
+    }
+  }
+
+  const level = highestLevel(Array.from(categories));
+  return {
+    flagged: level !== "none",
+    level,
+    categories: Array.from(categories),
+    language,
+    detectedBy: level !== "none" ? "keywords" : null,
+  };
+}
+
+// Keyword lists first. When SAFETY_AI_CHECK=true and the provider supports it,
+// text the keywords didn't mark as a crisis also goes to the model, which
+// catches indirect phrasing. A failing AI check never blocks the request.
+export async function screenText(
+  texts: (string | null | undefined)[],
+  provider: AIProvider = aiProvider,
+): Promise<SafetyResult> {
+  const text = texts.filter(Boolean).join("\n");
+  const result = classifyByKeywords(text);
+
+  if (!text.trim() || result.level === "crisis" || process.env.SAFETY_AI_CHECK !== "true" || !provider.assessSafety) {
+    return result;
+  }
+
+  try {
+    const assessment = aiAssessmentSchema.parse(JSON.parse(await provider.assessSafety(text)));
+    const categories = assessment.categories.filter((category): category is SafetyCategory => category in CATEGORY_LEVELS);
+    if (LEVEL_ORDER.indexOf(assessment.level) <= LEVEL_ORDER.indexOf(result.level)) {
+      return result;
+    }
+
+    return {
+      flagged: true,
+      level: assessment.level,
+      categories: Array.from(new Set([...result.categories, ...categories])),
+      language: result.language,
+      detectedBy: "ai",
+    };
+  } catch (error) {
+    console.error(`Safety check with ${provider.name} provider failed, using keywords only:`, error);
+    return result;
+  }
+}
+
+// Logs a flag for later review. Only the verdict is stored: the text stays
+// in the mood, journal or conversation record, and CBT analysis input is
+// never persisted.
+export async function recordSafetyFlag(
+  userId: number,
+  source: SafetySource,
+  result: SafetyResult,
+  recordId?: number,
+): Promise<void> {
+  if (!result.flagged || !result.detectedBy) return;
+
+  try {
+    await storage.createSafetyFlag({
+      userId,
+      source,
+      recordId: recordId ?? null,
+      level: result.level,
+      categories: result.categories,
+      language: result.language,
+      detectedBy: result.detectedBy,
+    });
+  } catch (error) {
+    // The user still gets the crisis resources, losing the log entry is the lesser harm
+    console.error("Failed to record safety flag:", error);
+  }
+}
+
+// CRISIS_RESOURCES may hold a JSON array of resources replacing the defaults
+function loadCrisisResources(): CrisisResource[] {
+  if (!process.env.CRISIS_RESOURCES) return DEFAULT_RESOURCES;
+
+  try {
+    return z.array(crisisResourceSchema).parse(JSON.parse(process.env.CRISIS_RESOURCES));
+  } catch (error) {
+    console.error("Invalid CRISIS_RESOURCES, using the default list:", error);
+    return DEFAULT_RESOURCES;
+  }
+}
+
+const crisisResources = loadCrisisResources();
+
+// Resources for the language first, then the ones meant for everyone
+export function getCrisisResources(language?: string): CrisisResource[] {
+  const lang = language?.slice(0, 2).toLowerCase();
+  const matching = crisisResources.filter((resource) => resource.language && resource.language === lang);
+  const general = crisisResources.filter((resource) => !resource.language);
+  return matching.length > 0 ? [...matching, ...general] : crisisResources;
+}
+
+// What the copilot says instead of its usual reply when a message is flagged
+export function crisisSupportMessage(result: SafetyResult): string {
+  if (result.language === "en") {
+    return "Thank you for telling me. What you're going through sounds really painful, and you deserve support right now. " +
+      "I've opened a list of people you can reach at any time. Is there someone you trust you could talk to?";
+  }
+  return "Merci de m'avoir confié cela. Ce que vous traversez semble très douloureux, et vous méritez d'être soutenu·e dès maintenant. " +
+    "Je vous ai affiché des contacts d'aide joignables à tout moment. Voulez-vous en parler à quelqu'un de confiance?";
+}
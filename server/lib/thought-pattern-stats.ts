@@ -0,0 +1,72 @@
+import type { JournalEntry, ThoughtPattern } from "@shared/schema";
+
+const DAY_MS = 86400000;
+
+// Window of the recent count, in days
+const RECENT_DAYS = 30;
+
+export interface ThoughtPatternCount {
+  patternId: number;
+  name: string;
+  // Journal entries falling into the pattern, ever and over the last 30 days
+  count: number;
+  recentCount: number;
+  // Newest first
+  entryIds: number[];
+  lastNoticedAt: Date;
+  // Average drop of the 0-100 ratings from writing the thought down to
+  // reframing it, over the entries rated both times, null without any
+  beliefReduction: number | null;
+  emotionReduction: number | null;
+  // Entries with at least one rating given both times
+  ratedCount: number;
+}
+
+type Rating = "belief" | "emotion";
+
+function hasRatings(entry: JournalEntry, rating: Rating): boolean {
+  return entry[`${rating}Before`] !== null && entry[`${rating}After`] !== null;
+}
+
+function averageReduction(entries: JournalEntry[], rating: Rating): number | null {
+  const rated = entries.filter((entry) => hasRatings(entry, rating));
+  if (rated.length === 0) return null;
+  const total = rated.reduce((sum, entry) => sum + entry[`${rating}Before`]! - entry[`${rating}After`]!, 0);
+  return Math.round(total / rated.length * 10) / 10;
+}
+
+// Average drops over every entry, with or without a pattern
+export function summarizeRatings(entries: JournalEntry[]) {
+  return {
+    beliefReduction: averageReduction(entries, "belief"),
+    emotionReduction: averageReduction(entries, "emotion"),
+    ratedCount: entries.filter((entry) => hasRatings(entry, "belief") || hasRatings(entry, "emotion")).length,
+  };
+}
+
+// Thought patterns noticed in the journal, most frequent first, with how much
+// reframing them helped. Patterns that never came up are left out.
+export function countThoughtPatterns(
+  entries: JournalEntry[],
+  patterns: ThoughtPattern[],
+  now: Date = new Date(),
+): ThoughtPatternCount[] {
+  const recentSince = now.getTime() - RECENT_DAYS * DAY_MS;
+  const newestFirst = [...entries].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+  return patterns
+    .map((pattern) => {
+      const noticed = newestFirst.filter((entry) => entry.thoughtPatternIds.includes(pattern.id));
+      return {
+        patternId: pattern.id,
+        name: pattern.name,
+        count: noticed.length,
+        recentCount: noticed.filter((entry) => new Date(entry.createdAt).getTime() >= recentSince).length,
+        entryIds: noticed.map((entry) => entry.id),
+        lastNoticedAt: noticed[0]?.createdAt,
+        ...summarizeRatings(noticed),
+      };
+    })
+    .filter((stats): stats is ThoughtPatternCount => stats.count > 0)
+    .sort((a, b) => b.count - a.count || b.recentCount - a.recentCount);
+}
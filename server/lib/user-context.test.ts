@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { storage } from "../storage";
+import { buildUserContext } from "./user-context";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("buildUserContext", () => {
+  it("counts the days a habit met its daily target in the user's timezone", async () => {
+    const user = await storage.createUser({ username: "context", password: "hash", name: null, timezone: "Europe/Paris" });
+    const habit = await storage.createHabit({ userId: user.id, name: "Water", icon: "ri-drop-line", unit: "glasses", dailyTarget: 8 });
+    const checkIns: [string, number][] = [
+      // Three check-ins adding up to the target on one day
+      ["2026-03-02T08:00:00Z", 3],
+      ["2026-03-02T12:00:00Z", 3],
+      ["2026-03-02T18:00:00Z", 3],
+      // Short of the target
+      ["2026-03-03T08:00:00Z", 5],
+      // 23:30 in UTC, but already the 5th in Paris where the rest follows
+      ["2026-03-04T23:30:00Z", 4],
+      ["2026-03-05T10:00:00Z", 4],
+    ];
+    vi.useFakeTimers({ toFake: ["Date"] });
+    for (const [completedAt, quantity] of checkIns) {
+      vi.setSystemTime(new Date(completedAt));
+      await storage.completeHabit({ habitId: habit.id, quantity, unit: "glasses" });
+    }
+
+    const context = await buildUserContext(user, new Date("2026-03-06T12:00:00Z"));
+    expect(context).toContain("Water (2/7 days)");
+  });
+});
@@ -0,0 +1,65 @@
+import type { User } from "@shared/schema";
+import { storage } from "../storage";
+import { rescaleIntensity } from "./mood-options";
+import { computeHabitStats } from "./habit-schedule";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+// The three values seen most often, most frequent first
+function mostFrequent(values: string[]): string[] {
+  const counts = new Map<string, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return Array.from(counts.keys()).sort((a, b) => counts.get(b)! - counts.get(a)!).slice(0, 3);
+}
+
+// A few lines about the user's last week for the copilot prompt. Kept short
+// on purpose: it goes out with every chat message.
+export async function buildUserContext(user: Pick<User, "id" | "timezone">, now = new Date()): Promise<string> {
+  const userId = user.id;
+  const since = new Date(now.getTime() - 7 * DAY_MS);
+  const [moods, habits, entries] = await Promise.all([
+    storage.getMoods(userId),
+    storage.getHabits(userId),
+    storage.getJournalEntries(userId),
+  ]);
+  const lines: string[] = [];
+
+  const recentMoods = moods.filter((mood) => new Date(mood.createdAt) >= since);
+  if (recentMoods.length > 0) {
+    // Moods logged on other scales are moved onto a 1 to 5 one
+    const average = recentMoods.reduce((sum, mood) => sum + rescaleIntensity(mood.intensity, mood.scaleSize, 5), 0) / recentMoods.length;
+    const labels = recentMoods.slice(0, 5).map((mood) => mood.label).join(", ");
+    lines.push(`Moods this week: ${recentMoods.length} logged, average intensity ${average.toFixed(1)}/5, latest: ${labels}.`);
+
+    const emotions = mostFrequent(recentMoods.flatMap((mood) => mood.emotions.map((emotion) => emotion.name)));
+    const tags = mostFrequent(recentMoods.flatMap((mood) => mood.tags));
+    if (emotions.length > 0) {
+      lines.push(`Frequent emotions: ${emotions.join(", ")}${tags.length > 0 ? `, often around ${tags.join(", ")}` : ""}.`);
+    }
+  } else {
+    lines.push("No mood logged this week.");
+  }
+
+  const activeHabits = habits.filter((habit) => !habit.archived);
+  if (activeHabits.length > 0) {
+    const summaries = await Promise.all(activeHabits.slice(0, 5).map(async (habit) => {
+      // Days in the user's timezone that met the daily target, today included
+      const { calendar } = computeHabitStats(habit, await storage.getHabitCompletions(habit.id), user.timezone, now);
+      const done = calendar.slice(-7).filter((day) => day.completed).length;
+      return `${habit.name} (${done}/7 days)`;
+    }));
+    lines.push(`Habits: ${summaries.join(", ")}.`);
+  }
+
+  const recentEntries = entries.filter((entry) => new Date(entry.createdAt) >= since).slice(0, 3);
+  if (recentEntries.length > 0) {
+    const summaries = recentEntries.map((entry) => `"${truncate(entry.situation, 80)}" (felt ${truncate(entry.emotion, 30)})`);
+    lines.push(`Recent journal entries: ${summaries.join("; ")}.`);
+  }
+
+  return lines.join(" ");
+}
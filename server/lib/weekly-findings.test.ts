@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import type { Habit, HabitCompletion, JournalEntry, ThoughtPattern } from "@shared/schema";
+import { findWeeklyInsights, mondayOf, type WeeklyFindingsInput } from "./weekly-findings";
+
+// Monday 9 March 2026
+const weekStart = Date.parse("2026-03-09T00:00:00Z") / 86400000;
+
+const thoughtPatterns = [
+  { id: 1, name: "Catastrophizing" },
+  { id: 2, name: "Mind Reading" },
+] as ThoughtPattern[];
+
+function input(overrides: Partial<WeeklyFindingsInput>): WeeklyFindingsInput {
+  return {
+    weekStart,
+    moods: [],
+    habits: [],
+    meditationCompletions: [],
+    journalEntries: [],
+    thoughtPatterns,
+    scaleSize: 5,
+    timeZone: "Europe/Paris",
+    ...overrides,
+  };
+}
+
+function checkIn(completedAt: string, quantity: number | null = null): HabitCompletion {
+  return { id: 0, habitId: 1, completedAt: new Date(completedAt), quantity, unit: null };
+}
+
+function entry(createdAt: string, thoughtPatternIds: number[]): JournalEntry {
+  return { emotion: "Anxious", createdAt: new Date(createdAt), thoughtPatternIds } as JournalEntry;
+}
+
+describe("mondayOf", () => {
+  it("finds the Monday of the week", () => {
+    expect(mondayOf(weekStart)).toBe(weekStart);
+    expect(mondayOf(weekStart + 6)).toBe(weekStart);
+    expect(mondayOf(weekStart + 7)).toBe(weekStart + 7);
+  });
+});
+
+describe("findWeeklyInsights", () => {
+  it("counts the days a habit met its daily target", () => {
+    const habit = { id: 1, name: "Water", dailyTarget: 8, createdAt: new Date("2026-03-01T08:00:00Z") } as Habit;
+    const completions = [
+      // Three days at the target, two of them over several check-ins
+      checkIn("2026-03-09T08:00:00Z", 4), checkIn("2026-03-09T18:00:00Z", 4),
+      checkIn("2026-03-10T08:00:00Z", 8),
+      checkIn("2026-03-11T08:00:00Z", 5), checkIn("2026-03-11T20:00:00Z", 3),
+      // Two days short of it
+      checkIn("2026-03-12T08:00:00Z", 5),
+      checkIn("2026-03-13T08:00:00Z", 2),
+      // Sunday 23:30 in Paris is in the week, Monday 00:30 isn't
+      checkIn("2026-03-15T22:30:00Z", 8),
+      checkIn("2026-03-15T23:30:00Z", 8),
+    ];
+
+    const findings = findWeeklyInsights(input({ habits: [{ habit, completions }] }));
+    expect(findings).toContainEqual({ kind: "habit_consistency", text: "You completed Water on 4 of 7 days.", weight: 0.57 });
+  });
+
+  it("leaves out days short of the daily target", () => {
+    const habit = { id: 1, name: "Water", dailyTarget: 8, createdAt: new Date("2026-03-01T08:00:00Z") } as Habit;
+    const completions = ["09", "10", "11", "12"].map((day) => checkIn(`2026-03-${day}T08:00:00Z`, 7));
+    expect(findWeeklyInsights(input({ habits: [{ habit, completions }] }))).toEqual([]);
+  });
+
+  it("names the thought pattern that came up most in the journal", () => {
+    const journalEntries = [
+      entry("2026-03-09T20:00:00Z", [1]),
+      entry("2026-03-10T20:00:00Z", [1, 2]),
+      entry("2026-03-11T20:00:00Z", [1]),
+      entry("2026-03-12T20:00:00Z", [1]),
+      entry("2026-03-13T20:00:00Z", [2]),
+      entry("2026-03-14T20:00:00Z", []),
+      // The week before
+      entry("2026-03-06T20:00:00Z", [2]),
+    ];
+
+    const findings = findWeeklyInsights(input({ journalEntries }));
+    expect(findings).toContainEqual({
+      kind: "journal_thought_pattern",
+      text: "Catastrophizing appeared in 4 of 6 journal entries.",
+      weight: 1.37,
+    });
+  });
+
+  it("needs a pattern to come up at least twice", () => {
+    const journalEntries = [entry("2026-03-09T20:00:00Z", [1]), entry("2026-03-10T20:00:00Z", [2]), entry("2026-03-11T20:00:00Z", [99, 99])];
+    const findings = findWeeklyInsights(input({ journalEntries }));
+    expect(findings.some((finding) => finding.kind === "journal_thought_pattern")).toBe(false);
+  });
+});
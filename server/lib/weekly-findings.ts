@@ -0,0 +1,163 @@
+import type { Habit, HabitCompletion, JournalEntry, MeditationCompletion, Mood, ThoughtPattern, WeeklyFinding } from "@shared/schema";
+import { completedDays, toDay, weekday } from "./habit-schedule";
+import { computeMoodInsights, type MoodCorrelation } from "./mood-insights";
+
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Findings kept per digest, the most telling ones
+const MAX_FINDINGS = 6;
+
+// Links between mood and habits, meditation or tags are looked for over the
+// four weeks ending with the digest's week, one week is too little data
+const CORRELATION_DAYS = 28;
+
+// Smallest mood difference worth mentioning, in levels of the scale
+const MIN_MOOD_DIFFERENCE = 0.3;
+
+export interface WeeklyFindingsInput {
+  // Monday of the week (see toDay)
+  weekStart: number;
+  moods: Mood[];
+  habits: { habit: Habit; completions: HabitCompletion[] }[];
+  meditationCompletions: MeditationCompletion[];
+  journalEntries: JournalEntry[];
+  // To name the patterns of the journal entries
+  thoughtPatterns: ThoughtPattern[];
+  scaleSize: number;
+  timeZone: string;
+}
+
+// The Monday of the week containing the day
+export function mondayOf(day: number): number {
+  return day - (weekday(day) + 6) % 7;
+}
+
+function formatDifference(difference: number): string {
+  return `${Math.abs(difference).toFixed(1)} ${difference > 0 ? "higher" : "lower"}`;
+}
+
+// Mood difference with and without something, when there is enough data
+// and it is big enough to mention
+function moodDifference(correlation: MoodCorrelation): number | null {
+  if (correlation.correlation === null) return null;
+  const difference = correlation.withAverage! - correlation.withoutAverage!;
+  return Math.abs(difference) >= MIN_MOOD_DIFFERENCE ? difference : null;
+}
+
+// Plain-language observations about a week, from rules only. Each rule adds
+// a finding when the data supports it, weighted by how notable it is.
+export function findWeeklyInsights(input: WeeklyFindingsInput): WeeklyFinding[] {
+  const { weekStart, scaleSize, timeZone } = input;
+  const weekEnd = weekStart + 6;
+  const inWeek = (date: Date | string) => {
+    const day = toDay(new Date(date), timeZone);
+    return day >= weekStart && day <= weekEnd;
+  };
+  const insightsInput = { moods: input.moods, habits: input.habits, meditationCompletions: input.meditationCompletions, scaleSize, timeZone };
+  const findings: WeeklyFinding[] = [];
+
+  const week = computeMoodInsights({ ...insightsInput, days: 7, until: weekEnd });
+  const previousWeek = computeMoodInsights({ ...insightsInput, days: 7, until: weekEnd - 7 });
+  if (week.average !== null) {
+    let text = `Your mood averaged ${week.average.toFixed(1)} out of ${scaleSize} this week`;
+    let weight = 1;
+    if (previousWeek.average !== null) {
+      const change = week.average - previousWeek.average;
+      text += Math.abs(change) < 0.1 ? ", about the same as the week before" : `, ${formatDifference(change)} than the week before`;
+      weight += Math.abs(change);
+    }
+    findings.push({ kind: "mood_average", text: `${text}.`, weight });
+  }
+
+  const loggedDays = week.daily.filter((day) => day.average !== null);
+  if (loggedDays.length >= 3) {
+    const best = loggedDays.reduce((top, day) => day.average! > top.average! ? day : top);
+    const dayName = WEEKDAY_NAMES[new Date(`${best.date}T00:00:00Z`).getUTCDay()];
+    findings.push({ kind: "mood_best_day", text: `${dayName} was your best day, at ${best.average!.toFixed(1)}.`, weight: 0.5 });
+  }
+
+  const recent = computeMoodInsights({ ...insightsInput, days: CORRELATION_DAYS, until: weekEnd });
+  recent.habits.forEach((habit) => {
+    const difference = moodDifference(habit);
+    if (difference === null) return;
+    findings.push({
+      kind: "mood_habit",
+      text: `Over the last four weeks, your mood averaged ${formatDifference(difference)} on days you completed ${habit.name}.`,
+      weight: 1 + Math.abs(difference),
+    });
+  });
+  const meditationDifference = moodDifference(recent.meditation);
+  if (meditationDifference !== null) {
+    findings.push({
+      kind: "mood_meditation",
+      text: `Over the last four weeks, your mood averaged ${formatDifference(meditationDifference)} on days you meditated.`,
+      weight: 1 + Math.abs(meditationDifference),
+    });
+  }
+  recent.tags.forEach((tag) => {
+    const difference = moodDifference(tag);
+    if (difference === null) return;
+    findings.push({
+      kind: "mood_tag",
+      text: `Over the last four weeks, moods tagged ${tag.tag} were ${formatDifference(difference)} than the others.`,
+      weight: 0.8 + Math.abs(difference),
+    });
+  });
+
+  // Days the habit's daily target was met, as on its stats
+  input.habits.forEach(({ habit, completions }) => {
+    const days = completedDays(habit, completions, timeZone).filter((day) => day >= weekStart && day <= weekEnd).length;
+    if (days >= 3) {
+      findings.push({
+        kind: "habit_consistency",
+        text: days === 7 ? `You completed ${habit.name} every day this week.` : `You completed ${habit.name} on ${days} of 7 days.`,
+        weight: days / 7,
+      });
+    }
+  });
+
+  const meditations = input.meditationCompletions.filter((completion) => inWeek(completion.completedAt)).length;
+  if (meditations > 0) {
+    findings.push({
+      kind: "meditation_count",
+      text: `You meditated ${meditations === 1 ? "once" : `${meditations} times`} this week.`,
+      weight: 0.4 + Math.min(meditations, 7) / 14,
+    });
+  }
+
+  // Emotions are free text, compared without case or surrounding spaces
+  const entries = input.journalEntries.filter((entry) => inWeek(entry.createdAt));
+  const emotionCounts = new Map<string, { label: string; count: number }>();
+  entries.forEach((entry) => {
+    const key = entry.emotion.trim().toLowerCase();
+    const counted = emotionCounts.get(key) ?? { label: entry.emotion.trim(), count: 0 };
+    emotionCounts.set(key, { ...counted, count: counted.count + 1 });
+  });
+  const topEmotion = Array.from(emotionCounts.values()).sort((a, b) => b.count - a.count)[0];
+  if (topEmotion && topEmotion.count >= 2) {
+    findings.push({
+      kind: "journal_emotion",
+      text: `"${topEmotion.label}" came up in ${topEmotion.count} of ${entries.length} journal entries.`,
+      weight: 0.6 + topEmotion.count / entries.length,
+    });
+  }
+
+  const patternCounts = new Map<number, number>();
+  entries.forEach((entry) => entry.thoughtPatternIds.forEach((id) => patternCounts.set(id, (patternCounts.get(id) ?? 0) + 1)));
+  const topPattern = Array.from(patternCounts.entries())
+    .map(([id, count]) => ({ pattern: input.thoughtPatterns.find((pattern) => pattern.id === id), count }))
+    .filter(({ pattern }) => pattern)
+    .sort((a, b) => b.count - a.count)[0];
+  if (topPattern && topPattern.count >= 2) {
+    findings.push({
+      kind: "journal_thought_pattern",
+      text: `${topPattern.pattern!.name} appeared in ${topPattern.count} of ${entries.length} journal entries.`,
+      weight: 0.7 + topPattern.count / entries.length,
+    });
+  }
+
+  return findings
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, MAX_FINDINGS)
+    .map((finding) => ({ ...finding, weight: Math.round(finding.weight * 100) / 100 }));
+}
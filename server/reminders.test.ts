@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { PushSubscription } from "@shared/schema";
+import { storage } from "./storage";
+import { sendDueReminders } from "./reminders";
+import { MemoryPushTransport, PushSubscriptionGoneError, type PushNotification } from "./lib/push";
+
+let userCount = 0;
+
+// A user in Paris with notifications enabled on one device
+async function createUser() {
+  userCount++;
+  const user = await storage.createUser({ username: `reminded${userCount}`, password: "hash", name: null, timezone: "Europe/Paris" });
+  const endpoint = `https://push.example/${userCount}`;
+  await storage.savePushSubscription({ userId: user.id, endpoint, p256dh: "key", auth: "secret" });
+  return { user, endpoint };
+}
+
+// Moves the clock, so records created next get that time
+function at(time: string): Date {
+  vi.setSystemTime(new Date(time));
+  return new Date();
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("sendDueReminders", () => {
+  it("sends a reminder once a day, from its time in the user's timezone", async () => {
+    const { user, endpoint } = await createUser();
+    await storage.createReminder({ userId: user.id, type: "mood", time: "08:00" });
+    const transport = new MemoryPushTransport();
+    const sentTo = () => transport.sent.filter((entry) => entry.subscription.endpoint === endpoint).map((entry) => entry.notification);
+
+    // 07:59 in Paris
+    expect(await sendDueReminders(at("2026-03-10T06:59:00Z"), transport)).toBe(0);
+    // 08:00
+    expect(await sendDueReminders(at("2026-03-10T07:00:00Z"), transport)).toBe(1);
+    expect(sentTo()).toMatchObject([{ title: "How are you feeling?", tag: "mood-reminder" }]);
+    // Not again later that day
+    await sendDueReminders(at("2026-03-10T07:30:00Z"), transport);
+    expect(sentTo()).toHaveLength(1);
+
+    // The next day, on summer time: 08:00 in Paris is 06:00 UTC
+    await sendDueReminders(at("2026-03-30T05:59:00Z"), transport);
+    expect(sentTo()).toHaveLength(1);
+    await sendDueReminders(at("2026-03-30T06:00:00Z"), transport);
+    expect(sentTo()).toHaveLength(2);
+  });
+
+  it("skips the day once the send window has passed", async () => {
+    const { user, endpoint } = await createUser();
+    await storage.createReminder({ userId: user.id, type: "mood", time: "21:00" });
+    const transport = new MemoryPushTransport();
+
+    // 22:00 in Paris, an hour late
+    await sendDueReminders(at("2026-03-11T21:00:00Z"), transport);
+    expect(transport.sent.filter((entry) => entry.subscription.endpoint === endpoint)).toEqual([]);
+  });
+
+  it("doesn't remind of a mood already logged today", async () => {
+    const { user, endpoint } = await createUser();
+    await storage.createReminder({ userId: user.id, type: "mood", time: "12:00" });
+    at("2026-03-12T07:00:00Z");
+    await storage.createMood({ userId: user.id, emoji: "🙂", label: "Bon", intensity: 4 });
+    const transport = new MemoryPushTransport();
+
+    expect(await sendDueReminders(at("2026-03-12T11:00:00Z"), transport)).toBe(0);
+    expect(transport.sent.filter((entry) => entry.subscription.endpoint === endpoint)).toEqual([]);
+  });
+
+  it("reminds of a habit with what's left of its daily target", async () => {
+    const { user, endpoint } = await createUser();
+    const habit = await storage.createHabit({ userId: user.id, name: "Water", icon: "ri-drop-line", unit: "glasses", dailyTarget: 8 });
+    const done = await storage.createHabit({ userId: user.id, name: "Walk", icon: "ri-walk-line" });
+    await storage.createReminder({ userId: user.id, type: "habit", habitId: habit.id, time: "18:00" });
+    await storage.createReminder({ userId: user.id, type: "habit", habitId: done.id, time: "18:00" });
+    await storage.createReminder({ userId: user.id, type: "mood", time: "18:00", enabled: false });
+
+    at("2026-03-13T09:00:00Z");
+    await storage.completeHabit({ habitId: habit.id, quantity: 3, unit: "glasses" });
+    await storage.completeHabit({ habitId: done.id });
+    const transport = new MemoryPushTransport();
+
+    await sendDueReminders(at("2026-03-13T17:05:00Z"), transport);
+    const notifications: PushNotification[] = transport.sent
+      .filter((entry) => entry.subscription.endpoint === endpoint)
+      .map((entry) => entry.notification);
+    expect(notifications).toEqual([{
+      title: 'Time for "Water"',
+      body: "3 of 8 glasses done so far today.",
+      url: "/",
+      tag: `habit-reminder-${habit.id}`,
+    }]);
+  });
+
+  it("drops the subscriptions the push service no longer knows", async () => {
+    const { user, endpoint } = await createUser();
+    await storage.createReminder({ userId: user.id, type: "mood", time: "09:00" });
+
+    class GoneTransport extends MemoryPushTransport {
+      async send(subscription: PushSubscription, notification: PushNotification): Promise<void> {
+        if (subscription.endpoint === endpoint) throw new PushSubscriptionGoneError(endpoint);
+        return super.send(subscription, notification);
+      }
+    }
+
+    await sendDueReminders(at("2026-03-14T08:00:00Z"), new GoneTransport());
+    expect(await storage.getPushSubscriptions(user.id)).toEqual([]);
+  });
+});
@@ -0,0 +1,111 @@
+import type { Reminder, User } from "@shared/schema";
+import { storage } from "./storage";
+import { computeHabitStats, formatDay, minuteOfDay, toDay } from "./lib/habit-schedule";
+import { pushTransport, PushSubscriptionGoneError, type PushNotification, type PushTransport } from "./lib/push";
+
+// A reminder still goes out this long after its time, e.g. when the server
+// was restarting. Later than that it waits for the next day.
+const SEND_WINDOW_MINUTES = 60;
+
+function parseTime(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// What to send, or null when there's nothing to remind of: the habit is done,
+// not due today or gone, or a mood was already logged today
+async function reminderNotification(reminder: Reminder, user: User, now: Date): Promise<PushNotification | null> {
+  const today = toDay(now, user.timezone);
+
+  if (reminder.type === "mood") {
+    const moods = await storage.getMoods(user.id);
+    if (moods.some((mood) => toDay(new Date(mood.createdAt), user.timezone) === today)) return null;
+    return {
+      title: "How are you feeling?",
+      body: "Take a moment to log your mood for today.",
+      url: "/",
+      tag: "mood-reminder",
+    };
+  }
+
+  const habit = reminder.habitId !== null ? await storage.getHabitById(reminder.habitId) : undefined;
+  if (!habit || habit.archived) return null;
+
+  const stats = computeHabitStats(habit, await storage.getHabitCompletions(habit.id), user.timezone, now);
+  if (!stats.dueToday) return null;
+  return {
+    title: `Time for "${habit.name}"`,
+    body: habit.dailyTarget
+      ? `${stats.todayAmount} of ${habit.dailyTarget}${habit.unit ? ` ${habit.unit}` : ""} done so far today.`
+      : "Check it off once it's done to keep your streak going.",
+    url: "/",
+    tag: `habit-reminder-${habit.id}`,
+  };
+}
+
+// Sends to every device the user enabled notifications on, dropping the
+// subscriptions the push service no longer knows. Returns how many were reached.
+export async function notifyUser(
+  userId: number,
+  notification: PushNotification,
+  transport: PushTransport = pushTransport,
+): Promise<number> {
+  const subscriptions = await storage.getPushSubscriptions(userId);
+  const results = await Promise.all(subscriptions.map(async (subscription) => {
+    try {
+      await transport.send(subscription, notification);
+      return true;
+    } catch (error) {
+      if (error instanceof PushSubscriptionGoneError) {
+        await storage.deletePushSubscription(subscription.endpoint);
+      } else {
+        console.error("Failed to send push notification:", error);
+      }
+      return false;
+    }
+  }));
+  return results.filter(Boolean).length;
+}
+
+// Sends the reminders whose time has come in their user's timezone and that
+// haven't been handled yet today. Returns how many notifications went out.
+export async function sendDueReminders(now: Date = new Date(), transport: PushTransport = pushTransport): Promise<number> {
+  let sent = 0;
+  for (const reminder of await storage.getEnabledReminders()) {
+    const user = await storage.getUser(reminder.userId);
+    if (!user) continue;
+
+    const today = formatDay(toDay(now, user.timezone));
+    const minutesLate = minuteOfDay(now, user.timezone) - parseTime(reminder.time);
+    if (reminder.lastSentOn === today || minutesLate < 0 || minutesLate >= SEND_WINDOW_MINUTES) continue;
+
+    // Marked first so a failing push service doesn't get the reminder
+    // retried every minute
+    await storage.markReminderSent(reminder.id, today);
+    const notification = await reminderNotification(reminder, user, now);
+    if (notification) {
+      sent += await notifyUser(user.id, notification, transport);
+    }
+  }
+  return sent;
+}
+
+// Checks for due reminders every minute. Returns a function that stops it.
+export function startReminderScheduler(intervalMs = 60000, transport: PushTransport = pushTransport): () => void {
+  let running = false;
+  const timer = setInterval(async () => {
+    // A slow run (many users, slow push service) isn't overlapped
+    if (running) return;
+    running = true;
+    try {
+      await sendDueReminders(new Date(), transport);
+    } catch (error) {
+      console.error("Failed to send reminders:", error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
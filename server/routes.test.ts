@@ -0,0 +1,354 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { AddressInfo } from "net";
+import express from "express";
+import request from "supertest";
+import { registerRoutes } from "./routes";
+
+type Agent = ReturnType<typeof request.agent>;
+
+const app = express();
+app.use(express.json());
+const server = await registerRoutes(app);
+
+let userCount = 0;
+
+// A logged-in client for a fresh user
+async function signUp(): Promise<Agent> {
+  const agent = request.agent(app);
+  userCount++;
+  await agent.post("/api/register")
+    .send({ username: `user${userCount}`, password: "password123", name: `User ${userCount}` })
+    .expect(201);
+  return agent;
+}
+
+describe("authentication", () => {
+  const protectedRoutes: [method: "get" | "post" | "patch" | "put" | "delete", url: string][] = [
+    ["get", "/api/moods"],
+    ["post", "/api/moods"],
+    ["patch", "/api/moods/1"],
+    ["delete", "/api/moods/1"],
+    ["get", "/api/journal"],
+    ["get", "/api/journal/1"],
+    ["post", "/api/journal"],
+    ["patch", "/api/journal/1"],
+    ["delete", "/api/journal/1"],
+    ["get", "/api/journal/draft"],
+    ["put", "/api/journal/draft"],
+    ["get", "/api/habits"],
+    ["post", "/api/habits"],
+    ["patch", "/api/habits/1"],
+    ["delete", "/api/habits/1"],
+    ["post", "/api/habits/1/complete"],
+    ["get", "/api/habits/1/stats"],
+    ["get", "/api/goals"],
+    ["post", "/api/goals"],
+    ["patch", "/api/goals/1"],
+    ["delete", "/api/goals/1"],
+    ["get", "/api/reminders"],
+    ["patch", "/api/reminders/1"],
+    ["get", "/api/conversations/1"],
+    ["delete", "/api/conversations/1"],
+    ["get", "/api/insights/weekly"],
+  ];
+
+  it.each(protectedRoutes)("%s %s answers 401 without a session", async (method, url) => {
+    const response = await request(app)[method](url).send({});
+    expect(response.status).toBe(401);
+  });
+
+  it("logs in and out", async () => {
+    await signUp();
+    const agent = request.agent(app);
+    await agent.post("/api/login").send({ username: `user${userCount}`, password: "wrong" }).expect(401);
+    await agent.post("/api/login").send({ username: `user${userCount}`, password: "password123" }).expect(200);
+    await agent.get("/api/moods").expect(200);
+    await agent.post("/api/logout").expect(200);
+    await agent.get("/api/moods").expect(401);
+  });
+});
+
+describe("ownership", () => {
+  let owner: Agent;
+  let other: Agent;
+  const ids: Record<string, number> = {};
+
+  beforeAll(async () => {
+    owner = await signUp();
+    other = await signUp();
+
+    ids.mood = (await owner.post("/api/moods").send({ emoji: "🙂", label: "Bon", intensity: 4 }).expect(201)).body.id;
+    ids.journal = (await owner.post("/api/journal")
+      .send({ situation: "Meeting", emotion: "Anxious", thought: "It will go wrong" })
+      .expect(201)).body.id;
+    ids.habit = (await owner.post("/api/habits").send({ name: "Walk", icon: "ri-walk-line" }).expect(201)).body.id;
+    ids.goal = (await owner.post("/api/goals")
+      .send({ title: "Sleep better", description: "In bed by 11", deadline: new Date(Date.now() + 30 * 86400000).toISOString() })
+      .expect(201)).body.id;
+    ids.reminder = (await owner.post("/api/reminders").send({ type: "mood", time: "08:00" }).expect(201)).body.id;
+    ids.conversation = (await owner.post("/api/conversations").send({}).expect(201)).body.id;
+  });
+
+  const foreignRequests: [name: string, send: (agent: Agent) => request.Test][] = [
+    ["PATCH /api/moods/:id", (agent) => agent.patch(`/api/moods/${ids.mood}`).send({ note: "mine now" })],
+    ["DELETE /api/moods/:id", (agent) => agent.delete(`/api/moods/${ids.mood}`)],
+    ["GET /api/journal/:id", (agent) => agent.get(`/api/journal/${ids.journal}`)],
+    ["PATCH /api/journal/:id", (agent) => agent.patch(`/api/journal/${ids.journal}`).send({ thought: "changed" })],
+    ["DELETE /api/journal/:id", (agent) => agent.delete(`/api/journal/${ids.journal}`)],
+    ["PATCH /api/habits/:id", (agent) => agent.patch(`/api/habits/${ids.habit}`).send({ name: "Run" })],
+    ["DELETE /api/habits/:id", (agent) => agent.delete(`/api/habits/${ids.habit}`)],
+    ["POST /api/habits/:id/complete", (agent) => agent.post(`/api/habits/${ids.habit}/complete`).send({})],
+    ["GET /api/habits/:id/stats", (agent) => agent.get(`/api/habits/${ids.habit}/stats`)],
+    ["PATCH /api/goals/:id", (agent) => agent.patch(`/api/goals/${ids.goal}`).send({ title: "Mine" })],
+    ["DELETE /api/goals/:id", (agent) => agent.delete(`/api/goals/${ids.goal}`)],
+    ["POST /api/goals/:id/complete", (agent) => agent.post(`/api/goals/${ids.goal}/complete`)],
+    ["PATCH /api/reminders/:id", (agent) => agent.patch(`/api/reminders/${ids.reminder}`).send({ enabled: false })],
+    ["DELETE /api/reminders/:id", (agent) => agent.delete(`/api/reminders/${ids.reminder}`)],
+    ["GET /api/conversations/:id", (agent) => agent.get(`/api/conversations/${ids.conversation}`)],
+    ["DELETE /api/conversations/:id", (agent) => agent.delete(`/api/conversations/${ids.conversation}`)],
+  ];
+
+  it.each(foreignRequests)("%s answers 404 for another user's record", async (_name, send) => {
+    const response = await send(other);
+    expect(response.status).toBe(404);
+  });
+
+  it("leaves the owner's records untouched", async () => {
+    expect((await owner.get(`/api/journal/${ids.journal}`).expect(200)).body.thought).toBe("It will go wrong");
+    expect((await owner.get("/api/habits").expect(200)).body.map((habit: { id: number }) => habit.id)).toContain(ids.habit);
+    await owner.get(`/api/conversations/${ids.conversation}`).expect(200);
+    await owner.post(`/api/habits/${ids.habit}/complete`).send({}).expect(201);
+  });
+
+  it("answers 404 for records that don't exist", async () => {
+    await owner.get("/api/journal/99999").expect(404);
+    await owner.patch("/api/habits/99999").send({ name: "Run" }).expect(404);
+  });
+
+  it("doesn't list other users' records", async () => {
+    expect((await other.get("/api/moods").expect(200)).body).toEqual([]);
+    expect((await other.get("/api/journal").expect(200)).body.entries).toEqual([]);
+    expect((await other.get("/api/habits").expect(200)).body).toEqual([]);
+    expect((await other.get("/api/goals").expect(200)).body).toEqual([]);
+  });
+});
+
+describe("journal drafts", () => {
+  let agent: Agent;
+
+  beforeAll(async () => {
+    agent = await signUp();
+  });
+
+  it("aren't reachable by id", async () => {
+    const draft = (await agent.put("/api/journal/draft").send({ situation: "Half written" }).expect(200)).body;
+    await agent.get(`/api/journal/${draft.id}`).expect(404);
+    await agent.patch(`/api/journal/${draft.id}`).send({ thought: "Changed" }).expect(404);
+    await agent.delete(`/api/journal/${draft.id}`).expect(404);
+    expect((await agent.get("/api/journal/draft").expect(200)).body).toMatchObject({ id: draft.id, situation: "Half written" });
+
+    await agent.delete("/api/journal/draft").expect(204);
+  });
+
+  it("are listed by the time they were finished", async () => {
+    const draft = (await agent.put("/api/journal/draft").send({ situation: "Started first", emotion: "Sad", thought: "Finished last" }).expect(200)).body;
+    const entry = (await agent.post("/api/journal").send({ situation: "Written in one go", emotion: "Calm", thought: "Done" }).expect(201)).body;
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await agent.post("/api/journal/draft/complete").expect(200);
+    await agent.get(`/api/journal/${draft.id}`).expect(200);
+
+    const firstPage = (await agent.get("/api/journal?limit=1").expect(200)).body;
+    expect(firstPage.entries.map((listed: { id: number }) => listed.id)).toEqual([draft.id]);
+    const secondPage = (await agent.get(`/api/journal?limit=1&cursor=${firstPage.nextCursor}`).expect(200)).body;
+    expect(secondPage.entries.map((listed: { id: number }) => listed.id)).toEqual([entry.id]);
+    expect(secondPage.nextCursor).toBeNull();
+  });
+});
+
+describe("validation", () => {
+  let agent: Agent;
+
+  beforeAll(async () => {
+    agent = await signUp();
+  });
+
+  it("rejects ids that aren't numbers", async () => {
+    await agent.get("/api/journal/abc").expect(400);
+    await agent.get("/api/journal?cursor=12").expect(400);
+    await agent.patch("/api/moods/abc").send({}).expect(400);
+    await agent.post("/api/habits/abc/complete").send({}).expect(400);
+  });
+
+  it("rejects incomplete or malformed records", async () => {
+    await agent.post("/api/journal").send({ situation: "Only a situation" }).expect(400);
+    await agent.post("/api/moods").send({ emoji: "🙂", label: "Bon", intensity: 0 }).expect(400);
+    await agent.post("/api/habits").send({ icon: "ri-walk-line" }).expect(400);
+    await agent.post("/api/goals").send({ title: "No deadline", description: "" }).expect(400);
+    await agent.post("/api/reminders").send({ type: "mood", time: "25:00" }).expect(400);
+    await agent.post("/api/register").send({ username: "", password: "x" }).expect(400);
+  });
+
+  it("only has weekly digests from the week the user joined to the last complete one", async () => {
+    // Joined this week, no week has ended yet
+    await agent.get("/api/insights/weekly").expect(404);
+    await agent.get("/api/insights/weekly?week=2020-01-06").expect(400);
+    await agent.get(`/api/insights/weekly?week=${new Date(Date.now() + 14 * 86400000).toISOString().slice(0, 10)}`).expect(400);
+    await agent.get("/api/insights/weekly?week=2020-02-30").expect(400);
+  });
+
+  it("rejects check-ins with a negative quantity", async () => {
+    const habit = (await agent.post("/api/habits").send({ name: "Water", icon: "ri-drop-line", unit: "glasses", dailyTarget: 8 }).expect(201)).body;
+    await agent.post(`/api/habits/${habit.id}/complete`).send({ quantity: -1 }).expect(400);
+  });
+});
+
+describe("CBT analysis", () => {
+  let agent: Agent;
+
+  beforeAll(async () => {
+    agent = await signUp();
+  });
+
+  it("analyzes a thought that raises no concern", async () => {
+    const response = await agent.post("/api/cbt/analyze")
+      .send({ situation: "Deadline", emotion: "Stressed", thought: "J'ai hâte d'en finir avec ce projet" })
+      .expect(200);
+    expect(response.body.reframe).toBeTruthy();
+    expect(response.body.safety.flagged).toBe(false);
+    expect(response.body.resources).toBeUndefined();
+  });
+
+  it("still analyzes a concern, with the crisis resources", async () => {
+    const response = await agent.post("/api/cbt/analyze")
+      .send({ situation: "Exam next week", emotion: "Worried", thought: "I feel hopeless about passing this exam" })
+      .expect(200);
+    expect(response.body.reframe).toBeTruthy();
+    expect(response.body.safety).toMatchObject({ flagged: true, level: "concern" });
+    expect(response.body.resources.length).toBeGreaterThan(0);
+  });
+
+  it("doesn't reframe a crisis", async () => {
+    const response = await agent.post("/api/cbt/analyze")
+      .send({ situation: "Seul ce soir", emotion: "Vide", thought: "Je veux en finir avec la vie" })
+      .expect(200);
+    expect(response.body.reframe).toBeUndefined();
+    expect(response.body.safety).toMatchObject({ flagged: true, level: "crisis", language: "fr" });
+    expect(response.body.resources[0].language).toBe("fr");
+  });
+});
+
+describe("copilot safety", () => {
+  let agent: Agent;
+
+  beforeAll(async () => {
+    agent = await signUp();
+  });
+
+  async function chat(message: string) {
+    const conversation = (await agent.post("/api/conversations").send({}).expect(201)).body;
+    return (await agent.post("/api/copilot/chat").send({ conversationId: conversation.id, message }).expect(201)).body;
+  }
+
+  it("still answers a concern, with the crisis resources", async () => {
+    const response = await chat("I feel hopeless about this exam");
+    expect(response.safety).toMatchObject({ flagged: true, level: "concern" });
+    expect(response.messages[1].text).not.toMatch(/Thank you for telling me/);
+    expect(response.resources.length).toBeGreaterThan(0);
+  });
+
+  it("answers a crisis with the support message", async () => {
+    const response = await chat("I want to end my life");
+    expect(response.safety).toMatchObject({ flagged: true, level: "crisis", language: "en" });
+    expect(response.messages[1]).toMatchObject({ sender: "ai", actions: [] });
+    expect(response.messages[1].text).toMatch(/^Thank you for telling me/);
+    expect(response.resources[0].language).toBe("en");
+  });
+
+  it("leaves resources out of an ordinary reply", async () => {
+    const response = await chat("Je suis anxieux");
+    expect(response.safety.flagged).toBe(false);
+    expect(response.resources).toBeUndefined();
+  });
+});
+
+describe("streamed copilot replies", () => {
+  let agent: Agent;
+  let baseUrl: string;
+  let cookie: string;
+
+  beforeAll(async () => {
+    agent = await signUp();
+    // Disconnecting mid-stream needs a real socket, not supertest's buffered response
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const login = await fetch(`${baseUrl}/api/login`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ username: `user${userCount}`, password: "password123" }),
+    });
+    cookie = login.headers.getSetCookie().map((value) => value.split(";")[0]).join("; ");
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  function stream(conversationId: number, message: string, signal?: AbortSignal) {
+    return fetch(`${baseUrl}/api/copilot/chat/stream`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Cookie: cookie },
+      body: JSON.stringify({ conversationId, message }),
+      signal,
+    });
+  }
+
+  it("sends the reply as deltas, then the saved messages", async () => {
+    const conversation = (await agent.post("/api/conversations").send({}).expect(201)).body;
+    const body = await (await stream(conversation.id, "Je suis anxieux")).text();
+
+    const events = body.trim().split("\n\n").map((block) => ({
+      event: block.match(/^event: (.*)$/m)![1],
+      data: JSON.parse(block.match(/^data: (.*)$/m)![1]),
+    }));
+    const deltas = events.filter((event) => event.event === "delta");
+    const done = events[events.length - 1];
+
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(done.event).toBe("done");
+    expect(done.data.messages[1].text).toBe(deltas.map((event) => event.data.text).join("").trim());
+    expect(done.data.messages[1].actions).toEqual([{ type: "breathing" }]);
+  });
+
+  it("saves the message and the partial reply when the client disconnects", async () => {
+    const conversation = (await agent.post("/api/conversations").send({}).expect(201)).body;
+    const abort = new AbortController();
+    const response = await stream(conversation.id, "Je suis anxieux", abort.signal);
+
+    // Hang up as soon as the first words arrive
+    const reader = response.body!.getReader();
+    let received = "";
+    while (!received.includes("event: delta")) {
+      received += new TextDecoder().decode((await reader.read()).value);
+    }
+    abort.abort();
+
+    let messages: { sender: string; text: string }[] = [];
+    for (let attempt = 0; attempt < 50 && messages.length === 0; attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      messages = (await agent.get(`/api/conversations/${conversation.id}`).expect(200)).body.messages;
+    }
+
+    expect(messages.map((message) => message.sender)).toEqual(["user", "ai"]);
+    expect(messages[0].text).toBe("Je suis anxieux");
+
+    // The same message answered in full, to compare the partial reply against
+    const other = (await agent.post("/api/conversations").send({}).expect(201)).body;
+    const fullReply = (await agent.post("/api/copilot/chat")
+      .send({ conversationId: other.id, message: "Je suis anxieux" })
+      .expect(201)).body.messages[1].text;
+    expect(messages[1].text.length).toBeGreaterThan(0);
+    expect(messages[1].text.length).toBeLessThan(fullReply.length);
+    expect(fullReply.startsWith(messages[1].text)).toBe(true);
+  });
+});
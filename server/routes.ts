@@ -1,16 +1,42 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { setupAuth, requireAuth } from "./auth";
+import { findOwnedMood, findOwnedJournalEntry, findOwnedHabit, findOwnedGoal, findOwnedConversation, findOwnedReminder } from "./authorization";
 import { 
-  insertUserSchema, 
   insertMoodSchema, 
+  insertMoodScaleSchema,
   insertJournalEntrySchema,
+  journalDraftSchema,
   insertHabitSchema,
   insertHabitCompletionSchema, 
-  insertMeditationCompletionSchema 
+  insertGoalSchema,
+  insertGoalHabitSchema,
+  goalPlanSchema,
+  insertMeditationCompletionSchema,
+  insertConversationSchema,
+  insertConversationMessageSchema,
+  copilotCbtSessionSchema,
+  insertReminderSchema,
+  insertPushSubscriptionSchema,
+  type Habit,
+  type InsertMood,
+  type MoodScale
 } from "@shared/schema";
 import { z } from "zod";
-import { generateCBTResponse } from "./lib/openai";
+import { generateCBTResponse, generateCopilotReply, streamCopilotReply, generateGoalPlan, AIResponseError } from "./lib/openai";
+import { screenText, recordSafetyFlag, getCrisisResources, crisisSupportMessage } from "./lib/safety";
+import { appendToConversation, buildCopilotChatInput } from "./conversations";
+import { withDetails, saveGoalPlan, findForeignHabits } from "./goals";
+import { computeHabitStats, dayStart, formatDay, startOfDay } from "./lib/habit-schedule";
+import { pushTransport } from "./lib/push";
+import { notifyUser } from "./reminders";
+import { contextTags, loadMoodScale, moodScaleErrors, summarizeEmotions } from "./lib/mood-options";
+import { moodScaleSeed } from "./seed-data";
+import { computeMoodInsights } from "./lib/mood-insights";
+import { mondayOf } from "./lib/weekly-findings";
+import { lastCompleteWeek, firstDigestWeek, getWeeklyDigest } from "./insights";
+import { countThoughtPatterns, summarizeRatings } from "./lib/thought-pattern-stats";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Create HTTP server
@@ -21,77 +47,385 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({ status: "ok" });
   });
   
-  // User routes
-  app.post("/api/users", async (req: Request, res: Response) => {
+  // Session, login, logout, registration and /api/me
+  setupAuth(app);
+  
+  // Mood routes
+  // Moods may leave out the overall mood when they list emotions, it is then
+  // derived from them. Fields sent explicitly are kept.
+  const moodInputSchema = insertMoodSchema.partial({ emoji: true, label: true, intensity: true });
+  const withEmotionSummary = <T extends Partial<InsertMood>>(data: T, scale: MoodScale): T =>
+    data.emotions?.length ? { ...summarizeEmotions(data.emotions, scale), ...data } : data;
+  
+  app.get("/api/moods", requireAuth, async (req: Request, res: Response) => {
     try {
-      const userData = insertUserSchema.parse(req.body);
-      const existingUser = await storage.getUserByUsername(userData.username);
+      const userId = req.user!.id;
       
-      if (existingUser) {
-        return res.status(409).json({ message: "Username already exists" });
+      const moods = await storage.getMoods(userId);
+      res.json(moods);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch moods" });
+    }
+  });
+  
+  app.post("/api/moods", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const input = moodInputSchema.parse({ ...req.body, userId: req.user!.id });
+      const scale = await loadMoodScale(input.userId);
+      const errors = moodScaleErrors(input, scale);
+      if (errors.length > 0) {
+        return res.status(400).json({ message: errors.join(", ") });
       }
       
-      const user = await storage.createUser(userData);
-      res.status(201).json(user);
+      const moodData = insertMoodSchema.parse({
+        ...withEmotionSummary(input, scale),
+        scaleSize: scale.levels.length,
+      });
+      const safety = await screenText([moodData.note]);
+      const mood = await storage.createMood(moodData);
+      await recordSafetyFlag(mood.userId, "mood", safety, mood.id);
+      
+      res.status(201).json({ ...mood, safety });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors });
       }
-      res.status(500).json({ message: "Failed to create user" });
+      res.status(500).json({ message: "Failed to create mood entry" });
     }
   });
   
-  // Mood routes
-  app.get("/api/moods", async (req: Request, res: Response) => {
+  app.patch("/api/moods/:id", requireAuth, async (req: Request, res: Response) => {
     try {
-      const userId = Number(req.query.userId);
-      if (isNaN(userId)) {
-        return res.status(400).json({ message: "Invalid user ID" });
+      const id = Number(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid mood ID" });
       }
       
-      const moods = await storage.getMoods(userId);
-      res.json(moods);
+      const input = insertMoodSchema.omit({ userId: true, scaleSize: true }).partial().parse(req.body);
+      const scale = await loadMoodScale(req.user!.id);
+      const errors = moodScaleErrors(input, scale);
+      if (errors.length > 0) {
+        return res.status(400).json({ message: errors.join(", ") });
+      }
+      const summary = withEmotionSummary(input, scale);
+      // A new overall mood is on the scale as it is now
+      const updateData = summary.intensity === undefined ? summary : { ...summary, scaleSize: scale.levels.length };
+      
+      const mood = await findOwnedMood(req.user!.id, id);
+      if (!mood) {
+        return res.status(404).json({ message: "Mood entry not found" });
+      }
+      
+      const safety = await screenText([updateData.note]);
+      const updatedMood = await storage.updateMood(id, updateData);
+      await recordSafetyFlag(mood.userId, "mood", safety, id);
+      
+      res.json({ ...updatedMood, safety });
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch moods" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update mood entry" });
     }
   });
   
-  app.post("/api/moods", async (req: Request, res: Response) => {
+  app.delete("/api/moods/:id", requireAuth, async (req: Request, res: Response) => {
     try {
-      const moodData = insertMoodSchema.parse(req.body);
-      const mood = await storage.createMood(moodData);
-      res.status(201).json(mood);
+      const id = Number(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid mood ID" });
+      }
+      
+      const mood = await findOwnedMood(req.user!.id, id);
+      if (!mood) {
+        return res.status(404).json({ message: "Mood entry not found" });
+      }
+      
+      await storage.deleteMood(id);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete mood entry" });
+    }
+  });
+  
+  // Mood scale routes. The context tags come along, they can't be changed.
+  app.get("/api/mood-scale", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const scale = await loadMoodScale(req.user!.id);
+      res.json({ ...scale, tags: contextTags });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch mood scale" });
+    }
+  });
+  
+  app.put("/api/mood-scale", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const scaleData = insertMoodScaleSchema.parse({ ...req.body, userId: req.user!.id });
+      const scale = await storage.saveMoodScale(scaleData);
+      res.json({ ...scale, tags: contextTags });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors });
       }
-      res.status(500).json({ message: "Failed to create mood entry" });
+      res.status(500).json({ message: "Failed to save mood scale" });
     }
   });
   
-  // Journal routes
-  app.get("/api/journal", async (req: Request, res: Response) => {
+  // Back to the scale new users start with
+  app.post("/api/mood-scale/reset", requireAuth, async (req: Request, res: Response) => {
     try {
-      const userId = Number(req.query.userId);
-      if (isNaN(userId)) {
-        return res.status(400).json({ message: "Invalid user ID" });
+      const scale = await storage.saveMoodScale({ userId: req.user!.id, ...moodScaleSeed });
+      res.json({ ...scale, tags: contextTags });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reset mood scale" });
+    }
+  });
+  
+  // Mood trends, patterns and what goes with better or worse moods over the
+  // last `days` days (30 by default)
+  app.get("/api/insights/mood", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const days = req.query.days === undefined ? 30 : Number(req.query.days);
+      if (!Number.isInteger(days) || days < 7 || days > 365) {
+        return res.status(400).json({ message: "Range must be between 7 and 365 days" });
+      }
+      
+      const userId = req.user!.id;
+      const [moods, scale, habits, meditationCompletions] = await Promise.all([
+        storage.getMoods(userId),
+        loadMoodScale(userId),
+        storage.getHabits(userId),
+        storage.getMeditationCompletions(userId),
+      ]);
+      const tracked = await Promise.all(habits.filter((habit) => !habit.archived).map(async (habit) => ({
+        habit,
+        completions: await storage.getHabitCompletions(habit.id),
+      })));
+      
+      res.json(computeMoodInsights({
+        moods,
+        habits: tracked,
+        meditationCompletions,
+        scaleSize: scale.levels.length,
+        timeZone: req.user!.timezone,
+        days,
+      }));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch mood insights" });
+    }
+  });
+  
+  // Weekly digests, the last complete week by default. Any day picks the
+  // week it falls in, from the week the user joined to the last complete one.
+  app.get("/api/insights/weekly", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const lastWeek = lastCompleteWeek(req.user!.timezone);
+      const firstWeek = firstDigestWeek(req.user!);
+      let weekStart = lastWeek;
+      if (req.query.week === undefined && lastWeek < firstWeek) {
+        return res.status(404).json({ message: "No week has ended since you joined" });
+      }
+      if (req.query.week !== undefined) {
+        const week = String(req.query.week);
+        const day = Math.floor(Date.parse(`${week}T00:00:00Z`) / 86400000);
+        if (Number.isNaN(day) || formatDay(day) !== week) {
+          return res.status(400).json({ message: "Week must be a date (YYYY-MM-DD)" });
+        }
+        weekStart = mondayOf(day);
       }
+      if (weekStart > lastWeek) {
+        return res.status(400).json({ message: "Digests are only available for weeks that have ended" });
+      }
+      if (weekStart < firstWeek) {
+        return res.status(400).json({ message: "Digests start with the week you joined" });
+      }
+      
+      res.json(await getWeeklyDigest(req.user!, weekStart));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch weekly insights" });
+    }
+  });
+  
+  app.get("/api/insights/weekly/history", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const digests = await storage.getWeeklyDigests(req.user!.id);
+      res.json(digests);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch past weekly insights" });
+    }
+  });
+  
+  // How often each thought pattern came up in the user's journal, and how
+  // much reframing lowered the ratings overall and per pattern
+  app.get("/api/insights/thought-patterns", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const [entries, patterns] = await Promise.all([
+        storage.getJournalEntries(req.user!.id),
+        storage.getThoughtPatterns(),
+      ]);
+      res.json({
+        ratings: summarizeRatings(entries),
+        patterns: countThoughtPatterns(entries, patterns),
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch thought pattern insights" });
+    }
+  });
+  
+  // Journal routes
+  // Ids of thought patterns that don't exist, checked before saving entries
+  const unknownThoughtPatterns = async (ids: number[] = []) => {
+    const patterns = await storage.getThoughtPatterns();
+    return ids.filter((id) => !patterns.some((pattern) => pattern.id === id));
+  };
+  
+  // Search filters from the query string. Lists are comma separated, dates
+  // are days in the user's timezone, both included.
+  const toDayNumber = (date: string) => Math.floor(Date.parse(`${date}T00:00:00Z`) / 86400000);
+  const day = z.string()
+    .refine((date) => /^\d{4}-\d{2}-\d{2}$/.test(date) && formatDay(toDayNumber(date)) === date, "Dates must be YYYY-MM-DD")
+    .transform(toDayNumber);
+  const journalQuerySchema = z.object({
+    q: z.string().trim().max(200).optional(),
+    tags: z.string().transform((tags) => tags.split(",").map((tag) => tag.trim().toLowerCase()).filter(Boolean)).optional(),
+    from: day.optional(),
+    to: day.optional(),
+    emotion: z.string().trim().max(60).optional(),
+    patternId: z.coerce.number().int().positive().optional(),
+    // "<creation time in ms>-<id>" of the last entry of the previous page
+    cursor: z.string().regex(/^\d+-\d+$/, "Invalid cursor").transform((cursor) => {
+      const [time, id] = cursor.split("-").map(Number);
+      return { createdAt: new Date(time), id };
+    }).optional(),
+    limit: z.coerce.number().int().min(1).max(50).default(20),
+  }).refine((query) => query.from === undefined || query.to === undefined || query.from <= query.to, "From must not be after to");
+  
+  // Pages of entries, newest first, with how many match in all. `nextCursor`
+  // fetches the next page, null on the last one.
+  app.get("/api/journal", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const query = journalQuerySchema.parse(req.query);
+      const timeZone = req.user!.timezone;
       
-      const entries = await storage.getJournalEntries(userId);
-      res.json(entries);
+      const filters = {
+        text: query.q,
+        tags: query.tags,
+        from: query.from === undefined ? undefined : dayStart(query.from, timeZone),
+        to: query.to === undefined ? undefined : dayStart(query.to + 1, timeZone),
+        emotion: query.emotion || undefined,
+        thoughtPatternId: query.patternId,
+      };
+      // One more than asked tells whether there's a next page
+      const [entries, total] = await Promise.all([
+        storage.searchJournalEntries(req.user!.id, { ...filters, before: query.cursor, limit: query.limit + 1 }),
+        storage.countJournalEntries(req.user!.id, filters),
+      ]);
+      const page = entries.slice(0, query.limit);
+      const last = page[page.length - 1];
+      
+      res.json({
+        entries: page,
+        nextCursor: entries.length > query.limit ? `${new Date(last.createdAt).getTime()}-${last.id}` : null,
+        total,
+      });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
       res.status(500).json({ message: "Failed to fetch journal entries" });
     }
   });
   
-  app.get("/api/journal/:id", async (req: Request, res: Response) => {
+  app.get("/api/journal/tags", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const tags = await storage.getJournalTags(req.user!.id);
+      res.json(tags);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch journal tags" });
+    }
+  });
+  
+  // The entry in progress, shared by the journal wizard and the copilot
+  // exercise. Null when there's none.
+  app.get("/api/journal/draft", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const draft = await storage.getJournalDraft(req.user!.id);
+      res.json(draft ?? null);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch journal draft" });
+    }
+  });
+  
+  // Saves the given parts of the entry in progress, starting one if needed.
+  // Drafts are screened for safety once finished.
+  app.put("/api/journal/draft", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const draftData = journalDraftSchema.parse(req.body);
+      const unknownPatterns = await unknownThoughtPatterns(draftData.thoughtPatternIds);
+      if (unknownPatterns.length > 0) {
+        return res.status(400).json({ message: `Unknown thought pattern: ${unknownPatterns.join(", ")}` });
+      }
+      
+      const draft = await storage.saveJournalDraft(req.user!.id, draftData);
+      res.json(draft);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save journal draft" });
+    }
+  });
+  
+  // Turns the entry in progress into a journal entry, dated now
+  app.post("/api/journal/draft/complete", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const draft = await storage.getJournalDraft(req.user!.id);
+      if (!draft) {
+        return res.status(404).json({ message: "No journal entry in progress" });
+      }
+      if ([draft.situation, draft.emotion, draft.thought].some((text) => !text.trim())) {
+        return res.status(400).json({ message: "The situation, emotion and thought are needed to finish the entry" });
+      }
+      
+      const safety = await screenText([
+        draft.situation,
+        draft.emotion,
+        draft.thought,
+        draft.challenge,
+        draft.reframe,
+      ]);
+      const entry = await storage.completeJournalDraft(req.user!.id);
+      if (!entry) {
+        return res.status(404).json({ message: "No journal entry in progress" });
+      }
+      await recordSafetyFlag(entry.userId, "journal", safety, entry.id);
+      
+      res.json({ ...entry, safety });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to finish journal entry" });
+    }
+  });
+  
+  app.delete("/api/journal/draft", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const deleted = await storage.deleteJournalDraft(req.user!.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "No journal entry in progress" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to discard journal draft" });
+    }
+  });
+  
+  app.get("/api/journal/:id", requireAuth, async (req: Request, res: Response) => {
     try {
       const id = Number(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid entry ID" });
       }
       
-      const entry = await storage.getJournalEntryById(id);
+      const entry = await findOwnedJournalEntry(req.user!.id, id);
       if (!entry) {
         return res.status(404).json({ message: "Journal entry not found" });
       }
@@ -102,11 +436,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/journal", async (req: Request, res: Response) => {
+  app.post("/api/journal", requireAuth, async (req: Request, res: Response) => {
     try {
-      const entryData = insertJournalEntrySchema.parse(req.body);
+      const entryData = insertJournalEntrySchema.parse({ ...req.body, userId: req.user!.id });
+      const unknownPatterns = await unknownThoughtPatterns(entryData.thoughtPatternIds);
+      if (unknownPatterns.length > 0) {
+        return res.status(400).json({ message: `Unknown thought pattern: ${unknownPatterns.join(", ")}` });
+      }
+      const safety = await screenText([
+        entryData.situation,
+        entryData.emotion,
+        entryData.thought,
+        entryData.challenge,
+        entryData.reframe,
+      ]);
       const entry = await storage.createJournalEntry(entryData);
-      res.status(201).json(entry);
+      await recordSafetyFlag(entry.userId, "journal", safety, entry.id);
+      
+      res.status(201).json({ ...entry, safety });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors });
@@ -115,25 +462,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.patch("/api/journal/:id", async (req: Request, res: Response) => {
+  app.patch("/api/journal/:id", requireAuth, async (req: Request, res: Response) => {
     try {
       const id = Number(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid entry ID" });
       }
       
-      // Only allow updates to challenge and reframe fields
-      const updateData = z.object({
-        challenge: z.string().optional(),
-        reframe: z.string().optional(),
-      }).parse(req.body);
+      const updateData = insertJournalEntrySchema.omit({ userId: true }).partial().parse(req.body);
+      const unknownPatterns = await unknownThoughtPatterns(updateData.thoughtPatternIds);
+      if (unknownPatterns.length > 0) {
+        return res.status(400).json({ message: `Unknown thought pattern: ${unknownPatterns.join(", ")}` });
+      }
+      
+      const entry = await findOwnedJournalEntry(req.user!.id, id);
+      if (!entry) {
+        return res.status(404).json({ message: "Journal entry not found" });
+      }
       
+      const safety = await screenText([
+        updateData.situation,
+        updateData.emotion,
+        updateData.thought,
+        updateData.challenge,
+        updateData.reframe,
+      ]);
       const updatedEntry = await storage.updateJournalEntry(id, updateData);
       if (!updatedEntry) {
         return res.status(404).json({ message: "Journal entry not found" });
       }
+      await recordSafetyFlag(entry.userId, "journal", safety, id);
       
-      res.json(updatedEntry);
+      res.json({ ...updatedEntry, safety });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors });
@@ -142,15 +502,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Habit routes
-  app.get("/api/habits", async (req: Request, res: Response) => {
+  app.delete("/api/journal/:id", requireAuth, async (req: Request, res: Response) => {
     try {
-      const userId = Number(req.query.userId);
-      if (isNaN(userId)) {
-        return res.status(400).json({ message: "Invalid user ID" });
+      const id = Number(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid entry ID" });
+      }
+      
+      const entry = await findOwnedJournalEntry(req.user!.id, id);
+      if (!entry) {
+        return res.status(404).json({ message: "Journal entry not found" });
       }
       
-      const habits = await storage.getHabits(userId);
+      await storage.deleteJournalEntry(id);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete journal entry" });
+    }
+  });
+  
+  // Habit routes
+  app.get("/api/habits", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      
+      const includeArchived = req.query.includeArchived === "true";
+      
+      const habits = (await storage.getHabits(userId)).filter(
+        (habit) => includeArchived || !habit.archived
+      );
       
       // Add completions for each habit
       const habitsWithCompletions = await Promise.all(habits.map(async (habit) => {
@@ -167,9 +547,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/habits", async (req: Request, res: Response) => {
+  // Streaks, completion rates and calendar, with days counted in the user's
+  // timezone
+  const habitStats = async (habit: Habit, timeZone: string) => ({
+    habitId: habit.id,
+    ...computeHabitStats(habit, await storage.getHabitCompletions(habit.id), timeZone),
+  });
+  
+  app.get("/api/habits/stats", requireAuth, async (req: Request, res: Response) => {
     try {
-      const habitData = insertHabitSchema.parse(req.body);
+      const includeArchived = req.query.includeArchived === "true";
+      
+      const habits = (await storage.getHabits(req.user!.id)).filter(
+        (habit) => includeArchived || !habit.archived
+      );
+      
+      res.json(await Promise.all(habits.map((habit) => habitStats(habit, req.user!.timezone))));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch habit stats" });
+    }
+  });
+  
+  app.get("/api/habits/:id/stats", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const habitId = Number(req.params.id);
+      if (isNaN(habitId)) {
+        return res.status(400).json({ message: "Invalid habit ID" });
+      }
+      
+      const habit = await findOwnedHabit(req.user!.id, habitId);
+      if (!habit) {
+        return res.status(404).json({ message: "Habit not found" });
+      }
+      
+      res.json(await habitStats(habit, req.user!.timezone));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch habit stats" });
+    }
+  });
+  
+  app.post("/api/habits", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const habitData = insertHabitSchema.parse({ ...req.body, userId: req.user!.id });
       const habit = await storage.createHabit(habitData);
       res.status(201).json(habit);
     } catch (error) {
@@ -180,25 +599,469 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/habits/:id/complete", async (req: Request, res: Response) => {
+  app.patch("/api/habits/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const habitId = Number(req.params.id);
+      if (isNaN(habitId)) {
+        return res.status(400).json({ message: "Invalid habit ID" });
+      }
+      
+      const updateData = insertHabitSchema.omit({ userId: true }).partial().parse(req.body);
+      
+      const habit = await findOwnedHabit(req.user!.id, habitId);
+      if (!habit) {
+        return res.status(404).json({ message: "Habit not found" });
+      }
+      
+      const updatedHabit = await storage.updateHabit(habitId, updateData);
+      res.json(updatedHabit);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update habit" });
+    }
+  });
+  
+  app.delete("/api/habits/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const habitId = Number(req.params.id);
+      if (isNaN(habitId)) {
+        return res.status(400).json({ message: "Invalid habit ID" });
+      }
+      
+      const habit = await findOwnedHabit(req.user!.id, habitId);
+      if (!habit) {
+        return res.status(404).json({ message: "Habit not found" });
+      }
+      
+      // Completions are removed along with the habit
+      await storage.deleteHabit(habitId);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete habit" });
+    }
+  });
+  
+  const checkInSchema = insertHabitCompletionSchema.omit({ habitId: true });
+  
+  app.post("/api/habits/:id/complete", requireAuth, async (req: Request, res: Response) => {
     try {
       const habitId = Number(req.params.id);
       if (isNaN(habitId)) {
         return res.status(400).json({ message: "Invalid habit ID" });
       }
       
-      const habit = await storage.getHabitById(habitId);
+      const habit = await findOwnedHabit(req.user!.id, habitId);
       if (!habit) {
         return res.status(404).json({ message: "Habit not found" });
       }
       
-      const completion = await storage.completeHabit({ habitId });
+      // Amounts are optional, each check-in adds up towards the habit's
+      // daily target and is recorded in the habit's unit unless told otherwise
+      const { quantity, unit } = checkInSchema.parse(req.body ?? {});
+      const completion = await storage.completeHabit({
+        habitId,
+        quantity: quantity ?? null,
+        unit: unit ?? (quantity != null ? habit.unit : null),
+      });
       res.status(201).json(completion);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
       res.status(500).json({ message: "Failed to complete habit" });
     }
   });
   
+  // Undo every completion recorded since the start of today in the user's timezone
+  app.delete("/api/habits/:id/completions/today", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const habitId = Number(req.params.id);
+      if (isNaN(habitId)) {
+        return res.status(400).json({ message: "Invalid habit ID" });
+      }
+      
+      const habit = await findOwnedHabit(req.user!.id, habitId);
+      if (!habit) {
+        return res.status(404).json({ message: "Habit not found" });
+      }
+      
+      const removed = await storage.deleteHabitCompletionsSince(habitId, startOfDay(new Date(), req.user!.timezone));
+      res.json({ removed });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to undo habit completion" });
+    }
+  });
+  
+  app.delete("/api/habits/:id/completions/:completionId", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const habitId = Number(req.params.id);
+      const completionId = Number(req.params.completionId);
+      if (isNaN(habitId) || isNaN(completionId)) {
+        return res.status(400).json({ message: "Invalid habit or completion ID" });
+      }
+      
+      const habit = await findOwnedHabit(req.user!.id, habitId);
+      const completion = await storage.getHabitCompletionById(completionId);
+      if (!habit || !completion || completion.habitId !== habitId) {
+        return res.status(404).json({ message: "Habit completion not found" });
+      }
+      
+      await storage.deleteHabitCompletion(completionId);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete habit completion" });
+    }
+  });
+  
+  // Goal routes. Goals are returned with their steps, linked habits and the
+  // progress computed from those habits' completions.
+  const goalHabitsSchema = z.array(insertGoalHabitSchema.omit({ goalId: true })).max(10);
+  
+  app.get("/api/goals", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const goals = await storage.getGoals(req.user!.id);
+      res.json(await Promise.all(goals.map((goal) => withDetails(goal, req.user!.timezone))));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch goals" });
+    }
+  });
+  
+  // Creates the goal and, when given, its action plan and habit links
+  app.post("/api/goals", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { plan, habits, ...body } = req.body ?? {};
+      const goalData = insertGoalSchema.omit({ completed: true, completedAt: true }).parse({ ...body, userId: req.user!.id });
+      const goalPlan = plan === undefined ? undefined : goalPlanSchema.parse(plan);
+      const habitLinks = habits === undefined ? [] : goalHabitsSchema.parse(habits);
+      
+      if ((await findForeignHabits(req.user!.id, habitLinks)).length > 0) {
+        return res.status(404).json({ message: "Habit not found" });
+      }
+      
+      const goal = await storage.createGoal(goalData);
+      await storage.replaceGoalHabits(goal.id, habitLinks.map((link) => ({ ...link, goalId: goal.id })));
+      res.status(201).json(goalPlan ? await saveGoalPlan(goal, goalPlan, req.user!.timezone) : await withDetails(goal, req.user!.timezone));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create goal" });
+    }
+  });
+  
+  // A `plan` in the body replaces the goal's steps, tips and estimate,
+  // `habits` replaces its habit links
+  app.patch("/api/goals/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const goalId = Number(req.params.id);
+      if (isNaN(goalId)) {
+        return res.status(400).json({ message: "Invalid goal ID" });
+      }
+      
+      const { plan, habits, ...body } = req.body ?? {};
+      const updateData = insertGoalSchema.omit({ userId: true, completed: true, completedAt: true }).partial().parse(body);
+      const goalPlan = plan === undefined ? undefined : goalPlanSchema.parse(plan);
+      const habitLinks = habits === undefined ? undefined : goalHabitsSchema.parse(habits);
+      
+      const goal = await findOwnedGoal(req.user!.id, goalId);
+      if (!goal) {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+      
+      if (habitLinks) {
+        if ((await findForeignHabits(req.user!.id, habitLinks)).length > 0) {
+          return res.status(404).json({ message: "Habit not found" });
+        }
+        await storage.replaceGoalHabits(goalId, habitLinks.map((link) => ({ ...link, goalId })));
+      }
+      
+      const updatedGoal = await storage.updateGoal(goalId, updateData) ?? goal;
+      res.json(goalPlan ? await saveGoalPlan(updatedGoal, goalPlan, req.user!.timezone) : await withDetails(updatedGoal, req.user!.timezone));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update goal" });
+    }
+  });
+  
+  // Generates the goal's action plan with the AI backend. "replace" starts
+  // over, "refine" keeps the completed steps and plans what remains, taking
+  // the user's feedback into account.
+  app.post("/api/goals/:id/plan", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const goalId = Number(req.params.id);
+      if (isNaN(goalId)) {
+        return res.status(400).json({ message: "Invalid goal ID" });
+      }
+      
+      const schema = z.object({
+        mode: z.enum(["replace", "refine"]).default("replace"),
+        feedback: z.string().trim().max(1000).optional()
+      });
+      const { mode, feedback } = schema.parse(req.body ?? {});
+      
+      const goal = await findOwnedGoal(req.user!.id, goalId);
+      if (!goal) {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+      
+      const kept = mode === "refine"
+        ? (await storage.getGoalSteps(goalId)).filter((step) => step.completed)
+        : [];
+      const { plan, fallback } = await generateGoalPlan(goal, {
+        completedSteps: kept.map((step) => step.description),
+        feedback: feedback || undefined
+      });
+      
+      const updatedGoal = await saveGoalPlan(goal, {
+        ...plan,
+        steps: [
+          ...kept.map(({ description, targetDate }) => ({ description, targetDate, completed: true })),
+          ...plan.steps
+        ]
+      }, req.user!.timezone);
+      res.json({ ...updatedGoal, fallback });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      res.status(500).json({ message: "Failed to generate goal plan" });
+    }
+  });
+  
+  app.delete("/api/goals/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const goalId = Number(req.params.id);
+      if (isNaN(goalId)) {
+        return res.status(400).json({ message: "Invalid goal ID" });
+      }
+      
+      const goal = await findOwnedGoal(req.user!.id, goalId);
+      if (!goal) {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+      
+      // Steps are removed along with the goal
+      await storage.deleteGoal(goalId);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete goal" });
+    }
+  });
+  
+  app.post("/api/goals/:id/complete", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const goalId = Number(req.params.id);
+      if (isNaN(goalId)) {
+        return res.status(400).json({ message: "Invalid goal ID" });
+      }
+      
+      const goal = await findOwnedGoal(req.user!.id, goalId);
+      if (!goal) {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+      
+      // Completing twice keeps the first completion date
+      const updatedGoal = goal.completed
+        ? goal
+        : await storage.updateGoal(goalId, { completed: true, completedAt: new Date() }) ?? goal;
+      res.json(await withDetails(updatedGoal, req.user!.timezone));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to complete goal" });
+    }
+  });
+  
+  // Reopens a completed goal
+  app.delete("/api/goals/:id/complete", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const goalId = Number(req.params.id);
+      if (isNaN(goalId)) {
+        return res.status(400).json({ message: "Invalid goal ID" });
+      }
+      
+      const goal = await findOwnedGoal(req.user!.id, goalId);
+      if (!goal) {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+      
+      const updatedGoal = await storage.updateGoal(goalId, { completed: false, completedAt: null }) ?? goal;
+      res.json(await withDetails(updatedGoal, req.user!.timezone));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reopen goal" });
+    }
+  });
+  
+  app.post("/api/goals/:id/steps/:stepId/toggle", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const goalId = Number(req.params.id);
+      const stepId = Number(req.params.stepId);
+      if (isNaN(goalId) || isNaN(stepId)) {
+        return res.status(400).json({ message: "Invalid goal or step ID" });
+      }
+      
+      const goal = await findOwnedGoal(req.user!.id, goalId);
+      const step = await storage.getGoalStepById(stepId);
+      if (!goal || !step || step.goalId !== goalId) {
+        return res.status(404).json({ message: "Goal step not found" });
+      }
+      
+      const updatedStep = await storage.updateGoalStep(stepId, { completed: !step.completed });
+      res.json(updatedStep);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update goal step" });
+    }
+  });
+  
+  // Reminder routes. Reminders go out as push notifications at their time in
+  // the user's timezone, see ./reminders.
+  app.get("/api/reminders", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const reminders = await storage.getReminders(req.user!.id);
+      res.json(reminders);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch reminders" });
+    }
+  });
+  
+  app.post("/api/reminders", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const reminderData = insertReminderSchema.parse({ ...req.body, userId: req.user!.id });
+      
+      if (reminderData.type === "habit") {
+        if (reminderData.habitId == null) {
+          return res.status(400).json({ message: "Habit reminders need a habitId" });
+        }
+        if (!(await findOwnedHabit(req.user!.id, reminderData.habitId))) {
+          return res.status(404).json({ message: "Habit not found" });
+        }
+      }
+      
+      const reminder = await storage.createReminder({
+        ...reminderData,
+        habitId: reminderData.type === "habit" ? reminderData.habitId : null,
+      });
+      res.status(201).json(reminder);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create reminder" });
+    }
+  });
+  
+  // Only the time and whether it's on can change
+  app.patch("/api/reminders/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const reminderId = Number(req.params.id);
+      if (isNaN(reminderId)) {
+        return res.status(400).json({ message: "Invalid reminder ID" });
+      }
+      
+      const updateData = insertReminderSchema.pick({ time: true, enabled: true }).partial().parse(req.body);
+      
+      const reminder = await findOwnedReminder(req.user!.id, reminderId);
+      if (!reminder) {
+        return res.status(404).json({ message: "Reminder not found" });
+      }
+      
+      const updatedReminder = await storage.updateReminder(reminderId, updateData);
+      res.json(updatedReminder);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update reminder" });
+    }
+  });
+  
+  app.delete("/api/reminders/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const reminderId = Number(req.params.id);
+      if (isNaN(reminderId)) {
+        return res.status(400).json({ message: "Invalid reminder ID" });
+      }
+      
+      const reminder = await findOwnedReminder(req.user!.id, reminderId);
+      if (!reminder) {
+        return res.status(404).json({ message: "Reminder not found" });
+      }
+      
+      await storage.deleteReminder(reminderId);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete reminder" });
+    }
+  });
+  
+  // Push notification routes. The public key is null when the server has no
+  // VAPID keys, the client then doesn't offer notifications.
+  app.get("/api/push/public-key", requireAuth, (req: Request, res: Response) => {
+    res.json({ publicKey: pushTransport.publicKey });
+  });
+  
+  // Takes the browser's PushSubscription as JSON
+  const pushSubscriptionSchema = z.object({
+    endpoint: z.string(),
+    keys: z.object({ p256dh: z.string(), auth: z.string() }),
+  });
+  
+  app.post("/api/push/subscriptions", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { endpoint, keys } = pushSubscriptionSchema.parse(req.body);
+      const subscriptionData = insertPushSubscriptionSchema.parse({
+        userId: req.user!.id,
+        endpoint,
+        p256dh: keys.p256dh,
+        auth: keys.auth,
+      });
+      
+      const subscription = await storage.savePushSubscription(subscriptionData);
+      res.status(201).json(subscription);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save push subscription" });
+    }
+  });
+  
+  app.delete("/api/push/subscriptions", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { endpoint } = pushSubscriptionSchema.pick({ endpoint: true }).parse(req.body);
+      
+      const subscriptions = await storage.getPushSubscriptions(req.user!.id);
+      if (!subscriptions.some((subscription) => subscription.endpoint === endpoint)) {
+        return res.status(404).json({ message: "Push subscription not found" });
+      }
+      
+      await storage.deletePushSubscription(endpoint);
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      res.status(500).json({ message: "Failed to delete push subscription" });
+    }
+  });
+  
+  // Sends a notification to every device of the user right away
+  app.post("/api/push/test", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const delivered = await notifyUser(req.user!.id, {
+        title: "Notifications are on",
+        body: "This is how your reminders will look.",
+        url: "/profile",
+        tag: "test",
+      });
+      res.json({ delivered });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to send test notification" });
+    }
+  });
+  
   // Thought pattern routes
   app.get("/api/thought-patterns", async (_req: Request, res: Response) => {
     try {
@@ -255,7 +1118,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/meditations/:id/complete", async (req: Request, res: Response) => {
+  app.post("/api/meditations/:id/complete", requireAuth, async (req: Request, res: Response) => {
     try {
       const meditationId = Number(req.params.id);
       if (isNaN(meditationId)) {
@@ -263,7 +1126,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const completionData = insertMeditationCompletionSchema.parse({
-        ...req.body,
+        userId: req.user!.id,
         meditationId
       });
       
@@ -283,7 +1146,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // AI assistance for CBT
-  app.post("/api/cbt/analyze", async (req: Request, res: Response) => {
+  app.post("/api/cbt/analyze", requireAuth, async (req: Request, res: Response) => {
     try {
       const schema = z.object({
         situation: z.string(),
@@ -293,16 +1156,294 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const { situation, emotion, thought } = schema.parse(req.body);
       
+      // Reframing someone's crisis as a thinking error would be harmful, a
+      // crisis only gets the resources. A concern still gets its analysis.
+      const safety = await screenText([situation, emotion, thought]);
+      const resources = safety.flagged ? getCrisisResources(safety.language ?? undefined) : undefined;
+      if (safety.flagged) {
+        await recordSafetyFlag(req.user!.id, "cbt", safety);
+      }
+      if (safety.level === "crisis") {
+        return res.json({ safety, resources });
+      }
+      
       const aiResponse = await generateCBTResponse(situation, emotion, thought);
       
-      res.json(aiResponse);
+      res.json({ ...aiResponse, safety, resources });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors });
       }
+      if (error instanceof AIResponseError) {
+        return res.status(502).json({ message: error.message, code: error.code });
+      }
       res.status(500).json({ message: "Failed to generate AI response" });
     }
   });
 
+  // Copilot conversation routes
+  app.get("/api/conversations", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const conversations = await storage.getConversations(req.user!.id);
+      res.json(conversations);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch conversations" });
+    }
+  });
+  
+  app.post("/api/conversations", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const conversationData = insertConversationSchema.parse({ ...req.body, userId: req.user!.id });
+      const conversation = await storage.createConversation(conversationData);
+      res.status(201).json(conversation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create conversation" });
+    }
+  });
+  
+  // The conversation with its messages, oldest first
+  app.get("/api/conversations/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const id = Number(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid conversation ID" });
+      }
+      
+      const conversation = await findOwnedConversation(req.user!.id, id);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      
+      const messages = await storage.getConversationMessages(id);
+      res.json({ ...conversation, messages });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch conversation" });
+    }
+  });
+  
+  app.patch("/api/conversations/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const id = Number(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid conversation ID" });
+      }
+      
+      const updateData = insertConversationSchema.omit({ userId: true }).partial().parse(req.body);
+      
+      const conversation = await findOwnedConversation(req.user!.id, id);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      
+      const updatedConversation = await storage.updateConversation(id, updateData);
+      res.json(updatedConversation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update conversation" });
+    }
+  });
+  
+  // Appends messages and optionally saves the CBT exercise state in one call,
+  // so the stored step never gets ahead of or behind the stored messages
+  app.post("/api/conversations/:id/messages", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const id = Number(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid conversation ID" });
+      }
+      
+      const schema = z.object({
+        messages: z.array(insertConversationMessageSchema.omit({ conversationId: true })).min(1),
+        cbtSession: copilotCbtSessionSchema.nullable().optional()
+      });
+      const { messages, cbtSession } = schema.parse(req.body);
+      
+      const conversation = await findOwnedConversation(req.user!.id, id);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      
+      const updatedConversation = await appendToConversation(conversation, messages, cbtSession);
+      res.status(201).json(updatedConversation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save messages" });
+    }
+  });
+  
+  app.delete("/api/conversations/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const id = Number(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid conversation ID" });
+      }
+      
+      const conversation = await findOwnedConversation(req.user!.id, id);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      
+      await storage.deleteConversation(id);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete conversation" });
+    }
+  });
+  
+  // Copilot chat: answers the user's message within a conversation, with the
+  // conversation history and a digest of their recent activity as context
+  const copilotChatSchema = z.object({
+    conversationId: z.number().int(),
+    message: z.string().trim().min(1).max(2000)
+  });
+  
+  app.post("/api/copilot/chat", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { conversationId, message } = copilotChatSchema.parse(req.body);
+      
+      const conversation = await findOwnedConversation(req.user!.id, conversationId);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      
+      // As for CBT analysis, a crisis gets the support message instead of a
+      // reply and a concern gets its reply along with the resources
+      const safety = await screenText([message]);
+      const resources = safety.flagged ? getCrisisResources(safety.language ?? undefined) : undefined;
+      if (safety.level === "crisis") {
+        const result = await appendToConversation(conversation, [
+          { sender: "user", text: message },
+          { sender: "ai", text: crisisSupportMessage(safety), actions: [] }
+        ]);
+        await recordSafetyFlag(req.user!.id, "copilot", safety, result.messages[0].id);
+        return res.status(201).json({ ...result, safety, resources });
+      }
+      
+      const input = await buildCopilotChatInput(conversation, req.user!, message);
+      const { reply, actions } = await generateCopilotReply(input);
+      
+      const result = await appendToConversation(conversation, [
+        { sender: "user", text: message },
+        { sender: "ai", text: reply, actions }
+      ]);
+      await recordSafetyFlag(req.user!.id, "copilot", safety, result.messages[0].id);
+      res.status(201).json({ ...result, safety, resources });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      if (error instanceof AIResponseError) {
+        return res.status(502).json({ message: error.message, code: error.code });
+      }
+      res.status(500).json({ message: "Failed to generate copilot reply" });
+    }
+  });
+  
+  // Same as /api/copilot/chat, streamed as server-sent events: "delta" events
+  // carry reply text as it is generated, then "done" carries what /api/copilot/chat
+  // returns, or "error" a message and code. Closing the connection cancels the
+  // generation; the user message and any partial reply are still saved.
+  app.post("/api/copilot/chat/stream", requireAuth, async (req: Request, res: Response) => {
+    let conversationId: number;
+    let message: string;
+    try {
+      ({ conversationId, message } = copilotChatSchema.parse(req.body));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      return res.status(500).json({ message: "Failed to generate copilot reply" });
+    }
+    
+    const conversation = await findOwnedConversation(req.user!.id, conversationId).catch(() => undefined);
+    if (!conversation) {
+      return res.status(404).json({ message: "Conversation not found" });
+    }
+    
+    const abort = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) abort.abort();
+    });
+    
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive"
+    });
+    const send = (event: string, data: unknown) => {
+      if (!abort.signal.aborted) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+    
+    let partial = "";
+    try {
+      const safety = await screenText([message]);
+      const resources = safety.flagged ? getCrisisResources(safety.language ?? undefined) : undefined;
+      if (safety.level === "crisis") {
+        const reply = crisisSupportMessage(safety);
+        send("delta", { text: reply });
+        const result = await appendToConversation(conversation, [
+          { sender: "user", text: message },
+          { sender: "ai", text: reply, actions: [] }
+        ]);
+        await recordSafetyFlag(req.user!.id, "copilot", safety, result.messages[0].id);
+        send("done", { ...result, safety, resources });
+        return res.end();
+      }
+      
+      const input = await buildCopilotChatInput(conversation, req.user!, message);
+      const { reply, actions } = await streamCopilotReply(input, (text) => {
+        partial += text;
+        send("delta", { text });
+      }, abort.signal);
+      
+      const result = await appendToConversation(conversation, [
+        { sender: "user", text: message },
+        { sender: "ai", text: reply, actions }
+      ]);
+      await recordSafetyFlag(req.user!.id, "copilot", safety, result.messages[0].id);
+      send("done", { ...result, safety, resources });
+      res.end();
+    } catch (error) {
+      if (abort.signal.aborted) {
+        // Keep the conversation coherent with what the user saw before closing
+        await appendToConversation(conversation, [
+          { sender: "user", text: message },
+          ...(partial.trim() ? [{ sender: "ai" as const, text: partial.trim(), actions: [] }] : [])
+        ]).catch((saveError) => console.error("Failed to save cancelled copilot turn:", saveError));
+        return;
+      }
+      
+      if (error instanceof AIResponseError) {
+        send("error", { message: error.message, code: error.code });
+      } else {
+        send("error", { message: "Failed to generate copilot reply" });
+      }
+      res.end();
+    }
+  });
+  
+  // Safety routes
+  // Public so the crisis panel still loads if the session has expired
+  app.get("/api/safety/resources", (req: Request, res: Response) => {
+    const language = typeof req.query.lang === "string" ? req.query.lang : undefined;
+    res.json(getCrisisResources(language));
+  });
+  
+  app.get("/api/safety/flags", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const flags = await storage.getSafetyFlags(req.user!.id);
+      res.json(flags);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch safety flags" });
+    }
+  });
+
   return httpServer;
 }
@@ -0,0 +1,109 @@
+import type { InsertThoughtPattern, InsertMeditation, InsertMoodScale } from "@shared/schema";
+
+// Default thought patterns shared by every storage backend
+export const thoughtPatternSeeds: InsertThoughtPattern[] = [
+  {
+    name: "Catastrophizing",
+    description: "Believing something is far worse than it actually is",
+    examples: [
+      "If I fail this test, my whole future is ruined",
+      "My heart is racing, I must be having a heart attack"
+    ],
+    reframeStrategies: [
+      "Consider the actual likelihood of the worst-case scenario",
+      "Ask yourself what a friend would say about this situation",
+      "Focus on what you can control rather than what you can't"
+    ]
+  },
+  {
+    name: "Mind Reading",
+    description: "Assuming you know what others are thinking without evidence",
+    examples: [
+      "She didn't respond to my text, she must be mad at me",
+      "Everyone at the party thinks I'm boring"
+    ],
+    reframeStrategies: [
+      "Challenge the assumption by seeking evidence",
+      "Consider alternative explanations for the behavior",
+      "Ask directly instead of assuming"
+    ]
+  },
+  {
+    name: "Black & White Thinking",
+    description: "Seeing things in absolute, all-or-nothing terms",
+    examples: [
+      "Either I do this perfectly or I'm a complete failure",
+      "If you're not with me, you're against me"
+    ],
+    reframeStrategies: [
+      "Look for the gray areas and middle ground",
+      "Use a scale from 0-100 instead of all-or-nothing",
+      "Accept that most things exist on a spectrum"
+    ]
+  },
+  {
+    name: "Emotional Reasoning",
+    description: "Believing that what you feel must be true",
+    examples: [
+      "I feel stupid, so I must be stupid",
+      "I feel like a burden, so I must be bothering everyone"
+    ],
+    reframeStrategies: [
+      "Identify the emotion and separate it from facts",
+      "Ask what evidence exists beyond the feeling",
+      "Consider how you'd evaluate the situation without the emotion"
+    ]
+  }
+];
+
+// Default meditation sessions shared by every storage backend
+export const meditationSeeds: InsertMeditation[] = [
+  {
+    title: "Sleep Well",
+    description: "A gentle meditation to help you drift into restful sleep",
+    duration: 300, // 5 minutes
+    category: "Sleep",
+    audioUrl: null
+  },
+  {
+    title: "Anxiety Relief",
+    description: "Calm your mind and reduce anxiety with this short practice",
+    duration: 180, // 3 minutes
+    category: "Anxiety",
+    audioUrl: null
+  },
+  {
+    title: "Morning Focus",
+    description: "Start your day with clarity and intention",
+    duration: 240, // 4 minutes
+    category: "Focus",
+    audioUrl: null
+  },
+  {
+    title: "Gratitude Practice",
+    description: "Cultivate appreciation for the good in your life",
+    duration: 300, // 5 minutes
+    category: "Gratitude",
+    audioUrl: null
+  }
+];
+
+// Mood scale given to new users, who can then rename, recolor or replace
+// any of it. The levels are the labels the mood chart always showed.
+export const moodScaleSeed: Omit<InsertMoodScale, "userId"> = {
+  levels: ["Très bas", "Bas", "Neutre", "Bon", "Excellent"],
+  emotions: [
+    { name: "Joyful", emoji: "😄", valence: 2, color: "#facc15" },
+    { name: "Grateful", emoji: "🙏", valence: 2, color: "#f97316" },
+    { name: "Calm", emoji: "😌", valence: 1, color: "#22c55e" },
+    { name: "Hopeful", emoji: "🌱", valence: 1, color: "#84cc16" },
+    { name: "Proud", emoji: "😊", valence: 1, color: "#06b6d4" },
+    { name: "Tired", emoji: "😴", valence: -1, color: "#94a3b8" },
+    { name: "Bored", emoji: "😐", valence: -1, color: "#a8a29e" },
+    { name: "Anxious", emoji: "😰", valence: -1, color: "#a855f7" },
+    { name: "Irritated", emoji: "😤", valence: -1, color: "#fb7185" },
+    { name: "Lonely", emoji: "🥺", valence: -2, color: "#6366f1" },
+    { name: "Sad", emoji: "😢", valence: -2, color: "#3b82f6" },
+    { name: "Angry", emoji: "😠", valence: -2, color: "#ef4444" },
+  ],
+};
@@ -0,0 +1,240 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { PGlite, type QueryOptions, type Results } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { createRequire } from "module";
+import session from "express-session";
+import * as schema from "@shared/schema";
+import { MemStorage, type IStorage } from "./storage";
+import { DrizzleStorage } from "./db-storage";
+
+// The ESM build of drizzle-kit/api can't load its bundled CommonJS dependencies
+const { generateDrizzleJson, generateMigration }: typeof import("drizzle-kit/api") =
+  createRequire(import.meta.url)("drizzle-kit/api");
+
+// DrizzleStorage over an in-process Postgres, with the tables created from
+// the shared schema as `drizzle-kit push` would
+async function createPgliteStorage(client = new PGlite()): Promise<IStorage> {
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+  const storage = new DrizzleStorage(drizzle(client, { schema }), new session.MemoryStore());
+  await storage.seed();
+  return storage;
+}
+
+// The same contract holds for both implementations
+describe.each([
+  ["MemStorage", async () => new MemStorage() as IStorage],
+  ["DrizzleStorage", createPgliteStorage],
+])("%s", (_name, createStorage) => {
+  let storage: IStorage;
+  let userId: number;
+  let otherUserId: number;
+
+  beforeAll(async () => {
+    storage = await createStorage();
+    userId = (await storage.createUser({ username: "alex", password: "hash", name: "Alex" })).id;
+    otherUserId = (await storage.createUser({ username: "sam", password: "hash", name: null })).id;
+  }, 30000);
+
+  it("stores users and finds them by username", async () => {
+    const user = await storage.getUserByUsername("alex");
+    expect(user).toMatchObject({ id: userId, name: "Alex", timezone: "UTC" });
+    expect(await storage.getUserByUsername("nobody")).toBeUndefined();
+
+    const updated = await storage.updateUser(userId, { timezone: "Europe/Paris" });
+    expect(updated?.timezone).toBe("Europe/Paris");
+    expect((await storage.getUser(userId))?.timezone).toBe("Europe/Paris");
+  });
+
+  it("seeds the thought patterns and meditations", async () => {
+    expect((await storage.getThoughtPatterns()).length).toBeGreaterThan(0);
+    expect((await storage.getMeditations()).length).toBeGreaterThan(0);
+  });
+
+  it("creates, updates and deletes moods", async () => {
+    const mood = await storage.createMood({ userId, emoji: "🙂", label: "Bon", intensity: 4, note: "Fine day", tags: ["work"] });
+    expect(mood).toMatchObject({ intensity: 4, note: "Fine day", tags: ["work"], emotions: [], energy: null });
+
+    const updated = await storage.updateMood(mood.id, { note: "Better day" });
+    expect(updated?.note).toBe("Better day");
+    expect(updated?.intensity).toBe(4);
+    expect((await storage.getMoods(userId)).map((entry) => entry.id)).toEqual([mood.id]);
+    expect(await storage.getMoods(otherUserId)).toEqual([]);
+
+    expect(await storage.deleteMood(mood.id)).toBe(true);
+    expect(await storage.deleteMood(mood.id)).toBe(false);
+    expect(await storage.getMoodById(mood.id)).toBeUndefined();
+  });
+
+  it("replaces the mood scale of a user", async () => {
+    const levels = ["Low", "Okay", "Good"];
+    const emotions = [{ name: "Calm", emoji: "😌", valence: 1, color: "#22c55e" }];
+    await storage.saveMoodScale({ userId, levels, emotions });
+    await storage.saveMoodScale({ userId, levels: [...levels, "Great"], emotions });
+    expect((await storage.getMoodScale(userId))?.levels).toEqual(["Low", "Okay", "Good", "Great"]);
+    expect(await storage.getMoodScale(otherUserId)).toBeUndefined();
+  });
+
+  it("searches journal entries and pages through them newest first", async () => {
+    const first = await storage.createJournalEntry({ userId, situation: "Team meeting", emotion: "Anxious", thought: "I will fail", tags: ["work"] });
+    const second = await storage.createJournalEntry({ userId, situation: "Dinner", emotion: "Calm", thought: "Nice evening", thoughtPatternIds: [1] });
+    await storage.createJournalEntry({ userId: otherUserId, situation: "Team meeting", emotion: "Calm", thought: "Fine" });
+
+    expect((await storage.searchJournalEntries(userId, { limit: 10 })).map((entry) => entry.id)).toEqual([second.id, first.id]);
+    expect((await storage.searchJournalEntries(userId, { limit: 1, before: { createdAt: new Date(second.createdAt), id: second.id } })).map((entry) => entry.id)).toEqual([first.id]);
+    expect((await storage.searchJournalEntries(userId, { text: "meet", limit: 10 })).map((entry) => entry.id)).toEqual([first.id]);
+    expect((await storage.searchJournalEntries(userId, { tags: ["work"], limit: 10 })).map((entry) => entry.id)).toEqual([first.id]);
+    expect((await storage.searchJournalEntries(userId, { thoughtPatternId: 1, limit: 10 })).map((entry) => entry.id)).toEqual([second.id]);
+    expect((await storage.searchJournalEntries(userId, { emotion: "anx", limit: 10 })).map((entry) => entry.id)).toEqual([first.id]);
+    expect(await storage.countJournalEntries(userId, {})).toBe(2);
+    expect(await storage.getJournalTags(userId)).toEqual(["work"]);
+  });
+
+  it("keeps one journal draft per user out of the listings until it is completed", async () => {
+    const draft = await storage.saveJournalDraft(userId, { situation: "Exam tomorrow" });
+    const sameDraft = await storage.saveJournalDraft(userId, { emotion: "Worried", tags: ["school"] });
+    expect(sameDraft).toMatchObject({ id: draft.id, status: "draft", situation: "Exam tomorrow", emotion: "Worried" });
+    expect(await storage.countJournalEntries(userId, {})).toBe(2);
+    expect(await storage.getJournalTags(userId)).toEqual(["work"]);
+    expect(await storage.getJournalDraft(otherUserId)).toBeUndefined();
+
+    await storage.saveJournalDraft(userId, { thought: "I'll blank out" });
+    const entry = await storage.completeJournalDraft(userId);
+    expect(entry).toMatchObject({ id: draft.id, status: "complete", thought: "I'll blank out" });
+    expect(await storage.getJournalDraft(userId)).toBeUndefined();
+    // Finishing it makes it the newest entry, though its id is older
+    expect((await storage.searchJournalEntries(userId, { limit: 1 }))[0].id).toBe(draft.id);
+
+    await storage.saveJournalDraft(userId, { situation: "Discarded" });
+    expect(await storage.deleteJournalDraft(userId)).toBe(true);
+    expect(await storage.deleteJournalDraft(userId)).toBe(false);
+  });
+
+  it("merges journal drafts saved at the same time", async () => {
+    // The journal wizard and the copilot autosaving together
+    const [fromWizard, fromCopilot] = await Promise.all([
+      storage.saveJournalDraft(otherUserId, { situation: "Job interview" }),
+      storage.saveJournalDraft(otherUserId, { emotion: "Nervous" }),
+    ]);
+    expect(fromCopilot.id).toBe(fromWizard.id);
+    expect(await storage.getJournalDraft(otherUserId)).toMatchObject({ situation: "Job interview", emotion: "Nervous" });
+    expect(await storage.deleteJournalDraft(otherUserId)).toBe(true);
+  });
+
+  it("records habit completions and removes them with the habit", async () => {
+    const habit = await storage.createHabit({ userId, name: "Water", icon: "ri-drop-line", unit: "glasses", dailyTarget: 8 });
+    expect(habit).toMatchObject({ schedule: { type: "daily" }, unit: "glasses", dailyTarget: 8, archived: false });
+
+    const morning = await storage.completeHabit({ habitId: habit.id, quantity: 3, unit: "glasses" });
+    await storage.completeHabit({ habitId: habit.id, quantity: 5, unit: "glasses" });
+    expect((await storage.getHabitCompletions(habit.id)).map((completion) => completion.quantity).sort()).toEqual([3, 5]);
+
+    expect(await storage.deleteHabitCompletion(morning.id)).toBe(true);
+    expect(await storage.deleteHabitCompletionsSince(habit.id, new Date(0))).toBe(1);
+    await storage.completeHabit({ habitId: habit.id, quantity: 1, unit: null });
+
+    expect(await storage.deleteHabit(habit.id)).toBe(true);
+    expect(await storage.getHabitCompletions(habit.id)).toEqual([]);
+  });
+
+  it("replaces goal steps and habit links", async () => {
+    const habit = await storage.createHabit({ userId, name: "Walk", icon: "ri-walk-line" });
+    const goal = await storage.createGoal({ userId, title: "Move more", description: "", deadline: new Date("2030-01-01") });
+    await storage.replaceGoalSteps(goal.id, [
+      { goalId: goal.id, description: "Buy shoes", position: 0 },
+      { goalId: goal.id, description: "First walk", position: 1 },
+    ]);
+    await storage.replaceGoalSteps(goal.id, [{ goalId: goal.id, description: "Walk daily", position: 0 }]);
+    expect((await storage.getGoalSteps(goal.id)).map((step) => step.description)).toEqual(["Walk daily"]);
+
+    await storage.replaceGoalHabits(goal.id, [{ goalId: goal.id, habitId: habit.id, targetCompletions: 20 }]);
+    expect(await storage.getGoalHabits(goal.id)).toMatchObject([{ habitId: habit.id, targetCompletions: 20 }]);
+
+    expect(await storage.deleteGoal(goal.id)).toBe(true);
+    expect(await storage.getGoalSteps(goal.id)).toEqual([]);
+    expect(await storage.getGoalHabits(goal.id)).toEqual([]);
+  });
+
+  it("keeps conversation messages in order and bumps the conversation", async () => {
+    const conversation = await storage.createConversation({ userId, title: null });
+    await storage.addConversationMessages([
+      { conversationId: conversation.id, sender: "user", text: "Hello" },
+      { conversationId: conversation.id, sender: "ai", text: "Hi!" },
+    ]);
+    expect((await storage.getConversationMessages(conversation.id)).map((message) => message.text)).toEqual(["Hello", "Hi!"]);
+
+    const updated = await storage.updateConversation(conversation.id, {});
+    expect(new Date(updated!.updatedAt).getTime()).toBeGreaterThanOrEqual(new Date(conversation.updatedAt).getTime());
+
+    expect(await storage.deleteConversation(conversation.id)).toBe(true);
+    expect(await storage.getConversationMessages(conversation.id)).toEqual([]);
+  });
+
+  it("lists enabled reminders and records when they were sent", async () => {
+    const reminder = await storage.createReminder({ userId, type: "mood", time: "08:00" });
+    await storage.createReminder({ userId, type: "mood", time: "20:00", enabled: false });
+    expect((await storage.getEnabledReminders()).map((entry) => entry.id)).toEqual([reminder.id]);
+
+    await storage.markReminderSent(reminder.id, "2026-03-29");
+    expect((await storage.getReminderById(reminder.id))?.lastSentOn).toBe("2026-03-29");
+  });
+
+  it("replaces push subscriptions with the same endpoint", async () => {
+    const keys = { p256dh: "key", auth: "secret" };
+    await storage.savePushSubscription({ userId, endpoint: "https://push.example/1", ...keys });
+    await storage.savePushSubscription({ userId: otherUserId, endpoint: "https://push.example/1", ...keys });
+    expect(await storage.getPushSubscriptions(userId)).toEqual([]);
+    expect(await storage.getPushSubscriptions(otherUserId)).toHaveLength(1);
+    expect(await storage.deletePushSubscription("https://push.example/1")).toBe(true);
+  });
+});
+
+// node-postgres, and neon over it, send a Date as local time with its offset
+// where pglite sends it in UTC
+class LocalDatesPGlite extends PGlite {
+  override query<T>(query: string, params?: unknown[], options?: QueryOptions): Promise<Results<T>> {
+    return super.query<T>(query, params?.map((value) => value instanceof Date ? localTimestamp(value) : value), options);
+  }
+}
+
+function localTimestamp(date: Date): string {
+  const pad = (value: number, length = 2) => String(Math.abs(value)).padStart(length, "0");
+  const offset = -date.getTimezoneOffset();
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}` +
+    `${offset < 0 ? "-" : "+"}${pad(Math.trunc(offset / 60))}:${pad(offset % 60)}`;
+}
+
+describe("DrizzleStorage outside UTC", () => {
+  const timeZone = process.env.TZ;
+
+  beforeAll(() => {
+    process.env.TZ = "America/New_York";
+  });
+
+  afterAll(() => {
+    if (timeZone === undefined) delete process.env.TZ;
+    else process.env.TZ = timeZone;
+  });
+
+  it("pages through journal entries with a cursor sent in local time", async () => {
+    const storage = await createPgliteStorage(new LocalDatesPGlite());
+    const userId = (await storage.createUser({ username: "alex", password: "hash", name: null })).id;
+    const created: number[] = [];
+    for (const situation of ["Monday", "Tuesday", "Wednesday"]) {
+      created.unshift((await storage.createJournalEntry({ userId, situation, emotion: "Calm", thought: "Fine" })).id);
+    }
+
+    const paged: number[] = [];
+    let before: { createdAt: Date; id: number } | undefined;
+    for (let page = 0; page < created.length + 1; page++) {
+      const [entry] = await storage.searchJournalEntries(userId, { limit: 1, before });
+      if (!entry) break;
+      paged.push(entry.id);
+      before = { createdAt: new Date(entry.createdAt), id: entry.id };
+    }
+    expect(paged).toEqual(created);
+  }, 30000);
+});
@@ -1,3 +1,6 @@
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
 import {
   users,
   moods,
@@ -11,43 +14,137 @@ import {
   type InsertUser,
   type Mood,
   type InsertMood,
+  type MoodScale,
+  type InsertMoodScale,
   type JournalEntry,
   type InsertJournalEntry,
+  type JournalDraft,
   type Habit,
   type InsertHabit,
   type HabitCompletion,
   type InsertHabitCompletion,
+  type Goal,
+  type InsertGoal,
+  type GoalStep,
+  type InsertGoalStep,
+  type GoalHabit,
+  type InsertGoalHabit,
   type ThoughtPattern,
   type InsertThoughtPattern,
   type Meditation,
   type InsertMeditation,
   type MeditationCompletion,
   type InsertMeditationCompletion,
+  type SafetyFlag,
+  type InsertSafetyFlag,
+  type Conversation,
+  type InsertConversation,
+  type ConversationMessage,
+  type InsertConversationMessage,
+  type Reminder,
+  type InsertReminder,
+  type PushSubscription,
+  type InsertPushSubscription,
+  type WeeklyDigest,
+  type InsertWeeklyDigest,
 } from "@shared/schema";
+import { createDatabase } from "./db";
+import { DrizzleStorage } from "./db-storage";
+import { thoughtPatternSeeds, meditationSeeds } from "./seed-data";
+import { searchWords } from "./lib/journal-search";
+
+const MemoryStore = createMemoryStore(session);
+
+// Filters of a journal search, entries must match all of them
+export interface JournalEntryFilters {
+  // Words found at the start of words of the situation, thought or reframe
+  text?: string;
+  // Entries carrying every one of these tags
+  tags?: string[];
+  from?: Date;
+  // Exclusive
+  to?: Date;
+  // Part of the emotion, case-insensitive
+  emotion?: string;
+  thoughtPatternId?: number;
+}
+
+export interface JournalEntryQuery extends JournalEntryFilters {
+  // Entries come newest first, by creation time then id. This is the last
+  // entry of the previous page, times compared to the millisecond.
+  before?: { createdAt: Date; id: number };
+  limit: number;
+}
 
 export interface IStorage {
+  // Session store used by express-session
+  sessionStore: session.Store;
+  
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined>;
   
   // Mood methods
   getMoods(userId: number): Promise<Mood[]>;
   getMoodById(id: number): Promise<Mood | undefined>;
   createMood(mood: InsertMood): Promise<Mood>;
+  updateMood(id: number, mood: Partial<InsertMood>): Promise<Mood | undefined>;
+  deleteMood(id: number): Promise<boolean>;
+  
+  // Mood scale methods
+  getMoodScale(userId: number): Promise<MoodScale | undefined>;
+  // Creates the user's scale or replaces the one they have
+  saveMoodScale(scale: InsertMoodScale): Promise<MoodScale>;
   
   // Journal methods
   getJournalEntries(userId: number): Promise<JournalEntry[]>;
+  searchJournalEntries(userId: number, query: JournalEntryQuery): Promise<JournalEntry[]>;
+  countJournalEntries(userId: number, filters: JournalEntryFilters): Promise<number>;
+  // Every tag the user put on an entry, sorted
+  getJournalTags(userId: number): Promise<string[]>;
   getJournalEntryById(id: number): Promise<JournalEntry | undefined>;
   createJournalEntry(entry: InsertJournalEntry): Promise<JournalEntry>;
   updateJournalEntry(id: number, entry: Partial<InsertJournalEntry>): Promise<JournalEntry | undefined>;
+  deleteJournalEntry(id: number): Promise<boolean>;
+  // The user's entry in progress. Drafts are left out of the listings,
+  // searches and tags above.
+  getJournalDraft(userId: number): Promise<JournalEntry | undefined>;
+  saveJournalDraft(userId: number, draft: JournalDraft): Promise<JournalEntry>;
+  completeJournalDraft(userId: number): Promise<JournalEntry | undefined>;
+  deleteJournalDraft(userId: number): Promise<boolean>;
   
   // Habit methods
   getHabits(userId: number): Promise<Habit[]>;
   getHabitById(id: number): Promise<Habit | undefined>;
   createHabit(habit: InsertHabit): Promise<Habit>;
+  updateHabit(id: number, habit: Partial<InsertHabit>): Promise<Habit | undefined>;
+  // Also removes every completion of the habit and its goal links
+  deleteHabit(id: number): Promise<boolean>;
   completeHabit(completion: InsertHabitCompletion): Promise<HabitCompletion>;
   getHabitCompletions(habitId: number): Promise<HabitCompletion[]>;
+  getHabitCompletionById(id: number): Promise<HabitCompletion | undefined>;
+  deleteHabitCompletion(id: number): Promise<boolean>;
+  // Removes the habit's completions recorded at or after `since`, returns how many
+  deleteHabitCompletionsSince(habitId: number, since: Date): Promise<number>;
+  
+  // Goal methods
+  getGoals(userId: number): Promise<Goal[]>;
+  getGoalById(id: number): Promise<Goal | undefined>;
+  createGoal(goal: InsertGoal): Promise<Goal>;
+  updateGoal(id: number, goal: Partial<InsertGoal>): Promise<Goal | undefined>;
+  // Also removes every step and habit link of the goal
+  deleteGoal(id: number): Promise<boolean>;
+  // Ordered by position
+  getGoalSteps(goalId: number): Promise<GoalStep[]>;
+  getGoalStepById(id: number): Promise<GoalStep | undefined>;
+  updateGoalStep(id: number, step: Partial<InsertGoalStep>): Promise<GoalStep | undefined>;
+  // Replaces every step of the goal, e.g. with a newly generated plan
+  replaceGoalSteps(goalId: number, steps: InsertGoalStep[]): Promise<GoalStep[]>;
+  getGoalHabits(goalId: number): Promise<GoalHabit[]>;
+  // Replaces every habit link of the goal
+  replaceGoalHabits(goalId: number, links: InsertGoalHabit[]): Promise<GoalHabit[]>;
   
   // Thought pattern methods
   getThoughtPatterns(): Promise<ThoughtPattern[]>;
@@ -60,45 +157,139 @@ export interface IStorage {
   createMeditation(meditation: InsertMeditation): Promise<Meditation>;
   completeMeditation(completion: InsertMeditationCompletion): Promise<MeditationCompletion>;
   getMeditationCompletions(userId: number): Promise<MeditationCompletion[]>;
+  
+  // Safety flag methods
+  createSafetyFlag(flag: InsertSafetyFlag): Promise<SafetyFlag>;
+  getSafetyFlags(userId: number): Promise<SafetyFlag[]>;
+  
+  // Conversation methods
+  // Most recently active first
+  getConversations(userId: number): Promise<Conversation[]>;
+  getConversationById(id: number): Promise<Conversation | undefined>;
+  createConversation(conversation: InsertConversation): Promise<Conversation>;
+  // Also bumps updatedAt, an empty update just marks the conversation active
+  updateConversation(id: number, conversation: Partial<InsertConversation>): Promise<Conversation | undefined>;
+  // Also removes every message of the conversation
+  deleteConversation(id: number): Promise<boolean>;
+  // Oldest first
+  getConversationMessages(conversationId: number): Promise<ConversationMessage[]>;
+  addConversationMessages(messages: InsertConversationMessage[]): Promise<ConversationMessage[]>;
+  
+  // Reminder methods
+  getReminders(userId: number): Promise<Reminder[]>;
+  // Every user's enabled reminders, for the scheduler
+  getEnabledReminders(): Promise<Reminder[]>;
+  getReminderById(id: number): Promise<Reminder | undefined>;
+  createReminder(reminder: InsertReminder): Promise<Reminder>;
+  updateReminder(id: number, reminder: Partial<InsertReminder>): Promise<Reminder | undefined>;
+  // Records the user's local day the reminder was handled on
+  markReminderSent(id: number, day: string): Promise<void>;
+  deleteReminder(id: number): Promise<boolean>;
+  
+  // Push subscription methods
+  getPushSubscriptions(userId: number): Promise<PushSubscription[]>;
+  // Replaces any subscription with the same endpoint, e.g. when another
+  // user enables notifications on the same browser
+  savePushSubscription(subscription: InsertPushSubscription): Promise<PushSubscription>;
+  deletePushSubscription(endpoint: string): Promise<boolean>;
+  
+  // Weekly digest methods
+  // Newest week first
+  getWeeklyDigests(userId: number): Promise<WeeklyDigest[]>;
+  getWeeklyDigest(userId: number, weekStart: string): Promise<WeeklyDigest | undefined>;
+  // Replaces the user's digest for the same week if there is one
+  saveWeeklyDigest(digest: InsertWeeklyDigest): Promise<WeeklyDigest>;
+}
+
+// Whether an entry comes after the cursor in newest first order
+function isBefore(createdAt: Date, id: number, cursor: { createdAt: Date; id: number }): boolean {
+  const difference = createdAt.getTime() - cursor.createdAt.getTime();
+  return difference < 0 || (difference === 0 && id < cursor.id);
 }
 
 export class MemStorage implements IStorage {
+  sessionStore: session.Store;
+  
   private users: Map<number, User>;
   private moods: Map<number, Mood>;
+  private moodScales: Map<number, MoodScale>;
   private journalEntries: Map<number, JournalEntry>;
   private habits: Map<number, Habit>;
   private habitCompletions: Map<number, HabitCompletion>;
+  private goals: Map<number, Goal>;
+  private goalSteps: Map<number, GoalStep>;
+  private goalHabits: Map<number, GoalHabit>;
   private thoughtPatterns: Map<number, ThoughtPattern>;
   private meditations: Map<number, Meditation>;
   private meditationCompletions: Map<number, MeditationCompletion>;
+  private safetyFlags: Map<number, SafetyFlag>;
+  private conversations: Map<number, Conversation>;
+  private conversationMessages: Map<number, ConversationMessage>;
+  private reminders: Map<number, Reminder>;
+  private pushSubscriptions: Map<number, PushSubscription>;
+  private weeklyDigests: Map<number, WeeklyDigest>;
   
   private userIdCounter: number;
   private moodIdCounter: number;
+  private moodScaleIdCounter: number;
   private journalIdCounter: number;
   private habitIdCounter: number;
   private habitCompletionIdCounter: number;
+  private goalIdCounter: number;
+  private goalStepIdCounter: number;
+  private goalHabitIdCounter: number;
   private thoughtPatternIdCounter: number;
   private meditationIdCounter: number;
   private meditationCompletionIdCounter: number;
+  private safetyFlagIdCounter: number;
+  private conversationIdCounter: number;
+  private conversationMessageIdCounter: number;
+  private reminderIdCounter: number;
+  private pushSubscriptionIdCounter: number;
+  private weeklyDigestIdCounter: number;
 
   constructor() {
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired entries every 24h
+    });
+    
     this.users = new Map();
     this.moods = new Map();
+    this.moodScales = new Map();
     this.journalEntries = new Map();
     this.habits = new Map();
     this.habitCompletions = new Map();
+    this.goals = new Map();
+    this.goalSteps = new Map();
+    this.goalHabits = new Map();
     this.thoughtPatterns = new Map();
     this.meditations = new Map();
     this.meditationCompletions = new Map();
+    this.safetyFlags = new Map();
+    this.conversations = new Map();
+    this.conversationMessages = new Map();
+    this.reminders = new Map();
+    this.pushSubscriptions = new Map();
+    this.weeklyDigests = new Map();
     
     this.userIdCounter = 1;
     this.moodIdCounter = 1;
+    this.moodScaleIdCounter = 1;
     this.journalIdCounter = 1;
     this.habitIdCounter = 1;
     this.habitCompletionIdCounter = 1;
+    this.goalIdCounter = 1;
+    this.goalStepIdCounter = 1;
+    this.goalHabitIdCounter = 1;
     this.thoughtPatternIdCounter = 1;
     this.meditationIdCounter = 1;
     this.meditationCompletionIdCounter = 1;
+    this.safetyFlagIdCounter = 1;
+    this.conversationIdCounter = 1;
+    this.conversationMessageIdCounter = 1;
+    this.reminderIdCounter = 1;
+    this.pushSubscriptionIdCounter = 1;
+    this.weeklyDigestIdCounter = 1;
     
     // Seed thought patterns
     this.seedThoughtPatterns();
@@ -119,11 +310,27 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userIdCounter++;
-    const user = { ...insertUser, id };
+    const user = { 
+      ...insertUser, 
+      id,
+      name: insertUser.name ?? null,
+      email: insertUser.email ?? null,
+      timezone: insertUser.timezone ?? "UTC",
+      createdAt: new Date()
+    };
     this.users.set(id, user);
     return user;
   }
   
+  async updateUser(id: number, partialUser: Partial<InsertUser>): Promise<User | undefined> {
+    const existingUser = this.users.get(id);
+    if (!existingUser) return undefined;
+    
+    const updatedUser = { ...existingUser, ...partialUser };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+  
   // Mood methods
   async getMoods(userId: number): Promise<Mood[]> {
     return Array.from(this.moods.values()).filter(
@@ -140,28 +347,106 @@ export class MemStorage implements IStorage {
     const mood = { 
       ...insertMood, 
       id,
+      scaleSize: insertMood.scaleSize ?? 5,
+      emotions: insertMood.emotions ?? [],
+      tags: insertMood.tags ?? [],
+      energy: insertMood.energy ?? null,
+      anxiety: insertMood.anxiety ?? null,
+      note: insertMood.note ?? null,
       createdAt: new Date()
     };
     this.moods.set(id, mood);
     return mood;
   }
   
+  async updateMood(id: number, partialMood: Partial<InsertMood>): Promise<Mood | undefined> {
+    const existingMood = this.moods.get(id);
+    if (!existingMood) return undefined;
+    
+    const updatedMood = { ...existingMood, ...partialMood };
+    this.moods.set(id, updatedMood);
+    return updatedMood;
+  }
+  
+  async deleteMood(id: number): Promise<boolean> {
+    return this.moods.delete(id);
+  }
+  
+  // Mood scale methods
+  async getMoodScale(userId: number): Promise<MoodScale | undefined> {
+    return Array.from(this.moodScales.values()).find(
+      (scale) => scale.userId === userId,
+    );
+  }
+  
+  async saveMoodScale(insertScale: InsertMoodScale): Promise<MoodScale> {
+    const existing = await this.getMoodScale(insertScale.userId);
+    const id = existing?.id ?? this.moodScaleIdCounter++;
+    const scale = { ...insertScale, id, updatedAt: new Date() };
+    this.moodScales.set(id, scale);
+    return scale;
+  }
+  
   // Journal methods
   async getJournalEntries(userId: number): Promise<JournalEntry[]> {
     return Array.from(this.journalEntries.values()).filter(
-      (entry) => entry.userId === userId,
+      (entry) => entry.userId === userId && entry.status === "complete",
     ).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
   }
   
+  async searchJournalEntries(userId: number, query: JournalEntryQuery): Promise<JournalEntry[]> {
+    const words = query.text ? searchWords(query.text) : [];
+    const emotion = query.emotion?.toLowerCase();
+    
+    return Array.from(this.journalEntries.values())
+      .filter((entry) => {
+        if (entry.userId !== userId || entry.status !== "complete") return false;
+        const createdAt = new Date(entry.createdAt);
+        if (query.before && !isBefore(createdAt, entry.id, query.before)) return false;
+        if (query.from && createdAt < query.from) return false;
+        if (query.to && createdAt >= query.to) return false;
+        if (emotion && !entry.emotion.toLowerCase().includes(emotion)) return false;
+        if (query.thoughtPatternId !== undefined && !entry.thoughtPatternIds.includes(query.thoughtPatternId)) return false;
+        if (query.tags && !query.tags.every((tag) => entry.tags.includes(tag))) return false;
+        const entryWords = searchWords(`${entry.situation} ${entry.thought} ${entry.reframe ?? ""}`);
+        return words.every((word) => entryWords.some((entryWord) => entryWord.startsWith(word)));
+      })
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime() || b.id - a.id)
+      .slice(0, query.limit);
+  }
+  
+  async countJournalEntries(userId: number, filters: JournalEntryFilters): Promise<number> {
+    return (await this.searchJournalEntries(userId, { ...filters, limit: Infinity })).length;
+  }
+  
+  async getJournalTags(userId: number): Promise<string[]> {
+    const entries = await this.getJournalEntries(userId);
+    return Array.from(new Set(entries.flatMap((entry) => entry.tags))).sort();
+  }
+  
   async getJournalEntryById(id: number): Promise<JournalEntry | undefined> {
     return this.journalEntries.get(id);
   }
   
   async createJournalEntry(insertEntry: InsertJournalEntry): Promise<JournalEntry> {
+    return this.storeJournalEntry(insertEntry, "complete");
+  }
+  
+  private storeJournalEntry(insertEntry: InsertJournalEntry, status: JournalEntry["status"]): JournalEntry {
     const id = this.journalIdCounter++;
     const entry = { 
       ...insertEntry, 
       id,
+      challenge: insertEntry.challenge ?? null,
+      reframe: insertEntry.reframe ?? null,
+      thoughtPatternIds: insertEntry.thoughtPatternIds ?? [],
+      beliefBefore: insertEntry.beliefBefore ?? null,
+      beliefAfter: insertEntry.beliefAfter ?? null,
+      emotionBefore: insertEntry.emotionBefore ?? null,
+      emotionAfter: insertEntry.emotionAfter ?? null,
+      tags: insertEntry.tags ?? [],
+      analysis: insertEntry.analysis ?? null,
+      status,
       createdAt: new Date()
     };
     this.journalEntries.set(id, entry);
@@ -177,6 +462,47 @@ export class MemStorage implements IStorage {
     return updatedEntry;
   }
   
+  async deleteJournalEntry(id: number): Promise<boolean> {
+    return this.journalEntries.delete(id);
+  }
+  
+  async getJournalDraft(userId: number): Promise<JournalEntry | undefined> {
+    return this.findJournalDraft(userId);
+  }
+  
+  private findJournalDraft(userId: number): JournalEntry | undefined {
+    return Array.from(this.journalEntries.values()).find(
+      (entry) => entry.userId === userId && entry.status === "draft",
+    );
+  }
+  
+  // Nothing is awaited between finding the draft and storing it, so saves made
+  // at the same time end up in one draft, as the unique index has it in Postgres
+  async saveJournalDraft(userId: number, draft: JournalDraft): Promise<JournalEntry> {
+    const existingDraft = this.findJournalDraft(userId);
+    if (existingDraft) {
+      const updatedDraft = { ...existingDraft, ...draft };
+      this.journalEntries.set(existingDraft.id, updatedDraft);
+      return updatedDraft;
+    }
+    
+    return this.storeJournalEntry({ situation: "", emotion: "", thought: "", ...draft, userId }, "draft");
+  }
+  
+  async completeJournalDraft(userId: number): Promise<JournalEntry | undefined> {
+    const draft = await this.getJournalDraft(userId);
+    if (!draft) return undefined;
+    
+    const entry = { ...draft, status: "complete" as const, createdAt: new Date() };
+    this.journalEntries.set(entry.id, entry);
+    return entry;
+  }
+  
+  async deleteJournalDraft(userId: number): Promise<boolean> {
+    const draft = await this.getJournalDraft(userId);
+    return draft ? this.journalEntries.delete(draft.id) : false;
+  }
+  
   // Habit methods
   async getHabits(userId: number): Promise<Habit[]> {
     return Array.from(this.habits.values()).filter(
@@ -193,18 +519,49 @@ export class MemStorage implements IStorage {
     const habit = { 
       ...insertHabit, 
       id,
+      description: insertHabit.description ?? null,
+      icon: insertHabit.icon ?? null,
+      schedule: insertHabit.schedule ?? { type: "daily" as const },
+      unit: insertHabit.unit ?? null,
+      dailyTarget: insertHabit.dailyTarget ?? null,
+      archived: insertHabit.archived ?? false,
       createdAt: new Date()
     };
     this.habits.set(id, habit);
     return habit;
   }
   
+  async updateHabit(id: number, partialHabit: Partial<InsertHabit>): Promise<Habit | undefined> {
+    const existingHabit = this.habits.get(id);
+    if (!existingHabit) return undefined;
+    
+    const updatedHabit = { ...existingHabit, ...partialHabit };
+    this.habits.set(id, updatedHabit);
+    return updatedHabit;
+  }
+  
+  async deleteHabit(id: number): Promise<boolean> {
+    Array.from(this.habitCompletions.values())
+      .filter((completion) => completion.habitId === id)
+      .forEach((completion) => this.habitCompletions.delete(completion.id));
+    Array.from(this.goalHabits.values())
+      .filter((link) => link.habitId === id)
+      .forEach((link) => this.goalHabits.delete(link.id));
+    Array.from(this.reminders.values())
+      .filter((reminder) => reminder.habitId === id)
+      .forEach((reminder) => this.reminders.delete(reminder.id));
+    
+    return this.habits.delete(id);
+  }
+  
   async completeHabit(insertCompletion: InsertHabitCompletion): Promise<HabitCompletion> {
     const id = this.habitCompletionIdCounter++;
     const completion = { 
       ...insertCompletion, 
       id,
-      completedAt: new Date()
+      completedAt: new Date(),
+      quantity: insertCompletion.quantity ?? null,
+      unit: insertCompletion.unit ?? null
     };
     this.habitCompletions.set(id, completion);
     return completion;
@@ -216,6 +573,125 @@ export class MemStorage implements IStorage {
     ).sort((a, b) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime());
   }
   
+  async getHabitCompletionById(id: number): Promise<HabitCompletion | undefined> {
+    return this.habitCompletions.get(id);
+  }
+  
+  async deleteHabitCompletion(id: number): Promise<boolean> {
+    return this.habitCompletions.delete(id);
+  }
+  
+  async deleteHabitCompletionsSince(habitId: number, since: Date): Promise<number> {
+    const completions = Array.from(this.habitCompletions.values()).filter(
+      (completion) => completion.habitId === habitId && completion.completedAt >= since,
+    );
+    completions.forEach((completion) => this.habitCompletions.delete(completion.id));
+    return completions.length;
+  }
+  
+  // Goal methods
+  async getGoals(userId: number): Promise<Goal[]> {
+    return Array.from(this.goals.values()).filter(
+      (goal) => goal.userId === userId,
+    ).sort((a, b) => a.id - b.id);
+  }
+  
+  async getGoalById(id: number): Promise<Goal | undefined> {
+    return this.goals.get(id);
+  }
+  
+  async createGoal(insertGoal: InsertGoal): Promise<Goal> {
+    const id = this.goalIdCounter++;
+    const goal = {
+      ...insertGoal,
+      id,
+      tips: insertGoal.tips ?? null,
+      estimatedCompletion: insertGoal.estimatedCompletion ?? null,
+      completed: insertGoal.completed ?? false,
+      completedAt: insertGoal.completedAt ?? null,
+      createdAt: new Date()
+    };
+    this.goals.set(id, goal);
+    return goal;
+  }
+  
+  async updateGoal(id: number, partialGoal: Partial<InsertGoal>): Promise<Goal | undefined> {
+    const existingGoal = this.goals.get(id);
+    if (!existingGoal) return undefined;
+    
+    const updatedGoal = { ...existingGoal, ...partialGoal };
+    this.goals.set(id, updatedGoal);
+    return updatedGoal;
+  }
+  
+  async deleteGoal(id: number): Promise<boolean> {
+    Array.from(this.goalSteps.values())
+      .filter((step) => step.goalId === id)
+      .forEach((step) => this.goalSteps.delete(step.id));
+    Array.from(this.goalHabits.values())
+      .filter((link) => link.goalId === id)
+      .forEach((link) => this.goalHabits.delete(link.id));
+    
+    return this.goals.delete(id);
+  }
+  
+  async getGoalSteps(goalId: number): Promise<GoalStep[]> {
+    return Array.from(this.goalSteps.values())
+      .filter((step) => step.goalId === goalId)
+      .sort((a, b) => a.position - b.position);
+  }
+  
+  async getGoalStepById(id: number): Promise<GoalStep | undefined> {
+    return this.goalSteps.get(id);
+  }
+  
+  async updateGoalStep(id: number, partialStep: Partial<InsertGoalStep>): Promise<GoalStep | undefined> {
+    const existingStep = this.goalSteps.get(id);
+    if (!existingStep) return undefined;
+    
+    const updatedStep = { ...existingStep, ...partialStep };
+    this.goalSteps.set(id, updatedStep);
+    return updatedStep;
+  }
+  
+  async replaceGoalSteps(goalId: number, insertSteps: InsertGoalStep[]): Promise<GoalStep[]> {
+    Array.from(this.goalSteps.values())
+      .filter((step) => step.goalId === goalId)
+      .forEach((step) => this.goalSteps.delete(step.id));
+    
+    return insertSteps.map((insertStep) => {
+      const id = this.goalStepIdCounter++;
+      const step = {
+        ...insertStep,
+        goalId,
+        id,
+        targetDate: insertStep.targetDate ?? null,
+        completed: insertStep.completed ?? false
+      };
+      this.goalSteps.set(id, step);
+      return step;
+    });
+  }
+  
+  async getGoalHabits(goalId: number): Promise<GoalHabit[]> {
+    return Array.from(this.goalHabits.values())
+      .filter((link) => link.goalId === goalId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async replaceGoalHabits(goalId: number, insertLinks: InsertGoalHabit[]): Promise<GoalHabit[]> {
+    Array.from(this.goalHabits.values())
+      .filter((link) => link.goalId === goalId)
+      .forEach((link) => this.goalHabits.delete(link.id));
+    
+    return insertLinks.map((insertLink) => {
+      const id = this.goalHabitIdCounter++;
+      const link = { ...insertLink, goalId, id };
+      this.goalHabits.set(id, link);
+      return link;
+    });
+  }
+  
   // Thought pattern methods
   async getThoughtPatterns(): Promise<ThoughtPattern[]> {
     return Array.from(this.thoughtPatterns.values());
@@ -265,106 +741,201 @@ export class MemStorage implements IStorage {
     ).sort((a, b) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime());
   }
   
+  // Safety flag methods
+  async createSafetyFlag(insertFlag: InsertSafetyFlag): Promise<SafetyFlag> {
+    const id = this.safetyFlagIdCounter++;
+    const flag = {
+      ...insertFlag,
+      id,
+      recordId: insertFlag.recordId ?? null,
+      language: insertFlag.language ?? null,
+      createdAt: new Date()
+    };
+    this.safetyFlags.set(id, flag);
+    return flag;
+  }
+  
+  async getSafetyFlags(userId: number): Promise<SafetyFlag[]> {
+    return Array.from(this.safetyFlags.values()).filter(
+      (flag) => flag.userId === userId,
+    ).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  // Conversation methods
+  async getConversations(userId: number): Promise<Conversation[]> {
+    return Array.from(this.conversations.values()).filter(
+      (conversation) => conversation.userId === userId,
+    ).sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+  
+  async getConversationById(id: number): Promise<Conversation | undefined> {
+    return this.conversations.get(id);
+  }
+  
+  async createConversation(insertConversation: InsertConversation): Promise<Conversation> {
+    const id = this.conversationIdCounter++;
+    const now = new Date();
+    const conversation = {
+      ...insertConversation,
+      id,
+      title: insertConversation.title ?? null,
+      cbtSession: insertConversation.cbtSession ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.conversations.set(id, conversation);
+    return conversation;
+  }
+  
+  async updateConversation(id: number, partialConversation: Partial<InsertConversation>): Promise<Conversation | undefined> {
+    const conversation = this.conversations.get(id);
+    if (!conversation) return undefined;
+    
+    const updatedConversation = { ...conversation, ...partialConversation, updatedAt: new Date() };
+    this.conversations.set(id, updatedConversation);
+    return updatedConversation;
+  }
+  
+  async deleteConversation(id: number): Promise<boolean> {
+    Array.from(this.conversationMessages.values())
+      .filter((message) => message.conversationId === id)
+      .forEach((message) => this.conversationMessages.delete(message.id));
+    return this.conversations.delete(id);
+  }
+  
+  async getConversationMessages(conversationId: number): Promise<ConversationMessage[]> {
+    return Array.from(this.conversationMessages.values())
+      .filter((message) => message.conversationId === conversationId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async addConversationMessages(insertMessages: InsertConversationMessage[]): Promise<ConversationMessage[]> {
+    return insertMessages.map((insertMessage) => {
+      const id = this.conversationMessageIdCounter++;
+      const message = { ...insertMessage, id, actions: insertMessage.actions ?? null, createdAt: new Date() };
+      this.conversationMessages.set(id, message);
+      return message;
+    });
+  }
+  
+  // Reminder methods
+  async getReminders(userId: number): Promise<Reminder[]> {
+    return Array.from(this.reminders.values())
+      .filter((reminder) => reminder.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getEnabledReminders(): Promise<Reminder[]> {
+    return Array.from(this.reminders.values()).filter((reminder) => reminder.enabled);
+  }
+  
+  async getReminderById(id: number): Promise<Reminder | undefined> {
+    return this.reminders.get(id);
+  }
+  
+  async createReminder(insertReminder: InsertReminder): Promise<Reminder> {
+    const id = this.reminderIdCounter++;
+    const reminder = {
+      ...insertReminder,
+      id,
+      habitId: insertReminder.habitId ?? null,
+      enabled: insertReminder.enabled ?? true,
+      lastSentOn: null,
+      createdAt: new Date()
+    };
+    this.reminders.set(id, reminder);
+    return reminder;
+  }
+  
+  async updateReminder(id: number, partialReminder: Partial<InsertReminder>): Promise<Reminder | undefined> {
+    const existingReminder = this.reminders.get(id);
+    if (!existingReminder) return undefined;
+    
+    const updatedReminder = { ...existingReminder, ...partialReminder };
+    this.reminders.set(id, updatedReminder);
+    return updatedReminder;
+  }
+  
+  async markReminderSent(id: number, day: string): Promise<void> {
+    const reminder = this.reminders.get(id);
+    if (reminder) {
+      this.reminders.set(id, { ...reminder, lastSentOn: day });
+    }
+  }
+  
+  async deleteReminder(id: number): Promise<boolean> {
+    return this.reminders.delete(id);
+  }
+  
+  // Push subscription methods
+  async getPushSubscriptions(userId: number): Promise<PushSubscription[]> {
+    return Array.from(this.pushSubscriptions.values()).filter(
+      (subscription) => subscription.userId === userId,
+    );
+  }
+  
+  async savePushSubscription(insertSubscription: InsertPushSubscription): Promise<PushSubscription> {
+    await this.deletePushSubscription(insertSubscription.endpoint);
+    
+    const id = this.pushSubscriptionIdCounter++;
+    const subscription = { ...insertSubscription, id, createdAt: new Date() };
+    this.pushSubscriptions.set(id, subscription);
+    return subscription;
+  }
+  
+  async deletePushSubscription(endpoint: string): Promise<boolean> {
+    const existing = Array.from(this.pushSubscriptions.values()).find(
+      (subscription) => subscription.endpoint === endpoint,
+    );
+    return existing ? this.pushSubscriptions.delete(existing.id) : false;
+  }
+  
+  // Weekly digest methods
+  async getWeeklyDigests(userId: number): Promise<WeeklyDigest[]> {
+    return Array.from(this.weeklyDigests.values()).filter(
+      (digest) => digest.userId === userId,
+    ).sort((a, b) => b.weekStart.localeCompare(a.weekStart));
+  }
+  
+  async getWeeklyDigest(userId: number, weekStart: string): Promise<WeeklyDigest | undefined> {
+    return Array.from(this.weeklyDigests.values()).find(
+      (digest) => digest.userId === userId && digest.weekStart === weekStart,
+    );
+  }
+  
+  async saveWeeklyDigest(insertDigest: InsertWeeklyDigest): Promise<WeeklyDigest> {
+    const existing = await this.getWeeklyDigest(insertDigest.userId, insertDigest.weekStart);
+    const id = existing?.id ?? this.weeklyDigestIdCounter++;
+    const digest = { ...insertDigest, id, summary: insertDigest.summary ?? null, createdAt: new Date() };
+    this.weeklyDigests.set(id, digest);
+    return digest;
+  }
+  
   // Seed data
   private seedThoughtPatterns(): void {
-    const patterns: InsertThoughtPattern[] = [
-      {
-        name: "Catastrophizing",
-        description: "Believing something is far worse than it actually is",
-        examples: [
-          "If I fail this test, my whole future is ruined",
-          "My heart is racing, I must be having a heart attack"
-        ],
-        reframeStrategies: [
-          "Consider the actual likelihood of the worst-case scenario",
-          "Ask yourself what a friend would say about this situation",
-          "Focus on what you can control rather than what you can't"
-        ]
-      },
-      {
-        name: "Mind Reading",
-        description: "Assuming you know what others are thinking without evidence",
-        examples: [
-          "She didn't respond to my text, she must be mad at me",
-          "Everyone at the party thinks I'm boring"
-        ],
-        reframeStrategies: [
-          "Challenge the assumption by seeking evidence",
-          "Consider alternative explanations for the behavior",
-          "Ask directly instead of assuming"
-        ]
-      },
-      {
-        name: "Black & White Thinking",
-        description: "Seeing things in absolute, all-or-nothing terms",
-        examples: [
-          "Either I do this perfectly or I'm a complete failure",
-          "If you're not with me, you're against me"
-        ],
-        reframeStrategies: [
-          "Look for the gray areas and middle ground",
-          "Use a scale from 0-100 instead of all-or-nothing",
-          "Accept that most things exist on a spectrum"
-        ]
-      },
-      {
-        name: "Emotional Reasoning",
-        description: "Believing that what you feel must be true",
-        examples: [
-          "I feel stupid, so I must be stupid",
-          "I feel like a burden, so I must be bothering everyone"
-        ],
-        reframeStrategies: [
-          "Identify the emotion and separate it from facts",
-          "Ask what evidence exists beyond the feeling",
-          "Consider how you'd evaluate the situation without the emotion"
-        ]
-      }
-    ];
-    
-    patterns.forEach(pattern => {
+    thoughtPatternSeeds.forEach(pattern => {
       const id = this.thoughtPatternIdCounter++;
       this.thoughtPatterns.set(id, { ...pattern, id });
     });
   }
   
   private seedMeditations(): void {
-    const meditations: InsertMeditation[] = [
-      {
-        title: "Sleep Well",
-        description: "A gentle meditation to help you drift into restful sleep",
-        duration: 300, // 5 minutes
-        category: "Sleep",
-        audioUrl: null
-      },
-      {
-        title: "Anxiety Relief",
-        description: "Calm your mind and reduce anxiety with this short practice",
-        duration: 180, // 3 minutes
-        category: "Anxiety",
-        audioUrl: null
-      },
-      {
-        title: "Morning Focus",
-        description: "Start your day with clarity and intention",
-        duration: 240, // 4 minutes
-        category: "Focus",
-        audioUrl: null
-      },
-      {
-        title: "Gratitude Practice",
-        description: "Cultivate appreciation for the good in your life",
-        duration: 300, // 5 minutes
-        category: "Gratitude",
-        audioUrl: null
-      }
-    ];
-    
-    meditations.forEach(meditation => {
+    meditationSeeds.forEach(meditation => {
       const id = this.meditationIdCounter++;
-      this.meditations.set(id, { ...meditation, id });
+      this.meditations.set(id, { ...meditation, id, audioUrl: meditation.audioUrl ?? null });
     });
   }
 }
 
-export const storage = new MemStorage();
+// Postgres when a database is configured, otherwise everything lives in memory
+function createStorage(): IStorage {
+  if (!process.env.DATABASE_URL) {
+    return new MemStorage();
+  }
+  
+  const { pool, db } = createDatabase(process.env.DATABASE_URL);
+  const PostgresSessionStore = connectPg(session);
+  return new DrizzleStorage(db, new PostgresSessionStore({ pool, createTableIfMissing: true }));
+}
+
+export const storage = createStorage();
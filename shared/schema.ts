@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp, json } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+import { pgTable, text, serial, integer, boolean, timestamp, json, real, unique, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -9,22 +10,59 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   name: text("name"),
   email: text("email"),
+  // IANA name, habit days and streaks are counted in this timezone
+  timezone: text("timezone").default("UTC").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const timeZoneSchema = z.string().refine(isValidTimeZone, "Unknown timezone");
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
   name: true,
   email: true,
+  timezone: true,
+}).extend({
+  timezone: timeZoneSchema.optional(),
 });
 
 // Mood entries schema
+// Mood scales have between 3 and 10 levels
+export const MIN_MOOD_LEVELS = 3;
+export const MAX_MOOD_LEVELS = 10;
+
+// One of the emotions felt at a check-in, named from the user's mood scale,
+// with an intensity from 1 to the scale's number of levels
+export const moodEmotionSchema = z.object({
+  name: z.string().trim().min(1).max(40),
+  intensity: z.number().int().min(1).max(MAX_MOOD_LEVELS),
+});
+
+// A mood check-in. Emoji, label and intensity (1 to `scaleSize`, the number
+// of levels of the user's scale when it was logged) are the overall mood,
+// derived from the emotions when there are some. Energy and anxiety are
+// optional 0 to 10 sliders.
 export const moods = pgTable("moods", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
   emoji: text("emoji").notNull(),
   label: text("label").notNull(),
   intensity: integer("intensity").notNull(),
+  scaleSize: integer("scale_size").default(5).notNull(),
+  emotions: json("emotions").$type<MoodEmotion[]>().default([]).notNull(),
+  tags: json("tags").$type<string[]>().default([]).notNull(),
+  energy: integer("energy"),
+  anxiety: integer("anxiety"),
   note: text("note"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -35,9 +73,59 @@ export const insertMoodSchema = createInsertSchema(moods).pick({
   label: true,
   intensity: true,
   note: true,
+  scaleSize: true,
+}).extend({
+  intensity: z.number().int().min(1).max(MAX_MOOD_LEVELS),
+  scaleSize: z.number().int().min(MIN_MOOD_LEVELS).max(MAX_MOOD_LEVELS).optional(),
+  emotions: z.array(moodEmotionSchema).max(8).optional(),
+  tags: z.array(z.string().trim().min(1).max(30)).max(10).optional(),
+  energy: z.number().int().min(0).max(10).nullable().optional(),
+  anxiety: z.number().int().min(0).max(10).nullable().optional(),
+});
+
+// An emotion of the user's vocabulary. Valence is how pleasant it is, from
+// -2 to 2, and sets the overall mood of check-ins logging it.
+export const moodScaleEmotionSchema = z.object({
+  name: z.string().trim().min(1).max(40),
+  emoji: z.string().trim().min(1).max(16),
+  valence: z.number().int().min(-2).max(2),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Color must be a hex color like #22c55e"),
+});
+
+// Each user's mood vocabulary: the labels of the overall mood levels, lowest
+// first (their count is the scale size), and the emotions offered at
+// check-ins
+export const moodScales = pgTable("mood_scales", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique().references(() => users.id),
+  levels: json("levels").$type<string[]>().notNull(),
+  emotions: json("emotions").$type<MoodScaleEmotion[]>().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertMoodScaleSchema = createInsertSchema(moodScales).pick({
+  userId: true,
+}).extend({
+  levels: z.array(z.string().trim().min(1).max(30)).min(MIN_MOOD_LEVELS).max(MAX_MOOD_LEVELS),
+  emotions: z.array(moodScaleEmotionSchema).min(1).max(30).refine(
+    (emotions) => new Set(emotions.map((emotion) => emotion.name.toLowerCase())).size === emotions.length,
+    "Emotion names must be unique",
+  ),
+});
+
+// CBT journal entries schema. A user has at most one draft, the entry being
+// written in the journal wizard or the copilot exercise.
+export const journalEntryStatuses = ["draft", "complete"] as const;
+
+// AI analysis of the thought, kept so a resumed draft shows the same suggestions
+export const journalAnalysisSchema = z.object({
+  thoughtPattern: z.string(),
+  thoughtPatternId: z.number().int().nullable(),
+  patternExplanation: z.string(),
+  challenge: z.string(),
+  reframe: z.string(),
 });
 
-// CBT journal entries schema
 export const journalEntries = pgTable("journal_entries", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
@@ -46,8 +134,32 @@ export const journalEntries = pgTable("journal_entries", {
   thought: text("thought").notNull(),
   challenge: text("challenge"),
   reframe: text("reframe"),
+  // Thought patterns the entry falls into, suggested by the CBT analysis or
+  // picked by the user
+  thoughtPatternIds: json("thought_pattern_ids").$type<number[]>().default([]).notNull(),
+  // How strongly the thought was believed and how intense the emotion was,
+  // from 0 to 100, when writing it down and again after reframing it
+  beliefBefore: integer("belief_before"),
+  beliefAfter: integer("belief_after"),
+  emotionBefore: integer("emotion_before"),
+  emotionAfter: integer("emotion_after"),
+  // The user's own labels, lowercase
+  tags: json("tags").$type<string[]>().default([]).notNull(),
+  analysis: json("analysis").$type<JournalAnalysis>(),
+  status: text("status").$type<JournalEntryStatus>().default("complete").notNull(),
+  // When the entry was started, then finished for complete entries
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => ({
+  // Full-text search over the written parts of the entry, without stemming as
+  // entries may be in any language
+  search: index("journal_entries_search_idx").using(
+    "gin",
+    sql`to_tsvector('simple', ${table.situation} || ' ' || ${table.thought} || ' ' || coalesce(${table.reframe}, ''))`,
+  ),
+  oneDraft: uniqueIndex("journal_entries_one_draft_idx").on(table.userId).where(sql`${table.status} = 'draft'`),
+}));
+
+const thoughtRatingSchema = z.number().int().min(0).max(100).nullable().optional();
 
 export const insertJournalEntrySchema = createInsertSchema(journalEntries).pick({
   userId: true,
@@ -56,8 +168,35 @@ export const insertJournalEntrySchema = createInsertSchema(journalEntries).pick(
   thought: true,
   challenge: true,
   reframe: true,
+}).extend({
+  thoughtPatternIds: z.array(z.number().int().positive()).max(5).refine(
+    (ids) => new Set(ids).size === ids.length,
+    "Thought patterns must be unique",
+  ).optional(),
+  beliefBefore: thoughtRatingSchema,
+  beliefAfter: thoughtRatingSchema,
+  emotionBefore: thoughtRatingSchema,
+  emotionAfter: thoughtRatingSchema,
+  tags: z.array(z.string().trim().toLowerCase().min(1).max(30)).max(10)
+    .transform((tags) => Array.from(new Set(tags)))
+    .optional(),
+  analysis: journalAnalysisSchema.nullable().optional(),
 });
 
+// Any part of an entry in progress, saved as it is written
+export const journalDraftSchema = insertJournalEntrySchema.omit({ userId: true }).partial();
+
+// When a habit is meant to be done. Weekdays are 0 (Sunday) to 6 (Saturday),
+// weeks start on Monday.
+export const habitScheduleSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("daily") }),
+  z.object({ type: z.literal("weekdays"), days: z.array(z.number().int().min(0).max(6)).min(1) }),
+  z.object({ type: z.literal("times_per_week"), times: z.number().int().min(1).max(7) }),
+  z.object({ type: z.literal("times_per_month"), times: z.number().int().min(1).max(31) }),
+  // Due again `days` days after the last completion
+  z.object({ type: z.literal("interval"), days: z.number().int().min(2).max(365) }),
+]);
+
 // Habits schema
 export const habits = pgTable("habits", {
   id: serial("id").primaryKey(),
@@ -65,6 +204,12 @@ export const habits = pgTable("habits", {
   name: text("name").notNull(),
   description: text("description"),
   icon: text("icon"),
+  schedule: json("schedule").$type<HabitSchedule>().default({ type: "daily" }).notNull(),
+  // For habits tracked as an amount, e.g. 8 glasses. A day counts as done
+  // once its check-ins add up to the target, or with any check-in without one.
+  unit: text("unit"),
+  dailyTarget: real("daily_target"),
+  archived: boolean("archived").default(false).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -73,17 +218,102 @@ export const insertHabitSchema = createInsertSchema(habits).pick({
   name: true,
   description: true,
   icon: true,
+  archived: true,
+}).extend({
+  schedule: habitScheduleSchema.optional(),
+  unit: z.string().trim().min(1).max(20).nullable().optional(),
+  dailyTarget: z.number().positive().max(100000).nullable().optional(),
 });
 
 // Habit completions schema
 export const habitCompletions = pgTable("habit_completions", {
   id: serial("id").primaryKey(),
-  habitId: integer("habit_id").notNull().references(() => habits.id),
+  habitId: integer("habit_id").notNull().references(() => habits.id, { onDelete: "cascade" }),
   completedAt: timestamp("completed_at").defaultNow().notNull(),
+  // How much was done in this check-in, counted as 1 when missing
+  quantity: real("quantity"),
+  unit: text("unit"),
 });
 
 export const insertHabitCompletionSchema = createInsertSchema(habitCompletions).pick({
   habitId: true,
+}).extend({
+  quantity: z.number().positive().max(100000).nullable().optional(),
+  unit: z.string().trim().min(1).max(20).nullable().optional(),
+});
+
+// Goals schema. The action plan is the goal's steps plus its tips and
+// estimated completion.
+export const goals = pgTable("goals", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  deadline: timestamp("deadline").notNull(),
+  tips: json("tips").$type<string[]>(),
+  estimatedCompletion: text("estimated_completion"),
+  completed: boolean("completed").default(false).notNull(),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertGoalSchema = createInsertSchema(goals).pick({
+  userId: true,
+  title: true,
+  description: true,
+  estimatedCompletion: true,
+  completed: true,
+  completedAt: true,
+}).extend({
+  // Sent as ISO strings over JSON
+  deadline: z.coerce.date(),
+  tips: z.array(z.string()).nullable().optional(),
+});
+
+export const goalSteps = pgTable("goal_steps", {
+  id: serial("id").primaryKey(),
+  goalId: integer("goal_id").notNull().references(() => goals.id, { onDelete: "cascade" }),
+  description: text("description").notNull(),
+  targetDate: timestamp("target_date"),
+  position: integer("position").notNull(),
+  completed: boolean("completed").default(false).notNull(),
+});
+
+export const insertGoalStepSchema = createInsertSchema(goalSteps).pick({
+  goalId: true,
+  description: true,
+  position: true,
+  completed: true,
+}).extend({
+  targetDate: z.coerce.date().nullable().optional(),
+});
+
+// Habits a goal is tracked by, each with the number of days it should be
+// done (daily target met) between the goal's creation and its deadline
+export const goalHabits = pgTable("goal_habits", {
+  id: serial("id").primaryKey(),
+  goalId: integer("goal_id").notNull().references(() => goals.id, { onDelete: "cascade" }),
+  habitId: integer("habit_id").notNull().references(() => habits.id, { onDelete: "cascade" }),
+  targetCompletions: integer("target_completions").notNull(),
+});
+
+export const insertGoalHabitSchema = createInsertSchema(goalHabits).pick({
+  goalId: true,
+  habitId: true,
+}).extend({
+  targetCompletions: z.number().int().min(1).max(1000),
+});
+
+// A generated action plan as the client sends it, before it is split
+// between the goal and its steps
+export const goalPlanSchema = z.object({
+  steps: z.array(z.object({
+    description: z.string().trim().min(1),
+    targetDate: z.coerce.date().nullable().optional(),
+    completed: z.boolean().optional(),
+  })).max(20),
+  tips: z.array(z.string()).default([]),
+  estimatedCompletion: z.string().nullable().optional(),
 });
 
 // Thought patterns schema
@@ -133,22 +363,212 @@ export const insertMeditationCompletionSchema = createInsertSchema(meditationCom
   meditationId: true,
 });
 
+// Copilot conversations. The CBT exercise state is stored on the
+// conversation so it can be resumed at the same step on any device.
+export const copilotCbtSteps = ["initial", "situation", "emotion", "thought", "challenge", "reframe", "complete"] as const;
+
+export const copilotCbtSessionSchema = z.object({
+  active: z.boolean(),
+  currentStep: z.enum(copilotCbtSteps),
+  situation: z.string(),
+  emotion: z.string(),
+  emotionIntensity: z.number().optional(),
+  thought: z.string(),
+  challenge: z.string().optional(),
+  reframe: z.string().optional(),
+  // Pattern the analysis matched the thought to, saved with the entry
+  thoughtPatternId: z.number().nullable().optional(),
+});
+
+// Things the copilot can offer alongside a reply, shown as buttons
+export const copilotActionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("breathing") }),
+  z.object({ type: z.literal("journal") }),
+  z.object({ type: z.literal("cbt_exercise") }),
+  z.object({ type: z.literal("meditation"), meditationId: z.number().int() }),
+]);
+
+export const conversations = pgTable("conversations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  title: text("title"),
+  cbtSession: json("cbt_session").$type<CopilotCBTSession>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertConversationSchema = createInsertSchema(conversations).pick({
+  userId: true,
+  title: true,
+}).extend({
+  cbtSession: copilotCbtSessionSchema.nullable().optional(),
+});
+
+export const conversationMessages = pgTable("conversation_messages", {
+  id: serial("id").primaryKey(),
+  conversationId: integer("conversation_id").notNull().references(() => conversations.id, { onDelete: "cascade" }),
+  sender: text("sender").notNull(), // "user" | "ai"
+  text: text("text").notNull(),
+  actions: json("actions").$type<CopilotAction[]>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertConversationMessageSchema = createInsertSchema(conversationMessages).pick({
+  conversationId: true,
+  sender: true,
+  text: true,
+}).extend({
+  sender: z.enum(["user", "ai"]),
+  actions: z.array(copilotActionSchema).nullable().optional(),
+});
+
+// Safety flags raised on user text. Only the verdict is kept, the text
+// itself stays in the mood or journal record it came from.
+export const safetyFlags = pgTable("safety_flags", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  source: text("source").notNull(), // "mood" | "journal" | "cbt" | "copilot"
+  recordId: integer("record_id"), // the mood, journal entry or conversation message
+  level: text("level").notNull(), // "concern" | "crisis"
+  categories: json("categories").notNull().$type<string[]>(),
+  language: text("language"),
+  detectedBy: text("detected_by").notNull(), // "keywords" | "ai"
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertSafetyFlagSchema = createInsertSchema(safetyFlags).pick({
+  userId: true,
+  source: true,
+  recordId: true,
+  level: true,
+  categories: true,
+  language: true,
+  detectedBy: true,
+}).extend({
+  categories: z.array(z.string()),
+});
+
+// Reminders sent as push notifications at a time of day in the user's
+// timezone: a habit reminder while the habit is due and not yet done, the
+// mood reminder while no mood was logged that day.
+export const reminders = pgTable("reminders", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  type: text("type").notNull(), // "habit" | "mood"
+  habitId: integer("habit_id").references(() => habits.id, { onDelete: "cascade" }),
+  time: text("time").notNull(), // HH:MM
+  enabled: boolean("enabled").default(true).notNull(),
+  // The user's local day (YYYY-MM-DD) it was last handled, so it fires once a day
+  lastSentOn: text("last_sent_on"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertReminderSchema = createInsertSchema(reminders).pick({
+  userId: true,
+  type: true,
+  habitId: true,
+  time: true,
+  enabled: true,
+}).extend({
+  type: z.enum(["habit", "mood"]),
+  time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be HH:MM"),
+});
+
+// Browser push subscriptions, one per device the user enabled notifications on
+export const pushSubscriptions = pgTable("push_subscriptions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  endpoint: text("endpoint").notNull().unique(),
+  p256dh: text("p256dh").notNull(),
+  auth: text("auth").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertPushSubscriptionSchema = createInsertSchema(pushSubscriptions).pick({
+  userId: true,
+  endpoint: true,
+  p256dh: true,
+  auth: true,
+}).extend({
+  endpoint: z.string().url(),
+});
+
+// One plain-language observation of a weekly digest. Weight orders findings,
+// the most telling first.
+export const weeklyFindingSchema = z.object({
+  kind: z.enum([
+    "mood_average",
+    "mood_best_day",
+    "mood_habit",
+    "mood_meditation",
+    "mood_tag",
+    "habit_consistency",
+    "meditation_count",
+    "journal_emotion",
+    "journal_thought_pattern",
+  ]),
+  text: z.string(),
+  weight: z.number(),
+});
+
+// Findings about one Monday to Sunday week in the user's timezone, kept once
+// the week is over so past digests can be browsed. The summary is an
+// AI-written paragraph from the findings, null when no provider phrased it.
+export const weeklyDigests = pgTable("weekly_digests", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  weekStart: text("week_start").notNull(), // YYYY-MM-DD, a Monday
+  findings: json("findings").$type<WeeklyFinding[]>().notNull(),
+  summary: text("summary"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userWeek: unique().on(table.userId, table.weekStart),
+}));
+
+export const insertWeeklyDigestSchema = createInsertSchema(weeklyDigests).pick({
+  userId: true,
+  weekStart: true,
+  summary: true,
+}).extend({
+  findings: z.array(weeklyFindingSchema),
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+export type MoodEmotion = z.infer<typeof moodEmotionSchema>;
+export type MoodScaleEmotion = z.infer<typeof moodScaleEmotionSchema>;
 export type Mood = typeof moods.$inferSelect;
 export type InsertMood = z.infer<typeof insertMoodSchema>;
 
+export type MoodScale = typeof moodScales.$inferSelect;
+export type InsertMoodScale = z.infer<typeof insertMoodScaleSchema>;
+
 export type JournalEntry = typeof journalEntries.$inferSelect;
 export type InsertJournalEntry = z.infer<typeof insertJournalEntrySchema>;
+export type JournalEntryStatus = typeof journalEntryStatuses[number];
+export type JournalAnalysis = z.infer<typeof journalAnalysisSchema>;
+export type JournalDraft = z.infer<typeof journalDraftSchema>;
 
+export type HabitSchedule = z.infer<typeof habitScheduleSchema>;
 export type Habit = typeof habits.$inferSelect;
 export type InsertHabit = z.infer<typeof insertHabitSchema>;
 
 export type HabitCompletion = typeof habitCompletions.$inferSelect;
 export type InsertHabitCompletion = z.infer<typeof insertHabitCompletionSchema>;
 
+export type Goal = typeof goals.$inferSelect;
+export type InsertGoal = z.infer<typeof insertGoalSchema>;
+
+export type GoalStep = typeof goalSteps.$inferSelect;
+export type InsertGoalStep = z.infer<typeof insertGoalStepSchema>;
+
+export type GoalHabit = typeof goalHabits.$inferSelect;
+export type InsertGoalHabit = z.infer<typeof insertGoalHabitSchema>;
+
+export type GoalPlan = z.infer<typeof goalPlanSchema>;
+
 export type ThoughtPattern = typeof thoughtPatterns.$inferSelect;
 export type InsertThoughtPattern = z.infer<typeof insertThoughtPatternSchema>;
 
@@ -157,3 +577,25 @@ export type InsertMeditation = z.infer<typeof insertMeditationSchema>;
 
 export type MeditationCompletion = typeof meditationCompletions.$inferSelect;
 export type InsertMeditationCompletion = z.infer<typeof insertMeditationCompletionSchema>;
+
+export type SafetyFlag = typeof safetyFlags.$inferSelect;
+export type InsertSafetyFlag = z.infer<typeof insertSafetyFlagSchema>;
+
+export type CopilotCBTSession = z.infer<typeof copilotCbtSessionSchema>;
+export type CopilotAction = z.infer<typeof copilotActionSchema>;
+
+export type Conversation = typeof conversations.$inferSelect;
+export type InsertConversation = z.infer<typeof insertConversationSchema>;
+
+export type ConversationMessage = typeof conversationMessages.$inferSelect;
+export type InsertConversationMessage = z.infer<typeof insertConversationMessageSchema>;
+
+export type Reminder = typeof reminders.$inferSelect;
+export type InsertReminder = z.infer<typeof insertReminderSchema>;
+
+export type PushSubscription = typeof pushSubscriptions.$inferSelect;
+export type InsertPushSubscription = z.infer<typeof insertPushSubscriptionSchema>;
+
+export type WeeklyFinding = z.infer<typeof weeklyFindingSchema>;
+export type WeeklyDigest = typeof weeklyDigests.$inferSelect;
+export type InsertWeeklyDigest = z.infer<typeof insertWeeklyDigestSchema>;
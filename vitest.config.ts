@@ -0,0 +1,22 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts"],
+    environment: "node",
+    // In-memory storage and the offline AI rules, whatever the shell has set
+    env: {
+      DATABASE_URL: "",
+      OPENAI_API_KEY: "",
+      AI_PROVIDER: "offline",
+      VAPID_PUBLIC_KEY: "",
+      VAPID_PRIVATE_KEY: "",
+    },
+  },
+});